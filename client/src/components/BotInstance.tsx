@@ -8,13 +8,39 @@ import {
   RefreshCw,
   Clock,
   Bot,
-  MessageSquare
+  MessageSquare,
+  Plus,
+  Trash2
 } from 'lucide-react'
 import QRCodePopup from './QRCodePopup'
 
 interface ConnectionStatus {
   connected: boolean
   message: string
+  instanceId?: number
+}
+
+// Número de WhatsApp do gestor (GET /api/whatsapp/instances)
+interface WhatsAppLine {
+  id: number
+  instance_name: string
+  phone_number?: string | null
+  status: 'disconnected' | 'connecting' | 'connected' | 'error'
+  project_id: number | null
+  routing_mode: 'bot' | 'human'
+  groups_enabled: boolean
+  group_prefix: string | null
+  message_stats?: {
+    received_today: number
+    sent_today: number
+    contacts: number
+    open_chats: number
+  }
+}
+
+interface ProjectOption {
+  id: number
+  name: string
 }
 
 interface BotInstanceProps {
@@ -37,6 +63,8 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
     limit: 1,
     canCreateMore: false
   })
+  const [instances, setInstances] = useState<WhatsAppLine[]>([])
+  const [projects, setProjects] = useState<ProjectOption[]>([])
 
   // Get user role from localStorage
   useEffect(() => {
@@ -64,6 +92,7 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
         if (data.stats) {
           setInstanceStats(data.stats)
         }
+        setInstances(data.instances || [])
       }
     } catch (error) {
       console.error('Erro ao buscar estatísticas de instâncias:', error)
@@ -75,6 +104,24 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
     fetchInstanceStats()
   }, [])
 
+  // Projetos que podem ser vinculados a cada número
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await fetch('/api/messages/projects', {
+          headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setProjects(data.projects.map((project: ProjectOption) => ({ id: project.id, name: project.name })))
+      } catch (error) {
+        console.error('❌ Erro ao carregar projetos:', error)
+      }
+    }
+
+    loadProjects()
+  }, [])
+
   const clearQRStates = () => {
     setShowQRPopup(false)
     setIsConnecting(false)
@@ -100,6 +147,7 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
         console.log('📡 Status recebido via socket:', data)
         setStatus(data)
         setIsLoading(false)
+        if (data.instanceId) fetchInstanceStats()
         
         // Se conectou com sucesso, fechar popup e limpar estados
         if (data.connected) {
@@ -134,6 +182,7 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
         console.log('📡 Status recebido via socket (socket existente):', data)
         setStatus(data)
         setIsLoading(false)
+        if (data.instanceId) fetchInstanceStats()
         
         // Se conectou com sucesso, fechar popup e limpar estados
         if (data.connected) {
@@ -244,7 +293,14 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
     }
   }, [status.connected, showQRPopup])
 
-  const startInstance = async () => {
+  // Conectar um número já cadastrado ou, sem instanceId, cadastrar um novo número
+  const startInstance = async (instanceId?: number) => {
+    let instanceName = ''
+    if (!instanceId) {
+      instanceName = prompt('Nome do número (ex: Vendas, Suporte):', `Número ${instanceStats.totalCount + 1}`)?.trim() || ''
+      if (!instanceName) return
+    }
+
     setIsLoading(true)
     setIsConnecting(true)
     setMessageCount(0)
@@ -265,36 +321,40 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
       
       const user = JSON.parse(userData)
       
-      // Criar instância no banco de dados primeiro
-      const response = await fetch('/api/whatsapp/instances', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${authToken}`
-        },
-        body: JSON.stringify({
-          instance_name: `Instância ${user.name}`,
-          webhook_url: null
+      // Número novo: criar instância no banco de dados primeiro
+      if (!instanceId) {
+        const response = await fetch('/api/whatsapp/instances', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${authToken}`
+          },
+          body: JSON.stringify({
+            instance_name: instanceName,
+            webhook_url: null
+          })
         })
-      })
-      
-      if (!response.ok) {
-        const errorData = await response.json()
-        setStatus({ connected: false, message: errorData.error || 'Erro ao criar instância' })
-        setIsLoading(false)
-        return
+        
+        if (!response.ok) {
+          const errorData = await response.json()
+          setStatus({ connected: false, message: errorData.error || 'Erro ao criar instância' })
+          clearQRStates()
+          setIsLoading(false)
+          return
+        }
+        
+        const instanceData = await response.json()
+        console.log('📄 Resposta da API:', instanceData)
+        instanceId = instanceData.instance.id as number
       }
       
-      const instanceData = await response.json()
-      
       // Agora iniciar a instância via socket com os IDs corretos
       const socketData = {
         managerId: user.id,
-        instanceId: instanceData.instance.id
+        instanceId
       }
       
       console.log('🔄 Enviando dados para socket:', socketData)
-      console.log('📄 Resposta da API:', instanceData)
       
       // Entrar na sala do gestor para receber eventos específicos
       socket?.emit('join_manager_room', user.id)
@@ -312,15 +372,14 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
     }
   }
 
-  const stopInstance = async () => {
+  const stopInstance = async (instanceId: number) => {
     setIsLoading(true)
     
     try {
       // Obter dados do usuário logado
       const userData = localStorage.getItem('user')
-      const authToken = localStorage.getItem('authToken')
       
-      if (!userData || !authToken) {
+      if (!userData) {
         setStatus({ connected: false, message: 'Usuário não autenticado' })
         setIsLoading(false)
         return
@@ -328,41 +387,70 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
       
       const user = JSON.parse(userData)
       
-      // Buscar instância ativa do usuário
-      const response = await fetch('/api/whatsapp/instances', {
-        headers: {
-          'Authorization': `Bearer ${authToken}`
-        }
+      socket?.emit('stop_instance', {
+        managerId: user.id,
+        instanceId
       })
       
-      if (response.ok) {
-        const instancesData = await response.json()
-        const activeInstance = instancesData.instances.find((inst: any) => inst.status === 'connected')
-        
-        if (activeInstance) {
-          socket?.emit('stop_instance', {
-            managerId: user.id,
-            instanceId: activeInstance.id
-          })
-        } else {
-          setStatus({ connected: false, message: 'Nenhuma instância ativa encontrada' })
-          setIsLoading(false)
-        }
-      } else {
-        setStatus({ connected: false, message: 'Erro ao buscar instâncias' })
-        setIsLoading(false)
-      }
-      
       // Atualizar estatísticas após parar instância
       await fetchInstanceStats()
       
     } catch (error) {
       console.error('Erro ao parar instância:', error)
       setStatus({ connected: false, message: 'Erro ao conectar com servidor' })
+    } finally {
       setIsLoading(false)
     }
   }
 
+  // Remover um número (desconecta antes de desativar a instância)
+  const removeInstance = async (line: WhatsAppLine) => {
+    if (!confirm(`Remover o número "${line.instance_name}"? As conversas continuam no histórico.`)) return
+
+    if (line.status === 'connected' || line.status === 'connecting') {
+      await stopInstance(line.id)
+    }
+
+    try {
+      const response = await fetch(`/api/whatsapp/instances/${line.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Erro ao remover número')
+      }
+    } catch (error) {
+      console.error('❌ Erro ao remover número:', error)
+    }
+
+    await fetchInstanceStats()
+  }
+
+  // Salvar projeto vinculado / modo de atendimento de um número
+  const updateInstanceSettings = async (instanceId: number, changes: Partial<Pick<WhatsAppLine, 'project_id' | 'routing_mode' | 'groups_enabled' | 'group_prefix'>>) => {
+    try {
+      const response = await fetch(`/api/whatsapp/instances/${instanceId}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.details?.join('\n') || data.error || 'Erro ao salvar configuração do número')
+        return
+      }
+
+      setInstances(prev => prev.map(line => line.id === instanceId ? { ...line, ...data.instance } : line))
+    } catch (error) {
+      console.error('❌ Erro ao salvar configuração do número:', error)
+    }
+  }
+
   const refreshStatus = async () => {
     setIsLoading(true)
     try {
@@ -429,6 +517,8 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
     await fetchInstanceStats()
   }
 
+  const hasConnectedLine = status.connected || instances.some(line => line.status === 'connected')
+
   const formatUptime = (ms: number): string => {
     const seconds = Math.floor(ms / 1000)
     const minutes = Math.floor(seconds / 60)
@@ -444,8 +534,8 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
           <Bot size={28} />
           <div>
             <h1>Instância Bot</h1>
-            <span className={`status-badge ${status.connected ? 'active' : 'inactive'}`}>
-              {status.connected ? 'Sistema Ativo' : 'Sistema Inativo'}
+            <span className={`status-badge ${hasConnectedLine ? 'active' : 'inactive'}`}>
+              {hasConnectedLine ? 'Sistema Ativo' : 'Sistema Inativo'}
             </span>
           </div>
         </div>
@@ -506,9 +596,10 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
             <div className="info-icon">👤</div>
             <div className="info-content">
               <h3>Conta Gestor</h3>
-              <p>Você pode ter <strong>apenas 1 instância ativa</strong> por vez. Para mais instâncias, contate o administrador.</p>
+              <p>Você pode ter <strong>até {instanceStats.limit || 1} números</strong> de WhatsApp, cada um com o seu projeto. Para mais números, contate o administrador.</p>
               <div className="instance-count">
-                Instâncias ativas: <strong>{instanceStats.activeCount}/{instanceStats.limit || 1}</strong>
+                Números cadastrados: <strong>{instanceStats.totalCount}/{instanceStats.limit || 1}</strong> | 
+                Conectados: <strong>{instanceStats.activeCount}</strong>
                 {!instanceStats.canCreateMore && (
                   <span className="limit-reached"> - Limite atingido</span>
                 )}
@@ -520,23 +611,110 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
 
       {/* Instance List */}
       <div className="instance-list-simple">
-        <h2>Instâncias Conectadas</h2>
+        <h2>Números de WhatsApp</h2>
         <div className="instances">
-          <div className={`instance-item ${status.connected ? 'connected' : 'disconnected'}`}>
-            <div className="instance-info">
-              <div className="instance-status">
-                <div className={`status-dot ${status.connected ? 'online' : 'offline'}`}></div>
-                <span>Instância Principal</span>
+          {instances.length === 0 && (
+            <p className="instance-empty">Nenhum número cadastrado. Clique em "Novo Número" para conectar um WhatsApp.</p>
+          )}
+          {instances.map(line => (
+            <div key={line.id} className={`instance-item ${line.status === 'connected' ? 'connected' : 'disconnected'}`}>
+              <div className="instance-info">
+                <div className="instance-status">
+                  <div className={`status-dot ${line.status === 'connected' ? 'online' : 'offline'}`}></div>
+                  <span>{line.instance_name}</span>
+                  {line.phone_number && <small>+{line.phone_number}</small>}
+                </div>
+                <div className="instance-details">
+                  {line.status === 'connected' ? (
+                    <span className="online-text">✅ WhatsApp Conectado</span>
+                  ) : line.status === 'connecting' ? (
+                    <span className="offline-text">⏳ Conectando...</span>
+                  ) : (
+                    <span className="offline-text">❌ Desconectado</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="instance-settings">
+                <label>
+                  Projeto
+                  <select
+                    value={line.project_id ?? ''}
+                    onChange={(e) => updateInstanceSettings(line.id, { project_id: e.target.value ? Number(e.target.value) : null })}
+                  >
+                    <option value="">Agendado / padrão do gestor</option>
+                    {projects.map(project => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Atendimento
+                  <select
+                    value={line.routing_mode}
+                    onChange={(e) => updateInstanceSettings(line.id, { routing_mode: e.target.value as WhatsAppLine['routing_mode'] })}
+                  >
+                    <option value="bot">Bot responde</option>
+                    <option value="human">Direto para atendentes</option>
+                  </select>
+                </label>
+                <label className="instance-settings-checkbox">
+                  <span>
+                    <input
+                      type="checkbox"
+                      checked={!!line.groups_enabled}
+                      onChange={(e) => updateInstanceSettings(line.id, { groups_enabled: e.target.checked })}
+                    />
+                    Responder em grupos
+                  </span>
+                  <small>Só quando o número é mencionado ou a mensagem começa com o prefixo</small>
+                </label>
+                {line.groups_enabled && (
+                  <label>
+                    Prefixo nos grupos
+                    <input
+                      type="text"
+                      maxLength={20}
+                      placeholder="Ex: !bot (opcional)"
+                      defaultValue={line.group_prefix ?? ''}
+                      onBlur={(e) => {
+                        if (e.target.value.trim() !== (line.group_prefix ?? '')) {
+                          updateInstanceSettings(line.id, { group_prefix: e.target.value.trim() || null })
+                        }
+                      }}
+                    />
+                  </label>
+                )}
               </div>
-              <div className="instance-details">
-                {status.connected ? (
-                  <span className="online-text">✅ WhatsApp Conectado</span>
+
+              {line.message_stats && (
+                <div className="instance-line-stats">
+                  <span>📥 {line.message_stats.received_today} recebidas hoje</span>
+                  <span>📤 {line.message_stats.sent_today} enviadas hoje</span>
+                  <span>👥 {line.message_stats.contacts} contatos</span>
+                  <span>💬 {line.message_stats.open_chats} em atendimento</span>
+                </div>
+              )}
+
+              <div className="instance-line-actions">
+                {line.status === 'connected' || line.status === 'connecting' ? (
+                  <button className="btn-simple btn-secondary" onClick={() => stopInstance(line.id)} disabled={isLoading}>
+                    <Square size={16} />
+                    Parar
+                  </button>
                 ) : (
-                  <span className="offline-text">❌ Desconectado</span>
+                  <button className="btn-simple btn-primary" onClick={() => startInstance(line.id)} disabled={isLoading}>
+                    <Play size={16} />
+                    Conectar
+                  </button>
                 )}
+                <button className="btn-simple btn-info" onClick={() => removeInstance(line)} disabled={isLoading}>
+                  <Trash2 size={16} />
+                  Remover
+                </button>
               </div>
             </div>
-          </div>
+          ))}
         </div>
       </div>
 
@@ -544,19 +722,11 @@ function BotInstance({ socket, setSocket }: BotInstanceProps) {
       <div className="actions-simple">
         <button 
           className="btn-simple btn-primary" 
-          onClick={startInstance}
-          disabled={isLoading || status.connected}
-        >
-          <Play size={16} />
-          {isConnecting ? 'Aguarde...' : 'Iniciar Instância'}
-        </button>
-        <button 
-          className="btn-simple btn-secondary" 
-          onClick={stopInstance}
-          disabled={isLoading || !status.connected}
+          onClick={() => startInstance()}
+          disabled={isLoading || !instanceStats.canCreateMore}
         >
-          <Square size={16} />
-          Parar Instância
+          <Plus size={16} />
+          {isConnecting ? 'Aguarde...' : 'Novo Número'}
         </button>
         <button 
           className="btn-simple btn-info" 
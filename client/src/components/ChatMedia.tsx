@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react'
+import { FileText, MapPin } from 'lucide-react'
+
+interface ChatMediaProps {
+  type: string
+  url: string | null
+  name?: string | null
+}
+
+// Mídia de uma mensagem do chat. Arquivos da API exigem o token, então são baixados
+// com fetch e exibidos por um endereço local (blob) em vez de irem direto no <img>
+function ChatMedia({ type, url, name }: ChatMediaProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+  const isApiFile = !!url && url.startsWith('/api/')
+
+  useEffect(() => {
+    if (!url || !isApiFile) return
+
+    let cancelled = false
+    let created: string | null = null
+
+    const loadMedia = async () => {
+      try {
+        const response = await fetch(url, {
+          headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        })
+        if (!response.ok) {
+          if (!cancelled) setFailed(true)
+          return
+        }
+        created = URL.createObjectURL(await response.blob())
+        if (cancelled) {
+          URL.revokeObjectURL(created)
+          return
+        }
+        setObjectUrl(created)
+      } catch (error) {
+        console.error('❌ Erro ao carregar mídia:', error)
+        if (!cancelled) setFailed(true)
+      }
+    }
+
+    loadMedia()
+
+    return () => {
+      cancelled = true
+      if (created) URL.revokeObjectURL(created)
+    }
+  }, [url, isApiFile])
+
+  if (!url || failed) {
+    return <div className="chat-media-unavailable">📎 Mídia não disponível</div>
+  }
+
+  // Links externos (ex: localização no Google Maps)
+  if (!isApiFile) {
+    return (
+      <a className="chat-media-link" href={url} target="_blank" rel="noreferrer">
+        {type === 'location' ? <MapPin size={14} /> : <FileText size={14} />}
+        {type === 'location' ? 'Ver localização' : name || 'Abrir arquivo'}
+      </a>
+    )
+  }
+
+  if (!objectUrl) {
+    return <div className="chat-media-loading">Carregando mídia...</div>
+  }
+
+  switch (type) {
+    case 'image':
+      return (
+        <a href={objectUrl} target="_blank" rel="noreferrer">
+          <img className="chat-media-image" src={objectUrl} alt={name || 'Imagem recebida'} />
+        </a>
+      )
+    case 'audio':
+      return <audio className="chat-media-audio" controls src={objectUrl} />
+    case 'video':
+      return <video className="chat-media-video" controls src={objectUrl} />
+    default:
+      return (
+        <a className="chat-media-link" href={objectUrl} download={name || 'documento'}>
+          <FileText size={14} />
+          {name || 'Documento'}
+        </a>
+      )
+  }
+}
+
+export default ChatMedia
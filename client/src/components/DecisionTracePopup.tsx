@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react'
+import { X, Brain } from 'lucide-react'
+
+interface DecisionCandidate {
+  message_id: number
+  trigger_words: string[]
+  match_mode: string
+  matched: boolean
+}
+
+// Resposta de GET /api/messages/human-chats/:chatId/decision-traces
+interface DecisionTrace {
+  id: number
+  decision_kind: string
+  input_text: string | null
+  normalized_text: string | null
+  matched_message_id: number | null
+  destination: string | null
+  handoff_reason: string | null
+  project_version_id: number | null
+  details: {
+    trace: string[]
+    candidates: DecisionCandidate[]
+  }
+  created_at: string
+}
+
+interface DecisionTracePopupProps {
+  chatId: string
+  contactName: string
+  isVisible: boolean
+  onClose: () => void
+}
+
+const KIND_LABELS: Record<string, string> = {
+  handoff_keyword: '🙋 Palavra-chave de atendimento',
+  form: '📋 Formulário',
+  flow: '🔀 Fluxo visual',
+  auto_message: '💬 Mensagem automática',
+  wildcard: '✳️ Gatilho "*"',
+  city_origin: '🏙️ Cidade de origem',
+  city_available: '🚌 Destino disponível',
+  city_unavailable: '🚫 Destino fora do catálogo',
+  intent: '🧠 Classificador de intenção',
+  fallback: '❓ Nada correspondeu',
+  human_chat_active: '👤 Em atendimento humano (bot desligado)',
+  human_routing: '👤 Número direto para atendentes',
+  opt_out: '🔕 Pediu para não receber mensagens',
+  opt_in: '🔔 Voltou a receber mensagens',
+  opted_out: '🔕 Contato descadastrado (bot desligado)',
+  rate_limited: '🚦 Muitas mensagens seguidas (bot pausado)',
+  coalesced: '🔗 Respondida junto com a mensagem seguinte'
+}
+
+function DecisionTracePopup({ chatId, contactName, isVisible, onClose }: DecisionTracePopupProps) {
+  const [traces, setTraces] = useState<DecisionTrace[]>([])
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const loadTraces = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch(`/api/messages/human-chats/${chatId}/decision-traces`, {
+          headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setTraces(data.traces)
+        setExpandedId(null)
+      } catch (error) {
+        console.error('❌ Erro ao carregar decisões do bot:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadTraces()
+  }, [isVisible, chatId])
+
+  if (!isVisible) return null
+
+  return (
+    <div className="qr-popup-overlay">
+      <div className="qr-popup decision-trace-popup">
+        <div className="qr-popup-header">
+          <div className="qr-popup-title">
+            <Brain size={24} />
+            <h2>Decisões do bot - {contactName}</h2>
+          </div>
+          <button className="qr-popup-close" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="decision-trace-content">
+          {isLoading ? (
+            <p>Carregando...</p>
+          ) : traces.length === 0 ? (
+            <p>Nenhuma decisão registrada para este contato.</p>
+          ) : (
+            traces.map(trace => (
+              <div key={trace.id} className={`decision-trace-item ${trace.handoff_reason ? 'handoff' : ''}`}>
+                <button
+                  className="decision-trace-summary"
+                  onClick={() => setExpandedId(expandedId === trace.id ? null : trace.id)}
+                >
+                  <span className="decision-trace-time">{new Date(trace.created_at).toLocaleString('pt-BR')}</span>
+                  <strong>"{trace.input_text || ''}"</strong>
+                  <span>{KIND_LABELS[trace.decision_kind] || trace.decision_kind}</span>
+                  {trace.matched_message_id && <span>→ mensagem #{trace.matched_message_id}</span>}
+                  {trace.destination && <span>→ {trace.destination}</span>}
+                </button>
+
+                {trace.handoff_reason && (
+                  <div className="decision-trace-handoff">Transferido: {trace.handoff_reason}</div>
+                )}
+
+                {expandedId === trace.id && (
+                  <div className="decision-trace-details">
+                    <p><small>Texto comparado: <code>{trace.normalized_text || '—'}</code> · {trace.project_version_id ? `versão publicada #${trace.project_version_id}` : 'rascunho do projeto'}</small></p>
+                    <ol>
+                      {trace.details.trace.map((line, index) => <li key={index}>{line}</li>)}
+                    </ol>
+                    {trace.details.candidates.length > 0 && (
+                      <>
+                        <h4>Mensagens automáticas avaliadas</h4>
+                        <ul className="decision-trace-candidates">
+                          {trace.details.candidates.map(candidate => (
+                            <li key={candidate.message_id} className={candidate.matched ? 'matched' : ''}>
+                              {candidate.matched ? '✅' : '▫️'} #{candidate.message_id} ({candidate.match_mode}): {candidate.trigger_words.join(', ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DecisionTracePopup
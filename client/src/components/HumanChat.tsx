@@ -12,8 +12,18 @@ import {
   Send,
   Phone,
   MoreVertical,
-  Search
+  Search,
+  Brain,
+  Ban,
+  ShieldCheck,
+  Check,
+  CheckCheck,
+  Clock,
+  AlertCircle,
+  RotateCcw
 } from 'lucide-react'
+import DecisionTracePopup from './DecisionTracePopup'
+import ChatMedia from './ChatMedia'
 
 interface ChatMessage {
   id: string
@@ -23,6 +33,37 @@ interface ChatMessage {
   timestamp: Date
   isFromBot: boolean
   isFromHuman: boolean
+  messageType?: string        // 'text', 'image', 'audio', 'video', 'document' ou 'location'
+  mediaUrl?: string | null
+  mediaName?: string | null   // Nome original de documentos
+  status?: MessageStatus      // Fila de envio e confirmação do WhatsApp (mensagens do bot e dos atendentes)
+  sendError?: string | null   // Motivo da falha de envio
+}
+
+type MessageStatus = 'pending' | 'failed' | 'sent' | 'delivered' | 'read'
+
+const MESSAGE_STATUS_LABELS = {
+  pending: 'Aguardando envio',
+  failed: 'Falha no envio',
+  sent: 'Enviada',
+  delivered: 'Entregue',
+  read: 'Lida'
+}
+
+// Ordem das situações: uma confirmação atrasada não faz a mensagem "voltar" (ex: enviada depois de entregue)
+const MESSAGE_STATUS_ORDER: MessageStatus[] = ['pending', 'failed', 'sent', 'delivered', 'read']
+
+// Situação de uma mensagem enviada, a partir da fila de envio e das confirmações do WhatsApp
+const getMessageStatus = (msg: {
+  sender_type: string
+  send_status?: string | null
+  delivered_at?: string | null
+  read_at?: string | null
+}): MessageStatus | undefined => {
+  if (msg.sender_type === 'contact') return undefined
+  if (msg.send_status === 'failed') return 'failed'
+  if (msg.send_status === 'pending' || msg.send_status === 'sending') return 'pending'
+  return msg.read_at ? 'read' : msg.delivered_at ? 'delivered' : 'sent'
 }
 
 interface HumanChat {
@@ -36,6 +77,10 @@ interface HumanChat {
   createdAt: Date
   lastActivity: Date
   transferReason: string
+  instanceName?: string // Número de WhatsApp (instância) por onde a conversa chegou
+  isBlocked?: boolean   // Contato bloqueado: mensagens ignoradas e envio desativado
+  optedOut?: boolean    // Contato pediu para não receber mensagens ("parar", "sair")
+  isGroup?: boolean     // Conversa de grupo do WhatsApp (contactNumber é o ID do grupo)
   transferFrom?: number
   transferTo?: number
   transferFromName?: string
@@ -44,6 +89,9 @@ interface HumanChat {
   unreadCount?: number
 }
 
+// ID da conversa no WhatsApp: contato (@c.us) ou grupo (@g.us)
+const toWhatsAppChatId = (chat: HumanChat) => `${chat.contactNumber}@${chat.isGroup ? 'g' : 'c'}.us`
+
 interface Operator {
   id: number
   name: string
@@ -111,6 +159,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
   }
 
   const [showStatusDropdown, setShowStatusDropdown] = useState<string | null>(null)
+  const [showDecisionTrace, setShowDecisionTrace] = useState(false)
   const [showTransferModal, setShowTransferModal] = useState<string | null>(null)
   const [transferOperator, setTransferOperator] = useState('')
   const [transferReason, setTransferReason] = useState('')
@@ -195,6 +244,10 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
             createdAt: new Date(chat.created_at),
             lastActivity: new Date(chat.updated_at),
             transferReason: chat.transfer_reason || 'Solicitação do cliente',
+            instanceName: chat.instance_name || undefined,
+            isBlocked: !!chat.contact_blocked,
+            optedOut: !!chat.contact_opted_out,
+            isGroup: chat.contact_type === 'group',
             transferFrom: chat.transfer_from || undefined,
             transferTo: chat.transfer_to || undefined,
             transferFromName: chat.transfer_from_name || undefined,
@@ -227,6 +280,61 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
     }
   }
 
+  // Bloquear ou desbloquear o contato da conversa
+  const handleToggleBlock = async (chat: HumanChat) => {
+    const blocked = !chat.isBlocked
+    if (blocked && !confirm(`Bloquear ${chat.contactName}? As mensagens do contato serão ignoradas e ninguém poderá enviar mensagens para ele.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/messages/human-chats/${chat.id}/block`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ blocked })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(`Erro ao ${blocked ? 'bloquear' : 'desbloquear'} contato: ${data.error}`)
+        return
+      }
+
+      setHumanChats(prevChats => prevChats.map(item =>
+        item.contactNumber === chat.contactNumber ? { ...item, isBlocked: !!data.contact.is_blocked } : item
+      ))
+    } catch (error) {
+      console.error('❌ Erro ao bloquear contato:', error)
+    }
+  }
+
+  // Reenviar uma mensagem que falhou (volta para a fila de envio)
+  const handleRetryMessage = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/messages/outbound/${messageId}/retry`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
+          'Content-Type': 'application/json'
+        }
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        alert(`Erro ao reenviar mensagem: ${data.error}`)
+        return
+      }
+
+      setHumanChats(prevChats => prevChats.map(chat => ({
+        ...chat,
+        messages: chat.messages.map(msg => msg.id === messageId ? { ...msg, status: 'pending' as const, sendError: null } : msg)
+      })))
+    } catch (error) {
+      console.error('❌ Erro ao reenviar mensagem:', error)
+    }
+  }
+
   // Função para assumir uma conversa
   const handleTakeChat = async (chatId: string) => {
     try {
@@ -348,7 +456,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
           const currentChat = humanChats.find(chat => chat.id === chatId)
           if (currentChat) {
             socket.emit('send_system_message', {
-              chatId: currentChat.contactNumber + '@c.us',
+              chatId: toWhatsAppChatId(currentChat),
               message: `🔄 *${currentUser.name}* assumiu o atendimento desta conversa.`,
               operatorName: currentUser.name
             })
@@ -459,12 +567,17 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
           console.log('🔄 Convertendo mensagem:', msg)
           return {
             id: msg.id.toString(),
-            from: msg.sender_type === 'contact' ? `${currentChat.contactNumber}@c.us` : msg.sender_type,
-            to: msg.sender_type === 'contact' ? 'operator' : `${currentChat.contactNumber}@c.us`,
+            from: msg.sender_type === 'contact' ? toWhatsAppChatId(currentChat) : msg.sender_type,
+            to: msg.sender_type === 'contact' ? 'operator' : toWhatsAppChatId(currentChat),
             body: msg.content,
             timestamp: new Date(msg.created_at),
             isFromBot: msg.sender_type === 'bot',
-            isFromHuman: msg.sender_type === 'operator'
+            isFromHuman: msg.sender_type === 'operator',
+            messageType: msg.message_type,
+            mediaUrl: msg.media_url,
+            mediaName: msg.media_name,
+            status: getMessageStatus(msg),
+            sendError: msg.send_error
           }
         })
         
@@ -661,7 +774,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
     // Enviar via socket - a mensagem será adicionada via operator_message_saved
     if (socket) {
       const messageData = {
-        chatId: currentChat.contactNumber + '@c.us',
+        chatId: toWhatsAppChatId(currentChat),
         message: newChatMessage.trim(),
         operatorName: operatorName
       };
@@ -806,6 +919,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       chatId: string,
       message: string,
       messageId: number,
+      status?: MessageStatus,
       timestamp: string,
       operatorName: string
     }) => {
@@ -818,7 +932,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       }
       
       // Encontrar o chat e adicionar a mensagem (verificar se não existe)
-      const phoneNumber = data.chatId.replace('@c.us', '')
+      const phoneNumber = data.chatId.replace(/@[cg]\.us$/, '')
       setHumanChats(chats => chats.map(chat => {
         if (chat.contactNumber === phoneNumber) {
           // Verificar se a mensagem já existe
@@ -832,14 +946,15 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
             return chat
           }
           
-          const newMessage = {
+          const newMessage: ChatMessage = {
             id: data.messageId.toString(),
             from: 'operator',
             to: data.chatId,
             body: data.message,
             timestamp: new Date(data.timestamp),
             isFromBot: false,
-            isFromHuman: true
+            isFromHuman: true,
+            status: data.status || 'pending'
           }
           
           return {
@@ -857,6 +972,9 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       message: string
       timestamp: Date
       customerName: string
+      messageId?: number
+      messageType?: string
+      mediaUrl?: string | null
     }) => {
       console.log('📩 Mensagem do cliente recebida via socket:', data)
       console.log('📩 Chats atuais:', humanChats.map(c => ({id: c.id, contactNumber: c.contactNumber})))
@@ -869,15 +987,17 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       )
       
       // Adicionar mensagem do cliente ao chat existente
-      const customerPhone = data.chatId.replace('@c.us', '')
+      const customerPhone = data.chatId.replace(/@[cg]\.us$/, '')
       const newMessage: ChatMessage = {
-        id: Date.now().toString(),
+        id: data.messageId ? data.messageId.toString() : Date.now().toString(),
         from: data.chatId,
         to: 'operator',
         body: data.message,
         timestamp: new Date(data.timestamp),
         isFromBot: false,
-        isFromHuman: false
+        isFromHuman: false,
+        messageType: data.messageType,
+        mediaUrl: data.mediaUrl
       }
       
       setHumanChats(chats =>
@@ -914,6 +1034,23 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       )
     })
 
+    // Envio pela fila (enviada ou falha) e confirmação de entrega/leitura de uma mensagem
+    socket.on('message_status', (data: { messageId: number, status: MessageStatus, error?: string | null }) => {
+      if (!data.messageId) return
+      const messageId = data.messageId.toString()
+      const updateMessage = (msg: ChatMessage): ChatMessage => {
+        if (msg.id !== messageId) return msg
+        const current = MESSAGE_STATUS_ORDER.indexOf(msg.status || 'pending')
+        if (data.status !== 'failed' && MESSAGE_STATUS_ORDER.indexOf(data.status) < current) return msg
+        return { ...msg, status: data.status, sendError: data.error || null }
+      }
+      setHumanChats(chats => chats.map(chat =>
+        chat.messages.some(msg => msg.id === messageId)
+          ? { ...chat, messages: chat.messages.map(updateMessage) }
+          : chat
+      ))
+    })
+
     socket.on('chat_transferred', (data: {
       chatId: string
       fromOperator: string
@@ -977,6 +1114,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
       socket.off('human_chat_requested')
       socket.off('customer_message')
       socket.off('operator_message_saved')
+      socket.off('message_status')
       socket.off('chat_transferred')
       socket.off('dashboard_chat_update')
       socket.off('operator_message_error')
@@ -1149,7 +1287,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                   </div>
                   <div className="chat-info-compact">
                     <div className="chat-header-row">
-                      <span className="chat-name-compact">{chat.contactName}</span>
+                      <span className="chat-name-compact">{chat.isGroup && '👥 '}{chat.contactName}</span>
                     </div>
                     <div className="chat-content-row">
                       <span className="chat-preview-compact">
@@ -1201,7 +1339,12 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                     </div>
                     <div className="contact-details-compact">
                       <span className="contact-name-compact">{currentChat.contactName}</span>
-                      <span className="contact-number-compact">{currentChat.contactNumber}</span>
+                      <span className="contact-number-compact">
+                        {currentChat.isGroup ? '👥 Grupo' : currentChat.contactNumber}
+                        {currentChat.instanceName && ` • via ${currentChat.instanceName}`}
+                        {currentChat.isBlocked && ' • 🚫 Bloqueado'}
+                        {currentChat.optedOut && ' • 🔕 Pediu para não receber mensagens'}
+                      </span>
                       <span className="contact-status-compact">
                         {currentChat.status === 'active' && '🟢 Online'}
                         {currentChat.status === 'pending' && '🟡 Pendente'}
@@ -1219,6 +1362,16 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                     <button className="chat-action-btn" title="Ligar">
                       <Phone size={16} />
                     </button>
+                    <button className="chat-action-btn" title="Por que o bot respondeu assim?" onClick={() => setShowDecisionTrace(true)}>
+                      <Brain size={16} />
+                    </button>
+                    <button
+                      className={`chat-action-btn ${currentChat.isBlocked ? 'active' : ''}`}
+                      title={currentChat.isBlocked ? 'Desbloquear contato' : 'Bloquear contato'}
+                      onClick={() => handleToggleBlock(currentChat)}
+                    >
+                      {currentChat.isBlocked ? <ShieldCheck size={16} /> : <Ban size={16} />}
+                    </button>
                     <button className="chat-action-btn" title="Mais opções">
                       <MoreVertical size={16} />
                     </button>
@@ -1340,10 +1493,34 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                         className={`message ${message.isFromBot ? 'bot' : message.isFromHuman ? 'human' : 'customer'}`}
                       >
                         <div className="message-content">
-                          <div className="message-text">{message.body}</div>
+                          {message.messageType && message.messageType !== 'text' && (
+                            <ChatMedia type={message.messageType} url={message.mediaUrl || null} name={message.mediaName} />
+                          )}
+                          {message.body && <div className="message-text">{message.body}</div>}
                           <div className="message-time">
                             {new Date(message.timestamp).toLocaleTimeString('pt-BR')}
+                            {message.status && (
+                              <span
+                                className={`message-status ${message.status}`}
+                                title={message.sendError ? `${MESSAGE_STATUS_LABELS[message.status]}: ${message.sendError}` : MESSAGE_STATUS_LABELS[message.status]}
+                              >
+                                {message.status === 'pending' && <Clock size={12} />}
+                                {message.status === 'failed' && <AlertCircle size={12} />}
+                                {message.status === 'sent' && <Check size={12} />}
+                                {(message.status === 'delivered' || message.status === 'read') && <CheckCheck size={12} />}
+                              </span>
+                            )}
                           </div>
+                          {message.status === 'failed' && (
+                            <button
+                              className="message-retry-btn"
+                              onClick={() => handleRetryMessage(message.id)}
+                              title={message.sendError || 'Falha no envio'}
+                            >
+                              <RotateCcw size={12} />
+                              Reenviar
+                            </button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -1355,11 +1532,18 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                         value={newChatMessage}
                         onChange={(e) => setNewChatMessage(e.target.value)}
                         placeholder={
-                          currentChat.status === 'pending' && !currentChat.assignedOperator 
-                            ? `Assuma a conversa para responder...`
-                            : `Responder para ${currentChat.contactName}...`
+                          currentChat.isBlocked
+                            ? 'Contato bloqueado - desbloqueie para responder'
+                            : currentChat.optedOut
+                              ? 'O contato pediu para não receber mensagens'
+                              : currentChat.status === 'pending' && !currentChat.assignedOperator 
+                                ? `Assuma a conversa para responder...`
+                                : `Responder para ${currentChat.contactName}...`
+                        }
+                        disabled={
+                          currentChat.isBlocked || currentChat.optedOut ||
+                          (currentChat.status === 'pending' && !currentChat.assignedOperator)
                         }
-                        disabled={currentChat.status === 'pending' && !currentChat.assignedOperator}
                         onKeyDown={(e) => {
                           if (e.key === 'Enter' && !e.shiftKey) {
                             e.preventDefault()
@@ -1372,6 +1556,7 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
                         onClick={sendMessage}
                         disabled={
                           !newChatMessage.trim() ||
+                          currentChat.isBlocked || currentChat.optedOut ||
                           (currentChat.status === 'pending' && !currentChat.assignedOperator)
                         }
                         title="Enviar mensagem"
@@ -1574,6 +1759,15 @@ function HumanChat({ socket, onUnreadCountChange }: HumanChatProps) {
           </div>
         </div>
       )}
+
+      {selectedChat && (
+        <DecisionTracePopup
+          chatId={selectedChat}
+          contactName={humanChats.find(chat => chat.id === selectedChat)?.contactName || 'Cliente'}
+          isVisible={showDecisionTrace}
+          onClose={() => setShowDecisionTrace(false)}
+        />
+      )}
     </div>
   )
 }
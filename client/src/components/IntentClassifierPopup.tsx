@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react'
+import { X, Brain, RefreshCw } from 'lucide-react'
+
+// Resposta de GET /api/messages/projects/:id/intent
+interface IntentClassifier {
+  is_enabled: boolean
+  confidence_threshold: number
+  examples: number
+  history_examples: number
+  intents: number
+  trained_at: string | null
+}
+
+interface IntentTestResult {
+  prediction: { message_id: number, confidence: number, tokens: string[] } | null
+  would_answer: boolean
+  threshold: number
+}
+
+interface IntentClassifierPopupProps {
+  projectId: string
+  projectName: string
+  isVisible: boolean
+  onClose: () => void
+}
+
+function IntentClassifierPopup({ projectId, projectName, isVisible, onClose }: IntentClassifierPopupProps) {
+  const [classifier, setClassifier] = useState<IntentClassifier | null>(null)
+  const [threshold, setThreshold] = useState(0.6)
+  const [testText, setTestText] = useState('')
+  const [testResult, setTestResult] = useState<IntentTestResult | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (path: string, options: RequestInit = {}) => {
+    const authToken = localStorage.getItem('authToken')
+    const response = await fetch(`/api/messages/projects/${projectId}/intent${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.details ? data.details.join('\n') : data.error || 'Erro na requisição')
+    }
+    return data
+  }
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const loadClassifier = async () => {
+      try {
+        const response = await fetch(`/api/messages/projects/${projectId}/intent`, {
+          headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setClassifier(data.classifier)
+        setThreshold(data.classifier.confidence_threshold)
+        setTestResult(null)
+      } catch (error) {
+        console.error('❌ Erro ao carregar classificador de intenção:', error)
+      }
+    }
+
+    loadClassifier()
+  }, [isVisible, projectId])
+
+  const save = async (changes: { is_enabled?: boolean, confidence_threshold?: number }) => {
+    try {
+      setIsSaving(true)
+      const data = await request('', { method: 'PUT', body: JSON.stringify(changes) })
+      setClassifier(data.classifier)
+    } catch (error) {
+      alert(`Erro ao salvar classificador: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const train = async () => {
+    try {
+      setIsSaving(true)
+      const data = await request('/train', { method: 'POST' })
+      setClassifier(data.classifier)
+      setTestResult(null)
+    } catch (error) {
+      alert(`Erro ao treinar classificador: ${(error as Error).message}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const test = async () => {
+    if (!testText.trim()) return
+    try {
+      setTestResult(await request('/classify', { method: 'POST', body: JSON.stringify({ text: testText }) }))
+    } catch (error) {
+      alert(`Erro ao testar: ${(error as Error).message}`)
+    }
+  }
+
+  if (!isVisible) return null
+
+  return (
+    <div className="qr-popup-overlay">
+      <div className="qr-popup intent-classifier-popup">
+        <div className="qr-popup-header">
+          <div className="qr-popup-title">
+            <Brain size={24} />
+            <h2>Entender frases livres - {projectName}</h2>
+          </div>
+          <button className="qr-popup-close" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="intent-classifier-content">
+          <p className="intent-classifier-help">
+            Quando nenhum gatilho corresponde, o bot tenta descobrir qual mensagem automática responde melhor,
+            aprendendo com os gatilhos e com conversas anteriores. Abaixo da confiança mínima, a conversa segue para um atendente como hoje.
+          </p>
+
+          {classifier && (
+            <>
+              <label className="intent-classifier-toggle">
+                <input
+                  type="checkbox"
+                  checked={classifier.is_enabled}
+                  disabled={isSaving}
+                  onChange={(e) => save({ is_enabled: e.target.checked })}
+                />
+                Usar o classificador neste projeto
+              </label>
+
+              <div className="intent-classifier-threshold">
+                <label>Confiança mínima: <strong>{Math.round(threshold * 100)}%</strong></label>
+                <input
+                  type="range"
+                  min={0.3}
+                  max={1}
+                  step={0.05}
+                  value={threshold}
+                  onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                  onMouseUp={() => save({ confidence_threshold: threshold })}
+                  onKeyUp={() => save({ confidence_threshold: threshold })}
+                />
+              </div>
+
+              <div className="intent-classifier-stats">
+                <span>
+                  {classifier.trained_at
+                    ? `Treinado em ${new Date(classifier.trained_at).toLocaleString('pt-BR')}: ${classifier.intents} mensagem(ns), ${classifier.examples} exemplo(s) (${classifier.history_examples} de conversas)`
+                    : 'Ainda não treinado'}
+                </span>
+                <button className="btn-modern btn-secondary" onClick={train} disabled={isSaving}>
+                  <RefreshCw size={14} />
+                  Treinar agora
+                </button>
+              </div>
+
+              <div className="intent-classifier-test">
+                <input
+                  type="text"
+                  value={testText}
+                  placeholder='Teste uma frase, ex: "queria ir pra sao luis amanha cedo"'
+                  onChange={(e) => setTestText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && test()}
+                />
+                <button className="btn-modern btn-primary" onClick={test} disabled={!classifier.trained_at}>
+                  Testar
+                </button>
+              </div>
+
+              {testResult && (
+                <div className={`intent-classifier-result ${testResult.would_answer ? 'answers' : ''}`}>
+                  {testResult.prediction ? (
+                    <>
+                      Mensagem #{testResult.prediction.message_id} com {Math.round(testResult.prediction.confidence * 100)}% de confiança
+                      {testResult.would_answer ? ' - o bot responderia com ela.' : ' - abaixo do mínimo, iria para um atendente.'}
+                      <small> Palavras consideradas: {testResult.prediction.tokens.join(', ')}</small>
+                    </>
+                  ) : (
+                    'Nenhuma palavra conhecida - iria para um atendente.'
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default IntentClassifierPopup
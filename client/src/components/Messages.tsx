@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import {
   MessageSquareText,
   MessageCircle,
@@ -32,16 +32,133 @@ import {
   Bot,
   List,
   Send,
-  Phone
+  Phone,
+  Filter,
+  ClipboardList,
+  Paperclip,
+  Layers,
+  History,
+  CalendarClock,
+  ScanSearch,
+  Brain
 } from 'lucide-react'
+import ProjectVersionsPopup from './ProjectVersionsPopup'
+import UnmatchedReportPopup from './UnmatchedReportPopup'
+import IntentClassifierPopup from './IntentClassifierPopup'
+import ProjectSchedulePopup, { type ProjectActivation } from './ProjectSchedulePopup'
+
+type MatchMode = 'exact' | 'normalized' | 'contains' | 'starts_with' | 'regex' | 'fuzzy'
+type ActionType = 'reply' | 'reply_and_handoff' | 'handoff_only'
+type FormFieldType = 'text' | 'name' | 'cpf' | 'date' | 'phone' | 'email' | 'number'
+type AttachmentType = 'image' | 'document' | 'audio' | 'video' | 'location'
+type VariantMode = 'random' | 'round_robin'
+
+interface TemplateAttachment {
+  type: AttachmentType
+  originalName?: string
+  mimeType?: string
+  size?: number
+  latitude?: number
+  longitude?: number
+  locationName?: string
+}
+
+// Anexos aceitos nas respostas automáticas (accept = tipos do seletor de arquivo)
+const ATTACHMENT_TYPE_OPTIONS: { value: AttachmentType, label: string, accept: string }[] = [
+  { value: 'image', label: 'Imagem', accept: 'image/jpeg,image/png,image/webp,image/gif' },
+  { value: 'document', label: 'Documento (PDF, planilha)', accept: '.pdf,.doc,.docx,.xls,.xlsx,.txt,.csv' },
+  { value: 'audio', label: 'Áudio', accept: 'audio/*' },
+  { value: 'video', label: 'Vídeo', accept: 'video/mp4,video/3gpp' },
+  { value: 'location', label: 'Localização', accept: '' }
+]
+
+interface FormField {
+  key: string
+  label: string
+  type: FormFieldType
+  question?: string
+  required?: boolean
+}
+
+// Tipos de campo validados pelo bot no nó de formulário
+const FORM_FIELD_TYPE_OPTIONS: { value: FormFieldType, label: string }[] = [
+  { value: 'text', label: 'Texto livre' },
+  { value: 'name', label: 'Nome completo' },
+  { value: 'cpf', label: 'CPF' },
+  { value: 'date', label: 'Data' },
+  { value: 'phone', label: 'Telefone' },
+  { value: 'email', label: 'E-mail' },
+  { value: 'number', label: 'Número' }
+]
+
+// Mensagem da sequência de resposta (a primeira usa o texto principal do template)
+interface TemplateStep {
+  text: string
+  alternativesText: string // Frases alternativas separadas por uma linha com "---"
+  typingSeconds: string    // Vazio = tempo proporcional ao tamanho do texto
+}
 
 interface AutoTemplate {
   id: string
   trigger: string[]
+  matchMode?: MatchMode
   response: string
+  steps?: TemplateStep[]
+  variantMode?: VariantMode
+  action?: ActionType
+  attachment?: TemplateAttachment | null
   active: boolean
 }
 
+// Como escolher entre as frases alternativas (mesmos valores aceitos pelo servidor)
+const VARIANT_MODE_OPTIONS: { value: VariantMode, label: string }[] = [
+  { value: 'random', label: 'Aleatória' },
+  { value: 'round_robin', label: 'Alternar em ordem (rodízio)' }
+]
+
+const emptyStep = (text = ''): TemplateStep => ({ text, alternativesText: '', typingSeconds: '' })
+
+// Converter a sequência do banco (response_steps) para o formato do editor
+const fromResponseSteps = (steps: { text: string, alternatives?: string[], typing_ms?: number | null }[] | null): TemplateStep[] =>
+  (steps || []).map(step => ({
+    text: step.text,
+    alternativesText: (step.alternatives || []).join('\n---\n'),
+    typingSeconds: step.typing_ms !== undefined && step.typing_ms !== null ? String(step.typing_ms / 1000) : ''
+  }))
+
+// Sequência enviada ao servidor (null quando a resposta é uma mensagem simples)
+const toResponseSteps = (template: Partial<AutoTemplate>) => {
+  const steps = template.steps && template.steps.length > 0 ? template.steps : [emptyStep()]
+  const converted = steps.map((step, index) => {
+    const alternatives = step.alternativesText.split(/\n\s*-{3,}\s*\n/).map(text => text.trim()).filter(text => text !== '')
+    const typingMs = Math.round(Number(step.typingSeconds.replace(',', '.')) * 1000)
+    return {
+      text: index === 0 ? template.response || '' : step.text,
+      ...(alternatives.length > 0 ? { alternatives } : {}),
+      ...(step.typingSeconds.trim() !== '' && !isNaN(typingMs) ? { typing_ms: typingMs } : {})
+    }
+  })
+  const isSingleMessage = converted.length === 1 && !converted[0].alternatives && converted[0].typing_ms === undefined
+  return isSingleMessage ? null : converted
+}
+
+// Modos de correspondência dos gatilhos (mesmos valores aceitos pelo servidor)
+const MATCH_MODE_OPTIONS: { value: MatchMode, label: string }[] = [
+  { value: 'exact', label: 'Exata (mensagem igual à palavra-chave)' },
+  { value: 'normalized', label: 'Exata ignorando acentos, emojis e pontuação' },
+  { value: 'contains', label: 'Contém a palavra-chave' },
+  { value: 'starts_with', label: 'Começa com a palavra-chave' },
+  { value: 'fuzzy', label: 'Aproximada (tolera erros de digitação)' },
+  { value: 'regex', label: 'Expressão regular' }
+]
+
+// O que o bot faz quando o template corresponde (mesmos valores aceitos pelo servidor)
+const ACTION_TYPE_OPTIONS: { value: ActionType, label: string }[] = [
+  { value: 'reply', label: 'Apenas responder' },
+  { value: 'reply_and_handoff', label: 'Responder e transferir para atendente' },
+  { value: 'handoff_only', label: 'Transferir para atendente (sem resposta)' }
+]
+
 interface TemplateProject {
   id: string
   name: string
@@ -50,11 +167,13 @@ interface TemplateProject {
   createdAt: string
   isActive: boolean
   isDefault?: boolean
+  handoffKeywords?: string[]
+  activation?: ProjectActivation | null
 }
 
 interface FlowNode {
   id: string
-  type: 'start' | 'message' | 'condition' | 'options' | 'human' | 'end'
+  type: 'start' | 'message' | 'condition' | 'options' | 'form' | 'human' | 'end'
   position: { x: number; y: number }
   data: {
     title: string
@@ -63,6 +182,7 @@ interface FlowNode {
     response?: string
     conditions?: { field: string; operator: string; value: string }[]
     options?: { id: string; label: string; value: string }[]
+    fields?: FormField[]
     active?: boolean
   }
   connections: string[]
@@ -103,6 +223,15 @@ interface SimulationState {
   currentNodeId: string | null
   chatHistory: ChatMessage[]
   awaitingInput: boolean
+  serverState?: Record<string, unknown> | null // Estado devolvido pelo servidor para continuar a conversa
+}
+
+// Resultado de uma mensagem em POST /api/messages/projects/:id/simulate
+interface SimulatedTurn {
+  kind: string
+  trace: string[]
+  replies: { text: string, typing_ms: number, attachment: TemplateAttachment | null, auto_message_id: number | null }[]
+  handoff: { off_hours: boolean, mode: 'transfer' | 'queue' | 'reply' } | null
 }
 
 function Templates({ }: TemplatesProps) {
@@ -154,11 +283,15 @@ function Templates({ }: TemplatesProps) {
     }
   ])
   const [editingTemplate, setEditingTemplate] = useState<AutoTemplate | null>(null)
+  const [templatePreview, setTemplatePreview] = useState<{ rendered: string, missing: string[] } | null>(null)
+  const [attachmentDraft, setAttachmentDraft] = useState({ type: 'image' as AttachmentType, latitude: '', longitude: '', locationName: '' })
   const [showAddTemplate, setShowAddTemplate] = useState(false)
   const [showFlowView, setShowFlowView] = useState(false)
   const [newAutoTemplate, setNewAutoTemplate] = useState<Partial<AutoTemplate>>({
     trigger: [],
+    matchMode: 'exact',
     response: '',
+    action: 'reply',
     active: true
   })
 
@@ -177,6 +310,11 @@ function Templates({ }: TemplatesProps) {
   const [activeFlowTool, setActiveFlowTool] = useState<'select' | 'connect' | 'pan'>('select')
 
   // Chat Simulation States
+  const [showVersions, setShowVersions] = useState(false)
+  const [showUnmatchedReport, setShowUnmatchedReport] = useState(false)
+  const [showIntentClassifier, setShowIntentClassifier] = useState(false)
+  const [scheduleProjectId, setScheduleProjectId] = useState<string | null>(null)
+  const [liveProjectId, setLiveProjectId] = useState<string | null>(null)
   const [showChatSimulator, setShowChatSimulator] = useState(false)
   const [simulationState, setSimulationState] = useState<SimulationState>({
     isActive: false,
@@ -190,6 +328,7 @@ function Templates({ }: TemplatesProps) {
   const [flowCode, setFlowCode] = useState('')
   const [codeError, setCodeError] = useState('')
   const [userInput, setUserInput] = useState('')
+  const [savedFlows, setSavedFlows] = useState<Record<string, { nodes: FlowNode[], connections: FlowConnection[] } | null>>({})
   const chatMessagesRef = useRef<HTMLDivElement>(null)
   const [dragState, setDragState] = useState<{
     isDragging: boolean
@@ -204,7 +343,7 @@ function Templates({ }: TemplatesProps) {
   })
 
   // Função para lidar com erros de autenticação
-  const handleAuthError = (response: Response) => {
+  const handleAuthError = useCallback((response: Response) => {
     if (response.status === 401) {
       console.error('❌ Token expirado ou inválido - fazendo logout automático')
       localStorage.removeItem('authToken')
@@ -223,6 +362,21 @@ function Templates({ }: TemplatesProps) {
       return true
     }
     return false
+  }, [])
+
+  // Projeto que o bot está usando agora (agendamento ativo ou padrão)
+  const loadLiveProject = async () => {
+    try {
+      const response = await fetch('/api/messages/projects/active', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setLiveProjectId(data.project ? data.project.id.toString() : null)
+      }
+    } catch (error) {
+      console.error('❌ Erro ao buscar projeto ativo:', error)
+    }
   }
 
   // Função para carregar projetos do banco de dados
@@ -270,10 +424,13 @@ function Templates({ }: TemplatesProps) {
           templates: [], // Será carregado depois
           isActive: project.is_active,
           isDefault: project.is_default,
+          handoffKeywords: project.handoff_keywords || [],
+          activation: project.activation || null,
           createdAt: new Date(project.created_at)
         }))
         
         setTemplateProjects(convertedProjects)
+        loadLiveProject()
         
         // Encontrar projeto padrão
         const defaultProject = data.projects.find((p: any) => p.is_default)
@@ -345,7 +502,7 @@ function Templates({ }: TemplatesProps) {
         console.log('✅ Projeto de ônibus criado:', projectData.project)
 
         // Mensagens específicas da Viação Palmas
-        const busMessages = [
+        const busMessages: { trigger_words: string[], response_text: string, order_index: number, action_type?: ActionType }[] = [
           {
             trigger_words: ['oi', 'olá', 'menu', 'dia', 'tarde', 'noite', 'bom dia', 'boa tarde', 'boa noite'],
             response_text: '🚌 Olá! {name} Bem-vindo à *Viação Palmas*!\n\nComo posso ajudá-lo hoje?\n\n*1* - 🎫 Comprar Passagem\n*2* - 🕐 Ver Horários\n*3* - 👨‍💼 Falar com Operador\n\nDigite o número da opção desejada! 😊',
@@ -363,6 +520,7 @@ function Templates({ }: TemplatesProps) {
           },
           {
             trigger_words: ['3', 'operador', 'atendente', 'humano', 'pessoa'],
+            action_type: 'reply_and_handoff',
             response_text: '👨‍💼 *FALAR COM OPERADOR*\n\n🙋‍♀️ Entendi que você gostaria de falar com um de nossos operadores!\n\nVou transferir você para nossa equipe de atendimento especializada em vendas de passagens.\n\n⏰ *Horário de Atendimento:*\nSegunda a Sexta: 6h às 22h\nSábado: 6h às 18h\nDomingo: 8h às 20h\n\nEm alguns instantes um operador entrará em contato!\n\nObrigado pela preferência! 🚌✨',
             order_index: 4
           },
@@ -389,6 +547,7 @@ function Templates({ }: TemplatesProps) {
             body: JSON.stringify({
               trigger_words: message.trigger_words,
               response_text: message.response_text,
+              action_type: message.action_type || 'reply',
               is_active: true,
               order_index: message.order_index
             })
@@ -440,7 +599,20 @@ function Templates({ }: TemplatesProps) {
         const convertedTemplates = data.messages.map((msg: any) => ({
           id: msg.id.toString(),
           trigger: msg.trigger_words,
+          matchMode: msg.match_mode || 'exact',
           response: msg.response_text,
+          steps: fromResponseSteps(msg.response_steps),
+          variantMode: msg.variant_mode || 'random',
+          action: msg.action_type || 'reply',
+          attachment: msg.attachment ? {
+            type: msg.attachment.type,
+            originalName: msg.attachment.original_name,
+            mimeType: msg.attachment.mime_type,
+            size: msg.attachment.size,
+            latitude: msg.attachment.latitude,
+            longitude: msg.attachment.longitude,
+            locationName: msg.attachment.location_name
+          } : null,
           active: msg.is_active
         }))
         
@@ -483,7 +655,11 @@ function Templates({ }: TemplatesProps) {
           },
           body: JSON.stringify({
             trigger_words: Array.isArray(newAutoTemplate.trigger) ? newAutoTemplate.trigger : [newAutoTemplate.trigger],
+            match_mode: newAutoTemplate.matchMode || 'exact',
             response_text: newAutoTemplate.response,
+            response_steps: toResponseSteps(newAutoTemplate),
+            variant_mode: newAutoTemplate.variantMode || 'random',
+            action_type: newAutoTemplate.action || 'reply',
             is_active: newAutoTemplate.active || true,
             order_index: autoTemplates.length
           })
@@ -496,7 +672,7 @@ function Templates({ }: TemplatesProps) {
           // Recarregar templates do projeto
           await loadProjectTemplates(parseInt(defaultProjectId))
           
-      setNewAutoTemplate({ trigger: [], response: '', active: true })
+      setNewAutoTemplate({ trigger: [], matchMode: 'exact', response: '', action: 'reply', active: true })
       setShowAddTemplate(false)
         } else {
           console.error('❌ Erro ao criar template:', response.statusText)
@@ -522,12 +698,161 @@ function Templates({ }: TemplatesProps) {
       tpl.id === updatedTemplate.id ? updatedTemplate : tpl
     ))
     setEditingTemplate(null)
+    setTemplatePreview(null)
     } catch (error) {
       console.error('❌ Erro ao atualizar template:', error)
       alert('Erro ao salvar template. Tente novamente.')
     }
   }
 
+  // Enviar anexo (arquivo em base64 ou localização) para a mensagem automática
+  // Alterar uma mensagem da sequência do template em edição (a primeira é criada a partir da resposta)
+  const updateEditingStep = (index: number, changes: Partial<TemplateStep>) => {
+    setEditingTemplate(prev => {
+      if (!prev) return prev
+      const steps = prev.steps && prev.steps.length > 0 ? [...prev.steps] : [emptyStep(prev.response)]
+      steps[index] = { ...steps[index], ...changes }
+      return { ...prev, steps }
+    })
+  }
+
+  const addEditingStep = () => {
+    setEditingTemplate(prev => {
+      if (!prev) return prev
+      const steps = prev.steps && prev.steps.length > 0 ? prev.steps : [emptyStep(prev.response)]
+      return { ...prev, steps: [...steps, emptyStep()] }
+    })
+  }
+
+  const removeEditingStep = (index: number) => {
+    setEditingTemplate(prev => prev ? { ...prev, steps: (prev.steps || []).filter((_, i) => i !== index) } : prev)
+  }
+
+  const saveTemplateAttachment = async (template: AutoTemplate, file?: File) => {
+    try {
+      const authToken = localStorage.getItem('authToken')
+      if (!authToken || isNaN(Number(template.id))) {
+        return
+      }
+
+      let body: Record<string, unknown>
+      if (attachmentDraft.type === 'location') {
+        body = {
+          type: 'location',
+          latitude: Number(attachmentDraft.latitude),
+          longitude: Number(attachmentDraft.longitude),
+          location_name: attachmentDraft.locationName
+        }
+      } else {
+        if (!file) return
+        const data = await new Promise<string>((resolve, reject) => {
+          const reader = new FileReader()
+          reader.onload = () => resolve(String(reader.result))
+          reader.onerror = () => reject(reader.error)
+          reader.readAsDataURL(file)
+        })
+        body = { type: attachmentDraft.type, data, file_name: file.name, mime_type: file.type }
+      }
+
+      setIsSaving(true)
+      const response = await fetch(`/api/messages/messages/${template.id}/attachment`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+
+      if (handleAuthError(response)) return
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        alert(data.error || 'Erro ao salvar anexo')
+        return
+      }
+
+      const saved = data.message?.attachment
+      const attachment: TemplateAttachment | null = saved ? {
+        type: saved.type,
+        originalName: saved.original_name,
+        mimeType: saved.mime_type,
+        size: saved.size,
+        latitude: saved.latitude,
+        longitude: saved.longitude,
+        locationName: saved.location_name
+      } : null
+      setEditingTemplate(prev => prev && prev.id === template.id ? { ...prev, attachment } : prev)
+      updateCurrentTemplates(getCurrentTemplates().map(tpl => tpl.id === template.id ? { ...tpl, attachment } : tpl))
+    } catch (error) {
+      console.error('❌ Erro ao salvar anexo:', error)
+      alert('Erro ao salvar anexo. Tente novamente.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Remover anexo da mensagem automática
+  const removeTemplateAttachment = async (template: AutoTemplate) => {
+    try {
+      const authToken = localStorage.getItem('authToken')
+      if (!authToken || isNaN(Number(template.id))) {
+        return
+      }
+
+      const response = await fetch(`/api/messages/messages/${template.id}/attachment`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${authToken}` }
+      })
+
+      if (handleAuthError(response)) return
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        alert(data.error || 'Erro ao remover anexo')
+        return
+      }
+
+      setEditingTemplate(prev => prev && prev.id === template.id ? { ...prev, attachment: null } : prev)
+      updateCurrentTemplates(getCurrentTemplates().map(tpl => tpl.id === template.id ? { ...tpl, attachment: null } : tpl))
+    } catch (error) {
+      console.error('❌ Erro ao remover anexo:', error)
+    }
+  }
+
+  // Pré-visualizar a resposta renderizada pelo servidor (variáveis, datas e condicionais)
+  const previewTemplateResponse = async (template: AutoTemplate) => {
+    try {
+      const authToken = localStorage.getItem('authToken')
+      if (!authToken || !selectedProject || isNaN(Number(selectedProject))) {
+        return
+      }
+
+      const response = await fetch(`/api/messages/projects/${selectedProject}/render-preview`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          template: template.response,
+          message: template.trigger.find(trigger => trigger !== '*') || ''
+        })
+      })
+
+      if (handleAuthError(response)) {
+        return
+      }
+
+      if (response.ok) {
+        const data = await response.json()
+        setTemplatePreview({ rendered: data.rendered, missing: data.missing || [] })
+      }
+    } catch (error) {
+      console.error('❌ Erro ao pré-visualizar template:', error)
+    }
+  }
+
   // Function to save template updates to database
   const updateAutoTemplateInDatabase = async (updatedTemplate: AutoTemplate) => {
     try {
@@ -553,7 +878,11 @@ function Templates({ }: TemplatesProps) {
         },
         body: JSON.stringify({
           trigger_words: Array.isArray(updatedTemplate.trigger) ? updatedTemplate.trigger : [updatedTemplate.trigger],
+          match_mode: updatedTemplate.matchMode || 'exact',
           response_text: updatedTemplate.response,
+          response_steps: toResponseSteps(updatedTemplate),
+          variant_mode: updatedTemplate.variantMode || 'random',
+          action_type: updatedTemplate.action || 'reply',
           is_active: updatedTemplate.active,
           order_index: 0 // You may want to track this properly
         })
@@ -595,6 +924,7 @@ function Templates({ }: TemplatesProps) {
     const humanTemplate: AutoTemplate = {
       id: 'human-' + Date.now().toString(),
       trigger: ['falar com humano', 'atendente', 'suporte humano', 'pessoa real', 'operador'],
+      action: 'reply_and_handoff',
       response: '🙋‍♀️ Entendi que você gostaria de falar com um atendente humano.\n\nVou transferir você para nossa equipe de suporte. Em alguns instantes um de nossos especialistas entrará em contato.\n\n⏰ Horário de atendimento: Segunda a Sexta, 8h às 18h\n\nObrigado pela paciência! 😊',
       active: true
     }
@@ -712,6 +1042,143 @@ function Templates({ }: TemplatesProps) {
     }
   }
 
+  // Editar palavras que transferem o cliente para um atendente em qualquer ponto da conversa
+  const editHandoffKeywords = async (projectId: string) => {
+    const project = templateProjects.find(p => p.id === projectId)
+    const input = prompt(
+      'Palavras que transferem para um atendente (separadas por vírgula):',
+      (project?.handoffKeywords || []).join(', ')
+    )
+    if (input === null) return
+
+    const handoffKeywords = input.split(',').map(keyword => keyword.trim()).filter(Boolean)
+
+    try {
+      const authToken = localStorage.getItem('authToken')
+      if (!authToken) {
+        console.error('❌ Token de autenticação não encontrado')
+        return
+      }
+
+      const response = await fetch(`/api/messages/projects/${projectId}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ handoff_keywords: handoffKeywords })
+      })
+
+      if (handleAuthError(response)) return
+
+      if (response.ok) {
+        setTemplateProjects(prev => prev.map(p =>
+          p.id === projectId ? { ...p, handoffKeywords } : p
+        ))
+      } else {
+        console.error('❌ Erro ao salvar palavras de transferência:', response.statusText)
+        alert('Erro ao salvar palavras de transferência. Tente novamente.')
+      }
+    } catch (error) {
+      console.error('❌ Erro ao salvar palavras de transferência:', error)
+      alert('Erro ao salvar palavras de transferência. Tente novamente.')
+    }
+  }
+
+  // Importar arquivo de fluxo (nodes/connections) como novo projeto, validado no servidor
+  const importProjectFromFile = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json'
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+
+      let flow
+      try {
+        flow = JSON.parse(await file.text())
+      } catch {
+        alert('Arquivo inválido: não é um JSON.')
+        return
+      }
+
+      try {
+        const authToken = localStorage.getItem('authToken')
+        if (!authToken) {
+          console.error('❌ Token de autenticação não encontrado')
+          return
+        }
+
+        const response = await fetch('/api/messages/projects/import', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${authToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ flow, name: file.name.replace(/\.json$/i, '') })
+        })
+
+        if (handleAuthError(response)) return
+
+        const data = await response.json()
+        const formatIssue = (issue: { node_id: string | null; message: string }) =>
+          `• ${issue.node_id ? `[${issue.node_id}] ` : ''}${issue.message}`
+
+        if (!response.ok) {
+          const errors = (data.report?.errors || []).map(formatIssue).join('\n')
+          alert(`❌ ${data.error || 'Erro ao importar fluxo'}\n\n${errors}`)
+          return
+        }
+
+        const warnings = (data.report.warnings || []).map(formatIssue).join('\n')
+        alert(
+          `✅ Projeto "${data.project.name}" importado com ${data.report.summary.auto_messages} mensagens automáticas.` +
+          (warnings ? `\n\nAvisos:\n${warnings}` : '')
+        )
+        await loadProjectsFromDatabase()
+      } catch (error) {
+        console.error('❌ Erro ao importar fluxo:', error)
+        alert('Erro ao importar fluxo. Tente novamente.')
+      }
+    }
+    input.click()
+  }
+
+  // Baixar o projeto no formato de arquivo de fluxo (gerado pelo servidor)
+  const exportProjectToFile = async (projectId: string) => {
+    try {
+      const authToken = localStorage.getItem('authToken')
+      if (!authToken) {
+        console.error('❌ Token de autenticação não encontrado')
+        return
+      }
+
+      const response = await fetch(`/api/messages/projects/${projectId}/export`, {
+        headers: { 'Authorization': `Bearer ${authToken}` }
+      })
+
+      if (handleAuthError(response)) return
+
+      if (!response.ok) {
+        alert('Erro ao exportar projeto. Tente novamente.')
+        return
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `fluxo-${projectId}.json`
+      const url = URL.createObjectURL(await response.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('❌ Erro ao exportar projeto:', error)
+      alert('Erro ao exportar projeto. Tente novamente.')
+    }
+  }
+
   // Criar projeto específico para vendas de passagem de ônibus (OTIMIZADO)
   const createBusTicketProject = () => {
     const busTicketTemplates: AutoTemplate[] = [
@@ -1270,10 +1737,52 @@ Posso ajudar com algo mais? 😊`,
     }
   }
 
+  // Load the flow graph saved on the server for a project (null when none)
+  const loadFlowGraphFromDatabase = useCallback(async (projectId: string) => {
+    const authToken = localStorage.getItem('authToken')
+    if (!authToken) return
+
+    try {
+      const response = await fetch(`/api/messages/projects/${projectId}/flow`, {
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (handleAuthError(response) || !response.ok) {
+        return
+      }
+
+      const data = await response.json()
+      setSavedFlows(prev => ({ ...prev, [projectId]: data.flow || null }))
+    } catch (error) {
+      console.error('❌ Erro ao carregar fluxo do projeto:', error)
+    }
+  }, [handleAuthError])
+
+  // Load the saved flow graph when the flow view is opened for a project
+  useEffect(() => {
+    if (showFlowView && selectedProject && selectedProject !== 'default' && !(selectedProject in savedFlows)) {
+      loadFlowGraphFromDatabase(selectedProject)
+    }
+  }, [showFlowView, selectedProject, savedFlows, loadFlowGraphFromDatabase])
+
   // Update flow when templates change or flow view is opened
   useEffect(() => {
     const currentTemplates = getCurrentTemplates()
-    if (showFlowView && currentTemplates.length > 0) {
+    const savedFlow = selectedProject ? savedFlows[selectedProject] : null
+    if (showFlowView && savedFlow && savedFlow.nodes.length > 0) {
+      setFlowState(prev => ({
+        ...prev,
+        nodes: savedFlow.nodes,
+        connections: savedFlow.connections
+      }))
+
+      if (showCodeView) {
+        setFlowCode(convertFlowToCode(savedFlow.nodes, savedFlow.connections))
+      }
+    } else if (showFlowView && currentTemplates.length > 0) {
       const { nodes, connections } = convertTemplatesToFlow(currentTemplates)
       setFlowState(prev => ({
         ...prev,
@@ -1287,7 +1796,7 @@ Posso ajudar com algo mais? 😊`,
         setFlowCode(code)
       }
     }
-  }, [showFlowView, autoTemplates, templateProjects, selectedProject, showCodeView])
+  }, [showFlowView, autoTemplates, templateProjects, selectedProject, showCodeView, savedFlows])
 
   // Handle code view toggle
   const toggleCodeView = () => {
@@ -1341,6 +1850,9 @@ Posso ajudar com algo mais? 😊`,
         // Convert flow nodes to templates and save to database
         console.log('🔄 Sincronizando templates com o banco de dados...')
         await convertFlowNodesToTemplates(result.nodes)
+        if (selectedProject && selectedProject !== 'default') {
+          await saveFlowGraphToDatabase(selectedProject, result.nodes, result.connections)
+        }
         alert('✅ Código aplicado e sincronizado com o banco de dados!')
       } else {
         alert('✅ Código aplicado apenas ao fluxo visual!')
@@ -1889,23 +2401,19 @@ Posso ajudar com algo mais? 😊`,
   }, [simulationState.chatHistory])
 
   // Chat Simulation Functions
+  // A conversa começa do zero no servidor (início do fluxo, sem formulário ativo)
   const startChatSimulation = () => {
-    const startNode = flowState.nodes.find(node => node.type === 'start')
-    if (!startNode) {
-      alert('Nenhum nó de início encontrado no fluxo!')
-      return
-    }
-
     setSimulationState({
       isActive: true,
-      currentNodeId: startNode.id,
+      currentNodeId: null,
       chatHistory: [{
         id: Date.now().toString(),
         type: 'bot',
-        content: '👋 Olá! Bem-vindo ao nosso atendimento. Como posso ajudá-lo?',
+        content: '🧪 Simulação com o motor do bot no servidor. Envie uma mensagem como se fosse o cliente.',
         timestamp: new Date()
       }],
-      awaitingInput: true
+      awaitingInput: true,
+      serverState: null
     })
     setShowChatSimulator(true)
   }
@@ -1921,13 +2429,14 @@ Posso ajudar com algo mais? 😊`,
     setUserInput('')
   }
 
-  const sendUserMessage = () => {
-    if (!userInput.trim() || !simulationState.isActive) return
+  // Enviar uma mensagem para o motor do bot no servidor (mesma lógica usada no WhatsApp)
+  const sendUserMessage = async (text: string = userInput) => {
+    if (!text.trim() || !simulationState.isActive || !simulationState.awaitingInput) return
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
-      content: userInput.trim(),
+      content: text.trim(),
       timestamp: new Date()
     }
 
@@ -1937,52 +2446,75 @@ Posso ajudar com algo mais? 😊`,
       chatHistory: [...prev.chatHistory, userMessage],
       awaitingInput: false
     }))
+    setUserInput('')
 
-    // Process user input and find matching template
-    const currentTemplates = getCurrentTemplates()
-    const matchingTemplate = currentTemplates.find(template =>
-      template.active && template.trigger.some(trigger =>
-        userInput.toLowerCase().includes(trigger.toLowerCase())
-      )
-    )
+    const botMessage = (content: string, nodeId?: string): ChatMessage => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type: 'bot',
+      content,
+      timestamp: new Date(),
+      nodeId
+    })
 
-    setTimeout(() => {
-      if (matchingTemplate) {
-        // Replace {name} placeholder with a default name
-        const responseText = matchingTemplate.response.replace(/{name}/g, 'Usuário')
-
-        const botMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          type: 'bot',
-          content: responseText,
-          timestamp: new Date(),
-          nodeId: matchingTemplate.id
-        }
+    const botMessages: ChatMessage[] = []
+    let serverState = simulationState.serverState
+    let currentNodeId = simulationState.currentNodeId
 
-        setSimulationState(prev => ({
-          ...prev,
-          chatHistory: [...prev.chatHistory, botMessage],
-          awaitingInput: true,
-          currentNodeId: `template-${matchingTemplate.id}`
-        }))
-      } else {
-        // No matching template found
-        const botMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          type: 'bot',
-          content: '🤔 Desculpe, não entendi sua mensagem. Você pode tentar novamente ou digitar "menu" para ver as opções disponíveis.',
-          timestamp: new Date()
-        }
+    try {
+      const authToken = localStorage.getItem('authToken')
+      const projectId = selectedProject || defaultProjectId
+      if (!authToken || !projectId || isNaN(Number(projectId))) {
+        throw new Error('Salve o projeto no banco para simular')
+      }
 
-        setSimulationState(prev => ({
-          ...prev,
-          chatHistory: [...prev.chatHistory, botMessage],
-          awaitingInput: true
-        }))
+      const response = await fetch(`/api/messages/projects/${projectId}/simulate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ messages: [text.trim()], state: serverState })
+      })
+
+      if (handleAuthError(response)) {
+        return
       }
-    }, 1000) // Simulate typing delay
 
-    setUserInput('')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Falha na simulação')
+      }
+
+      const turn: SimulatedTurn = data.turns[0]
+      serverState = data.state
+      currentNodeId = data.state?.current_node_id ?? null
+      console.log(`🧪 Simulação (${turn.kind}):`, turn.trace)
+
+      for (const reply of turn.replies) {
+        const attachment = reply.attachment
+          ? `📎 ${ATTACHMENT_TYPE_OPTIONS.find(option => option.value === reply.attachment?.type)?.label || 'Anexo'}`
+          : ''
+        botMessages.push(botMessage([reply.text, attachment].filter(Boolean).join('\n'), reply.auto_message_id?.toString()))
+      }
+
+      if (turn.handoff) {
+        botMessages.push(botMessage(turn.handoff.mode === 'reply'
+          ? '🌙 Fora do horário: o bot apenas respondeu, sem abrir atendimento'
+          : '👨‍💼 Conversa transferida para atendimento humano'))
+      } else if (turn.kind === 'human_chat') {
+        botMessages.push(botMessage('👤 Atendimento humano ativo - o bot não responde'))
+      }
+    } catch (error) {
+      botMessages.push(botMessage(`⚠️ ${error instanceof Error ? error.message : 'Erro na simulação'}`))
+    }
+
+    setSimulationState(prev => ({
+      ...prev,
+      chatHistory: [...prev.chatHistory, ...botMessages],
+      awaitingInput: true,
+      currentNodeId,
+      serverState
+    }))
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -2051,6 +2583,15 @@ Posso ajudar com algo mais? 😊`,
         return { title: 'Condição', conditions: [{ field: '', operator: 'contains', value: '' }] }
       case 'options':
         return { title: 'Opções', options: [{ id: '1', label: 'Opção 1', value: '1' }] }
+      case 'form':
+        return {
+          title: 'Formulário',
+          response: '',
+          fields: [
+            { key: 'nome', label: 'Nome completo', type: 'name' as FormFieldType },
+            { key: 'cpf', label: 'CPF', type: 'cpf' as FormFieldType }
+          ]
+        }
       case 'human':
         return { title: 'Atendimento Humano', description: 'Transferir para humano' }
       case 'end':
@@ -2087,6 +2628,9 @@ Posso ajudar com algo mais? 😊`,
         }
       }
 
+      // Save the flow graph so the server executes it
+      await saveFlowGraphToDatabase(selectedProject, flowState.nodes, flowState.connections)
+
       console.log('✅ Fluxo salvo com sucesso!')
       alert('Fluxo salvo com sucesso!')
       
@@ -2098,6 +2642,34 @@ Posso ajudar com algo mais? 😊`,
     }
   }
 
+  // Save the flow graph (nodes + connections) executed by the server bot
+  const saveFlowGraphToDatabase = async (projectId: string, nodes: FlowNode[], connections: FlowConnection[]) => {
+    const authToken = localStorage.getItem('authToken')
+    if (!authToken) {
+      throw new Error('Token de autenticação não encontrado')
+    }
+
+    const response = await fetch(`/api/messages/projects/${projectId}/flow`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ flow: { nodes, connections } })
+    })
+
+    if (handleAuthError(response)) {
+      return
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.details?.join('\n') || errorData.error || 'Erro ao salvar fluxo')
+    }
+
+    setSavedFlows(prev => ({ ...prev, [projectId]: { nodes, connections } }))
+  }
+
   // Function to create new template in database
   const createAutoTemplateInDatabase = async (template: AutoTemplate, projectId?: string) => {
     try {
@@ -2123,7 +2695,11 @@ Posso ajudar com algo mais? 😊`,
         },
         body: JSON.stringify({
           trigger_words: Array.isArray(template.trigger) ? template.trigger : [template.trigger],
+          match_mode: template.matchMode || 'exact',
           response_text: template.response,
+          response_steps: toResponseSteps(template),
+          variant_mode: template.variantMode || 'random',
+          action_type: template.action || 'reply',
           is_active: template.active,
           order_index: 0
         })
@@ -2315,6 +2891,7 @@ Posso ajudar com algo mais? 😊`,
       case 'message': return MessageCircle
       case 'condition': return Diamond
       case 'options': return List
+      case 'form': return ClipboardList
       case 'human': return UserCheck
       case 'end': return CheckCircle
       default: return MessageCircle
@@ -2327,6 +2904,7 @@ Posso ajudar com algo mais? 😊`,
       case 'message': return '#4299e1'
       case 'condition': return '#ed8936'
       case 'options': return '#9f7aea'
+      case 'form': return '#d69e2e'
       case 'human': return '#e53e3e'
       case 'end': return '#38b2ac'
       default: return '#a0aec0'
@@ -2359,6 +2937,14 @@ Posso ajudar com algo mais? 😊`,
                 <Route size={16} />
                 🚌 Passagens de Ônibus
               </button>
+              <button
+                className="btn-modern btn-secondary"
+                onClick={importProjectFromFile}
+                title="Criar projeto a partir de um arquivo de fluxo JSON"
+              >
+                <Upload size={16} />
+                Importar Fluxo
+              </button>
               <button 
                 className="btn-modern btn-primary"
                 onClick={() => setShowProjectForm(true)}
@@ -2537,7 +3123,10 @@ Posso ajudar com algo mais? 😊`,
                     {project.isActive ? (
                       <div className={`status-active-indicator ${project.isDefault ? 'default' : ''}`}>
                         <Zap size={12} />
-                        <span>{project.isDefault ? 'PADRÃO' : 'ATIVO'}</span>
+                        <span>
+                          {project.isDefault ? 'PADRÃO' : project.activation ? 'AGENDADO' : 'ATIVO'}
+                          {liveProjectId === project.id && ' • NO AR'}
+                        </span>
                       </div>
                     ) : (
                       <div className="status-inactive-indicator">
@@ -2567,6 +3156,16 @@ Posso ajudar com algo mais? 😊`,
                       >
                         {project.isDefault ? <Check size={16} /> : <Diamond size={16} />}
                       </button>
+                      <button
+                        className={`action-btn ${project.activation ? 'active' : ''}`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setScheduleProjectId(project.id)
+                        }}
+                        title={project.activation ? 'Editar agendamento' : 'Agendar ativação (período ou horários)'}
+                      >
+                        <CalendarClock size={16} />
+                      </button>
                       <button
                         className={`action-btn toggle-btn ${project.isActive ? 'active' : 'inactive'}`}
                         onClick={(e) => {
@@ -2700,6 +3299,56 @@ Posso ajudar com algo mais? 😊`,
                 <UserCheck size={16} />
                 + Intervenção Humana
               </button>
+              {selectedProject && (
+                <button
+                  className="btn-modern btn-secondary"
+                  onClick={() => editHandoffKeywords(selectedProject)}
+                  title={(templateProjects.find(p => p.id === selectedProject)?.handoffKeywords || []).join(', ') || 'Nenhuma palavra configurada'}
+                >
+                  <UserCheck size={16} />
+                  Palavras de Transferência
+                </button>
+              )}
+              {selectedProject && (
+                <button
+                  className="btn-modern btn-secondary"
+                  onClick={() => exportProjectToFile(selectedProject)}
+                  title="Baixar o projeto como arquivo de fluxo JSON"
+                >
+                  <Download size={16} />
+                  Exportar Projeto
+                </button>
+              )}
+              {selectedProject && (
+                <button
+                  className="btn-modern btn-secondary"
+                  onClick={() => setShowVersions(true)}
+                  title="Publicar alterações, ver histórico e restaurar versões"
+                >
+                  <History size={16} />
+                  Versões
+                </button>
+              )}
+              {selectedProject && (
+                <button
+                  className="btn-modern btn-secondary"
+                  onClick={() => setShowUnmatchedReport(true)}
+                  title="Textos que o bot não reconheceu e transferiu para atendentes"
+                >
+                  <ScanSearch size={16} />
+                  Não Reconhecidas
+                </button>
+              )}
+              {selectedProject && (
+                <button
+                  className="btn-modern btn-secondary"
+                  onClick={() => setShowIntentClassifier(true)}
+                  title="Classificador de intenção para frases que não batem com nenhum gatilho"
+                >
+                  <Brain size={16} />
+                  Frases Livres
+                </button>
+              )}
               <button
                 className="btn-modern btn-success"
                 onClick={startChatSimulation}
@@ -3084,6 +3733,17 @@ Posso ajudar com algo mais? 😊`,
                           <small>Menu de escolhas</small>
                         </div>
                       </button>
+
+                      <button 
+                        className="node-btn" 
+                        onClick={async () => await addFlowNode('form', { x: 150, y: 350 })}
+                      >
+                        <ClipboardList size={16} />
+                        <div className="node-btn-info">
+                          <span>Formulário</span>
+                          <small>Coletar e validar dados</small>
+                        </div>
+                      </button>
                       
                       <button 
                         className="node-btn" 
@@ -3230,6 +3890,108 @@ Posso ajudar com algo mais? 😊`,
                           </div>
                         )}
 
+                        {selectedNode.type === 'form' && (
+                          <div className="property-section">
+                            <label className="property-label">
+                              <ClipboardList size={16} />
+                              Campos do Formulário
+                            </label>
+                            {(selectedNode.data.fields || []).map((field, index) => {
+                              const updateField = (changes: Partial<FormField>) => {
+                                setFlowState(prev => ({
+                                  ...prev,
+                                  nodes: prev.nodes.map(node =>
+                                    node.id === selectedNode.id
+                                      ? {
+                                          ...node,
+                                          data: {
+                                            ...node.data,
+                                            fields: (node.data.fields || []).map((item, i) => i === index ? { ...item, ...changes } : item)
+                                          }
+                                        }
+                                      : node
+                                  )
+                                }))
+                              }
+
+                              return (
+                                <div key={index} className="form-field-row">
+                                  <input
+                                    type="text"
+                                    className="property-input"
+                                    value={field.label}
+                                    onChange={(e) => updateField({ label: e.target.value })}
+                                    placeholder="Rótulo (ex: CPF do passageiro)"
+                                  />
+                                  <input
+                                    type="text"
+                                    className="property-input"
+                                    value={field.key}
+                                    onChange={(e) => updateField({ key: e.target.value.replace(/[^\w]/g, '_') })}
+                                    placeholder="Variável (ex: passageiro_cpf)"
+                                  />
+                                  <select
+                                    className="property-input"
+                                    value={field.type}
+                                    onChange={(e) => updateField({ type: e.target.value as FormFieldType })}
+                                  >
+                                    {FORM_FIELD_TYPE_OPTIONS.map(option => (
+                                      <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="text"
+                                    className="property-input"
+                                    value={field.question || ''}
+                                    onChange={(e) => updateField({ question: e.target.value || undefined })}
+                                    placeholder="Pergunta (opcional)"
+                                  />
+                                  <button
+                                    className="btn-modern btn-secondary"
+                                    onClick={() => {
+                                      setFlowState(prev => ({
+                                        ...prev,
+                                        nodes: prev.nodes.map(node =>
+                                          node.id === selectedNode.id
+                                            ? { ...node, data: { ...node.data, fields: (node.data.fields || []).filter((_, i) => i !== index) } }
+                                            : node
+                                        )
+                                      }))
+                                    }}
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                </div>
+                              )
+                            })}
+                            <button
+                              className="btn-modern btn-secondary"
+                              onClick={() => {
+                                setFlowState(prev => ({
+                                  ...prev,
+                                  nodes: prev.nodes.map(node =>
+                                    node.id === selectedNode.id
+                                      ? {
+                                          ...node,
+                                          data: {
+                                            ...node.data,
+                                            fields: [...(node.data.fields || []), { key: `campo_${(node.data.fields || []).length + 1}`, label: '', type: 'text' as FormFieldType }]
+                                          }
+                                        }
+                                      : node
+                                  )
+                                }))
+                              }}
+                            >
+                              <Plus size={14} />
+                              Adicionar Campo
+                            </button>
+                            <small className="property-help">
+                              O bot pergunta cada campo, valida a resposta (CPF, data, telefone...) e repete a pergunta se estiver inválida. As respostas ficam salvas no contato.
+                            </small>
+                          </div>
+                        )}
+
                         {selectedNode.data.active !== undefined && (
                           <div className="property-section">
                             <label className="property-checkbox">
@@ -3313,6 +4075,49 @@ Posso ajudar com algo mais? 😊`,
           )}
 
           {/* Chat Simulator */}
+          {scheduleProjectId && (
+            <ProjectSchedulePopup
+              projectId={scheduleProjectId}
+              projectName={templateProjects.find(p => p.id === scheduleProjectId)?.name || ''}
+              activation={templateProjects.find(p => p.id === scheduleProjectId)?.activation || null}
+              isVisible={scheduleProjectId !== null}
+              onClose={() => setScheduleProjectId(null)}
+              onSaved={(activation) => {
+                setTemplateProjects(prev => prev.map(p => p.id === scheduleProjectId ? { ...p, activation } : p))
+                loadLiveProject()
+              }}
+            />
+          )}
+
+          {selectedProject && (
+            <ProjectVersionsPopup
+              projectId={selectedProject}
+              projectName={templateProjects.find(p => p.id === selectedProject)?.name || ''}
+              isVisible={showVersions}
+              onClose={() => setShowVersions(false)}
+              onDraftRestored={() => loadProjectTemplates(parseInt(selectedProject))}
+            />
+          )}
+
+          {selectedProject && (
+            <UnmatchedReportPopup
+              projectId={selectedProject}
+              projectName={templateProjects.find(p => p.id === selectedProject)?.name || ''}
+              isVisible={showUnmatchedReport}
+              onClose={() => setShowUnmatchedReport(false)}
+              onTriggersAdded={() => loadProjectTemplates(parseInt(selectedProject))}
+            />
+          )}
+
+          {selectedProject && (
+            <IntentClassifierPopup
+              projectId={selectedProject}
+              projectName={templateProjects.find(p => p.id === selectedProject)?.name || ''}
+              isVisible={showIntentClassifier}
+              onClose={() => setShowIntentClassifier(false)}
+            />
+          )}
+
           {showChatSimulator && (
             <div className="chat-simulator-overlay">
               <div className="chat-simulator-container">
@@ -3382,7 +4187,7 @@ Posso ajudar com algo mais? 😊`,
                     />
                     <button
                       className="send-button"
-                      onClick={sendUserMessage}
+                      onClick={() => sendUserMessage()}
                       disabled={!userInput.trim() || !simulationState.awaitingInput}
                     >
                       <Send size={18} />
@@ -3396,65 +4201,7 @@ Posso ajudar com algo mais? 😊`,
                         <button
                           key={suggestion}
                           className="suggestion-chip"
-                          onClick={() => {
-                            if (!simulationState.awaitingInput) return
-
-                            const userMessage: ChatMessage = {
-                              id: Date.now().toString(),
-                              type: 'user',
-                              content: suggestion,
-                              timestamp: new Date()
-                            }
-
-                            // Add user message to chat
-                            setSimulationState(prev => ({
-                              ...prev,
-                              chatHistory: [...prev.chatHistory, userMessage],
-                              awaitingInput: false
-                            }))
-
-                            // Process the suggestion
-                            const currentTemplates = getCurrentTemplates()
-                            const matchingTemplate = currentTemplates.find(template =>
-                              template.active && template.trigger.some(trigger =>
-                                suggestion.toLowerCase().includes(trigger.toLowerCase())
-                              )
-                            )
-
-                            setTimeout(() => {
-                              if (matchingTemplate) {
-                                const responseText = matchingTemplate.response.replace(/{name}/g, 'Usuário')
-
-                                const botMessage: ChatMessage = {
-                                  id: (Date.now() + 1).toString(),
-                                  type: 'bot',
-                                  content: responseText,
-                                  timestamp: new Date(),
-                                  nodeId: matchingTemplate.id
-                                }
-
-                                setSimulationState(prev => ({
-                                  ...prev,
-                                  chatHistory: [...prev.chatHistory, botMessage],
-                                  awaitingInput: true,
-                                  currentNodeId: `template-${matchingTemplate.id}`
-                                }))
-                              } else {
-                                const botMessage: ChatMessage = {
-                                  id: (Date.now() + 1).toString(),
-                                  type: 'bot',
-                                  content: '🤔 Desculpe, não entendi sua mensagem. Você pode tentar novamente ou digitar "menu" para ver as opções disponíveis.',
-                                  timestamp: new Date()
-                                }
-
-                                setSimulationState(prev => ({
-                                  ...prev,
-                                  chatHistory: [...prev.chatHistory, botMessage],
-                                  awaitingInput: true
-                                }))
-                              }
-                            }, 1000)
-                          }}
+                          onClick={() => sendUserMessage(suggestion)}
                           disabled={!simulationState.awaitingInput}
                         >
                           {suggestion}
@@ -3508,6 +4255,45 @@ Posso ajudar com algo mais? 😊`,
                     <small className="help-text">Digite as palavras que ativarão esta resposta</small>
                   </div>
 
+                  <div className="form-group-modern">
+                    <label className="label-modern">
+                      <Filter size={16} />
+                      Modo de correspondência
+                    </label>
+                    <select
+                      className="input-modern"
+                      value={newAutoTemplate.matchMode || 'exact'}
+                      onChange={(e) => setNewAutoTemplate({
+                        ...newAutoTemplate,
+                        matchMode: e.target.value as MatchMode
+                      })}
+                    >
+                      {MATCH_MODE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <small className="help-text">Ex: "Contém" faz "bom dia pessoal" ativar o gatilho "bom dia"</small>
+                  </div>
+
+                  <div className="form-group-modern">
+                    <label className="label-modern">
+                      <UserCheck size={16} />
+                      Ação
+                    </label>
+                    <select
+                      className="input-modern"
+                      value={newAutoTemplate.action || 'reply'}
+                      onChange={(e) => setNewAutoTemplate({
+                        ...newAutoTemplate,
+                        action: e.target.value as ActionType
+                      })}
+                    >
+                      {ACTION_TYPE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div className="form-group-modern">
                     <label className="label-modern">
                       <MessageSquare size={16} />
@@ -3577,6 +4363,44 @@ Posso ajudar com algo mais? 😊`,
                           })}
                         />
                       </div>
+
+                      <div className="form-group-modern">
+                        <label className="label-modern">
+                          <Filter size={14} />
+                          Modo de correspondência
+                        </label>
+                        <select
+                          className="input-modern"
+                          value={editingTemplate.matchMode || 'exact'}
+                          onChange={(e) => setEditingTemplate({
+                            ...editingTemplate,
+                            matchMode: e.target.value as MatchMode
+                          })}
+                        >
+                          {MATCH_MODE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="form-group-modern">
+                        <label className="label-modern">
+                          <UserCheck size={14} />
+                          Ação
+                        </label>
+                        <select
+                          className="input-modern"
+                          value={editingTemplate.action || 'reply'}
+                          onChange={(e) => setEditingTemplate({
+                            ...editingTemplate,
+                            action: e.target.value as ActionType
+                          })}
+                        >
+                          {ACTION_TYPE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
                       
                       <div className="form-group-modern">
                         <label className="label-modern">
@@ -3592,17 +4416,200 @@ Posso ajudar com algo mais? 😊`,
                           })}
                           rows={4}
                         />
+                        <small className="help-text">
+                          Variáveis: <code>{'{name}'}</code>, <code>{'{contato.telefone}'}</code>, <code>{'{data}'}</code>, <code>{'{saudacao}'}</code>, <code>{'{variavel|padrão}'}</code>, <code>{'{#if variavel}...{else}...{/if}'}</code>
+                        </small>
                       </div>
+
+                      <div className="form-group-modern">
+                        <label className="label-modern">
+                          <Layers size={14} />
+                          Sequência e variações
+                        </label>
+                        {(editingTemplate.steps && editingTemplate.steps.length > 0 ? editingTemplate.steps : [emptyStep(editingTemplate.response)]).map((step, index) => (
+                          <div key={index} className="form-field-row">
+                            {index === 0 ? (
+                              <small className="help-text">Mensagem 1: texto da resposta acima</small>
+                            ) : (
+                              <textarea
+                                className="textarea-modern"
+                                value={step.text}
+                                onChange={(e) => updateEditingStep(index, { text: e.target.value })}
+                                placeholder={`Mensagem ${index + 1}`}
+                                rows={3}
+                              />
+                            )}
+                            <textarea
+                              className="textarea-modern"
+                              value={step.alternativesText}
+                              onChange={(e) => updateEditingStep(index, { alternativesText: e.target.value })}
+                              placeholder={'Outras formas de dizer (opcional), separadas por uma linha com ---'}
+                              rows={2}
+                            />
+                            <input
+                              className="input-modern"
+                              type="number"
+                              min={0}
+                              max={20}
+                              step={0.5}
+                              value={step.typingSeconds}
+                              onChange={(e) => updateEditingStep(index, { typingSeconds: e.target.value })}
+                              placeholder="Segundos digitando (vazio = automático)"
+                            />
+                            {index > 0 && (
+                              <button
+                                className="btn-modern btn-secondary"
+                                onClick={() => removeEditingStep(index)}
+                              >
+                                <Trash2 size={14} />
+                                Remover mensagem
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        <button
+                          className="btn-modern btn-secondary"
+                          onClick={addEditingStep}
+                        >
+                          <Plus size={14} />
+                          Adicionar mensagem
+                        </button>
+                        <select
+                          className="input-modern"
+                          value={editingTemplate.variantMode || 'random'}
+                          onChange={(e) => setEditingTemplate({
+                            ...editingTemplate,
+                            variantMode: e.target.value as VariantMode
+                          })}
+                        >
+                          {VARIANT_MODE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>Variações: {option.label}</option>
+                          ))}
+                        </select>
+                        <small className="help-text">
+                          Divida menus longos em várias mensagens. Cada uma é enviada após o "digitando..." com o tempo definido.
+                        </small>
+                      </div>
+
+                      {!isNaN(Number(editingTemplate.id)) && (
+                        <div className="form-group-modern">
+                          <label className="label-modern">
+                            <Paperclip size={14} />
+                            Anexo
+                          </label>
+                          {editingTemplate.attachment ? (
+                            <div className="attachment-current">
+                              <span>
+                                {editingTemplate.attachment.type === 'location'
+                                  ? `📍 ${editingTemplate.attachment.locationName || `${editingTemplate.attachment.latitude}, ${editingTemplate.attachment.longitude}`}`
+                                  : `📎 ${editingTemplate.attachment.originalName} (${ATTACHMENT_TYPE_OPTIONS.find(option => option.value === editingTemplate.attachment?.type)?.label})`}
+                              </span>
+                              <button
+                                className="btn-modern btn-secondary"
+                                onClick={() => removeTemplateAttachment(editingTemplate)}
+                              >
+                                <Trash2 size={14} />
+                                Remover
+                              </button>
+                            </div>
+                          ) : (
+                            <>
+                              <select
+                                className="input-modern"
+                                value={attachmentDraft.type}
+                                onChange={(e) => setAttachmentDraft({ ...attachmentDraft, type: e.target.value as AttachmentType })}
+                              >
+                                {ATTACHMENT_TYPE_OPTIONS.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                              </select>
+                              {attachmentDraft.type === 'location' ? (
+                                <div className="attachment-location">
+                                  <input
+                                    type="text"
+                                    className="input-modern"
+                                    value={attachmentDraft.locationName}
+                                    onChange={(e) => setAttachmentDraft({ ...attachmentDraft, locationName: e.target.value })}
+                                    placeholder="Nome (ex: Terminal Rodoviário de Palmas)"
+                                  />
+                                  <input
+                                    type="text"
+                                    className="input-modern"
+                                    value={attachmentDraft.latitude}
+                                    onChange={(e) => setAttachmentDraft({ ...attachmentDraft, latitude: e.target.value })}
+                                    placeholder="Latitude (ex: -10.1844)"
+                                  />
+                                  <input
+                                    type="text"
+                                    className="input-modern"
+                                    value={attachmentDraft.longitude}
+                                    onChange={(e) => setAttachmentDraft({ ...attachmentDraft, longitude: e.target.value })}
+                                    placeholder="Longitude (ex: -48.3336)"
+                                  />
+                                  <button
+                                    className="btn-modern btn-secondary"
+                                    onClick={() => saveTemplateAttachment(editingTemplate)}
+                                    disabled={!attachmentDraft.latitude || !attachmentDraft.longitude || isSaving}
+                                  >
+                                    <Plus size={14} />
+                                    Adicionar Localização
+                                  </button>
+                                </div>
+                              ) : (
+                                <input
+                                  type="file"
+                                  className="input-modern"
+                                  accept={ATTACHMENT_TYPE_OPTIONS.find(option => option.value === attachmentDraft.type)?.accept}
+                                  disabled={isSaving}
+                                  onChange={(e) => {
+                                    const file = e.target.files?.[0]
+                                    if (file) saveTemplateAttachment(editingTemplate, file)
+                                    e.target.value = ''
+                                  }}
+                                />
+                              )}
+                            </>
+                          )}
+                          <small className="help-text">
+                            Imagem, vídeo e documento levam a resposta como legenda. Deixe a resposta vazia para enviar só o anexo.
+                          </small>
+                        </div>
+                      )}
+
+                      {templatePreview && (
+                        <div className="form-group-modern">
+                          <label className="label-modern">
+                            <Eye size={14} />
+                            Pré-visualização
+                          </label>
+                          <div className="response-preview">{templatePreview.rendered}</div>
+                          {templatePreview.missing.length > 0 && (
+                            <small className="help-text">
+                              ⚠️ Sem valor: {templatePreview.missing.map(name => `{${name}}`).join(', ')}
+                            </small>
+                          )}
+                        </div>
+                      )}
                     </div>
 
                     <div className="edit-actions">
                       <button 
                         className="btn-modern btn-secondary"
-                        onClick={() => setEditingTemplate(null)}
+                        onClick={() => {
+                          setEditingTemplate(null)
+                          setTemplatePreview(null)
+                        }}
                       >
                         <X size={14} />
                         Cancelar
                       </button>
+                      <button 
+                        className="btn-modern btn-secondary"
+                        onClick={() => previewTemplateResponse(editingTemplate)}
+                      >
+                        <Eye size={14} />
+                        Pré-visualizar
+                      </button>
                       <button 
                         className="btn-modern btn-primary"
                         onClick={() => updateAutoTemplate(editingTemplate)}
@@ -3621,6 +4628,21 @@ Posso ajudar com algo mais? 😊`,
                           <div className="status-active">
                             <Zap size={14} />
                             <span>Ativa</span>
+                            {template.action && template.action !== 'reply' && (
+                              <span title={ACTION_TYPE_OPTIONS.find(option => option.value === template.action)?.label}>
+                                <UserCheck size={14} />
+                              </span>
+                            )}
+                            {(template.steps?.length || 0) > 1 && (
+                              <span title={`${template.steps?.length} mensagens em sequência`}>
+                                <Layers size={14} />
+                              </span>
+                            )}
+                            {template.attachment && (
+                              <span title={ATTACHMENT_TYPE_OPTIONS.find(option => option.value === template.attachment?.type)?.label}>
+                                <Paperclip size={14} />
+                              </span>
+                            )}
                           </div>
                         ) : (
                           <div className="status-inactive">
@@ -3662,6 +4684,11 @@ Posso ajudar com algo mais? 😊`,
                         <div className="section-label">
                           <Tag size={14} />
                           <span>Gatilhos</span>
+                          {template.matchMode && template.matchMode !== 'exact' && (
+                            <small className="help-text">
+                              ({MATCH_MODE_OPTIONS.find(option => option.value === template.matchMode)?.label})
+                            </small>
+                          )}
                         </div>
                         <div className="triggers-container">
                           {template.trigger.map((trigger, index) => (
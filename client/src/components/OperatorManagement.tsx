@@ -35,6 +35,10 @@ interface Operator {
     resolved_chats: number
     avg_response_time?: number
     efficiency: number
+    messages_sent?: number        // Mensagens com confirmação do WhatsApp
+    messages_delivered?: number
+    messages_read?: number
+    read_rate?: number            // % das mensagens enviadas que o cliente leu
   }
   formatted_created_at?: string
   formatted_last_login?: string
@@ -50,6 +54,10 @@ interface OperatorStats {
     total_chats: number
     active_chats: number
     finished_chats: number
+    messages_sent: number
+    messages_delivered: number
+    messages_read: number
+    read_rate: number
   }>
 }
 
@@ -531,6 +539,15 @@ function OperatorManagement() {
                         <span className="perf-number">{operator.performance.efficiency}%</span>
                         <span className="perf-label">Eficiência</span>
                       </div>
+                      {!!operator.performance.messages_sent && (
+                        <div
+                          className="perf-item"
+                          title={`${operator.performance.messages_sent} enviadas, ${operator.performance.messages_delivered} entregues, ${operator.performance.messages_read} lidas`}
+                        >
+                          <span className="perf-number">{operator.performance.read_rate}%</span>
+                          <span className="perf-label">Lidas</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
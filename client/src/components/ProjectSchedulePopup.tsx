@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react'
+import { X, CalendarClock, Plus, Trash2 } from 'lucide-react'
+
+type WeekDay = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday'
+
+// Agendamento do projeto (mesmo formato de "activation" na API)
+export interface ProjectActivation {
+  start_date?: string | null
+  end_date?: string | null
+  weekly_schedule?: Partial<Record<WeekDay, { start: string, end: string }[]>> | null
+  priority?: number
+}
+
+interface ScheduleWindow {
+  day: WeekDay
+  start: string
+  end: string
+}
+
+interface ProjectSchedulePopupProps {
+  projectId: string
+  projectName: string
+  activation: ProjectActivation | null
+  isVisible: boolean
+  onClose: () => void
+  onSaved: (activation: ProjectActivation | null) => void
+}
+
+const WEEK_DAY_OPTIONS: { value: WeekDay, label: string }[] = [
+  { value: 'monday', label: 'Segunda' },
+  { value: 'tuesday', label: 'Terça' },
+  { value: 'wednesday', label: 'Quarta' },
+  { value: 'thursday', label: 'Quinta' },
+  { value: 'friday', label: 'Sexta' },
+  { value: 'saturday', label: 'Sábado' },
+  { value: 'sunday', label: 'Domingo' }
+]
+
+const toWindows = (activation: ProjectActivation | null): ScheduleWindow[] =>
+  WEEK_DAY_OPTIONS.flatMap(({ value }) =>
+    (activation?.weekly_schedule?.[value] || []).map(range => ({ day: value, start: range.start, end: range.end }))
+  )
+
+function ProjectSchedulePopup({ projectId, projectName, activation, isVisible, onClose, onSaved }: ProjectSchedulePopupProps) {
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [priority, setPriority] = useState(0)
+  const [windows, setWindows] = useState<ScheduleWindow[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!isVisible) return
+    setStartDate(activation?.start_date || '')
+    setEndDate(activation?.end_date || '')
+    setPriority(activation?.priority || 0)
+    setWindows(toWindows(activation))
+    setErrors([])
+  }, [isVisible, activation])
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    setWindows(prev => prev.map((window, i) => i === index ? { ...window, ...changes } : window))
+  }
+
+  const save = async (value: ProjectActivation | null) => {
+    try {
+      const authToken = localStorage.getItem('authToken')
+      const response = await fetch(`/api/messages/projects/${projectId}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ activation: value })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Erro ao salvar agendamento'])
+        return
+      }
+
+      onSaved(data.project.activation || null)
+      onClose()
+    } catch (error) {
+      console.error('❌ Erro ao salvar agendamento:', error)
+      setErrors(['Erro ao salvar agendamento. Tente novamente.'])
+    }
+  }
+
+  const handleSave = () => {
+    const weeklySchedule: ProjectActivation['weekly_schedule'] = {}
+    windows.forEach(({ day, start, end }) => {
+      weeklySchedule[day] = [...(weeklySchedule[day] || []), { start, end }]
+    })
+
+    save({
+      start_date: startDate || null,
+      end_date: endDate || null,
+      weekly_schedule: windows.length > 0 ? weeklySchedule : null,
+      priority
+    })
+  }
+
+  if (!isVisible) return null
+
+  return (
+    <div className="qr-popup-overlay">
+      <div className="qr-popup schedule-popup">
+        <div className="qr-popup-header">
+          <div className="qr-popup-title">
+            <CalendarClock size={24} />
+            <h2>Agendamento - {projectName}</h2>
+          </div>
+          <button className="qr-popup-close" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="schedule-content">
+          <p className="schedule-hint">
+            Durante o período e as janelas abaixo, este projeto responde no lugar do projeto padrão.
+            Horários no fuso do horário de atendimento. Janela com início depois do fim atravessa a meia-noite (ex: 22:00 às 06:00).
+          </p>
+
+          <div className="schedule-row">
+            <label>
+              De
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </label>
+            <label>
+              Até
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </label>
+            <label>
+              Prioridade
+              <input type="number" value={priority} onChange={(e) => setPriority(parseInt(e.target.value) || 0)} />
+            </label>
+          </div>
+
+          <h4>Janelas semanais <small>(vazio = o dia todo)</small></h4>
+          {windows.map((window, index) => (
+            <div key={index} className="schedule-row">
+              <select value={window.day} onChange={(e) => updateWindow(index, { day: e.target.value as WeekDay })}>
+                {WEEK_DAY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input type="time" value={window.start} onChange={(e) => updateWindow(index, { start: e.target.value })} />
+              <span>às</span>
+              <input type="time" value={window.end} onChange={(e) => updateWindow(index, { end: e.target.value })} />
+              <button className="btn-icon" title="Remover janela" onClick={() => setWindows(prev => prev.filter((_, i) => i !== index))}>
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <button
+            className="btn-modern btn-secondary"
+            onClick={() => setWindows(prev => [...prev, { day: 'monday', start: '08:00', end: '18:00' }])}
+          >
+            <Plus size={16} />
+            Adicionar janela
+          </button>
+
+          {errors.length > 0 && (
+            <ul className="schedule-errors">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="schedule-actions">
+            {activation && (
+              <button className="btn-modern btn-secondary" onClick={() => save(null)}>
+                Remover agendamento
+              </button>
+            )}
+            <button className="btn-modern btn-primary" onClick={handleSave}>
+              Salvar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProjectSchedulePopup
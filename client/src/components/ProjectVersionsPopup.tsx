@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react'
+import { X, History, Upload, RotateCcw, GitCompare } from 'lucide-react'
+
+interface ProjectVersion {
+  id: number
+  version_number: number
+  notes: string | null
+  published_by_name: string | null
+  rolled_back_from: number | null
+  created_at: string
+}
+
+interface DiffMessage {
+  id: number
+  trigger_words: string[]
+}
+
+// Resposta de GET /api/messages/projects/:id/versions/diff
+interface VersionDiff {
+  from: string
+  to: string
+  diff: {
+    has_changes: boolean
+    handoff_keywords: { added: string[], removed: string[] }
+    messages: {
+      added: DiffMessage[]
+      removed: DiffMessage[]
+      changed: (DiffMessage & { changes: { field: string, from: unknown, to: unknown }[] })[]
+    }
+    flow: {
+      nodes_added: string[]
+      nodes_removed: string[]
+      nodes_changed: string[]
+      connections_added: string[]
+      connections_removed: string[]
+    }
+  }
+}
+
+interface ProjectVersionsPopupProps {
+  projectId: string
+  projectName: string
+  isVisible: boolean
+  onClose: () => void
+  onDraftRestored: () => void // Rascunho substituído por uma versão: recarregar os templates
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+function ProjectVersionsPopup({ projectId, projectName, isVisible, onClose, onDraftRestored }: ProjectVersionsPopupProps) {
+  const [versions, setVersions] = useState<ProjectVersion[]>([])
+  const [publishedVersionId, setPublishedVersionId] = useState<number | null>(null)
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const request = async (path: string, options: RequestInit = {}) => {
+    const authToken = localStorage.getItem('authToken')
+    const response = await fetch(`/api/messages/projects/${projectId}${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Erro na requisição')
+    }
+    return data
+  }
+
+  // Recarregar histórico e situação do rascunho (ao abrir e após publicar/restaurar)
+  useEffect(() => {
+    if (!isVisible) return
+
+    const loadVersions = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch(`/api/messages/projects/${projectId}/versions`, {
+          headers: { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setVersions(data.versions)
+        setPublishedVersionId(data.published_version_id)
+        setHasUnpublishedChanges(data.has_unpublished_changes)
+      } catch (error) {
+        console.error('❌ Erro ao carregar versões:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadVersions()
+  }, [isVisible, projectId, reloadKey])
+
+  useEffect(() => {
+    setDiff(null)
+  }, [isVisible, projectId])
+
+  const compare = async (from: string, to = 'draft') => {
+    try {
+      setDiff(await request(`/versions/diff?from=${from}&to=${to}`))
+    } catch (error) {
+      alert(`Erro ao comparar versões: ${(error as Error).message}`)
+    }
+  }
+
+  const publish = async () => {
+    try {
+      const data = await request('/publish', { method: 'POST', body: JSON.stringify({ notes }) })
+      setNotes('')
+      setDiff(null)
+      alert(`🚀 Versão ${data.version.version_number} publicada! O bot já está usando este conteúdo.`)
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      alert(`Erro ao publicar: ${(error as Error).message}`)
+    }
+  }
+
+  const rollback = async (version: ProjectVersion) => {
+    if (!confirm(`Voltar o bot para a versão ${version.version_number}?`)) return
+    const restoreDraft = confirm(
+      'Substituir também o rascunho pelo conteúdo desta versão?\n\n' +
+      'OK = sim (edições não publicadas serão perdidas)\nCancelar = manter o rascunho atual'
+    )
+
+    try {
+      const data = await request('/rollback', {
+        method: 'POST',
+        body: JSON.stringify({ version_id: version.id, restore_draft: restoreDraft })
+      })
+      alert(`⏪ Versão ${version.version_number} restaurada como versão ${data.version.version_number}.`)
+      setDiff(null)
+      setReloadKey(key => key + 1)
+      if (restoreDraft) onDraftRestored()
+    } catch (error) {
+      alert(`Erro ao restaurar versão: ${(error as Error).message}`)
+    }
+  }
+
+  if (!isVisible) return null
+
+  const renderList = (label: string, items: string[]) => items.length > 0 && (
+    <li><strong>{label}:</strong> {items.join(', ')}</li>
+  )
+
+  return (
+    <div className="qr-popup-overlay">
+      <div className="qr-popup versions-popup">
+        <div className="qr-popup-header">
+          <div className="qr-popup-title">
+            <History size={24} />
+            <h2>Versões - {projectName}</h2>
+          </div>
+          <button className="qr-popup-close" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="versions-content">
+          <div className={`versions-status ${hasUnpublishedChanges ? 'pending' : ''}`}>
+            {publishedVersionId === null
+              ? '⚠️ Projeto nunca publicado: o bot usa o rascunho e cada edição vale na hora.'
+              : hasUnpublishedChanges
+                ? '✏️ Há alterações no rascunho que ainda não estão no bot.'
+                : '✅ O bot está usando o conteúdo atual do rascunho.'}
+          </div>
+
+          <div className="versions-publish">
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="O que mudou nesta versão? (opcional)"
+              maxLength={255}
+            />
+            <button className="btn-modern btn-secondary" onClick={() => compare('published')}>
+              <GitCompare size={16} />
+              Ver alterações
+            </button>
+            <button
+              className="btn-modern btn-primary"
+              onClick={publish}
+              disabled={publishedVersionId !== null && !hasUnpublishedChanges}
+            >
+              <Upload size={16} />
+              Publicar
+            </button>
+          </div>
+
+          {diff && (
+            <div className="versions-diff">
+              <h4>{diff.from} → {diff.to}</h4>
+              {!diff.diff.has_changes ? (
+                <p>Nenhuma diferença.</p>
+              ) : (
+                <ul>
+                  {renderList('Palavras de transferência adicionadas', diff.diff.handoff_keywords.added)}
+                  {renderList('Palavras de transferência removidas', diff.diff.handoff_keywords.removed)}
+                  {renderList('Mensagens adicionadas', diff.diff.messages.added.map(m => m.trigger_words.join(', ')))}
+                  {renderList('Mensagens removidas', diff.diff.messages.removed.map(m => m.trigger_words.join(', ')))}
+                  {diff.diff.messages.changed.map(message => (
+                    <li key={message.id}>
+                      <strong>Mensagem "{message.trigger_words.join(', ')}":</strong>
+                      <ul>
+                        {message.changes.map(change => (
+                          <li key={change.field}>
+                            {change.field}: <del>{formatValue(change.from)}</del> → <ins>{formatValue(change.to)}</ins>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                  {renderList('Nós adicionados ao fluxo', diff.diff.flow.nodes_added)}
+                  {renderList('Nós removidos do fluxo', diff.diff.flow.nodes_removed)}
+                  {renderList('Nós alterados no fluxo', diff.diff.flow.nodes_changed)}
+                  {renderList('Conexões adicionadas', diff.diff.flow.connections_added)}
+                  {renderList('Conexões removidas', diff.diff.flow.connections_removed)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <h3>Histórico</h3>
+          {isLoading ? (
+            <p>Carregando...</p>
+          ) : versions.length === 0 ? (
+            <p>Nenhuma versão publicada ainda.</p>
+          ) : (
+            <div className="versions-list">
+              {versions.map(version => (
+                <div key={version.id} className={`version-item ${version.id === publishedVersionId ? 'published' : ''}`}>
+                  <div className="version-info">
+                    <strong>v{version.version_number}</strong>
+                    {version.id === publishedVersionId && <span className="version-badge">No ar</span>}
+                    <span>{new Date(version.created_at).toLocaleString('pt-BR')}</span>
+                    <span>{version.published_by_name || 'Usuário removido'}</span>
+                    {version.notes && <em>{version.notes}</em>}
+                  </div>
+                  <div className="version-actions">
+                    <button className="btn-icon" title="Comparar com o rascunho" onClick={() => compare(String(version.id))}>
+                      <GitCompare size={16} />
+                    </button>
+                    {version.id !== publishedVersionId && (
+                      <button className="btn-icon" title="Voltar para esta versão" onClick={() => rollback(version)}>
+                        <RotateCcw size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProjectVersionsPopup
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react'
+import { X, ScanSearch, Plus, EyeOff } from 'lucide-react'
+
+interface UnmatchedVariant {
+  normalized_text: string
+  sample_text: string
+  occurrences: number
+}
+
+// Resposta de GET /api/messages/projects/:id/unmatched
+interface UnmatchedGroup {
+  text: string
+  total: number
+  variants: UnmatchedVariant[]
+  last_seen_at: string
+  suggested_message_id: number | null
+}
+
+interface ProjectMessage {
+  id: number
+  trigger_words: string[]
+  match_mode: string
+  response_text: string
+}
+
+interface UnmatchedReportPopupProps {
+  projectId: string
+  projectName: string
+  isVisible: boolean
+  onClose: () => void
+  onTriggersAdded: () => void // Gatilhos adicionados a uma mensagem: recarregar os templates
+}
+
+const PERIODS = [7, 30, 90]
+
+const describeMessage = (message: ProjectMessage) => {
+  const triggers = message.trigger_words.slice(0, 3).join(', ')
+  return `#${message.id} - ${triggers}${message.trigger_words.length > 3 ? '…' : ''}`
+}
+
+function UnmatchedReportPopup({ projectId, projectName, isVisible, onClose, onTriggersAdded }: UnmatchedReportPopupProps) {
+  const [groups, setGroups] = useState<UnmatchedGroup[]>([])
+  const [messages, setMessages] = useState<ProjectMessage[]>([])
+  const [totalMessages, setTotalMessages] = useState(0)
+  const [days, setDays] = useState(30)
+  const [selectedMessages, setSelectedMessages] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const request = async (path: string, options: RequestInit = {}) => {
+    const authToken = localStorage.getItem('authToken')
+    const response = await fetch(`/api/messages/projects/${projectId}${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Erro na requisição')
+    }
+    return data
+  }
+
+  // Recarregar relatório e mensagens do projeto (ao abrir, trocar o período e após cada ação)
+  useEffect(() => {
+    if (!isVisible) return
+
+    const loadReport = async () => {
+      try {
+        setIsLoading(true)
+        const headers = { 'Authorization': `Bearer ${localStorage.getItem('authToken')}` }
+        const [reportResponse, messagesResponse] = await Promise.all([
+          fetch(`/api/messages/projects/${projectId}/unmatched?days=${days}`, { headers }),
+          fetch(`/api/messages/projects/${projectId}/messages`, { headers })
+        ])
+        if (!reportResponse.ok || !messagesResponse.ok) return
+        const report = await reportResponse.json()
+        const data = await messagesResponse.json()
+        setGroups(report.groups)
+        setTotalMessages(report.total_messages)
+        setMessages(data.messages.filter((message: ProjectMessage) => message.match_mode !== 'regex'))
+        setSelectedMessages({})
+      } catch (error) {
+        console.error('❌ Erro ao carregar mensagens não reconhecidas:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReport()
+  }, [isVisible, projectId, days, reloadKey])
+
+  const groupTexts = (group: UnmatchedGroup) => group.variants.map(variant => variant.normalized_text)
+
+  const addAsTrigger = async (group: UnmatchedGroup) => {
+    const messageId = selectedMessages[group.text] || (group.suggested_message_id ? String(group.suggested_message_id) : '')
+    if (!messageId) {
+      alert('Escolha a mensagem automática que deve responder a este texto')
+      return
+    }
+
+    try {
+      const data = await request('/unmatched/add-trigger', {
+        method: 'POST',
+        body: JSON.stringify({ message_id: parseInt(messageId), texts: groupTexts(group) })
+      })
+      const added = data.added_triggers.length > 0
+        ? `Gatilhos adicionados: ${data.added_triggers.join(', ')}`
+        : 'A mensagem já tinha esses gatilhos.'
+      alert(data.needs_publish ? `✅ ${added}\n\nPublique o projeto em "Versões" para o bot passar a usá-los.` : `✅ ${added}`)
+      onTriggersAdded()
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      alert(`Erro ao adicionar gatilho: ${(error as Error).message}`)
+    }
+  }
+
+  const dismiss = async (group: UnmatchedGroup) => {
+    try {
+      await request('/unmatched/dismiss', { method: 'POST', body: JSON.stringify({ texts: groupTexts(group) }) })
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      alert(`Erro ao ignorar: ${(error as Error).message}`)
+    }
+  }
+
+  if (!isVisible) return null
+
+  return (
+    <div className="qr-popup-overlay">
+      <div className="qr-popup unmatched-report-popup">
+        <div className="qr-popup-header">
+          <div className="qr-popup-title">
+            <ScanSearch size={24} />
+            <h2>Mensagens não reconhecidas - {projectName}</h2>
+          </div>
+          <button className="qr-popup-close" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="unmatched-report-content">
+          <div className="unmatched-report-toolbar">
+            <span>{totalMessages} mensagem(ns) transferidas por falta de gatilho</span>
+            <select value={days} onChange={(e) => setDays(parseInt(e.target.value))}>
+              {PERIODS.map(period => <option key={period} value={period}>Últimos {period} dias</option>)}
+            </select>
+          </div>
+
+          {isLoading ? (
+            <p>Carregando...</p>
+          ) : groups.length === 0 ? (
+            <p>Nenhuma mensagem sem resposta no período. 🎉</p>
+          ) : (
+            groups.map(group => (
+              <div key={group.text} className="unmatched-group">
+                <div className="unmatched-group-header">
+                  <strong>"{group.variants[0].sample_text}"</strong>
+                  <span className="unmatched-group-count">{group.total}x</span>
+                </div>
+
+                {group.variants.length > 1 && (
+                  <ul className="unmatched-group-variants">
+                    {group.variants.map(variant => (
+                      <li key={variant.normalized_text}>{variant.sample_text} <small>({variant.occurrences}x)</small></li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="unmatched-group-actions">
+                  <select
+                    value={selectedMessages[group.text] ?? (group.suggested_message_id ? String(group.suggested_message_id) : '')}
+                    onChange={(e) => setSelectedMessages(prev => ({ ...prev, [group.text]: e.target.value }))}
+                  >
+                    <option value="">Escolha a mensagem automática...</option>
+                    {messages.map(message => (
+                      <option key={message.id} value={message.id}>{describeMessage(message)}</option>
+                    ))}
+                  </select>
+                  <button className="btn-modern btn-primary" onClick={() => addAsTrigger(group)}>
+                    <Plus size={14} />
+                    Adicionar como gatilho
+                  </button>
+                  <button className="btn-modern btn-secondary" onClick={() => dismiss(group)} title="Não mostrar mais estes textos">
+                    <EyeOff size={14} />
+                    Ignorar
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default UnmatchedReportPopup
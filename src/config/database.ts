@@ -94,6 +94,29 @@ export async function executeQuery(query: string, params?: any[]): Promise<any>
   }
 }
 
+// Query executada dentro de uma transação (mesma conexão até o commit)
+export type TransactionQuery = (query: string, params?: any[]) => Promise<any>;
+
+// Executar várias queries em uma transação: conexão dedicada do pool, rollback de tudo em caso de erro
+export async function withTransaction<T>(callback: (query: TransactionQuery) => Promise<T>): Promise<T> {
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await callback(async (query, params = []) => {
+      const [results] = await conn.execute(query, params);
+      return results;
+    });
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    console.error('❌ Transação desfeita:', error);
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
 export async function closeDatabaseConnection(): Promise<void> {
   if (connection) {
     await connection.end();
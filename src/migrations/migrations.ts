@@ -557,6 +557,837 @@ const migration011: Migration = {
   }
 };
 
+// Migration 012: Adicionar fluxo visual aos projetos de mensagens
+const migration012: Migration = {
+  id: '012_add_project_flow_data',
+  description: 'Adicionar campo flow_data para armazenar o fluxo visual (nós e conexões) executado pelo servidor',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE message_projects ADD COLUMN flow_data JSON NULL AFTER is_default');
+      console.log('✅ Migration 012: coluna flow_data adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 012 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 012: coluna flow_data já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE message_projects DROP COLUMN flow_data');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 012 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 013: Estado persistente das conversas do bot
+const migration013: Migration = {
+  id: '013_create_conversation_states',
+  description: 'Criar tabela de estado das conversas (posição no fluxo, variáveis coletadas e expiração) por contato e instância',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS conversation_states (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        manager_id INT NOT NULL,
+        contact_id INT NOT NULL,
+        instance_id INT NOT NULL,
+        current_node_id VARCHAR(191) NULL,
+        variables JSON NULL,
+        last_interaction_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        INDEX idx_manager_id (manager_id),
+        INDEX idx_expires_at (expires_at),
+        
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE,
+        FOREIGN KEY (instance_id) REFERENCES whatsapp_instances(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_contact_instance (contact_id, instance_id)
+      )
+    `;
+    await executeQuery(query);
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS conversation_states');
+  }
+};
+
+// Migration 014: Modo de correspondência dos gatilhos das mensagens automáticas
+const migration014: Migration = {
+  id: '014_add_auto_message_match_mode',
+  description: 'Adicionar campo match_mode para configurar como os gatilhos são comparados',
+  up: async () => {
+    try {
+      await executeQuery(`
+        ALTER TABLE auto_messages
+        ADD COLUMN match_mode ENUM('exact', 'normalized', 'contains', 'starts_with', 'regex', 'fuzzy')
+        NOT NULL DEFAULT 'exact' AFTER trigger_words
+      `);
+      console.log('✅ Migration 014: coluna match_mode adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 014 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 014: coluna match_mode já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN match_mode');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 014 down: ${error.message}`);
+    }
+  }
+};
+
+// Catálogo inicial de destinos (antes fixo no código do bot de vendas de passagem).
+// Cópia fixa da migration: mudanças em DEFAULT_DESTINATIONS (models/Destination) valem só para gestores novos
+const MIGRATION015_DESTINATIONS: { name: string; state: string; aliases: string[]; is_origin?: boolean }[] = [
+  { name: 'Palmas', state: 'TO', aliases: [], is_origin: true },
+  { name: 'São Luís', state: 'MA', aliases: [] },
+  { name: 'Imperatriz', state: 'MA', aliases: [] },
+  { name: 'Brasília', state: 'DF', aliases: ['DF'] },
+  { name: 'Goiânia', state: 'GO', aliases: ['GO'] },
+  { name: 'Araguaína', state: 'TO', aliases: [] },
+  { name: 'Gurupi', state: 'TO', aliases: [] },
+  { name: 'Porto Nacional', state: 'TO', aliases: [] },
+  { name: 'Paraíso do Tocantins', state: 'TO', aliases: ['Paraíso'] },
+  { name: 'Colinas do Tocantins', state: 'TO', aliases: ['Colinas'] },
+  { name: 'Barreiras', state: 'BA', aliases: ['BA'] },
+  { name: 'Luís Eduardo Magalhães', state: 'BA', aliases: ['L.E. Magalhães', 'LE Magalhães', 'LEM'] },
+  { name: 'Teresina', state: 'PI', aliases: ['PI'] },
+  { name: 'Parnaíba', state: 'PI', aliases: [] }
+];
+
+// Migration 015: Catálogo de destinos por gestor
+const migration015: Migration = {
+  id: '015_create_destinations',
+  description: 'Criar catálogo de destinos (nome, estado, apelidos) por gestor e popular gestores existentes',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS destinations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        manager_id INT NOT NULL,
+        name VARCHAR(150) NOT NULL,
+        state VARCHAR(10) NULL,
+        aliases JSON NULL,
+        is_origin BOOLEAN DEFAULT FALSE,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        INDEX idx_manager_id (manager_id),
+        
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_manager_destination (manager_id, name)
+      )
+    `;
+    await executeQuery(query);
+
+    // Manter o comportamento atual: gestores existentes recebem o catálogo que era fixo no código
+    const managers = await executeQuery("SELECT id FROM users WHERE role = 'manager'") as any[];
+    for (const manager of managers) {
+      for (const destination of MIGRATION015_DESTINATIONS) {
+        await executeQuery(
+          'INSERT IGNORE INTO destinations (manager_id, name, state, aliases, is_origin) VALUES (?, ?, ?, ?, ?)',
+          [manager.id, destination.name, destination.state, JSON.stringify(destination.aliases), destination.is_origin === true]
+        );
+      }
+    }
+    console.log(`✅ Migration 015: catálogo de destinos criado para ${managers.length} gestor(es)`);
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS destinations');
+  }
+};
+
+// Migration 016: Horário de atendimento por gestor
+const migration016: Migration = {
+  id: '016_create_business_hours',
+  description: 'Criar tabela de horário de atendimento (agenda semanal, feriados, fuso e comportamento fora do horário)',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS business_hours (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        manager_id INT NOT NULL UNIQUE,
+        timezone VARCHAR(64) NOT NULL DEFAULT 'America/Sao_Paulo',
+        weekly_schedule JSON NULL,
+        holidays JSON NULL,
+        off_hours_mode ENUM('queue', 'reply') DEFAULT 'queue',
+        off_hours_message TEXT NULL,
+        is_enabled BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `;
+    await executeQuery(query);
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS business_hours');
+  }
+};
+
+// Migration 017: Regras de transferência para atendimento humano
+const migration017: Migration = {
+  id: '017_add_handoff_rules',
+  description: 'Adicionar action_type nas mensagens automáticas e handoff_keywords nos projetos',
+  up: async () => {
+    try {
+      await executeQuery(`
+        ALTER TABLE auto_messages
+        ADD COLUMN action_type ENUM('reply', 'reply_and_handoff', 'handoff_only')
+        NOT NULL DEFAULT 'reply' AFTER response_text
+      `);
+      console.log('✅ Migration 017: coluna action_type adicionada');
+
+      // Manter o comportamento anterior: gatilhos de atendimento humano e respostas de transferência
+      await executeQuery(`
+        UPDATE auto_messages
+        SET action_type = 'reply_and_handoff'
+        WHERE JSON_SEARCH(LOWER(trigger_words), 'one', 'operador') IS NOT NULL
+           OR JSON_SEARCH(LOWER(trigger_words), 'one', 'atendente') IS NOT NULL
+           OR JSON_SEARCH(LOWER(trigger_words), 'one', 'humano') IS NOT NULL
+           OR JSON_SEARCH(LOWER(trigger_words), 'one', 'pessoa') IS NOT NULL
+           OR (JSON_SEARCH(trigger_words, 'one', '*') IS NOT NULL
+               AND LOWER(response_text) LIKE '%transferir você para nosso operador%')
+      `);
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 017 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 017: coluna action_type já existe');
+    }
+
+    try {
+      await executeQuery('ALTER TABLE message_projects ADD COLUMN handoff_keywords JSON NULL AFTER flow_data');
+      console.log('✅ Migration 017: coluna handoff_keywords adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 017 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 017: coluna handoff_keywords já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN action_type');
+      await executeQuery('ALTER TABLE message_projects DROP COLUMN handoff_keywords');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 017 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 018: Formulários do bot (dados do contato e formulário em andamento)
+const migration018: Migration = {
+  id: '018_add_form_collection',
+  description: 'Adicionar custom_fields nos contatos e active_form no estado da conversa',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE contacts ADD COLUMN custom_fields JSON NULL AFTER notes');
+      console.log('✅ Migration 018: coluna custom_fields adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 018 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 018: coluna custom_fields já existe');
+    }
+
+    try {
+      await executeQuery('ALTER TABLE conversation_states ADD COLUMN active_form VARCHAR(100) NULL AFTER current_node_id');
+      console.log('✅ Migration 018: coluna active_form adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 018 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 018: coluna active_form já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE contacts DROP COLUMN custom_fields');
+      await executeQuery('ALTER TABLE conversation_states DROP COLUMN active_form');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 018 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 019: Anexos nas respostas automáticas (imagem, documento, áudio, vídeo, localização)
+const migration019: Migration = {
+  id: '019_add_auto_message_attachment',
+  description: 'Adicionar campo attachment (JSON) nas mensagens automáticas',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages ADD COLUMN attachment JSON NULL AFTER action_type');
+      console.log('✅ Migration 019: coluna attachment adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 019 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 019: coluna attachment já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN attachment');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 019 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 020: Sequência de mensagens com tempo de digitação e variações de texto
+const migration020: Migration = {
+  id: '020_add_auto_message_sequence',
+  description: 'Adicionar response_steps, variant_mode e variant_cursor nas mensagens automáticas',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages ADD COLUMN response_steps JSON NULL AFTER response_text');
+      console.log('✅ Migration 020: coluna response_steps adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 020 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 020: coluna response_steps já existe');
+    }
+
+    try {
+      await executeQuery("ALTER TABLE auto_messages ADD COLUMN variant_mode ENUM('random', 'round_robin') DEFAULT 'random' AFTER response_steps");
+      console.log('✅ Migration 020: coluna variant_mode adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 020 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 020: coluna variant_mode já existe');
+    }
+
+    try {
+      await executeQuery('ALTER TABLE auto_messages ADD COLUMN variant_cursor INT DEFAULT 0 AFTER variant_mode');
+      console.log('✅ Migration 020: coluna variant_cursor adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 020 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 020: coluna variant_cursor já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN variant_cursor');
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN variant_mode');
+      await executeQuery('ALTER TABLE auto_messages DROP COLUMN response_steps');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 020 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 021: Versões publicadas dos projetos (rascunho x publicado, histórico e rollback)
+const migration021: Migration = {
+  id: '021_create_message_project_versions',
+  description: 'Criar tabela de versões publicadas dos projetos e campo published_version_id',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS message_project_versions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        project_id INT NOT NULL,
+        version_number INT NOT NULL,
+        snapshot JSON NOT NULL,
+        notes VARCHAR(255) NULL,
+        published_by INT NULL,
+        rolled_back_from INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        UNIQUE KEY unique_project_version (project_id, version_number),
+        
+        FOREIGN KEY (project_id) REFERENCES message_projects(id) ON DELETE CASCADE,
+        FOREIGN KEY (published_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `;
+    await executeQuery(query);
+    console.log('✅ Migration 021: tabela message_project_versions criada');
+
+    try {
+      await executeQuery('ALTER TABLE message_projects ADD COLUMN published_version_id INT NULL AFTER flow_data');
+      console.log('✅ Migration 021: coluna published_version_id adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 021 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 021: coluna published_version_id já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE message_projects DROP COLUMN published_version_id');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 021 down: ${error.message}`);
+    }
+    await executeQuery('DROP TABLE IF EXISTS message_project_versions');
+  }
+};
+
+// Migration 022: Agendamento de projetos (período e janelas semanais)
+const migration022: Migration = {
+  id: '022_add_project_activation',
+  description: 'Adicionar campo activation (JSON) para ativar projetos por período ou janela semanal',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE message_projects ADD COLUMN activation JSON NULL AFTER is_default');
+      console.log('✅ Migration 022: coluna activation adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 022 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 022: coluna activation já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE message_projects DROP COLUMN activation');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 022 down: ${error.message}`);
+    }
+  }
+};
+
+// Migration 023: Várias instâncias (números) por gestor, cada uma com o seu projeto
+const migration023: Migration = {
+  id: '023_add_instance_routing',
+  description: 'Vincular instâncias WhatsApp a um projeto e registrar a instância de contatos, conversas e mensagens',
+  up: async () => {
+    const alterQueries = [
+      // Projeto e modo de atendimento de cada número
+      'ALTER TABLE whatsapp_instances ADD COLUMN project_id INT NULL AFTER instance_name',
+      'ALTER TABLE whatsapp_instances ADD COLUMN routing_mode ENUM("bot", "human") DEFAULT "bot" AFTER project_id',
+      'ALTER TABLE whatsapp_instances ADD CONSTRAINT fk_whatsapp_instances_project FOREIGN KEY (project_id) REFERENCES message_projects(id) ON DELETE SET NULL',
+
+      // Instância por onde o contato, a conversa e a mensagem passaram
+      'ALTER TABLE contacts ADD COLUMN instance_id INT NULL AFTER manager_id',
+      'ALTER TABLE human_chats ADD COLUMN instance_id INT NULL AFTER contact_id',
+      'ALTER TABLE messages ADD COLUMN instance_id INT NULL AFTER contact_id',
+      'ALTER TABLE contacts ADD INDEX idx_instance_id (instance_id)',
+      'ALTER TABLE human_chats ADD INDEX idx_instance_id (instance_id)',
+      'ALTER TABLE messages ADD INDEX idx_instance_created (instance_id, created_at)'
+    ];
+
+    for (const query of alterQueries) {
+      try {
+        await executeQuery(query);
+        console.log(`✅ Migration 023: ${query}`);
+      } catch (error: any) {
+        if (!error.message.includes('Duplicate column name') &&
+            !error.message.includes('Duplicate key name') &&
+            !error.message.includes('Duplicate foreign key') &&
+            !error.message.includes('already exists')) {
+          console.error(`❌ Migration 023 erro: ${error.message}`);
+          throw error;
+        } else {
+          console.log(`⚠️ Migration 023: ${query} - já existe`);
+        }
+      }
+    }
+  },
+  down: async () => {
+    const queries = [
+      'ALTER TABLE messages DROP INDEX idx_instance_created',
+      'ALTER TABLE human_chats DROP INDEX idx_instance_id',
+      'ALTER TABLE contacts DROP INDEX idx_instance_id',
+      'ALTER TABLE messages DROP COLUMN instance_id',
+      'ALTER TABLE human_chats DROP COLUMN instance_id',
+      'ALTER TABLE contacts DROP COLUMN instance_id',
+      'ALTER TABLE whatsapp_instances DROP FOREIGN KEY fk_whatsapp_instances_project',
+      'ALTER TABLE whatsapp_instances DROP COLUMN routing_mode',
+      'ALTER TABLE whatsapp_instances DROP COLUMN project_id'
+    ];
+
+    for (const query of queries) {
+      try {
+        await executeQuery(query);
+      } catch (error: any) {
+        console.log(`⚠️ Migration 023 down: ${error.message}`);
+      }
+    }
+  }
+};
+
+// Migration 024: Rastreamento das decisões do bot (por que o bot respondeu assim)
+const migration024: Migration = {
+  id: '024_create_bot_decision_traces',
+  description: 'Criar tabela com a decisão do bot para cada mensagem recebida',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS bot_decision_traces (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        manager_id INT NOT NULL,
+        contact_id INT NOT NULL,
+        instance_id INT NULL,
+        message_id INT NULL,
+        project_id INT NULL,
+        project_version_id INT NULL,
+        decision_kind VARCHAR(30) NOT NULL,
+        input_text TEXT NULL,
+        normalized_text TEXT NULL,
+        matched_message_id INT NULL,
+        destination VARCHAR(150) NULL,
+        handoff_reason VARCHAR(255) NULL,
+        details JSON NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        INDEX idx_contact_created (contact_id, created_at),
+        INDEX idx_manager_kind_created (manager_id, decision_kind, created_at),
+        INDEX idx_message_id (message_id),
+        
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE,
+        FOREIGN KEY (project_id) REFERENCES message_projects(id) ON DELETE SET NULL
+      )
+    `;
+    await executeQuery(query);
+    console.log('✅ Migration 024: tabela bot_decision_traces criada');
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS bot_decision_traces');
+  }
+};
+
+const migration025: Migration = {
+  id: '025_create_unmatched_messages',
+  description: 'Criar tabela de mensagens que não corresponderam a nenhum gatilho (por projeto)',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS unmatched_messages (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        project_id INT NOT NULL,
+        manager_id INT NOT NULL,
+        normalized_text VARCHAR(255) NOT NULL,
+        sample_text TEXT NOT NULL,
+        occurrences INT NOT NULL DEFAULT 1,
+        status ENUM('open', 'added', 'dismissed') DEFAULT 'open',
+        resolved_message_id INT NULL,
+        first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        UNIQUE KEY unique_project_text (project_id, normalized_text),
+        INDEX idx_project_status_seen (project_id, status, last_seen_at),
+        
+        FOREIGN KEY (project_id) REFERENCES message_projects(id) ON DELETE CASCADE,
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (resolved_message_id) REFERENCES auto_messages(id) ON DELETE SET NULL
+      )
+    `;
+    await executeQuery(query);
+    console.log('✅ Migration 025: tabela unmatched_messages criada');
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS unmatched_messages');
+  }
+};
+
+const migration026: Migration = {
+  id: '026_create_project_intent_classifiers',
+  description: 'Criar tabela do classificador de intenção de cada projeto (ativação, limite de confiança e modelo treinado)',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS project_intent_classifiers (
+        project_id INT PRIMARY KEY,
+        is_enabled BOOLEAN DEFAULT FALSE,
+        confidence_threshold DECIMAL(4,3) DEFAULT 0.600,
+        model JSON NULL,
+        examples INT DEFAULT 0,
+        history_examples INT DEFAULT 0,
+        trained_at TIMESTAMP NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (project_id) REFERENCES message_projects(id) ON DELETE CASCADE
+      )
+    `;
+    await executeQuery(query);
+    console.log('✅ Migration 026: tabela project_intent_classifiers criada');
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS project_intent_classifiers');
+  }
+};
+
+const migration027: Migration = {
+  id: '027_add_contact_opt_out',
+  description: 'Registrar descadastro (opt-out) pedido pelo contato e quem bloqueou o contato',
+  up: async () => {
+    const alterQueries = [
+      'ALTER TABLE contacts ADD COLUMN opted_out BOOLEAN DEFAULT FALSE AFTER is_blocked',
+      'ALTER TABLE contacts ADD COLUMN opted_out_at TIMESTAMP NULL AFTER opted_out',
+      'ALTER TABLE contacts ADD COLUMN blocked_at TIMESTAMP NULL AFTER is_blocked',
+      'ALTER TABLE contacts ADD COLUMN blocked_by INT NULL AFTER blocked_at'
+    ];
+
+    for (const query of alterQueries) {
+      try {
+        await executeQuery(query);
+        console.log(`✅ Migration 027: ${query}`);
+      } catch (error: any) {
+        if (!error.message.includes('Duplicate column name')) {
+          console.error(`❌ Migration 027 erro: ${error.message}`);
+          throw error;
+        } else {
+          console.log(`⚠️ Migration 027: ${query} - já existe`);
+        }
+      }
+    }
+  },
+  down: async () => {
+    const queries = [
+      'ALTER TABLE contacts DROP COLUMN blocked_by',
+      'ALTER TABLE contacts DROP COLUMN blocked_at',
+      'ALTER TABLE contacts DROP COLUMN opted_out_at',
+      'ALTER TABLE contacts DROP COLUMN opted_out'
+    ];
+
+    for (const query of queries) {
+      try {
+        await executeQuery(query);
+      } catch (error: any) {
+        console.log(`⚠️ Migration 027 down: ${error.message}`);
+      }
+    }
+  }
+};
+
+const migration028: Migration = {
+  id: '028_add_group_support',
+  description: 'Permitir grupos do WhatsApp por instância e registrar grupos como contatos',
+  up: async () => {
+    const alterQueries = [
+      // Grupos: desativados por padrão; o bot responde quando mencionado ou com o prefixo configurado
+      'ALTER TABLE whatsapp_instances ADD COLUMN groups_enabled BOOLEAN DEFAULT FALSE AFTER routing_mode',
+      'ALTER TABLE whatsapp_instances ADD COLUMN group_prefix VARCHAR(20) NULL AFTER groups_enabled',
+
+      // Grupo é um contato próprio (phone_number guarda o ID do grupo, que é maior que um telefone)
+      'ALTER TABLE contacts ADD COLUMN contact_type ENUM("individual", "group") DEFAULT "individual" AFTER phone_number',
+      'ALTER TABLE contacts MODIFY COLUMN phone_number VARCHAR(50) NOT NULL'
+    ];
+
+    for (const query of alterQueries) {
+      try {
+        await executeQuery(query);
+        console.log(`✅ Migration 028: ${query}`);
+      } catch (error: any) {
+        if (!error.message.includes('Duplicate column name')) {
+          console.error(`❌ Migration 028 erro: ${error.message}`);
+          throw error;
+        } else {
+          console.log(`⚠️ Migration 028: ${query} - já existe`);
+        }
+      }
+    }
+  },
+  down: async () => {
+    const queries = [
+      'ALTER TABLE contacts DROP COLUMN contact_type',
+      'ALTER TABLE whatsapp_instances DROP COLUMN group_prefix',
+      'ALTER TABLE whatsapp_instances DROP COLUMN groups_enabled'
+    ];
+
+    for (const query of queries) {
+      try {
+        await executeQuery(query);
+      } catch (error: any) {
+        console.log(`⚠️ Migration 028 down: ${error.message}`);
+      }
+    }
+  }
+};
+
+const migration029: Migration = {
+  id: '029_add_messages_whatsapp_id_index',
+  description: 'Indexar o ID do WhatsApp das mensagens para ignorar eventos repetidos',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE messages ADD INDEX idx_whatsapp_message_id (whatsapp_message_id)');
+      console.log('✅ Migration 029: índice idx_whatsapp_message_id criado');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate key name')) {
+        console.error(`❌ Migration 029 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 029: índice idx_whatsapp_message_id já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE messages DROP INDEX idx_whatsapp_message_id');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 029 down: ${error.message}`);
+    }
+  }
+};
+
+const migration030: Migration = {
+  id: '030_add_inbound_media',
+  description: 'Guardar a mídia recebida de contatos (arquivo, tipo, tamanho e nome original)',
+  up: async () => {
+    const alterQueries = [
+      'ALTER TABLE messages ADD COLUMN media_file VARCHAR(100) NULL AFTER media_url',
+      'ALTER TABLE messages ADD COLUMN media_mime_type VARCHAR(100) NULL AFTER media_file',
+      'ALTER TABLE messages ADD COLUMN media_size INT NULL AFTER media_mime_type',
+      'ALTER TABLE messages ADD COLUMN media_name VARCHAR(255) NULL AFTER media_size'
+    ];
+
+    for (const query of alterQueries) {
+      try {
+        await executeQuery(query);
+        console.log(`✅ Migration 030: ${query}`);
+      } catch (error: any) {
+        if (!error.message.includes('Duplicate column name')) {
+          console.error(`❌ Migration 030 erro: ${error.message}`);
+          throw error;
+        } else {
+          console.log(`⚠️ Migration 030: ${query} - já existe`);
+        }
+      }
+    }
+  },
+  down: async () => {
+    const queries = [
+      'ALTER TABLE messages DROP COLUMN media_name',
+      'ALTER TABLE messages DROP COLUMN media_size',
+      'ALTER TABLE messages DROP COLUMN media_mime_type',
+      'ALTER TABLE messages DROP COLUMN media_file'
+    ];
+
+    for (const query of queries) {
+      try {
+        await executeQuery(query);
+      } catch (error: any) {
+        console.log(`⚠️ Migration 030 down: ${error.message}`);
+      }
+    }
+  }
+};
+
+const migration031: Migration = {
+  id: '031_create_outbound_messages',
+  description: 'Criar fila de envio de mensagens (bot e atendentes) com novas tentativas',
+  up: async () => {
+    const query = `
+      CREATE TABLE IF NOT EXISTS outbound_messages (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        manager_id INT NOT NULL,
+        instance_id INT NULL,
+        contact_id INT NOT NULL,
+        chat_id INT NULL,
+        message_id INT NULL,
+        to_chat_id VARCHAR(80) NOT NULL,
+        sender_type ENUM('bot', 'operator') NOT NULL,
+        content TEXT NULL,
+        attachment JSON NULL,
+        status ENUM('pending', 'sending', 'sent', 'failed') DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_error VARCHAR(255) NULL,
+        whatsapp_message_id VARCHAR(191) NULL,
+        sent_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        INDEX idx_status_next_attempt (status, next_attempt_at),
+        INDEX idx_contact_status (contact_id, status),
+        UNIQUE KEY unique_message_id (message_id),
+        
+        FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (instance_id) REFERENCES whatsapp_instances(id) ON DELETE SET NULL,
+        FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE,
+        FOREIGN KEY (chat_id) REFERENCES human_chats(id) ON DELETE SET NULL,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE SET NULL
+      )
+    `;
+    await executeQuery(query);
+    console.log('✅ Migration 031: tabela outbound_messages criada');
+  },
+  down: async () => {
+    await executeQuery('DROP TABLE IF EXISTS outbound_messages');
+  }
+};
+
+const migration032: Migration = {
+  id: '032_unique_messages_whatsapp_id',
+  description: 'Tornar único o ID do WhatsApp das mensagens (o banco garante que um evento repetido não é salvo duas vezes)',
+  up: async () => {
+    // Repetições já salvas mantêm o ID só na primeira mensagem
+    await executeQuery(`
+      UPDATE messages m
+      JOIN (
+        SELECT whatsapp_message_id, MIN(id) AS keep_id FROM messages
+        WHERE whatsapp_message_id IS NOT NULL
+        GROUP BY whatsapp_message_id
+        HAVING COUNT(*) > 1
+      ) d ON m.whatsapp_message_id = d.whatsapp_message_id AND m.id <> d.keep_id
+      SET m.whatsapp_message_id = NULL
+    `);
+
+    // Índice único aceita vários NULL (mensagens sem ID do WhatsApp)
+    await executeQuery(`
+      ALTER TABLE messages
+        DROP INDEX idx_whatsapp_message_id,
+        ADD UNIQUE INDEX idx_whatsapp_message_id (whatsapp_message_id)
+    `);
+    console.log('✅ Migration 032: índice idx_whatsapp_message_id agora é único');
+  },
+  down: async () => {
+    try {
+      await executeQuery(`
+        ALTER TABLE messages
+          DROP INDEX idx_whatsapp_message_id,
+          ADD INDEX idx_whatsapp_message_id (whatsapp_message_id)
+      `);
+    } catch (error: any) {
+      console.log(`⚠️ Migration 032 down: ${error.message}`);
+    }
+  }
+};
+
+const migration033: Migration = {
+  id: '033_add_outbound_ignore_opt_out',
+  description: 'Marcar na fila de envio a confirmação do descadastro (única mensagem do bot enviada a contatos descadastrados)',
+  up: async () => {
+    try {
+      await executeQuery('ALTER TABLE outbound_messages ADD COLUMN ignore_opt_out BOOLEAN NOT NULL DEFAULT FALSE AFTER attachment');
+      console.log('✅ Migration 033: coluna ignore_opt_out adicionada');
+    } catch (error: any) {
+      if (!error.message.includes('Duplicate column name')) {
+        console.error(`❌ Migration 033 erro: ${error.message}`);
+        throw error;
+      }
+      console.log('⚠️ Migration 033: coluna ignore_opt_out já existe');
+    }
+  },
+  down: async () => {
+    try {
+      await executeQuery('ALTER TABLE outbound_messages DROP COLUMN ignore_opt_out');
+    } catch (error: any) {
+      console.log(`⚠️ Migration 033 down: ${error.message}`);
+    }
+  }
+};
+
 export const migrations: Migration[] = [
   migration001,
   migration002,
@@ -568,7 +1399,29 @@ export const migrations: Migration[] = [
   migration008,
   migration009,
   migration010,
-  migration011
+  migration011,
+  migration012,
+  migration013,
+  migration014,
+  migration015,
+  migration016,
+  migration017,
+  migration018,
+  migration019,
+  migration020,
+  migration021,
+  migration022,
+  migration023,
+  migration024,
+  migration025,
+  migration026,
+  migration027,
+  migration028,
+  migration029,
+  migration030,
+  migration031,
+  migration032,
+  migration033
 ];
 
 // Função para verificar se uma migration já foi executada
@@ -0,0 +1,160 @@
+import { executeQuery } from '../config/database';
+import { BotCandidate, BotConversationState, BotDecisionKind } from '../services/botEngine';
+import { IntentExample, IntentPrediction } from '../services/intentClassifier';
+
+// O que aconteceu com a mensagem: decisão do motor do bot ou o motivo de o bot não ter sido chamado
+export type DecisionTraceKind =
+  | BotDecisionKind
+  | 'human_chat_active'   // Conversa já estava com um atendente: bot desativado
+  | 'human_routing'       // Número configurado para mandar tudo direto aos atendentes
+  | 'opt_out'             // Contato pediu descadastro ("parar", "sair")
+  | 'opt_in'              // Contato descadastrado pediu para voltar
+  | 'opted_out'           // Contato descadastrado: bot não responde
+  | 'rate_limited'        // Contato passou do limite de mensagens (flood): bot não responde
+  | 'coalesced';          // Mensagem respondida junto com as seguintes da mesma rajada
+
+export interface DecisionTraceDetails {
+  trace: string[];
+  candidates: BotCandidate[];
+  intent?: IntentPrediction | null;
+  state_before?: BotConversationState | null;
+  state_after?: BotConversationState | null;
+  replies?: number;
+  burst?: string[];   // Textos da rajada respondida neste turno (sem repetições)
+}
+
+export interface BotDecisionTrace {
+  id: number;
+  manager_id: number;
+  contact_id: number;
+  instance_id: number | null;
+  message_id: number | null;         // Mensagem recebida (tabela messages)
+  project_id: number | null;
+  project_version_id: number | null; // Versão publicada usada (null = rascunho)
+  decision_kind: DecisionTraceKind;
+  input_text: string | null;
+  normalized_text: string | null;
+  matched_message_id: number | null;
+  destination: string | null;
+  handoff_reason: string | null;
+  details: DecisionTraceDetails;
+  created_at: Date;
+}
+
+export type CreateDecisionTraceData = Omit<BotDecisionTrace, 'id' | 'created_at'>;
+
+export interface DecisionTraceFilters {
+  contact_id?: number;
+  message_id?: number;
+  kind?: string;
+  from?: string;   // YYYY-MM-DD
+  to?: string;     // YYYY-MM-DD
+  limit?: number;
+}
+
+// Dias que os rastreamentos ficam guardados
+export const DECISION_TRACE_RETENTION_DAYS = parseInt(process.env.DECISION_TRACE_RETENTION_DAYS || '30');
+
+// Converter detalhes (JSON) do banco para objeto
+const parseTrace = (trace: any): BotDecisionTrace => {
+  if (typeof trace.details === 'string') {
+    try {
+      trace.details = JSON.parse(trace.details);
+    } catch (e) {
+      trace.details = null;
+    }
+  }
+  trace.details = { trace: [], candidates: [], ...trace.details };
+  return trace;
+};
+
+export class BotDecisionTraceModel {
+  // Registrar a decisão tomada para uma mensagem recebida
+  static async create(data: CreateDecisionTraceData): Promise<number> {
+    const result = await executeQuery(
+      `INSERT INTO bot_decision_traces (
+        manager_id, contact_id, instance_id, message_id, project_id, project_version_id, decision_kind,
+        input_text, normalized_text, matched_message_id, destination, handoff_reason, details
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.manager_id,
+        data.contact_id,
+        data.instance_id ?? null,
+        data.message_id ?? null,
+        data.project_id ?? null,
+        data.project_version_id ?? null,
+        data.decision_kind,
+        data.input_text ?? null,
+        data.normalized_text ?? null,
+        data.matched_message_id ?? null,
+        data.destination ? data.destination.substring(0, 150) : null,
+        data.handoff_reason ? data.handoff_reason.substring(0, 255) : null,
+        JSON.stringify(data.details)
+      ]
+    );
+
+    return result.insertId as number;
+  }
+
+  // Buscar rastreamento por ID
+  static async findById(id: number): Promise<BotDecisionTrace | null> {
+    const result = await executeQuery('SELECT * FROM bot_decision_traces WHERE id = ?', [id]);
+    const traces = result as any[];
+    return traces.length > 0 ? parseTrace(traces[0]) : null;
+  }
+
+  // Rastreamentos do gestor, mais recentes primeiro
+  static async findByManager(managerId: number, filters: DecisionTraceFilters = {}): Promise<BotDecisionTrace[]> {
+    const conditions = ['manager_id = ?'];
+    const params: any[] = [managerId];
+
+    if (filters.contact_id) {
+      conditions.push('contact_id = ?');
+      params.push(filters.contact_id);
+    }
+    if (filters.message_id) {
+      conditions.push('message_id = ?');
+      params.push(filters.message_id);
+    }
+    if (filters.kind) {
+      conditions.push('decision_kind = ?');
+      params.push(filters.kind);
+    }
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+      params.push(filters.to);
+    }
+
+    params.push(Math.min(Math.max(filters.limit || 50, 1), 500));
+    const result = await executeQuery(
+      `SELECT * FROM bot_decision_traces WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT ?`,
+      params
+    );
+    return (result as any[]).map(parseTrace);
+  }
+
+  // Mensagens recebidas que um gatilho respondeu (exemplos rotulados para o classificador de intenção)
+  static async findLabeledExamples(projectId: number, limit = 2000): Promise<IntentExample[]> {
+    const result = await executeQuery(
+      `SELECT input_text AS text, matched_message_id AS message_id FROM bot_decision_traces
+      WHERE project_id = ? AND decision_kind = 'auto_message' AND matched_message_id IS NOT NULL AND input_text IS NOT NULL
+      ORDER BY id DESC LIMIT ?`,
+      [projectId, limit]
+    );
+    return result as IntentExample[];
+  }
+
+  // Remover rastreamentos antigos
+  static async deleteOlderThan(days: number): Promise<number> {
+    const result = await executeQuery(
+      'DELETE FROM bot_decision_traces WHERE created_at < DATE_SUB(NOW(), INTERVAL ? DAY)',
+      [days]
+    );
+    return result?.affectedRows || 0;
+  }
+}
@@ -0,0 +1,103 @@
+import { executeQuery } from '../config/database';
+
+export type WeekDay = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Intervalo de atendimento no formato "HH:mm" (ex: { start: '08:00', end: '18:00' })
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+export type WeeklySchedule = Partial<Record<WeekDay, TimeRange[]>>;
+
+// Feriado: data "YYYY-MM-DD"; recurring = repete todo ano no mesmo dia/mês
+export interface Holiday {
+  date: string;
+  name?: string;
+  recurring?: boolean;
+}
+
+// Fora do horário: "queue" cria o atendimento pendente para a equipe; "reply" apenas responde
+export type OffHoursMode = 'queue' | 'reply';
+
+export interface BusinessHours {
+  id: number;
+  manager_id: number;
+  timezone: string;
+  weekly_schedule: WeeklySchedule;
+  holidays: Holiday[];
+  off_hours_mode: OffHoursMode;
+  off_hours_message: string | null;
+  is_enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveBusinessHoursData {
+  timezone?: string;
+  weekly_schedule?: WeeklySchedule;
+  holidays?: Holiday[];
+  off_hours_mode?: OffHoursMode;
+  off_hours_message?: string | null;
+  is_enabled?: boolean;
+}
+
+// Converter campos JSON do banco para objetos
+const parseBusinessHours = (row: any): BusinessHours => {
+  for (const field of ['weekly_schedule', 'holidays']) {
+    if (typeof row[field] === 'string') {
+      try {
+        row[field] = JSON.parse(row[field]);
+      } catch (e) {
+        row[field] = null;
+      }
+    }
+  }
+  row.weekly_schedule = row.weekly_schedule || {};
+  row.holidays = Array.isArray(row.holidays) ? row.holidays : [];
+  row.is_enabled = !!row.is_enabled;
+  return row;
+};
+
+export class BusinessHoursModel {
+  // Buscar configuração de horário do gestor
+  static async findByManagerId(managerId: number): Promise<BusinessHours | null> {
+    const result = await executeQuery('SELECT * FROM business_hours WHERE manager_id = ?', [managerId]);
+    const rows = result as any[];
+    return rows.length > 0 ? parseBusinessHours(rows[0]) : null;
+  }
+
+  // Criar ou atualizar a configuração do gestor (campos não informados mantêm o valor atual)
+  static async save(managerId: number, data: SaveBusinessHoursData): Promise<BusinessHours> {
+    const current = await BusinessHoursModel.findByManagerId(managerId);
+
+    const query = `
+      INSERT INTO business_hours (manager_id, timezone, weekly_schedule, holidays, off_hours_mode, off_hours_message, is_enabled)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        timezone = VALUES(timezone),
+        weekly_schedule = VALUES(weekly_schedule),
+        holidays = VALUES(holidays),
+        off_hours_mode = VALUES(off_hours_mode),
+        off_hours_message = VALUES(off_hours_message),
+        is_enabled = VALUES(is_enabled)
+    `;
+
+    await executeQuery(query, [
+      managerId,
+      data.timezone ?? current?.timezone ?? 'America/Sao_Paulo',
+      JSON.stringify(data.weekly_schedule ?? current?.weekly_schedule ?? {}),
+      JSON.stringify(data.holidays ?? current?.holidays ?? []),
+      data.off_hours_mode ?? current?.off_hours_mode ?? 'queue',
+      data.off_hours_message !== undefined ? data.off_hours_message : (current?.off_hours_message ?? null),
+      data.is_enabled ?? current?.is_enabled ?? false
+    ]);
+
+    const saved = await BusinessHoursModel.findByManagerId(managerId);
+    if (!saved) {
+      throw new Error('Erro ao salvar horário de atendimento');
+    }
+
+    return saved;
+  }
+}
@@ -0,0 +1,171 @@
+import { executeQuery } from '../config/database';
+
+export interface Destination {
+  id: number;
+  manager_id: number;
+  name: string;
+  state: string | null;
+  aliases: string[];
+  is_origin: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateDestinationData {
+  manager_id: number;
+  name: string;
+  state?: string | null;
+  aliases?: string[];
+  is_origin?: boolean;
+  is_active?: boolean;
+}
+
+// Catálogo inicial de destinos (antes fixo no código do bot de vendas de passagem)
+export const DEFAULT_DESTINATIONS: { name: string; state: string; aliases: string[]; is_origin?: boolean }[] = [
+  { name: 'Palmas', state: 'TO', aliases: [], is_origin: true },
+  { name: 'São Luís', state: 'MA', aliases: [] },
+  { name: 'Imperatriz', state: 'MA', aliases: [] },
+  { name: 'Brasília', state: 'DF', aliases: ['DF'] },
+  { name: 'Goiânia', state: 'GO', aliases: ['GO'] },
+  { name: 'Araguaína', state: 'TO', aliases: [] },
+  { name: 'Gurupi', state: 'TO', aliases: [] },
+  { name: 'Porto Nacional', state: 'TO', aliases: [] },
+  { name: 'Paraíso do Tocantins', state: 'TO', aliases: ['Paraíso'] },
+  { name: 'Colinas do Tocantins', state: 'TO', aliases: ['Colinas'] },
+  { name: 'Barreiras', state: 'BA', aliases: ['BA'] },
+  { name: 'Luís Eduardo Magalhães', state: 'BA', aliases: ['L.E. Magalhães', 'LE Magalhães', 'LEM'] },
+  { name: 'Teresina', state: 'PI', aliases: ['PI'] },
+  { name: 'Parnaíba', state: 'PI', aliases: [] }
+];
+
+// Converter aliases (JSON) do banco para array
+const parseDestination = (destination: any): Destination => {
+  if (typeof destination.aliases === 'string') {
+    try {
+      destination.aliases = JSON.parse(destination.aliases);
+    } catch (e) {
+      destination.aliases = [];
+    }
+  }
+  destination.aliases = Array.isArray(destination.aliases) ? destination.aliases : [];
+  destination.is_origin = !!destination.is_origin;
+  destination.is_active = !!destination.is_active;
+  return destination;
+};
+
+export class DestinationModel {
+  // Criar destino
+  static async create(data: CreateDestinationData): Promise<Destination> {
+    const query = `
+      INSERT INTO destinations (manager_id, name, state, aliases, is_origin, is_active)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+
+    const result = await executeQuery(query, [
+      data.manager_id,
+      data.name,
+      data.state || null,
+      JSON.stringify(data.aliases || []),
+      data.is_origin === true,
+      data.is_active !== false
+    ]);
+
+    const destination = await DestinationModel.findById((result as any).insertId);
+    if (!destination) {
+      throw new Error('Erro ao criar destino');
+    }
+
+    return destination;
+  }
+
+  // Popular o catálogo de um gestor com os destinos iniciais (destinos já cadastrados são mantidos)
+  static async seedDefaults(managerId: number): Promise<void> {
+    for (const destination of DEFAULT_DESTINATIONS) {
+      await executeQuery(
+        'INSERT IGNORE INTO destinations (manager_id, name, state, aliases, is_origin) VALUES (?, ?, ?, ?, ?)',
+        [managerId, destination.name, destination.state, JSON.stringify(destination.aliases), destination.is_origin === true]
+      );
+    }
+  }
+
+  // Buscar destino por ID
+  static async findById(id: number): Promise<Destination | null> {
+    const result = await executeQuery('SELECT * FROM destinations WHERE id = ?', [id]);
+    const destinations = result as any[];
+    return destinations.length > 0 ? parseDestination(destinations[0]) : null;
+  }
+
+  // Buscar destino pelo nome dentro do catálogo do gestor
+  static async findByName(managerId: number, name: string): Promise<Destination | null> {
+    const result = await executeQuery(
+      'SELECT * FROM destinations WHERE manager_id = ? AND name = ?',
+      [managerId, name]
+    );
+    const destinations = result as any[];
+    return destinations.length > 0 ? parseDestination(destinations[0]) : null;
+  }
+
+  // Listar catálogo de destinos do gestor
+  static async findByManagerId(managerId: number): Promise<Destination[]> {
+    const result = await executeQuery(
+      'SELECT * FROM destinations WHERE manager_id = ? ORDER BY is_origin DESC, name ASC',
+      [managerId]
+    );
+    return (result as any[]).map(parseDestination);
+  }
+
+  // Listar apenas destinos ativos (usados pelo bot)
+  static async findActiveByManagerId(managerId: number): Promise<Destination[]> {
+    const result = await executeQuery(
+      'SELECT * FROM destinations WHERE manager_id = ? AND is_active = TRUE ORDER BY name ASC',
+      [managerId]
+    );
+    return (result as any[]).map(parseDestination);
+  }
+
+  // Atualizar destino
+  static async update(id: number, updateData: Partial<Omit<CreateDestinationData, 'manager_id'>>): Promise<Destination | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updateData.name) {
+      fields.push('name = ?');
+      values.push(updateData.name);
+    }
+
+    if (updateData.state !== undefined) {
+      fields.push('state = ?');
+      values.push(updateData.state || null);
+    }
+
+    if (updateData.aliases) {
+      fields.push('aliases = ?');
+      values.push(JSON.stringify(updateData.aliases));
+    }
+
+    if (updateData.is_origin !== undefined) {
+      fields.push('is_origin = ?');
+      values.push(updateData.is_origin);
+    }
+
+    if (updateData.is_active !== undefined) {
+      fields.push('is_active = ?');
+      values.push(updateData.is_active);
+    }
+
+    if (fields.length === 0) {
+      return await DestinationModel.findById(id);
+    }
+
+    values.push(id);
+    await executeQuery(`UPDATE destinations SET ${fields.join(', ')} WHERE id = ?`, values);
+
+    return await DestinationModel.findById(id);
+  }
+
+  // Deletar destino
+  static async delete(id: number): Promise<void> {
+    await executeQuery('DELETE FROM destinations WHERE id = ?', [id]);
+  }
+}
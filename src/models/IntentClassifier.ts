@@ -0,0 +1,87 @@
+import { executeQuery } from '../config/database';
+import { DEFAULT_INTENT_THRESHOLD, IntentClassifierData } from '../services/intentClassifier';
+
+// Classificador de intenção de um projeto (opcional; desativado por padrão)
+export interface ProjectIntentClassifier {
+  project_id: number;
+  is_enabled: boolean;
+  confidence_threshold: number;       // Abaixo disso o bot segue o comportamento normal (fallback)
+  model: IntentClassifierData | null; // null = ainda não treinado
+  examples: number;                   // Exemplos usados no último treino
+  history_examples: number;           // Dos quais vieram de conversas anteriores
+  trained_at: Date | null;
+  updated_at: Date | null;
+}
+
+export interface UpdateIntentSettingsData {
+  is_enabled?: boolean;
+  confidence_threshold?: number;
+}
+
+// Classificador padrão de projetos sem registro
+const defaultClassifier = (projectId: number): ProjectIntentClassifier => ({
+  project_id: projectId,
+  is_enabled: false,
+  confidence_threshold: DEFAULT_INTENT_THRESHOLD,
+  model: null,
+  examples: 0,
+  history_examples: 0,
+  trained_at: null,
+  updated_at: null
+});
+
+// Converter campos do banco (JSON, boolean e decimal)
+const parseClassifier = (row: any): ProjectIntentClassifier => {
+  if (typeof row.model === 'string') {
+    try {
+      row.model = JSON.parse(row.model);
+    } catch (e) {
+      row.model = null;
+    }
+  }
+  return {
+    ...row,
+    is_enabled: !!row.is_enabled,
+    confidence_threshold: parseFloat(row.confidence_threshold)
+  };
+};
+
+export class IntentClassifierModel {
+  // Configuração e modelo do projeto (padrão desativado quando nunca foi configurado)
+  static async findByProjectId(projectId: number): Promise<ProjectIntentClassifier> {
+    const result = await executeQuery('SELECT * FROM project_intent_classifiers WHERE project_id = ?', [projectId]);
+    const rows = result as any[];
+    return rows.length > 0 ? parseClassifier(rows[0]) : defaultClassifier(projectId);
+  }
+
+  // Ativar/desativar e ajustar o limite de confiança
+  static async saveSettings(projectId: number, data: UpdateIntentSettingsData): Promise<ProjectIntentClassifier> {
+    const current = await IntentClassifierModel.findByProjectId(projectId);
+    await executeQuery(
+      `INSERT INTO project_intent_classifiers (project_id, is_enabled, confidence_threshold)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE is_enabled = VALUES(is_enabled), confidence_threshold = VALUES(confidence_threshold)`,
+      [
+        projectId,
+        data.is_enabled ?? current.is_enabled,
+        data.confidence_threshold ?? current.confidence_threshold
+      ]
+    );
+    return IntentClassifierModel.findByProjectId(projectId);
+  }
+
+  // Guardar o modelo treinado
+  static async saveModel(projectId: number, model: IntentClassifierData, historyExamples: number): Promise<ProjectIntentClassifier> {
+    await executeQuery(
+      `INSERT INTO project_intent_classifiers (project_id, model, examples, history_examples, trained_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON DUPLICATE KEY UPDATE
+        model = VALUES(model),
+        examples = VALUES(examples),
+        history_examples = VALUES(history_examples),
+        trained_at = CURRENT_TIMESTAMP`,
+      [projectId, JSON.stringify(model), model.examples, historyExamples]
+    );
+    return IntentClassifierModel.findByProjectId(projectId);
+  }
+}
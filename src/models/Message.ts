@@ -3,37 +3,55 @@ import { executeQuery } from '../config/database';
 export interface Contact {
   id: number;
   manager_id: number;
-  phone_number: string;
+  instance_id: number | null; // Última instância (número do WhatsApp) pela qual o contato falou
+  phone_number: string;       // Telefone ou, em grupos, o ID do grupo
+  contact_type: ContactType;
   name: string | null;
   avatar: string | null;
   tags: string[] | null;
   notes: string | null;
+  custom_fields: Record<string, string> | null; // Dados coletados pelos formulários do bot
   is_blocked: boolean;
+  blocked_at: Date | null;
+  blocked_by: number | null;  // Usuário que bloqueou o contato
+  opted_out: boolean;         // Contato pediu para não receber mais mensagens ("parar", "sair")
+  opted_out_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// individual = pessoa; group = grupo do WhatsApp (mensagens dos participantes ficam no grupo)
+export type ContactType = 'individual' | 'group';
+
 export interface Message {
   id: number;
   manager_id: number;
   chat_id: number | null;
   contact_id: number;
+  instance_id: number | null;
   whatsapp_message_id: string | null;
   sender_type: 'contact' | 'bot' | 'operator';
   sender_id: number | null;
   content: string;
   message_type: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
   media_url: string | null;
+  media_file: string | null;       // Arquivo da mídia recebida (pasta uploads/inbound)
+  media_mime_type: string | null;
+  media_size: number | null;
+  media_name: string | null;       // Nome original (documentos)
   is_read: boolean;
   delivered_at: Date | null;
   read_at: Date | null;
   created_at: Date;
+  send_status?: 'pending' | 'sending' | 'sent' | 'failed' | null;  // Situação na fila de envio (findByChat)
+  send_error?: string | null;
 }
 
 export interface HumanChat {
   id: number;
   manager_id: number;
   contact_id: number;
+  instance_id: number | null; // Instância que recebeu a conversa (as respostas saem por ela)
   operator_id: number | null;
   assigned_to: number | null;
   status: 'pending' | 'active' | 'waiting_payment' | 'paid' | 'finished' | 'resolved' | 'transfer_pending';
@@ -45,30 +63,62 @@ export interface HumanChat {
   updated_at: Date;
 }
 
+export interface ConversationState {
+  id: number;
+  manager_id: number;
+  contact_id: number;
+  instance_id: number;
+  current_node_id: string | null;
+  active_form: string | null; // Formulário pronto em preenchimento fora do fluxo (ex: "passageiro")
+  variables: Record<string, string>;
+  last_interaction_at: Date;
+  expires_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveConversationStateData {
+  manager_id: number;
+  contact_id: number;
+  instance_id: number;
+  current_node_id: string | null;
+  active_form?: string | null;
+  variables?: Record<string, string>;
+}
+
 export interface CreateContactData {
   manager_id: number;
+  instance_id?: number | null;
   phone_number: string;
+  contact_type?: ContactType;
   name?: string;
   avatar?: string;
   tags?: string[];
   notes?: string;
+  custom_fields?: Record<string, string> | null;
 }
 
 export interface CreateMessageData {
   manager_id: number;
   chat_id?: number | null;
   contact_id: number;
+  instance_id?: number | null;
   whatsapp_message_id?: string;
   sender_type: 'contact' | 'bot' | 'operator';
   sender_id?: number;
   content: string;
   message_type?: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
   media_url?: string;
+  media_file?: string | null;
+  media_mime_type?: string | null;
+  media_size?: number | null;
+  media_name?: string | null;
 }
 
 export interface CreateHumanChatData {
   manager_id: number;
   contact_id: number;
+  instance_id?: number | null;
   operator_id?: number;
   assigned_to?: number;
   status?: 'pending' | 'active' | 'waiting_payment' | 'paid' | 'finished' | 'resolved' | 'transfer_pending';
@@ -86,24 +136,32 @@ export class ContactModel {
     // Primeiro tentar encontrar contato existente
     const existingContact = await this.findByPhoneAndManager(data.phone_number, data.manager_id);
     if (existingContact) {
+      // Registrar a instância por onde o contato falou por último
+      if (data.instance_id && existingContact.instance_id !== data.instance_id) {
+        await executeQuery('UPDATE contacts SET instance_id = ? WHERE id = ?', [data.instance_id, existingContact.id]);
+        existingContact.instance_id = data.instance_id;
+      }
       return existingContact;
     }
 
     // Criar novo contato
     const query = `
-      INSERT INTO contacts (manager_id, phone_number, name, avatar, tags, notes)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO contacts (manager_id, instance_id, phone_number, contact_type, name, avatar, tags, notes, custom_fields)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const tagsJson = data.tags ? JSON.stringify(data.tags) : null;
     
     const result = await executeQuery(query, [
       data.manager_id,
+      data.instance_id || null,
       data.phone_number,
+      data.contact_type || 'individual',
       data.name || null,
       data.avatar || null,
       tagsJson,
-      data.notes || null
+      data.notes || null,
+      data.custom_fields ? JSON.stringify(data.custom_fields) : null
     ]);
 
     if (!result || typeof result !== 'object' || !('insertId' in result)) {
@@ -142,6 +200,15 @@ export class ContactModel {
       }
     }
     
+    // Parse custom_fields JSON
+    if (contact.custom_fields && typeof contact.custom_fields === 'string') {
+      try {
+        contact.custom_fields = JSON.parse(contact.custom_fields);
+      } catch (e) {
+        contact.custom_fields = null;
+      }
+    }
+    
     return contact;
   }
 
@@ -165,6 +232,15 @@ export class ContactModel {
       }
     }
     
+    // Parse custom_fields JSON
+    if (contact.custom_fields && typeof contact.custom_fields === 'string') {
+      try {
+        contact.custom_fields = JSON.parse(contact.custom_fields);
+      } catch (e) {
+        contact.custom_fields = null;
+      }
+    }
+    
     return contact;
   }
 
@@ -191,6 +267,14 @@ export class ContactModel {
           contact.tags = null;
         }
       }
+      // Parse custom_fields JSON
+      if (contact.custom_fields && typeof contact.custom_fields === 'string') {
+        try {
+          contact.custom_fields = JSON.parse(contact.custom_fields);
+        } catch (e) {
+          contact.custom_fields = null;
+        }
+      }
       return contact;
     });
   }
@@ -220,6 +304,11 @@ export class ContactModel {
       values.push(updateData.notes);
     }
     
+    if (updateData.custom_fields !== undefined) {
+      fields.push('custom_fields = ?');
+      values.push(updateData.custom_fields ? JSON.stringify(updateData.custom_fields) : null);
+    }
+    
     if (fields.length === 0) {
       return this.findById(id);
     }
@@ -230,6 +319,136 @@ export class ContactModel {
     await executeQuery(query, values);
     return this.findById(id);
   }
+
+  // Bloquear/desbloquear contato (bloqueado: mensagens ignoradas e nenhum envio)
+  static async setBlocked(id: number, blocked: boolean, userId: number | null = null): Promise<Contact | null> {
+    await executeQuery(
+      'UPDATE contacts SET is_blocked = ?, blocked_at = ?, blocked_by = ? WHERE id = ?',
+      [blocked, blocked ? new Date() : null, blocked ? userId : null, id]
+    );
+    return this.findById(id);
+  }
+
+  // Registrar descadastro (opt-out) ou volta do contato
+  static async setOptedOut(id: number, optedOut: boolean): Promise<Contact | null> {
+    await executeQuery(
+      'UPDATE contacts SET opted_out = ?, opted_out_at = ? WHERE id = ?',
+      [optedOut, optedOut ? new Date() : null, id]
+    );
+    return this.findById(id);
+  }
+
+  // Guardar dados coletados pelo bot (mescla com os campos já salvos)
+  static async saveCustomFields(id: number, customFields: Record<string, string>): Promise<Contact | null> {
+    const query = `
+      UPDATE contacts
+      SET custom_fields = JSON_MERGE_PATCH(COALESCE(custom_fields, JSON_OBJECT()), CAST(? AS JSON))
+      WHERE id = ?
+    `;
+    await executeQuery(query, [JSON.stringify(customFields), id]);
+    return this.findById(id);
+  }
+}
+
+// ===== MODELO DE ESTADO DA CONVERSA =====
+
+// Minutos sem mensagens até a conversa voltar para o início do fluxo
+export const CONVERSATION_TIMEOUT_MINUTES = parseInt(process.env.CONVERSATION_TIMEOUT_MINUTES || '30');
+
+export class ConversationStateModel {
+  // Buscar estado da conversa (estados expirados são descartados e retornam null)
+  static async find(contactId: number, instanceId: number): Promise<ConversationState | null> {
+    const query = `
+      SELECT *, (expires_at IS NOT NULL AND expires_at < NOW()) AS is_expired
+      FROM conversation_states
+      WHERE contact_id = ? AND instance_id = ?
+    `;
+    const result = await executeQuery(query, [contactId, instanceId]);
+    
+    if (!Array.isArray(result) || result.length === 0) {
+      return null;
+    }
+    
+    const state = result[0] as any;
+    
+    if (Number(state.is_expired) === 1) {
+      console.log(`⏰ Estado da conversa do contato ${contactId} expirou - voltando ao início`);
+      await this.reset(contactId, instanceId);
+      return null;
+    }
+    
+    delete state.is_expired;
+    
+    // Parse variables JSON
+    if (typeof state.variables === 'string') {
+      try {
+        state.variables = JSON.parse(state.variables);
+      } catch (e) {
+        state.variables = {};
+      }
+    }
+    state.variables = state.variables || {};
+    
+    return state as ConversationState;
+  }
+
+  // Salvar posição e variáveis (renova a expiração por inatividade)
+  static async save(data: SaveConversationStateData): Promise<ConversationState | null> {
+    const query = `
+      INSERT INTO conversation_states (manager_id, contact_id, instance_id, current_node_id, active_form, variables, last_interaction_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, NOW(), DATE_ADD(NOW(), INTERVAL ? MINUTE))
+      ON DUPLICATE KEY UPDATE
+        current_node_id = VALUES(current_node_id),
+        active_form = VALUES(active_form),
+        variables = VALUES(variables),
+        last_interaction_at = NOW(),
+        expires_at = VALUES(expires_at)
+    `;
+    
+    await executeQuery(query, [
+      data.manager_id,
+      data.contact_id,
+      data.instance_id,
+      data.current_node_id,
+      data.active_form || null,
+      JSON.stringify(data.variables || {}),
+      CONVERSATION_TIMEOUT_MINUTES
+    ]);
+    
+    return this.find(data.contact_id, data.instance_id);
+  }
+
+  // Guardar variáveis coletadas sem alterar a posição no fluxo
+  static async setVariables(
+    managerId: number,
+    contactId: number,
+    instanceId: number,
+    variables: Record<string, string>
+  ): Promise<ConversationState | null> {
+    const current = await this.find(contactId, instanceId);
+    
+    return this.save({
+      manager_id: managerId,
+      contact_id: contactId,
+      instance_id: instanceId,
+      current_node_id: current?.current_node_id || null,
+      active_form: current?.active_form || null,
+      variables: { ...(current?.variables || {}), ...variables }
+    });
+  }
+
+  // Voltar a conversa para o início (remove posição e variáveis)
+  static async reset(contactId: number, instanceId: number): Promise<void> {
+    const query = `DELETE FROM conversation_states WHERE contact_id = ? AND instance_id = ?`;
+    await executeQuery(query, [contactId, instanceId]);
+  }
+
+  // Remover estados expirados (limpeza periódica)
+  static async deleteExpired(): Promise<number> {
+    const query = `DELETE FROM conversation_states WHERE expires_at IS NOT NULL AND expires_at < NOW()`;
+    const result = await executeQuery(query, []);
+    return result?.affectedRows || 0;
+  }
 }
 
 // ===== MODELO DE MENSAGENS =====
@@ -239,22 +458,28 @@ export class MessageModel {
   static async create(data: CreateMessageData): Promise<Message> {
     const query = `
       INSERT INTO messages (
-        manager_id, chat_id, contact_id, whatsapp_message_id, 
-        sender_type, sender_id, content, message_type, media_url
+        manager_id, chat_id, contact_id, instance_id, whatsapp_message_id, 
+        sender_type, sender_id, content, message_type, media_url,
+        media_file, media_mime_type, media_size, media_name
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const result = await executeQuery(query, [
       data.manager_id,
       data.chat_id || null,
       data.contact_id,
+      data.instance_id || null,
       data.whatsapp_message_id || null,
       data.sender_type,
       data.sender_id || null,
       data.content,
       data.message_type || 'text',
-      data.media_url || null
+      data.media_url || null,
+      data.media_file || null,
+      data.media_mime_type || null,
+      data.media_size ?? null,
+      data.media_name || null
     ]);
 
     if (!result || typeof result !== 'object' || !('insertId' in result)) {
@@ -269,6 +494,19 @@ export class MessageModel {
     return newMessage;
   }
 
+  // Salvar mensagem recebida; null se outra mensagem já tem o mesmo ID do WhatsApp (evento repetido).
+  // O índice único garante isso mesmo com duas entregas do mesmo evento ao mesmo tempo
+  static async createInbound(data: CreateMessageData): Promise<Message | null> {
+    try {
+      return await MessageModel.create(data);
+    } catch (error: any) {
+      if (data.whatsapp_message_id && error?.code === 'ER_DUP_ENTRY') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   // Buscar mensagem por ID
   static async findById(id: number): Promise<Message | null> {
     const query = `SELECT * FROM messages WHERE id = ?`;
@@ -281,6 +519,55 @@ export class MessageModel {
     return result[0] as Message;
   }
 
+  // Endereço da mídia (definido depois de criar a mensagem, pois a rota usa o ID)
+  static async setMediaUrl(id: number, mediaUrl: string): Promise<void> {
+    await executeQuery('UPDATE messages SET media_url = ? WHERE id = ?', [mediaUrl, id]);
+  }
+
+  // Registrar o ID do WhatsApp de uma mensagem enviada pela fila (para as confirmações de entrega/leitura)
+  static async setWhatsAppId(id: number, whatsappMessageId: string): Promise<void> {
+    await executeQuery('UPDATE messages SET whatsapp_message_id = ? WHERE id = ?', [whatsappMessageId, id]);
+  }
+
+  // Buscar mensagem pelo ID do WhatsApp
+  static async findByWhatsAppId(whatsappMessageId: string): Promise<Message | null> {
+    const query = `SELECT * FROM messages WHERE whatsapp_message_id = ? LIMIT 1`;
+    const result = await executeQuery(query, [whatsappMessageId]);
+    
+    if (!Array.isArray(result) || result.length === 0) {
+      return null;
+    }
+    
+    return result[0] as Message;
+  }
+
+  // Registrar entrega/leitura de uma mensagem enviada pelo bot ou por um atendente
+  // (null quando a mensagem não é nossa ou a confirmação já estava registrada)
+  static async markReceipt(whatsappMessageId: string, receipt: 'delivered' | 'read'): Promise<Message | null> {
+    const message = await this.findByWhatsAppId(whatsappMessageId);
+    if (!message || message.sender_type === 'contact') {
+      return null;
+    }
+    if (receipt === 'delivered' ? message.delivered_at : message.read_at) {
+      return null;
+    }
+
+    // Lida implica entregue (a confirmação de entrega pode não ter chegado)
+    const query = receipt === 'read'
+      ? 'UPDATE messages SET delivered_at = COALESCE(delivered_at, NOW()), read_at = NOW() WHERE id = ?'
+      : 'UPDATE messages SET delivered_at = NOW() WHERE id = ?';
+    await executeQuery(query, [message.id]);
+
+    return this.findById(message.id);
+  }
+
+  // Mensagem do WhatsApp já registrada (eventos repetidos do mesmo recebimento)
+  static async existsByWhatsAppId(whatsappMessageId: string): Promise<boolean> {
+    const query = `SELECT id FROM messages WHERE whatsapp_message_id = ? LIMIT 1`;
+    const result = await executeQuery(query, [whatsappMessageId]);
+    return Array.isArray(result) && result.length > 0;
+  }
+
   // Buscar mensagens por contato
   static async findByContact(contactId: number, limit: number = 50): Promise<Message[]> {
     console.log(`🔍 Debug findByContact - contactId: ${contactId} (${typeof contactId}), limit: ${limit} (${typeof limit})`);
@@ -333,8 +620,11 @@ export class MessageModel {
     const safeChatId = parseInt(chatId.toString());
     const safeLimit = parseInt(limit.toString());
     
-    // Buscar mensagens diretamente por chat_id
-    const query = `SELECT * FROM messages WHERE chat_id = ? ORDER BY created_at ASC LIMIT ?`;
+    // Buscar mensagens diretamente por chat_id (com a situação do envio das mensagens que passaram pela fila)
+    const query = `SELECT m.*, o.status as send_status, o.last_error as send_error
+      FROM messages m
+      LEFT JOIN outbound_messages o ON o.message_id = m.id
+      WHERE m.chat_id = ? ORDER BY m.created_at ASC LIMIT ?`;
     
     console.log(`🔍 Debug SQL findByChat - Query: ${query}`);
     console.log(`🔍 Debug SQL findByChat - Params: [${safeChatId}, ${safeLimit}]`);
@@ -376,9 +666,10 @@ export class MessageModel {
     await executeQuery(query, [id]);
   }
 
-  // Marcar mensagens de um contato como lidas
+  // Marcar como lidas as mensagens recebidas do contato (nas enviadas, read_at é a confirmação de leitura do WhatsApp)
   static async markContactMessagesAsRead(contactId: number): Promise<void> {
-    const query = `UPDATE messages SET is_read = TRUE, read_at = NOW() WHERE contact_id = ? AND is_read = FALSE`;
+    const query = `UPDATE messages SET is_read = TRUE, read_at = NOW()
+      WHERE contact_id = ? AND sender_type = 'contact' AND is_read = FALSE`;
     await executeQuery(query, [contactId]);
   }
 }
@@ -389,8 +680,8 @@ export class HumanChatModel {
   // Criar nova conversa humana
   static async create(data: CreateHumanChatData): Promise<HumanChat> {
     const query = `
-      INSERT INTO human_chats (manager_id, contact_id, operator_id, assigned_to, status, transfer_reason, transfer_from, transfer_to, tags)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO human_chats (manager_id, contact_id, instance_id, operator_id, assigned_to, status, transfer_reason, transfer_from, transfer_to, tags)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const tagsJson = data.tags ? JSON.stringify(data.tags) : null;
@@ -398,6 +689,7 @@ export class HumanChatModel {
     const result = await executeQuery(query, [
       data.manager_id,
       data.contact_id,
+      data.instance_id || null,
       data.operator_id || null,
       data.assigned_to || null,
       data.status || 'pending',
@@ -462,6 +754,10 @@ export class HumanChatModel {
         hc.*,
         c.name as contact_name,
         c.phone_number,
+        c.contact_type,
+        c.is_blocked as contact_blocked,
+        c.opted_out as contact_opted_out,
+        wi.instance_name,
         u_op.name as operator_name,
         u_assigned.name as assigned_name,
         u_from.name as transfer_from_name,
@@ -471,6 +767,7 @@ export class HumanChatModel {
         (SELECT created_at FROM messages WHERE chat_id = hc.id ORDER BY created_at DESC LIMIT 1) as last_message_at
       FROM human_chats hc
       LEFT JOIN contacts c ON hc.contact_id = c.id
+      LEFT JOIN whatsapp_instances wi ON hc.instance_id = wi.id
       LEFT JOIN users u_op ON hc.operator_id = u_op.id
       LEFT JOIN users u_assigned ON hc.assigned_to = u_assigned.id
       LEFT JOIN users u_from ON hc.transfer_from = u_from.id
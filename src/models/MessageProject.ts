@@ -1,4 +1,5 @@
-import { executeQuery } from '../config/database';
+import { executeQuery, withTransaction } from '../config/database';
+import { WeeklySchedule } from './BusinessHours';
 
 export interface MessageProject {
   id: number;
@@ -7,16 +8,126 @@ export interface MessageProject {
   description?: string;
   is_active: boolean;
   is_default: boolean;
+  flow_data?: FlowData | null;
+  published_version_id?: number | null; // Versão usada pelo bot (null = bot usa o rascunho)
+  activation: ProjectActivation | null;  // Agendamento (null = só responde quando for o padrão)
+  handoff_keywords: string[];
   created_at: Date;
   updated_at: Date;
   messages?: AutoMessage[];
 }
 
+// Período em que o projeto substitui o padrão (datas e horários no fuso do horário de atendimento do gestor)
+export interface ProjectActivation {
+  start_date?: string | null;               // YYYY-MM-DD (inclusive)
+  end_date?: string | null;                 // YYYY-MM-DD (inclusive)
+  weekly_schedule?: WeeklySchedule | null;  // Janelas por dia; início > fim atravessa a meia-noite (ex: 22:00-06:00)
+  priority?: number;                        // Vários agendamentos ativos: vence o maior
+}
+
+export type FlowNodeType = 'start' | 'message' | 'condition' | 'options' | 'form' | 'human' | 'end';
+
+export type FormFieldType = 'text' | 'name' | 'cpf' | 'date' | 'phone' | 'email' | 'number';
+
+// Campo de um formulário: o bot pergunta, valida e guarda a resposta em "key"
+export interface FormField {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  question?: string;       // Pergunta enviada ao cliente (padrão: "Por favor, informe: *label*")
+  error_message?: string;  // Mensagem quando a resposta é inválida (padrão por tipo)
+  required?: boolean;      // false = aceita "pular"
+  allow_past?: boolean;    // Datas: aceitar datas passadas (ex: nascimento)
+}
+
+export interface FlowCondition {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+export interface FlowOption {
+  id: string;
+  label: string;
+  value: string;
+}
+
+export interface FlowNode {
+  id: string;
+  type: FlowNodeType;
+  position?: { x: number; y: number };
+  data: {
+    title: string;
+    description?: string;
+    triggers?: string[];
+    response?: string;
+    conditions?: FlowCondition[];
+    options?: FlowOption[];
+    fields?: FormField[]; // Campos do nó "form"
+    variable?: string;  // Guardar a mensagem que levou a este nó nesta variável
+    active?: boolean;
+  };
+  connections?: string[];
+}
+
+export interface FlowConnection {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+}
+
+export interface FlowData {
+  metadata?: { version?: string; created?: string; description?: string };
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+}
+
+// Como os gatilhos de uma mensagem automática são comparados com a mensagem recebida
+export type MatchMode = 'exact' | 'normalized' | 'contains' | 'starts_with' | 'regex' | 'fuzzy';
+
+// O que acontece quando a mensagem automática corresponde:
+// reply = só responde; reply_and_handoff = responde e transfere; handoff_only = transfere sem resposta própria
+export type ActionType = 'reply' | 'reply_and_handoff' | 'handoff_only';
+
+export type AttachmentType = 'image' | 'document' | 'audio' | 'video' | 'location';
+
+// Anexo enviado junto com a resposta (ou no lugar dela, quando response_text está vazio)
+export interface AutoMessageAttachment {
+  type: AttachmentType;
+  file_name?: string;      // Arquivo salvo em uploads/attachments
+  original_name?: string;  // Nome exibido no WhatsApp (documentos)
+  mime_type?: string;
+  size?: number;
+  as_caption?: boolean;    // Imagem/vídeo/documento: enviar o texto como legenda em vez de mensagem separada
+  latitude?: number;       // Localização
+  longitude?: number;
+  location_name?: string;
+  address?: string;
+}
+
+// random = sorteia uma das frases; round_robin = alterna em ordem a cada envio
+export type VariantMode = 'random' | 'round_robin';
+
+// Uma mensagem da sequência de resposta
+export interface ResponseStep {
+  text: string;
+  alternatives?: string[]; // Outras formas de dizer o mesmo texto
+  typing_ms?: number;      // Tempo "digitando..." antes do envio (sem valor = proporcional ao texto)
+}
+
 export interface AutoMessage {
   id: number;
   project_id: number;
   trigger_words: string[];
+  match_mode: MatchMode;
   response_text: string;
+  response_steps: ResponseStep[] | null; // Sequência de mensagens (null = apenas response_text)
+  variant_mode: VariantMode;
+  variant_cursor: number;
+  action_type: ActionType;
+  attachment: AutoMessageAttachment | null;
   is_active: boolean;
   order_index: number;
   created_at: Date;
@@ -29,16 +140,51 @@ export interface CreateProjectData {
   description?: string;
   is_active?: boolean;
   is_default?: boolean;
+  handoff_keywords?: string[];
+  activation?: ProjectActivation | null;
 }
 
 export interface CreateMessageData {
   project_id: number;
   trigger_words: string[];
+  match_mode?: MatchMode;
   response_text: string;
+  response_steps?: ResponseStep[] | null;
+  variant_mode?: VariantMode;
+  action_type?: ActionType;
+  attachment?: AutoMessageAttachment | null;
   is_active?: boolean;
   order_index?: number;
 }
 
+// Converter campos JSON do projeto (flow_data, handoff_keywords, activation) do banco para objeto
+const parseProject = (project: any): MessageProject => {
+  if (project.flow_data && typeof project.flow_data === 'string') {
+    try {
+      project.flow_data = JSON.parse(project.flow_data);
+    } catch (e) {
+      project.flow_data = null;
+    }
+  }
+  if (typeof project.handoff_keywords === 'string') {
+    try {
+      project.handoff_keywords = JSON.parse(project.handoff_keywords);
+    } catch (e) {
+      project.handoff_keywords = [];
+    }
+  }
+  project.handoff_keywords = Array.isArray(project.handoff_keywords) ? project.handoff_keywords : [];
+  if (typeof project.activation === 'string') {
+    try {
+      project.activation = JSON.parse(project.activation);
+    } catch (e) {
+      project.activation = null;
+    }
+  }
+  project.activation = project.activation || null;
+  return project;
+};
+
 export class MessageProjectModel {
   // Criar projeto
   static async create(data: CreateProjectData): Promise<MessageProject> {
@@ -51,15 +197,16 @@ export class MessageProjectModel {
     }
     
     const query = `
-      INSERT INTO message_projects (manager_id, name, description, is_active, is_default)
-      VALUES (?, ?, ?, TRUE, ?)
+      INSERT INTO message_projects (manager_id, name, description, is_active, is_default, handoff_keywords)
+      VALUES (?, ?, ?, TRUE, ?, ?)
     `;
     
     const result = await executeQuery(query, [
       data.manager_id,
       data.name,
       data.description || null,
-      data.is_default || false
+      data.is_default || false,
+      JSON.stringify(data.handoff_keywords || [])
     ]);
     
     const insertId = (result as any).insertId;
@@ -72,6 +219,58 @@ export class MessageProjectModel {
     return project;
   }
 
+  // Criar projeto com fluxo e mensagens automáticas em uma única transação (importação de fluxo)
+  static async createWithMessages(
+    data: CreateProjectData,
+    flow: FlowData,
+    messages: Omit<CreateMessageData, 'project_id'>[]
+  ): Promise<MessageProject> {
+    const projectId = await withTransaction(async (query) => {
+      if (data.is_default) {
+        await query('UPDATE message_projects SET is_default = FALSE WHERE manager_id = ?', [data.manager_id]);
+      }
+
+      const result = await query(
+        `INSERT INTO message_projects (manager_id, name, description, is_active, is_default, handoff_keywords, flow_data)
+         VALUES (?, ?, ?, TRUE, ?, ?, ?)`,
+        [
+          data.manager_id,
+          data.name,
+          data.description || null,
+          data.is_default || false,
+          JSON.stringify(data.handoff_keywords || []),
+          JSON.stringify(flow)
+        ]
+      );
+
+      for (const message of messages) {
+        await query(
+          `INSERT INTO auto_messages (project_id, trigger_words, match_mode, response_text, action_type, is_active, order_index)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            result.insertId,
+            JSON.stringify(message.trigger_words),
+            message.match_mode || 'exact',
+            message.response_text,
+            message.action_type || 'reply',
+            message.is_active !== false,
+            message.order_index || 0
+          ]
+        );
+      }
+
+      return result.insertId as number;
+    });
+
+    const project = await MessageProjectModel.findById(projectId, true);
+
+    if (!project) {
+      throw new Error('Erro ao importar projeto');
+    }
+
+    return project;
+  }
+
   // Buscar projeto por ID
   static async findById(id: number, includeMessages = false): Promise<MessageProject | null> {
     const query = 'SELECT * FROM message_projects WHERE id = ?';
@@ -81,7 +280,7 @@ export class MessageProjectModel {
       return null;
     }
     
-    const project = result[0] as MessageProject;
+    const project = parseProject(result[0]);
     
     if (includeMessages) {
       project.messages = await AutoMessageModel.findByProjectId(id);
@@ -104,7 +303,7 @@ export class MessageProjectModel {
       return [];
     }
     
-    const projects = result as MessageProject[];
+    const projects = result.map(parseProject);
     
     if (includeMessages) {
       for (const project of projects) {
@@ -129,7 +328,7 @@ export class MessageProjectModel {
       return null;
     }
     
-    const project = result[0] as MessageProject;
+    const project = parseProject(result[0]);
     
     if (includeMessages) {
       project.messages = await AutoMessageModel.findByProjectId(project.id);
@@ -169,6 +368,16 @@ export class MessageProjectModel {
       values.push(updateData.is_default);
     }
     
+    if (updateData.handoff_keywords) {
+      fields.push('handoff_keywords = ?');
+      values.push(JSON.stringify(updateData.handoff_keywords));
+    }
+    
+    if (updateData.activation !== undefined) {
+      fields.push('activation = ?');
+      values.push(updateData.activation ? JSON.stringify(updateData.activation) : null);
+    }
+    
     if (fields.length === 0) {
       return await MessageProjectModel.findById(id);
     }
@@ -182,6 +391,13 @@ export class MessageProjectModel {
     return await MessageProjectModel.findById(id);
   }
 
+  // Salvar fluxo visual do projeto (null remove o fluxo e volta para as mensagens automáticas)
+  static async updateFlow(id: number, flow: FlowData | null): Promise<MessageProject | null> {
+    const query = `UPDATE message_projects SET flow_data = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`;
+    await executeQuery(query, [flow ? JSON.stringify(flow) : null, id]);
+    return await MessageProjectModel.findById(id);
+  }
+
   // Desativar projeto
   static async deactivate(id: number): Promise<boolean> {
     const query = `
@@ -242,18 +458,53 @@ export class MessageProjectModel {
   }
 }
 
+// Converter campos JSON da mensagem (trigger_words, response_steps, attachment) do banco para objeto
+const parseAutoMessage = (message: any): AutoMessage => {
+  if (typeof message.trigger_words === 'string') {
+    try {
+      message.trigger_words = JSON.parse(message.trigger_words);
+    } catch (e) {
+      message.trigger_words = [];
+    }
+  }
+  if (typeof message.attachment === 'string') {
+    try {
+      message.attachment = JSON.parse(message.attachment);
+    } catch (e) {
+      message.attachment = null;
+    }
+  }
+  message.attachment = message.attachment || null;
+  if (typeof message.response_steps === 'string') {
+    try {
+      message.response_steps = JSON.parse(message.response_steps);
+    } catch (e) {
+      message.response_steps = null;
+    }
+  }
+  message.response_steps = message.response_steps || null;
+  message.variant_mode = message.variant_mode || 'random';
+  message.variant_cursor = message.variant_cursor || 0;
+  return message;
+};
+
 export class AutoMessageModel {
   // Criar mensagem automática
   static async create(data: CreateMessageData): Promise<AutoMessage> {
     const query = `
-      INSERT INTO auto_messages (project_id, trigger_words, response_text, is_active, order_index)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO auto_messages (project_id, trigger_words, match_mode, response_text, response_steps, variant_mode, action_type, attachment, is_active, order_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const result = await executeQuery(query, [
       data.project_id,
       JSON.stringify(data.trigger_words),
+      data.match_mode || 'exact',
       data.response_text,
+      data.response_steps ? JSON.stringify(data.response_steps) : null,
+      data.variant_mode || 'random',
+      data.action_type || 'reply',
+      data.attachment ? JSON.stringify(data.attachment) : null,
       data.is_active !== false,
       data.order_index || 0
     ]);
@@ -277,18 +528,7 @@ export class AutoMessageModel {
       return null;
     }
     
-    const message = result[0] as any;
-    
-    // Parse trigger_words JSON
-    if (typeof message.trigger_words === 'string') {
-      try {
-        message.trigger_words = JSON.parse(message.trigger_words);
-      } catch (e) {
-        message.trigger_words = [];
-      }
-    }
-    
-    return message;
+    return parseAutoMessage(result[0]);
   }
 
   // Buscar mensagens de um projeto
@@ -305,17 +545,7 @@ export class AutoMessageModel {
       return [];
     }
     
-    return result.map((message: any) => {
-      // Parse trigger_words JSON
-      if (typeof message.trigger_words === 'string') {
-        try {
-          message.trigger_words = JSON.parse(message.trigger_words);
-        } catch (e) {
-          message.trigger_words = [];
-        }
-      }
-      return message;
-    });
+    return result.map(parseAutoMessage);
   }
 
   // Buscar mensagens ativas de um projeto
@@ -332,17 +562,7 @@ export class AutoMessageModel {
       return [];
     }
     
-    return result.map((message: any) => {
-      // Parse trigger_words JSON
-      if (typeof message.trigger_words === 'string') {
-        try {
-          message.trigger_words = JSON.parse(message.trigger_words);
-        } catch (e) {
-          message.trigger_words = [];
-        }
-      }
-      return message;
-    });
+    return result.map(parseAutoMessage);
   }
 
   // Atualizar mensagem
@@ -355,11 +575,36 @@ export class AutoMessageModel {
       values.push(JSON.stringify(updateData.trigger_words));
     }
     
-    if (updateData.response_text) {
+    if (updateData.match_mode) {
+      fields.push('match_mode = ?');
+      values.push(updateData.match_mode);
+    }
+    
+    if (updateData.response_text !== undefined && updateData.response_text !== null) {
       fields.push('response_text = ?');
       values.push(updateData.response_text);
     }
     
+    if (updateData.response_steps !== undefined) {
+      fields.push('response_steps = ?');
+      values.push(updateData.response_steps ? JSON.stringify(updateData.response_steps) : null);
+    }
+    
+    if (updateData.variant_mode) {
+      fields.push('variant_mode = ?');
+      values.push(updateData.variant_mode);
+    }
+    
+    if (updateData.action_type) {
+      fields.push('action_type = ?');
+      values.push(updateData.action_type);
+    }
+    
+    if (updateData.attachment !== undefined) {
+      fields.push('attachment = ?');
+      values.push(updateData.attachment ? JSON.stringify(updateData.attachment) : null);
+    }
+    
     if (updateData.is_active !== undefined) {
       fields.push('is_active = ?');
       values.push(updateData.is_active);
@@ -383,6 +628,16 @@ export class AutoMessageModel {
     return await AutoMessageModel.findById(id);
   }
 
+  // Avançar o contador do modo round_robin e retornar o valor anterior (atômico entre conversas simultâneas)
+  static async nextVariantCursor(id: number): Promise<number> {
+    const result = await executeQuery(
+      'UPDATE auto_messages SET variant_cursor = LAST_INSERT_ID(variant_cursor + 1) WHERE id = ?',
+      [id]
+    );
+    const next = Number((result as any).insertId) || 0;
+    return Math.max(0, next - 1);
+  }
+
   // Deletar mensagem
   static async delete(id: number): Promise<boolean> {
     const query = 'DELETE FROM auto_messages WHERE id = ?';
@@ -0,0 +1,193 @@
+import { executeQuery } from '../config/database';
+import { AutoMessageAttachment } from './MessageProject';
+
+// pending = aguardando envio (ou nova tentativa); sending = sendo enviada agora; sent = enviada; failed = desistiu
+export type OutboundStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// Mensagem na fila de envio pelo WhatsApp (bot ou atendente). A mensagem do histórico (messages)
+// é criada ao entrar na fila; a fila guarda o que enviar e a situação do envio
+export interface OutboundMessage {
+  id: number;
+  manager_id: number;
+  instance_id: number | null;            // null = qualquer número conectado do gestor
+  contact_id: number;
+  chat_id: number | null;
+  message_id: number | null;             // Mensagem do histórico
+  to_chat_id: string;                    // Destino no WhatsApp (ex: 5563999999999@c.us)
+  sender_type: 'bot' | 'operator';
+  content: string | null;                // Texto (ou legenda do anexo)
+  attachment: AutoMessageAttachment | null;
+  ignore_opt_out: boolean;               // Confirmação do descadastro: sai mesmo com o contato descadastrado
+  status: OutboundStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  whatsapp_message_id: string | null;
+  sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateOutboundMessageData {
+  manager_id: number;
+  instance_id?: number | null;
+  contact_id: number;
+  chat_id?: number | null;
+  message_id?: number | null;
+  to_chat_id: string;
+  sender_type: 'bot' | 'operator';
+  content?: string | null;
+  attachment?: AutoMessageAttachment | null;
+  ignore_opt_out?: boolean;
+}
+
+// Converter anexo (JSON) do banco para objeto
+const parseOutbound = (row: any): OutboundMessage => {
+  if (typeof row.attachment === 'string') {
+    try {
+      row.attachment = JSON.parse(row.attachment);
+    } catch (e) {
+      row.attachment = null;
+    }
+  }
+  row.ignore_opt_out = !!row.ignore_opt_out;
+  return row as OutboundMessage;
+};
+
+export class OutboundMessageModel {
+  // Colocar uma mensagem na fila
+  static async create(data: CreateOutboundMessageData): Promise<OutboundMessage> {
+    const result = await executeQuery(
+      `INSERT INTO outbound_messages (
+        manager_id, instance_id, contact_id, chat_id, message_id, to_chat_id, sender_type, content, attachment, ignore_opt_out
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.manager_id,
+        data.instance_id || null,
+        data.contact_id,
+        data.chat_id || null,
+        data.message_id || null,
+        data.to_chat_id,
+        data.sender_type,
+        data.content || null,
+        data.attachment ? JSON.stringify(data.attachment) : null,
+        data.ignore_opt_out === true
+      ]
+    );
+
+    if (!result || typeof result !== 'object' || !('insertId' in result)) {
+      throw new Error('Erro ao colocar mensagem na fila de envio');
+    }
+
+    const created = await OutboundMessageModel.findById(result.insertId as number);
+    if (!created) {
+      throw new Error('Mensagem colocada na fila mas não encontrada');
+    }
+    return created;
+  }
+
+  static async findById(id: number): Promise<OutboundMessage | null> {
+    const result = await executeQuery('SELECT * FROM outbound_messages WHERE id = ?', [id]);
+    const rows = result as any[];
+    return rows.length > 0 ? parseOutbound(rows[0]) : null;
+  }
+
+  static async findByMessageId(messageId: number): Promise<OutboundMessage | null> {
+    const result = await executeQuery('SELECT * FROM outbound_messages WHERE message_id = ?', [messageId]);
+    const rows = result as any[];
+    return rows.length > 0 ? parseOutbound(rows[0]) : null;
+  }
+
+  // Próxima mensagem a enviar pelo número, já marcada como "sending" (null se não houver).
+  // Mensagens do mesmo contato pelo mesmo número saem em ordem: uma mensagem aguardando nova tentativa segura
+  // as seguintes (uma fila presa num número desconectado não segura as mensagens dos outros números)
+  static async claimNext(instanceId: number, managerId: number): Promise<OutboundMessage | null> {
+    const result = await executeQuery(
+      `SELECT o.* FROM outbound_messages o
+      WHERE o.status = 'pending' AND o.next_attempt_at <= NOW()
+        AND (o.instance_id = ? OR (o.instance_id IS NULL AND o.manager_id = ?))
+        AND NOT EXISTS (
+          SELECT 1 FROM outbound_messages e
+          WHERE e.contact_id = o.contact_id AND e.instance_id <=> o.instance_id
+            AND e.status IN ('pending', 'sending') AND e.id < o.id
+        )
+      ORDER BY o.id ASC
+      LIMIT 1`,
+      [instanceId, managerId]
+    );
+    const rows = result as any[];
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const claim = await executeQuery(
+      `UPDATE outbound_messages SET status = 'sending', attempts = attempts + 1 WHERE id = ? AND status = 'pending'`,
+      [rows[0].id]
+    );
+    if (!claim || typeof claim !== 'object' || !('affectedRows' in claim) || claim.affectedRows === 0) {
+      return null;
+    }
+
+    return OutboundMessageModel.findById(rows[0].id);
+  }
+
+  static async markSent(id: number, whatsappMessageId: string | null): Promise<void> {
+    await executeQuery(
+      `UPDATE outbound_messages
+      SET status = 'sent', sent_at = CURRENT_TIMESTAMP, whatsapp_message_id = ?, last_error = NULL
+      WHERE id = ?`,
+      [whatsappMessageId, id]
+    );
+  }
+
+  // Tentativa falhou: tentar de novo depois de delayMs
+  static async reschedule(id: number, error: string, delayMs: number): Promise<void> {
+    await executeQuery(
+      `UPDATE outbound_messages
+      SET status = 'pending', last_error = ?, next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+      WHERE id = ?`,
+      [error.substring(0, 255), Math.ceil(delayMs / 1000), id]
+    );
+  }
+
+  static async markFailed(id: number, error: string): Promise<void> {
+    await executeQuery(
+      `UPDATE outbound_messages SET status = 'failed', last_error = ? WHERE id = ?`,
+      [error.substring(0, 255), id]
+    );
+  }
+
+  // Reenviar uma mensagem que falhou (pelo atendente)
+  static async retry(id: number): Promise<boolean> {
+    const result = await executeQuery(
+      `UPDATE outbound_messages
+      SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'failed'`,
+      [id]
+    );
+    return !!result && typeof result === 'object' && 'affectedRows' in result && result.affectedRows > 0;
+  }
+
+  // Envios interrompidos (servidor reiniciado durante o envio) voltam para a fila
+  static async resetInterrupted(): Promise<number> {
+    const result = await executeQuery(`UPDATE outbound_messages SET status = 'pending' WHERE status = 'sending'`);
+    return result && typeof result === 'object' && 'affectedRows' in result ? (result.affectedRows as number) : 0;
+  }
+
+  // Marcar como falha as mensagens que esperam há mais de maxWaitHours (ex: número desconectado);
+  // retorna as mensagens marcadas para avisar os atendentes
+  static async failExpired(maxWaitHours: number): Promise<OutboundMessage[]> {
+    const result = await executeQuery(
+      `SELECT * FROM outbound_messages
+      WHERE status = 'pending' AND created_at < DATE_SUB(NOW(), INTERVAL ? HOUR)`,
+      [maxWaitHours]
+    );
+    const expired = (result as any[]).map(parseOutbound);
+
+    for (const message of expired) {
+      await OutboundMessageModel.markFailed(message.id, message.last_error || 'Número do WhatsApp desconectado por muito tempo');
+    }
+    return expired;
+  }
+}
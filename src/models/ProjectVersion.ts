@@ -0,0 +1,146 @@
+import { executeQuery, withTransaction } from '../config/database';
+import { ProjectSnapshot } from '../services/projectVersions';
+
+export interface ProjectVersion {
+  id: number;
+  project_id: number;
+  version_number: number;
+  snapshot: ProjectSnapshot;
+  notes: string | null;
+  published_by: number | null;
+  published_by_name: string | null;
+  rolled_back_from: number | null; // Número da versão restaurada (rollback)
+  created_at: Date;
+}
+
+export interface PublishVersionData {
+  project_id: number;
+  snapshot: ProjectSnapshot;
+  published_by: number;
+  notes?: string | null;
+  rolled_back_from?: number | null;
+  restore_draft?: boolean; // Rollback: substituir também o rascunho pelo conteúdo da versão
+}
+
+// Converter snapshot (JSON) do banco para objeto
+const parseVersion = (version: any): ProjectVersion => {
+  if (typeof version.snapshot === 'string') {
+    try {
+      version.snapshot = JSON.parse(version.snapshot);
+    } catch (e) {
+      version.snapshot = { handoff_keywords: [], flow_data: null, messages: [] };
+    }
+  }
+  version.published_by_name = version.published_by_name || null;
+  return version;
+};
+
+const SELECT_VERSION = `
+  SELECT v.*, u.name AS published_by_name
+  FROM message_project_versions v
+  LEFT JOIN users u ON u.id = v.published_by
+`;
+
+export class ProjectVersionModel {
+  // Buscar versão por ID
+  static async findById(id: number): Promise<ProjectVersion | null> {
+    const result = await executeQuery(`${SELECT_VERSION} WHERE v.id = ?`, [id]);
+    const versions = result as any[];
+    return versions.length > 0 ? parseVersion(versions[0]) : null;
+  }
+
+  // Histórico de versões publicadas do projeto (mais recente primeiro, sem o conteúdo)
+  static async findByProjectId(projectId: number): Promise<Omit<ProjectVersion, 'snapshot'>[]> {
+    const result = await executeQuery(
+      `SELECT v.id, v.project_id, v.version_number, v.notes, v.published_by, v.rolled_back_from, v.created_at,
+              u.name AS published_by_name
+       FROM message_project_versions v
+       LEFT JOIN users u ON u.id = v.published_by
+       WHERE v.project_id = ?
+       ORDER BY v.version_number DESC`,
+      [projectId]
+    );
+    return (result as any[]).map(version => ({ ...version, published_by_name: version.published_by_name || null }));
+  }
+
+  // Publicar uma nova versão e passar o bot a usá-la, tudo em uma transação
+  static async publish(data: PublishVersionData): Promise<ProjectVersion> {
+    const versionId = await withTransaction(async (query) => {
+      // Trava o projeto para numerar as versões sem conflito entre publicações simultâneas
+      await query('SELECT id FROM message_projects WHERE id = ? FOR UPDATE', [data.project_id]);
+
+      if (data.restore_draft) {
+        await query(
+          'UPDATE message_projects SET handoff_keywords = ?, flow_data = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [
+            JSON.stringify(data.snapshot.handoff_keywords || []),
+            data.snapshot.flow_data ? JSON.stringify(data.snapshot.flow_data) : null,
+            data.project_id
+          ]
+        );
+        await query('DELETE FROM auto_messages WHERE project_id = ?', [data.project_id]);
+        // Mesmos IDs da versão: comparações entre versões continuam reconhecendo as mensagens
+        for (const message of data.snapshot.messages || []) {
+          await query(
+            `INSERT INTO auto_messages (id, project_id, trigger_words, match_mode, response_text, response_steps, variant_mode, action_type, attachment, is_active, order_index)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              message.id,
+              data.project_id,
+              JSON.stringify(message.trigger_words),
+              message.match_mode || 'exact',
+              message.response_text,
+              message.response_steps ? JSON.stringify(message.response_steps) : null,
+              message.variant_mode || 'random',
+              message.action_type || 'reply',
+              message.attachment ? JSON.stringify(message.attachment) : null,
+              message.is_active !== false,
+              message.order_index || 0
+            ]
+          );
+        }
+      }
+
+      const [{ next_version }] = await query(
+        'SELECT COALESCE(MAX(version_number), 0) + 1 AS next_version FROM message_project_versions WHERE project_id = ?',
+        [data.project_id]
+      );
+
+      const result = await query(
+        `INSERT INTO message_project_versions (project_id, version_number, snapshot, notes, published_by, rolled_back_from)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          data.project_id,
+          next_version,
+          JSON.stringify(data.snapshot),
+          data.notes || null,
+          data.published_by,
+          data.rolled_back_from ?? null
+        ]
+      );
+
+      await query(
+        'UPDATE message_projects SET published_version_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [result.insertId, data.project_id]
+      );
+
+      return result.insertId as number;
+    });
+
+    const version = await ProjectVersionModel.findById(versionId);
+    if (!version) {
+      throw new Error('Erro ao publicar versão');
+    }
+
+    return version;
+  }
+
+  // Verificar se algum snapshot publicado ainda usa o arquivo de anexo
+  static async usesAttachment(fileName: string): Promise<boolean> {
+    const result = await executeQuery(
+      'SELECT id FROM message_project_versions WHERE LOCATE(?, CAST(snapshot AS CHAR)) > 0 LIMIT 1',
+      [fileName]
+    );
+    return (result as any[]).length > 0;
+  }
+}
@@ -0,0 +1,91 @@
+import { executeQuery } from '../config/database';
+
+// open = aguardando análise; added = virou gatilho de uma mensagem automática; dismissed = ignorada
+export type UnmatchedStatus = 'open' | 'added' | 'dismissed';
+
+// Texto recebido que caiu no fallback do bot, agregado por projeto (uma linha por texto normalizado)
+export interface UnmatchedMessage {
+  id: number;
+  project_id: number;
+  manager_id: number;
+  normalized_text: string;
+  sample_text: string;          // Último texto original recebido com esta normalização
+  occurrences: number;
+  status: UnmatchedStatus;
+  resolved_message_id: number | null;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+// Tamanho máximo do texto normalizado guardado (textos maiores raramente viram gatilho)
+export const MAX_UNMATCHED_TEXT_LENGTH = 255;
+
+// Textos considerados no relatório (os mais frequentes; o agrupamento compara cada texto com os grupos já formados)
+export const MAX_UNMATCHED_REPORT_ENTRIES = 500;
+
+export class UnmatchedMessageModel {
+  // Registrar uma ocorrência: soma ao texto já conhecido ou cria um novo.
+  // Textos que já viraram gatilho voltam para "open" se continuarem sem resposta; ignorados continuam ignorados
+  static async record(projectId: number, managerId: number, normalizedText: string, sampleText: string): Promise<void> {
+    await executeQuery(
+      `INSERT INTO unmatched_messages (project_id, manager_id, normalized_text, sample_text)
+      VALUES (?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        occurrences = occurrences + 1,
+        sample_text = VALUES(sample_text),
+        last_seen_at = CURRENT_TIMESTAMP,
+        status = IF(status = 'dismissed', 'dismissed', 'open')`,
+      [projectId, managerId, normalizedText.substring(0, MAX_UNMATCHED_TEXT_LENGTH), sampleText]
+    );
+  }
+
+  // Textos em aberto do projeto vistos nos últimos dias, mais frequentes primeiro
+  static async findOpenByProject(
+    projectId: number,
+    days: number,
+    minCount = 1,
+    limit = MAX_UNMATCHED_REPORT_ENTRIES
+  ): Promise<UnmatchedMessage[]> {
+    const result = await executeQuery(
+      `SELECT * FROM unmatched_messages
+      WHERE project_id = ? AND status = 'open' AND occurrences >= ?
+        AND last_seen_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+      ORDER BY occurrences DESC, last_seen_at DESC
+      LIMIT ?`,
+      [projectId, minCount, days, limit]
+    );
+    return Array.isArray(result) ? result : [];
+  }
+
+  // Buscar textos do projeto pela forma normalizada
+  static async findByTexts(projectId: number, normalizedTexts: string[]): Promise<UnmatchedMessage[]> {
+    if (normalizedTexts.length === 0) {
+      return [];
+    }
+
+    const result = await executeQuery(
+      `SELECT * FROM unmatched_messages WHERE project_id = ? AND normalized_text IN (${normalizedTexts.map(() => '?').join(', ')})`,
+      [projectId, ...normalizedTexts]
+    );
+    return Array.isArray(result) ? result : [];
+  }
+
+  // Marcar textos como transformados em gatilho ou ignorados
+  static async updateStatus(
+    projectId: number,
+    normalizedTexts: string[],
+    status: UnmatchedStatus,
+    resolvedMessageId: number | null = null
+  ): Promise<number> {
+    if (normalizedTexts.length === 0) {
+      return 0;
+    }
+
+    const result = await executeQuery(
+      `UPDATE unmatched_messages SET status = ?, resolved_message_id = ?
+      WHERE project_id = ? AND normalized_text IN (${normalizedTexts.map(() => '?').join(', ')})`,
+      [status, resolvedMessageId, projectId, ...normalizedTexts]
+    );
+    return result?.affectedRows || 0;
+  }
+}
@@ -4,6 +4,10 @@ export interface WhatsAppInstance {
   id: number;
   manager_id: number;
   instance_name: string;
+  project_id: number | null; // Projeto que responde neste número (null = agendado/padrão do gestor)
+  routing_mode: InstanceRoutingMode;
+  groups_enabled: boolean;      // Responder em grupos (só quando mencionado ou com o prefixo)
+  group_prefix: string | null;  // Prefixo de comando em grupos (ex: "!bot"; null = só menções)
   phone_number?: string;
   status: 'disconnected' | 'connecting' | 'connected' | 'error';
   qr_code?: string;
@@ -16,23 +20,46 @@ export interface WhatsAppInstance {
   updated_at: Date;
 }
 
+// bot = mensagens passam pelo bot; human = toda conversa vai direto para os atendentes
+export type InstanceRoutingMode = 'bot' | 'human';
+
 export interface CreateInstanceData {
   manager_id: number;
   instance_name: string;
   webhook_url?: string;
+  project_id?: number | null;
+  routing_mode?: InstanceRoutingMode;
+}
+
+export interface UpdateInstanceSettingsData {
+  instance_name?: string;
+  project_id?: number | null;
+  routing_mode?: InstanceRoutingMode;
+  groups_enabled?: boolean;
+  group_prefix?: string | null;
+}
+
+// Movimento de um número (instância)
+export interface InstanceMessageStats {
+  received_today: number;
+  sent_today: number;
+  contacts: number;
+  open_chats: number;
 }
 
 export class WhatsAppInstanceModel {
   // Criar nova instância
   static async create(data: CreateInstanceData): Promise<WhatsAppInstance> {
     const query = `
-      INSERT INTO whatsapp_instances (manager_id, instance_name, webhook_url, status, is_active)
-      VALUES (?, ?, ?, 'disconnected', TRUE)
+      INSERT INTO whatsapp_instances (manager_id, instance_name, project_id, routing_mode, webhook_url, status, is_active)
+      VALUES (?, ?, ?, ?, ?, 'disconnected', TRUE)
     `;
     
     const result = await executeQuery(query, [
       data.manager_id,
       data.instance_name,
+      data.project_id || null,
+      data.routing_mode || 'bot',
       data.webhook_url || null
     ]);
     
@@ -171,6 +198,73 @@ export class WhatsAppInstanceModel {
     return (result as any).affectedRows > 0;
   }
 
+  // Atualizar nome, projeto, modo de atendimento e grupos da instância
+  static async updateSettings(id: number, data: UpdateInstanceSettingsData): Promise<WhatsAppInstance | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.instance_name !== undefined) {
+      fields.push('instance_name = ?');
+      values.push(data.instance_name);
+    }
+
+    if (data.project_id !== undefined) {
+      fields.push('project_id = ?');
+      values.push(data.project_id);
+    }
+
+    if (data.routing_mode !== undefined) {
+      fields.push('routing_mode = ?');
+      values.push(data.routing_mode);
+    }
+
+    if (data.groups_enabled !== undefined) {
+      fields.push('groups_enabled = ?');
+      values.push(data.groups_enabled);
+    }
+
+    if (data.group_prefix !== undefined) {
+      fields.push('group_prefix = ?');
+      values.push(data.group_prefix);
+    }
+
+    if (fields.length > 0) {
+      fields.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+      await executeQuery(`UPDATE whatsapp_instances SET ${fields.join(', ')} WHERE id = ?`, values);
+    }
+
+    return WhatsAppInstanceModel.findById(id);
+  }
+
+  // Movimento da instância: mensagens de hoje, contatos e conversas em aberto
+  static async getMessageStats(id: number): Promise<InstanceMessageStats> {
+    const [messages] = await executeQuery(`
+      SELECT
+        COALESCE(SUM(sender_type = 'contact'), 0) AS received_today,
+        COALESCE(SUM(sender_type <> 'contact'), 0) AS sent_today
+      FROM messages
+      WHERE instance_id = ? AND created_at >= CURDATE()
+    `, [id]) as any[];
+
+    const [contacts] = await executeQuery(
+      'SELECT COUNT(*) AS count FROM contacts WHERE instance_id = ?',
+      [id]
+    ) as any[];
+
+    const [chats] = await executeQuery(`
+      SELECT COUNT(*) AS count FROM human_chats
+      WHERE instance_id = ? AND status IN ('pending', 'active', 'waiting_payment', 'transfer_pending')
+    `, [id]) as any[];
+
+    return {
+      received_today: parseInt(messages?.received_today) || 0,
+      sent_today: parseInt(messages?.sent_today) || 0,
+      contacts: parseInt(contacts?.count) || 0,
+      open_chats: parseInt(chats?.count) || 0
+    };
+  }
+
   // Atualizar atividade da instância
   static async updateActivity(id: number): Promise<boolean> {
     const query = 'UPDATE whatsapp_instances SET last_activity = CURRENT_TIMESTAMP WHERE id = ?';
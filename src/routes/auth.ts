@@ -1,5 +1,6 @@
 import express from 'express';
 import { UserModel } from '../models/User';
+import { DestinationModel } from '../models/Destination';
 import { authenticate, validateUserData, logAction } from '../middleware/auth';
 
 const router = express.Router();
@@ -23,6 +24,9 @@ router.post('/register', validateUserData, logAction('user_register'), async (re
       phone,
       role: 'manager' // Todo usuário que se cadastra é gestor
     });
+
+    // Novo gestor começa com o catálogo inicial de destinos
+    await DestinationModel.seedDefaults(user.id);
     
     // Gerar token
     const token = UserModel.generateToken(user);
@@ -1,11 +1,138 @@
 import express from 'express';
 import { authenticate } from '../middleware/auth';
-import { MessageProjectModel, AutoMessageModel } from '../models/MessageProject';
-import { ContactModel, MessageModel, HumanChatModel } from '../models/Message';
+import { MessageProjectModel, AutoMessageModel, AutoMessageAttachment, AttachmentType, MessageProject } from '../models/MessageProject';
+import { ProjectVersionModel } from '../models/ProjectVersion';
+import { ContactModel, MessageModel, HumanChatModel, HumanChat } from '../models/Message';
+import { OutboundMessageModel } from '../models/OutboundMessage';
+import { BotDecisionTraceModel } from '../models/BotDecisionTrace';
+import { UnmatchedMessageModel } from '../models/UnmatchedMessage';
+import { IntentClassifierModel, ProjectIntentClassifier } from '../models/IntentClassifier';
+import { DestinationModel } from '../models/Destination';
+import { BusinessHoursModel } from '../models/BusinessHours';
 import { executeQuery } from '../config/database';
+import { validateFlow } from '../services/flowEngine';
+import { validateMatchConfig } from '../services/triggerMatcher';
+import {
+  resolveBusinessHours,
+  isWithinBusinessHours,
+  formatWeeklySchedule,
+  describeNextOpening,
+  validateBusinessHours
+} from '../services/businessHours';
+import { findDestination, formatDestinationName } from '../services/destinationMatcher';
+import { renderTemplateDetailed, BUILTIN_VARIABLES } from '../services/templateRenderer';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  isAllowedMimeType,
+  decodeBase64File,
+  saveAttachmentFile,
+  deleteAttachmentFile,
+  getAttachmentOwner,
+  getAttachmentPath,
+  getAttachmentUrl
+} from '../services/attachmentStorage';
+import { VARIANT_MODES, validateResponseSteps, normalizeResponseSteps } from '../services/responseSequence';
+import { simulateConversation } from '../services/botSimulator';
+import { validateFlowFile, normalizeFlowFile, extractAutoMessages, buildFlowExport } from '../services/flowImport';
+import { selectProject, validateActivation } from '../services/projectSchedule';
+import { buildUnmatchedReport, buildTriggersToAdd } from '../services/unmatchedReport';
+import { getContactRestriction } from '../services/optOut';
+import { formatChatId } from '../services/whatsappChat';
+import { getInboundMediaPath } from '../services/inboundMedia';
+import { buildTrainingExamples, trainIntentClassifier, classifyIntent, validateIntentSettings } from '../services/intentClassifier';
+import { ProjectSnapshot, applySnapshot, buildSnapshot, diffSnapshots, emptySnapshot, snapshotAttachmentFiles } from '../services/projectVersions';
 
 const router = express.Router();
 
+const ACTION_TYPES = ['reply', 'reply_and_handoff', 'handoff_only'];
+
+// Mensagens do cliente aceitas por chamada de simulação
+const MAX_SIMULATION_MESSAGES = 50;
+
+// Normalizar lista de textos recebida (array ou texto separado por vírgulas)
+const parseStringList = (value: any): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const list = Array.isArray(value) ? value : String(value || '').split(',');
+  return list.map((item: any) => String(item).trim()).filter((item: string) => item !== '');
+};
+
+// Apagar arquivo de anexo que saiu do rascunho, exceto se uma versão publicada ainda o usa
+const discardAttachmentFile = async (fileName?: string | null): Promise<void> => {
+  if (!fileName || await ProjectVersionModel.usesAttachment(fileName)) {
+    return;
+  }
+  await deleteAttachmentFile(fileName);
+};
+
+// Conteúdo atual do rascunho do projeto
+const loadDraftSnapshot = async (project: MessageProject): Promise<ProjectSnapshot> =>
+  buildSnapshot(project, await AutoMessageModel.findByProjectId(project.id));
+
+// Resolver "draft", "published" ou o ID de uma versão do projeto (null = versão não encontrada)
+const resolveSnapshot = async (project: MessageProject, ref: string): Promise<{ label: string; snapshot: ProjectSnapshot } | null> => {
+  if (ref === 'draft') {
+    return { label: 'rascunho', snapshot: await loadDraftSnapshot(project) };
+  }
+  if (ref === 'published') {
+    const version = project.published_version_id ? await ProjectVersionModel.findById(project.published_version_id) : null;
+    return version
+      ? { label: `v${version.version_number}`, snapshot: version.snapshot }
+      : { label: 'nenhuma versão publicada', snapshot: emptySnapshot() };
+  }
+  const version = await ProjectVersionModel.findById(parseInt(ref));
+  if (!version || version.project_id !== project.id) {
+    return null;
+  }
+  return { label: `v${version.version_number}`, snapshot: version.snapshot };
+};
+
+// Treinar o classificador de intenção com as mensagens que o bot usa (versão publicada ou rascunho)
+// e as mensagens de clientes já respondidas por gatilhos
+const trainProjectClassifier = async (projectId: number): Promise<ProjectIntentClassifier> => {
+  const project = await MessageProjectModel.findById(projectId);
+  const version = project?.published_version_id ? await ProjectVersionModel.findById(project.published_version_id) : null;
+  const messages = project && version
+    ? applySnapshot(project, version.snapshot, version.created_at).messages || []
+    : await AutoMessageModel.findByProjectId(projectId);
+  
+  const triggerExamples = buildTrainingExamples(messages);
+  const examples = buildTrainingExamples(messages, await BotDecisionTraceModel.findLabeledExamples(projectId));
+  const classifier = await IntentClassifierModel.saveModel(
+    projectId,
+    trainIntentClassifier(examples),
+    examples.length - triggerExamples.length
+  );
+  
+  console.log(`🧠 Classificador de intenção do projeto ${projectId} treinado com ${classifier.examples} exemplo(s)`);
+  return classifier;
+};
+
+// O bot passou a usar outro conteúdo: retreinar o classificador ativo para acompanhar os gatilhos
+const retrainIfEnabled = async (projectId: number): Promise<void> => {
+  if ((await IntentClassifierModel.findByProjectId(projectId)).is_enabled) {
+    await trainProjectClassifier(projectId);
+  }
+};
+
+// Configuração do classificador sem o modelo (que pode ser grande)
+const describeClassifier = (classifier: ProjectIntentClassifier) => {
+  const { model, ...settings } = classifier;
+  return { ...settings, intents: model ? Object.keys(model.labels).length : 0 };
+};
+
+// Operador acessa o chat atribuído a ele, pendente do seu gestor ou envolvido em transferência com ele
+const canAccessChat = (user: NonNullable<express.Request['user']>, chat: HumanChat): boolean => {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'operator') return chat.manager_id === user.id;
+  return chat.manager_id === user.manager_id && (
+    chat.assigned_to === user.id ||
+    (chat.assigned_to === null && chat.status === 'pending') ||
+    chat.transfer_to === user.id ||
+    chat.transfer_from === user.id
+  );
+};
+
 // ===== ROTAS DE CONTATOS =====
 
 // Listar contatos do gestor
@@ -53,7 +180,7 @@ router.get('/contacts/:id', authenticate, async (req, res) => {
 router.put('/contacts/:id', authenticate, async (req, res) => {
   try {
     const contactId = parseInt(req.params.id);
-    const { name, avatar, tags, notes } = req.body;
+    const { name, avatar, tags, notes, custom_fields } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
@@ -69,11 +196,16 @@ router.put('/contacts/:id', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Sem permissão para editar este contato' });
     }
     
+    if (custom_fields !== undefined && custom_fields !== null && (typeof custom_fields !== 'object' || Array.isArray(custom_fields))) {
+      return res.status(400).json({ error: '"custom_fields" deve ser um objeto' });
+    }
+    
     const updatedContact = await ContactModel.update(contactId, {
       name,
       avatar,
       tags,
-      notes
+      notes,
+      custom_fields
     });
     
     res.json({ contact: updatedContact });
@@ -690,6 +822,43 @@ router.get('/human-chats/pending-transfers', authenticate, async (req, res) => {
   }
 });
 
+// Bloquear ou desbloquear o contato da conversa (bloqueado: mensagens ignoradas e nenhum envio)
+router.put('/human-chats/:id/block', authenticate, async (req, res) => {
+  try {
+    const chatId = parseInt(req.params.id);
+    const { blocked } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    if (typeof blocked !== 'boolean') {
+      return res.status(400).json({ error: 'Informe "blocked" como true ou false' });
+    }
+    
+    const chat = await HumanChatModel.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ error: 'Chat não encontrado' });
+    }
+    
+    if (!canAccessChat(req.user, chat)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este chat' });
+    }
+    
+    const contact = await ContactModel.setBlocked(chat.contact_id, blocked, req.user.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contato não encontrado' });
+    }
+    
+    console.log(`${blocked ? '🚫' : '✅'} Contato ${contact.id} ${blocked ? 'bloqueado' : 'desbloqueado'} por ${req.user.name}`);
+    
+    res.json({ contact });
+  } catch (error) {
+    console.error('Erro ao bloquear contato:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 // Liberar conversa (remover atribuição)
 router.post('/human-chats/:id/release', authenticate, async (req, res) => {
   try {
@@ -762,27 +931,187 @@ router.post('/human-chats/:chatId/messages', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Sem permissão para enviar mensagem neste chat' });
     }
     
+    // Contato bloqueado ou descadastrado não recebe mensagens
+    const contact = await ContactModel.findById(chat.contact_id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contato não encontrado' });
+    }
+    
+    const restriction = getContactRestriction(contact);
+    if (restriction) {
+      return res.status(400).json({ error: restriction });
+    }
+    
     // Criar mensagem no banco
     const message = await MessageModel.create({
       manager_id: chat.manager_id,
       chat_id: chatId,
       contact_id: chat.contact_id,
+      instance_id: chat.instance_id,
       sender_type: 'operator',
       sender_id: req.user.id,
       content: content,
       message_type: messageType
     });
     
-    // TODO: Enviar mensagem via WhatsApp
-    // Aqui você pode integrar com o cliente WhatsApp para enviar a mensagem
+    // Enviar pelo WhatsApp através da fila (pelo número da conversa)
+    await OutboundMessageModel.create({
+      manager_id: chat.manager_id,
+      instance_id: chat.instance_id,
+      contact_id: chat.contact_id,
+      chat_id: chatId,
+      message_id: message.id,
+      to_chat_id: formatChatId(contact.phone_number, contact.contact_type === 'group'),
+      sender_type: 'operator',
+      content: `*${req.user.name}:* ${content}`
+    });
+    
+    // Enviar agora, sem esperar a próxima verificação da fila
+    (req as any).processOutboundQueue?.();
     
-    res.json({ message });
+    res.json({ message: { ...message, send_status: 'pending' } });
   } catch (error) {
     console.error('Erro ao enviar mensagem:', error);
     res.status(500).json({ error: 'Erro interno do servidor' });
   }
 });
 
+// Reenviar uma mensagem que falhou na fila de envio
+router.post('/outbound/:messageId/retry', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.messageId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const outbound = await OutboundMessageModel.findByMessageId(messageId);
+    if (!outbound) {
+      return res.status(404).json({ error: 'Mensagem não encontrada na fila de envio' });
+    }
+    
+    // Mesmo acesso da conversa; mensagens fora de conversa seguem o gestor
+    const chat = outbound.chat_id ? await HumanChatModel.findById(outbound.chat_id) : null;
+    const managerId = req.user.role === 'operator' ? req.user.manager_id : req.user.id;
+    const hasAccess = chat
+      ? canAccessChat(req.user, chat)
+      : req.user.role === 'admin' || outbound.manager_id === managerId;
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Sem permissão para reenviar esta mensagem' });
+    }
+    
+    if (outbound.status !== 'failed') {
+      return res.status(400).json({ error: 'Apenas mensagens com falha podem ser reenviadas' });
+    }
+    
+    // Contato bloqueado ou descadastrado continua sem receber mensagens (exceto a confirmação do descadastro)
+    const contact = await ContactModel.findById(outbound.contact_id);
+    const restriction = contact ? getContactRestriction(contact, outbound.ignore_opt_out) : null;
+    if (restriction) {
+      return res.status(400).json({ error: restriction });
+    }
+    
+    await OutboundMessageModel.retry(outbound.id);
+    
+    (req as any).processOutboundQueue?.();
+    
+    res.json({ message: 'Mensagem de volta à fila de envio', status: 'pending' });
+  } catch (error) {
+    console.error('Erro ao reenviar mensagem:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== RASTREAMENTO DAS DECISÕES DO BOT =====
+
+// Por que o bot respondeu assim: decisões das mensagens recebidas na conversa
+router.get('/human-chats/:chatId/decision-traces', authenticate, async (req, res) => {
+  try {
+    const chatId = parseInt(req.params.chatId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const chat = await HumanChatModel.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ error: 'Chat não encontrado' });
+    }
+    
+    if (!canAccessChat(req.user, chat)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este chat' });
+    }
+    
+    const traces = await BotDecisionTraceModel.findByManager(chat.manager_id, {
+      contact_id: chat.contact_id,
+      limit: parseInt(req.query.limit as string) || 50
+    });
+    
+    res.json({ traces });
+  } catch (error) {
+    console.error('Erro ao listar decisões do bot do chat:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Consultar decisões do bot (depuração): filtros contact_id, message_id, kind, from, to (YYYY-MM-DD) e limit
+router.get('/decision-traces', authenticate, async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    if (req.user.role === 'operator') {
+      return res.status(403).json({ error: 'Apenas gestores podem consultar as decisões do bot' });
+    }
+    
+    // Admin pode consultar outro gestor com ?manager_id=
+    const managerId = req.user.role === 'admin' && req.query.manager_id
+      ? parseInt(req.query.manager_id as string)
+      : req.user.id;
+    
+    const traces = await BotDecisionTraceModel.findByManager(managerId, {
+      contact_id: parseInt(req.query.contact_id as string) || undefined,
+      message_id: parseInt(req.query.message_id as string) || undefined,
+      kind: (req.query.kind as string) || undefined,
+      from: (req.query.from as string) || undefined,
+      to: (req.query.to as string) || undefined,
+      limit: parseInt(req.query.limit as string) || undefined
+    });
+    
+    res.json({ traces });
+  } catch (error) {
+    console.error('Erro ao listar decisões do bot:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Buscar decisão do bot por ID
+router.get('/decision-traces/:id', authenticate, async (req, res) => {
+  try {
+    const traceId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const trace = await BotDecisionTraceModel.findById(traceId);
+    if (!trace) {
+      return res.status(404).json({ error: 'Rastreamento não encontrado' });
+    }
+    
+    const managerId = req.user.role === 'operator' ? req.user.manager_id : req.user.id;
+    if (req.user.role !== 'admin' && trace.manager_id !== managerId) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este rastreamento' });
+    }
+    
+    res.json({ trace });
+  } catch (error) {
+    console.error('Erro ao buscar decisão do bot:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 // ===== PROJETOS DE MENSAGENS =====
 
 // Listar projetos de mensagens do gestor
@@ -803,7 +1132,7 @@ router.get('/projects', authenticate, async (req, res) => {
 // Criar projeto de mensagens
 router.post('/projects', authenticate, async (req, res) => {
   try {
-    const { name, description, is_default = false } = req.body;
+    const { name, description, is_default = false, handoff_keywords } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
@@ -817,7 +1146,8 @@ router.post('/projects', authenticate, async (req, res) => {
       manager_id: req.user.id,
       name,
       description,
-      is_default
+      is_default,
+      handoff_keywords: parseStringList(handoff_keywords)
     });
     
     res.json({ project });
@@ -827,6 +1157,62 @@ router.post('/projects', authenticate, async (req, res) => {
   }
 });
 
+// Importar projeto a partir de um arquivo de fluxo (formato nodes/connections)
+// dry_run = true apenas valida e devolve o relatório, sem criar nada
+router.post('/projects/import', authenticate, async (req, res) => {
+  try {
+    const { flow, name, description, is_default = false, dry_run = false } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const report = validateFlowFile(flow);
+    if (!report.valid) {
+      return res.status(400).json({ error: 'Fluxo inválido', report });
+    }
+    
+    if (dry_run) {
+      return res.json({ report });
+    }
+    
+    const normalized = normalizeFlowFile(flow);
+    const project = await MessageProjectModel.createWithMessages({
+      manager_id: req.user.id,
+      name: name || normalized.metadata?.description || 'Fluxo importado',
+      description,
+      is_default
+    }, normalized, extractAutoMessages(normalized));
+    
+    console.log(`📥 Fluxo importado no projeto ${project.id}: ${report.summary.nodes} nós, ${report.summary.auto_messages} mensagens automáticas`);
+    res.json({ project, report });
+  } catch (error) {
+    console.error('Erro ao importar fluxo:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Projeto que está respondendo agora (agendamento ativo ou padrão)
+router.get('/projects/active', authenticate, async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const { timezone } = resolveBusinessHours(await BusinessHoursModel.findByManagerId(req.user.id));
+    const selection = selectProject(await MessageProjectModel.findByManagerId(req.user.id), new Date(), timezone);
+    
+    res.json({
+      project: selection.project ? { id: selection.project.id, name: selection.project.name } : null,
+      reason: selection.reason,
+      timezone
+    });
+  } catch (error) {
+    console.error('Erro ao buscar projeto ativo:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 // Buscar projeto por ID
 router.get('/projects/:id', authenticate, async (req, res) => {
   try {
@@ -857,7 +1243,7 @@ router.get('/projects/:id', authenticate, async (req, res) => {
 router.put('/projects/:id', authenticate, async (req, res) => {
   try {
     const projectId = parseInt(req.params.id);
-    const { name, description, is_active, is_default } = req.body;
+    const { name, description, is_active, is_default, handoff_keywords, activation } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
@@ -873,11 +1259,25 @@ router.put('/projects/:id', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
     }
     
+    if (activation !== undefined) {
+      const errors = validateActivation(activation);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Agendamento inválido', details: errors });
+      }
+    }
+    
     const updatedProject = await MessageProjectModel.update(projectId, {
       name,
       description,
       is_active,
-      is_default
+      is_default,
+      handoff_keywords: parseStringList(handoff_keywords),
+      activation: activation === undefined ? undefined : activation && {
+        start_date: activation.start_date || null,
+        end_date: activation.end_date || null,
+        weekly_schedule: activation.weekly_schedule || null,
+        priority: activation.priority || 0
+      }
     });
     
     res.json({ project: updatedProject });
@@ -915,8 +1315,8 @@ router.post('/projects/:id/set-default', authenticate, async (req, res) => {
   }
 });
 
-// Deletar projeto
-router.delete('/projects/:id', authenticate, async (req, res) => {
+// Buscar fluxo visual do projeto
+router.get('/projects/:id/flow', authenticate, async (req, res) => {
   try {
     const projectId = parseInt(req.params.id);
     
@@ -931,30 +1331,26 @@ router.delete('/projects/:id', authenticate, async (req, res) => {
     
     // Verificar permissão
     if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
-      return res.status(403).json({ error: 'Sem permissão para deletar este projeto' });
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
     }
     
-    await MessageProjectModel.delete(projectId);
-    
-    res.json({ success: true });
+    res.json({ flow: project.flow_data || null });
   } catch (error) {
-    console.error('Erro ao deletar projeto:', error);
+    console.error('Erro ao buscar fluxo do projeto:', error);
     res.status(500).json({ error: 'Erro interno do servidor' });
   }
 });
 
-// ===== MENSAGENS AUTOMÁTICAS =====
-
-// Listar mensagens de um projeto
-router.get('/projects/:projectId/messages', authenticate, async (req, res) => {
+// Exportar projeto no formato de arquivo de fluxo (reimportável em /projects/import)
+router.get('/projects/:id/export', authenticate, async (req, res) => {
   try {
-    const projectId = parseInt(req.params.projectId);
+    const projectId = parseInt(req.params.id);
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
     }
     
-    const project = await MessageProjectModel.findById(projectId);
+    const project = await MessageProjectModel.findById(projectId, true);
     if (!project) {
       return res.status(404).json({ error: 'Projeto não encontrado' });
     }
@@ -964,32 +1360,25 @@ router.get('/projects/:projectId/messages', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
     }
     
-    const activeOnly = req.query.active_only === 'true';
-    const messages = activeOnly 
-      ? await AutoMessageModel.findActiveByProjectId(projectId)
-      : await AutoMessageModel.findByProjectId(projectId);
-    
-    res.json({ messages });
+    const fileName = `fluxo-${project.name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || project.id}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.json(buildFlowExport(project, project.messages || []));
   } catch (error) {
-    console.error('Erro ao listar mensagens:', error);
+    console.error('Erro ao exportar fluxo do projeto:', error);
     res.status(500).json({ error: 'Erro interno do servidor' });
   }
 });
 
-// Criar mensagem automática
-router.post('/projects/:projectId/messages', authenticate, async (req, res) => {
+// Salvar fluxo visual do projeto (executado pelo bot no servidor)
+router.put('/projects/:id/flow', authenticate, async (req, res) => {
   try {
-    const projectId = parseInt(req.params.projectId);
-    const { trigger_words, response_text, is_active = true, order_index = 0 } = req.body;
+    const projectId = parseInt(req.params.id);
+    const { flow } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
     }
     
-    if (!trigger_words || !response_text) {
-      return res.status(400).json({ error: 'Palavras-chave e texto de resposta são obrigatórios' });
-    }
-    
     const project = await MessageProjectModel.findById(projectId);
     if (!project) {
       return res.status(404).json({ error: 'Projeto não encontrado' });
@@ -997,83 +1386,833 @@ router.post('/projects/:projectId/messages', authenticate, async (req, res) => {
     
     // Verificar permissão
     if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
-      return res.status(403).json({ error: 'Sem permissão para criar mensagem neste projeto' });
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
     }
     
-    const message = await AutoMessageModel.create({
-      project_id: projectId,
-      trigger_words,
-      response_text,
-      is_active,
-      order_index
-    });
+    // flow = null remove o fluxo (bot volta a usar apenas as mensagens automáticas)
+    if (flow !== null) {
+      const errors = validateFlow(flow);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Fluxo inválido', details: errors });
+      }
+    }
     
-    res.json({ message });
+    const updatedProject = await MessageProjectModel.updateFlow(projectId, flow ? {
+      metadata: flow.metadata,
+      nodes: flow.nodes,
+      connections: flow.connections
+    } : null);
+    
+    res.json({ project: updatedProject });
   } catch (error) {
-    console.error('Erro ao criar mensagem:', error);
+    console.error('Erro ao salvar fluxo do projeto:', error);
     res.status(500).json({ error: 'Erro interno do servidor' });
   }
 });
 
-// Buscar mensagem automática por ID
-router.get('/messages/:id', authenticate, async (req, res) => {
+// Pré-visualizar o texto de uma resposta com dados de exemplo (antes de publicar)
+router.post('/projects/:id/render-preview', authenticate, async (req, res) => {
   try {
-    const messageId = parseInt(req.params.id);
+    const projectId = parseInt(req.params.id);
+    const { template, message = '', contact, variables = {} } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
     }
     
-    const message = await AutoMessageModel.findById(messageId);
-    if (!message) {
-      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    if (typeof template !== 'string') {
+      return res.status(400).json({ error: 'Texto do template é obrigatório' });
     }
     
-    // Verificar permissão através do projeto
-    const project = await MessageProjectModel.findById(message.project_id);
+    const project = await MessageProjectModel.findById(projectId);
     if (!project) {
-      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+      return res.status(404).json({ error: 'Projeto não encontrado' });
     }
     
+    // Verificar permissão
     if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
-      return res.status(403).json({ error: 'Sem permissão para acessar esta mensagem' });
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
     }
     
-    res.json({ message });
+    const destination = message
+      ? findDestination(await DestinationModel.findActiveByManagerId(project.manager_id), message)
+      : undefined;
+    
+    const result = renderTemplateDetailed(template, {
+      contact: {
+        name: contact?.name ?? 'Maria Silva',
+        phone: contact?.phone ?? '5563999999999',
+        tags: contact?.tags ?? null,
+        notes: contact?.notes ?? null
+      },
+      message,
+      variables,
+      destination: destination ? formatDestinationName(destination) : null,
+      businessHours: resolveBusinessHours(await BusinessHoursModel.findByManagerId(project.manager_id))
+    });
+    
+    res.json({
+      rendered: result.text,
+      missing: result.missing,
+      available_variables: BUILTIN_VARIABLES
+    });
   } catch (error) {
-    console.error('Erro ao buscar mensagem:', error);
+    console.error('Erro ao pré-visualizar template:', error);
     res.status(500).json({ error: 'Erro interno do servidor' });
   }
 });
 
-// Atualizar mensagem automática
-router.put('/messages/:id', authenticate, async (req, res) => {
+// Simular mensagens recebidas com o mesmo motor do bot (sem WhatsApp, sem salvar nada)
+router.post('/projects/:id/simulate', authenticate, async (req, res) => {
   try {
-    const messageId = parseInt(req.params.id);
-    const { trigger_words, response_text, is_active, order_index } = req.body;
+    const projectId = parseInt(req.params.id);
+    const { contact, state } = req.body;
+    const inputs = typeof req.body.messages === 'string' ? [req.body.messages] : req.body.messages;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
     }
     
-    const message = await AutoMessageModel.findById(messageId);
-    if (!message) {
-      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    if (!Array.isArray(inputs) || inputs.length === 0 || inputs.some((text: any) => typeof text !== 'string')) {
+      return res.status(400).json({ error: 'Informe "messages" com a lista de mensagens do cliente' });
     }
     
-    // Verificar permissão através do projeto
-    const project = await MessageProjectModel.findById(message.project_id);
+    if (inputs.length > MAX_SIMULATION_MESSAGES) {
+      return res.status(400).json({ error: `Simule no máximo ${MAX_SIMULATION_MESSAGES} mensagens por vez` });
+    }
+    
+    if (state !== undefined && state !== null && (typeof state !== 'object' || Array.isArray(state))) {
+      return res.status(400).json({ error: '"state" deve ser o estado retornado por uma simulação anterior' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId, true);
     if (!project) {
-      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+      return res.status(404).json({ error: 'Projeto não encontrado' });
     }
     
+    // Verificar permissão
     if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
-      return res.status(403).json({ error: 'Sem permissão para editar esta mensagem' });
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
     }
     
-    const updatedMessage = await AutoMessageModel.update(messageId, {
+    const classifier = await IntentClassifierModel.findByProjectId(projectId);
+    const result = simulateConversation({
+      project,
+      messages: project.messages || [],
+      destinations: await DestinationModel.findActiveByManagerId(project.manager_id),
+      businessHours: resolveBusinessHours(await BusinessHoursModel.findByManagerId(project.manager_id)),
+      contact: {
+        name: contact?.name ?? 'Maria Silva',
+        phone: contact?.phone ?? '5563999999999'
+      },
+      inputs,
+      state,
+      intent: classifier.is_enabled && classifier.model
+        ? { model: classifier.model, threshold: classifier.confidence_threshold }
+        : null
+    });
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Erro ao simular conversa:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Deletar projeto
+router.delete('/projects/:id', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para deletar este projeto' });
+    }
+    
+    await MessageProjectModel.delete(projectId);
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao deletar projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== VERSÕES DOS PROJETOS =====
+// As edições alteram o rascunho; o bot usa a versão publicada (ou o rascunho, se o projeto nunca foi publicado)
+
+// Histórico de versões publicadas
+router.get('/projects/:id/versions', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const published = await resolveSnapshot(project, 'published');
+    const draft = await loadDraftSnapshot(project);
+    
+    res.json({
+      versions: await ProjectVersionModel.findByProjectId(projectId),
+      published_version_id: project.published_version_id || null,
+      has_unpublished_changes: diffSnapshots(published!.snapshot, draft).has_changes
+    });
+  } catch (error) {
+    console.error('Erro ao listar versões do projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Comparar duas versões (from/to: ID da versão, "published" ou "draft"; padrão: publicada x rascunho)
+router.get('/projects/:id/versions/diff', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const from = String(req.query.from || 'published');
+    const to = String(req.query.to || 'draft');
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const fromSnapshot = await resolveSnapshot(project, from);
+    const toSnapshot = await resolveSnapshot(project, to);
+    if (!fromSnapshot || !toSnapshot) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+    
+    res.json({
+      from: fromSnapshot.label,
+      to: toSnapshot.label,
+      diff: diffSnapshots(fromSnapshot.snapshot, toSnapshot.snapshot)
+    });
+  } catch (error) {
+    console.error('Erro ao comparar versões do projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Buscar versão com o conteúdo publicado
+router.get('/projects/:id/versions/:versionId', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const versionId = parseInt(req.params.versionId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const version = await ProjectVersionModel.findById(versionId);
+    if (!version || version.project_id !== projectId) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+    
+    res.json({ version });
+  } catch (error) {
+    console.error('Erro ao buscar versão do projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Publicar o rascunho: o bot passa a usar este conteúdo de uma só vez
+router.post('/projects/:id/publish', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const { notes } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    const draft = await loadDraftSnapshot(project);
+    const published = await resolveSnapshot(project, 'published');
+    if (project.published_version_id && !diffSnapshots(published!.snapshot, draft).has_changes) {
+      return res.status(400).json({ error: 'Nenhuma alteração para publicar' });
+    }
+    
+    const version = await ProjectVersionModel.publish({
+      project_id: projectId,
+      snapshot: draft,
+      published_by: req.user.id,
+      notes: notes ? String(notes).slice(0, 255) : null
+    });
+    
+    console.log(`🚀 Projeto ${projectId} publicado (v${version.version_number}) por ${req.user.name}`);
+    await retrainIfEnabled(projectId);
+    res.json({ version });
+  } catch (error) {
+    console.error('Erro ao publicar projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Voltar a uma versão anterior (publicada como nova versão; restore_draft também substitui o rascunho)
+router.post('/projects/:id/rollback', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const { version_id, restore_draft = false, notes } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    const target = await ProjectVersionModel.findById(parseInt(version_id));
+    if (!target || target.project_id !== projectId) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+    
+    if (target.id === project.published_version_id && !restore_draft) {
+      return res.status(400).json({ error: 'Esta versão já está publicada' });
+    }
+    
+    // Anexos do rascunho que deixam de existir com a restauração
+    const draftFiles = restore_draft ? snapshotAttachmentFiles(await loadDraftSnapshot(project)) : [];
+    
+    const version = await ProjectVersionModel.publish({
+      project_id: projectId,
+      snapshot: target.snapshot,
+      published_by: req.user.id,
+      notes: notes ? String(notes).slice(0, 255) : `Restauração da versão ${target.version_number}`,
+      rolled_back_from: target.version_number,
+      restore_draft: restore_draft === true
+    });
+    
+    const restoredFiles = snapshotAttachmentFiles(target.snapshot);
+    for (const fileName of draftFiles.filter(fileName => !restoredFiles.includes(fileName))) {
+      await discardAttachmentFile(fileName);
+    }
+    
+    console.log(`⏪ Projeto ${projectId} voltou para v${target.version_number} (nova versão v${version.version_number})`);
+    await retrainIfEnabled(projectId);
+    res.json({ version });
+  } catch (error) {
+    console.error('Erro ao restaurar versão do projeto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== CLASSIFICADOR DE INTENÇÃO =====
+
+// Configuração do classificador de intenção do projeto
+router.get('/projects/:id/intent', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    res.json({ classifier: describeClassifier(await IntentClassifierModel.findByProjectId(projectId)) });
+  } catch (error) {
+    console.error('Erro ao buscar classificador de intenção:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Ativar/desativar o classificador e ajustar o limite de confiança (ao ativar sem modelo, treina na hora)
+router.put('/projects/:id/intent', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const { is_enabled, confidence_threshold } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    const errors = validateIntentSettings({ is_enabled, confidence_threshold });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Configuração do classificador inválida', details: errors });
+    }
+    
+    let classifier = await IntentClassifierModel.saveSettings(projectId, {
+      is_enabled,
+      confidence_threshold: confidence_threshold !== undefined ? Number(confidence_threshold) : undefined
+    });
+    if (classifier.is_enabled && !classifier.model) {
+      classifier = await trainProjectClassifier(projectId);
+    }
+    
+    res.json({ classifier: describeClassifier(classifier) });
+  } catch (error) {
+    console.error('Erro ao salvar classificador de intenção:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Treinar de novo (gatilhos atuais e conversas recentes)
+router.post('/projects/:id/intent/train', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    res.json({ classifier: describeClassifier(await trainProjectClassifier(projectId)) });
+  } catch (error) {
+    console.error('Erro ao treinar classificador de intenção:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Testar o classificador com uma frase (mostra a mensagem escolhida e se o bot responderia com ela)
+router.post('/projects/:id/intent/classify', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const text = typeof req.body.text === 'string' ? req.body.text : '';
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    if (!text.trim()) {
+      return res.status(400).json({ error: 'Informe o texto a classificar' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const classifier = await IntentClassifierModel.findByProjectId(projectId);
+    if (!classifier.model) {
+      return res.status(400).json({ error: 'O classificador ainda não foi treinado' });
+    }
+    
+    const prediction = classifyIntent(classifier.model, text);
+    res.json({
+      prediction,
+      would_answer: !!prediction && prediction.confidence >= classifier.confidence_threshold,
+      threshold: classifier.confidence_threshold
+    });
+  } catch (error) {
+    console.error('Erro ao classificar texto:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== MENSAGENS NÃO RECONHECIDAS =====
+
+// Relatório de textos que caíram no fallback do projeto, agrupados por semelhança
+router.get('/projects/:id/unmatched', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const days = Math.min(Math.max(parseInt(String(req.query.days)) || 30, 1), 365);
+    const minCount = Math.max(parseInt(String(req.query.min_count)) || 1, 1);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const entries = await UnmatchedMessageModel.findOpenByProject(projectId, days, minCount);
+    const groups = buildUnmatchedReport(entries, await AutoMessageModel.findActiveByProjectId(projectId));
+    
+    res.json({
+      days,
+      total_messages: groups.reduce((sum, group) => sum + group.total, 0),
+      groups
+    });
+  } catch (error) {
+    console.error('Erro ao gerar relatório de mensagens não reconhecidas:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Adicionar textos não reconhecidos como gatilhos de uma mensagem automática do projeto
+router.post('/projects/:id/unmatched/add-trigger', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const messageId = parseInt(req.body.message_id);
+    const texts = parseStringList(req.body.texts) || [];
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    const message = await AutoMessageModel.findById(messageId);
+    if (!message || message.project_id !== projectId) {
+      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    }
+    
+    // Gatilhos em regex não são gerados automaticamente: o padrão deve ser editado na mensagem
+    if (message.match_mode === 'regex') {
+      return res.status(400).json({ error: 'A mensagem usa expressão regular; edite o padrão manualmente' });
+    }
+    
+    const entries = await UnmatchedMessageModel.findByTexts(projectId, texts);
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'Informe os textos do relatório a adicionar' });
+    }
+    
+    const addedTriggers = buildTriggersToAdd(message, entries);
+    const updatedMessage = addedTriggers.length > 0
+      ? await AutoMessageModel.update(messageId, { trigger_words: [...message.trigger_words, ...addedTriggers] })
+      : message;
+    
+    await UnmatchedMessageModel.updateStatus(projectId, entries.map(entry => entry.normalized_text), 'added', messageId);
+    
+    console.log(`➕ ${addedTriggers.length} gatilho(s) adicionado(s) à mensagem ${messageId} a partir do relatório do projeto ${projectId}`);
+    res.json({
+      message: updatedMessage,
+      added_triggers: addedTriggers,
+      // Com versão publicada o bot só usa os novos gatilhos depois de publicar o rascunho
+      needs_publish: !!project.published_version_id && addedTriggers.length > 0
+    });
+  } catch (error) {
+    console.error('Erro ao adicionar gatilhos do relatório:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Ignorar textos do relatório (continuam sendo contados, mas não aparecem mais)
+router.post('/projects/:id/unmatched/dismiss', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const texts = parseStringList(req.body.texts) || [];
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este projeto' });
+    }
+    
+    if (texts.length === 0) {
+      return res.status(400).json({ error: 'Informe os textos a ignorar' });
+    }
+    
+    const dismissed = await UnmatchedMessageModel.updateStatus(projectId, texts, 'dismissed');
+    res.json({ dismissed });
+  } catch (error) {
+    console.error('Erro ao ignorar mensagens não reconhecidas:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== MENSAGENS AUTOMÁTICAS =====
+
+// Listar mensagens de um projeto
+router.get('/projects/:projectId/messages', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este projeto' });
+    }
+    
+    const activeOnly = req.query.active_only === 'true';
+    const messages = activeOnly 
+      ? await AutoMessageModel.findActiveByProjectId(projectId)
+      : await AutoMessageModel.findByProjectId(projectId);
+    
+    res.json({ messages });
+  } catch (error) {
+    console.error('Erro ao listar mensagens:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Criar mensagem automática
+router.post('/projects/:projectId/messages', authenticate, async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+    const {
+      trigger_words,
+      match_mode = 'exact',
+      response_text,
+      response_steps,
+      variant_mode = 'random',
+      action_type = 'reply',
+      is_active = true,
+      order_index = 0
+    } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    if (!ACTION_TYPES.includes(action_type)) {
+      return res.status(400).json({ error: `Tipo de ação inválido. Use: ${ACTION_TYPES.join(', ')}` });
+    }
+    
+    if (!VARIANT_MODES.includes(variant_mode)) {
+      return res.status(400).json({ error: `Modo de variação inválido. Use: ${VARIANT_MODES.join(', ')}` });
+    }
+    
+    const stepErrors = validateResponseSteps(response_steps);
+    if (stepErrors.length > 0) {
+      return res.status(400).json({ error: 'Sequência de mensagens inválida', details: stepErrors });
+    }
+    
+    // Com sequência, o texto principal acompanha a primeira mensagem
+    const steps = normalizeResponseSteps(response_steps);
+    const text = steps ? steps[0].text : response_text;
+    
+    // Só "handoff_only" dispensa o texto de resposta
+    if (!trigger_words || (!text && action_type !== 'handoff_only')) {
+      return res.status(400).json({ error: 'Palavras-chave e texto de resposta são obrigatórios' });
+    }
+    
+    const matchError = validateMatchConfig(match_mode, trigger_words);
+    if (matchError) {
+      return res.status(400).json({ error: matchError });
+    }
+    
+    const project = await MessageProjectModel.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para criar mensagem neste projeto' });
+    }
+    
+    const message = await AutoMessageModel.create({
+      project_id: projectId,
+      trigger_words,
+      match_mode,
+      response_text: text || '',
+      response_steps: steps,
+      variant_mode,
+      action_type,
+      is_active,
+      order_index
+    });
+    
+    res.json({ message });
+  } catch (error) {
+    console.error('Erro ao criar mensagem:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Buscar mensagem automática por ID
+router.get('/messages/:id', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const message = await AutoMessageModel.findById(messageId);
+    if (!message) {
+      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    }
+    
+    // Verificar permissão através do projeto
+    const project = await MessageProjectModel.findById(message.project_id);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+    }
+    
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta mensagem' });
+    }
+    
+    res.json({ message });
+  } catch (error) {
+    console.error('Erro ao buscar mensagem:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Atualizar mensagem automática
+router.put('/messages/:id', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.id);
+    const { trigger_words, match_mode, response_steps, variant_mode, action_type, is_active, order_index } = req.body;
+    let { response_text } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const message = await AutoMessageModel.findById(messageId);
+    if (!message) {
+      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    }
+    
+    // Verificar permissão através do projeto
+    const project = await MessageProjectModel.findById(message.project_id);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+    }
+    
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar esta mensagem' });
+    }
+    
+    if (action_type !== undefined && !ACTION_TYPES.includes(action_type)) {
+      return res.status(400).json({ error: `Tipo de ação inválido. Use: ${ACTION_TYPES.join(', ')}` });
+    }
+    
+    if (variant_mode !== undefined && !VARIANT_MODES.includes(variant_mode)) {
+      return res.status(400).json({ error: `Modo de variação inválido. Use: ${VARIANT_MODES.join(', ')}` });
+    }
+    
+    const stepErrors = validateResponseSteps(response_steps);
+    if (stepErrors.length > 0) {
+      return res.status(400).json({ error: 'Sequência de mensagens inválida', details: stepErrors });
+    }
+    
+    // Com sequência, o texto principal acompanha a primeira mensagem
+    const steps = response_steps !== undefined ? normalizeResponseSteps(response_steps) : undefined;
+    if (steps) {
+      response_text = steps[0].text;
+    }
+    
+    // Texto vazio só é permitido quando há anexo ou a mensagem apenas transfere
+    if (response_text === '' && !message.attachment && (action_type ?? message.action_type) !== 'handoff_only') {
+      return res.status(400).json({ error: 'Informe o texto da resposta ou adicione um anexo' });
+    }
+    
+    if (match_mode !== undefined || trigger_words) {
+      const matchError = validateMatchConfig(match_mode ?? message.match_mode, trigger_words || message.trigger_words);
+      if (matchError) {
+        return res.status(400).json({ error: matchError });
+      }
+    }
+    
+    const updatedMessage = await AutoMessageModel.update(messageId, {
       trigger_words,
+      match_mode,
       response_text,
+      response_steps: steps,
+      variant_mode,
+      action_type,
       is_active,
       order_index
     });
@@ -1110,6 +2249,7 @@ router.delete('/messages/:id', authenticate, async (req, res) => {
     }
     
     await AutoMessageModel.delete(messageId);
+    await discardAttachmentFile(message.attachment?.file_name);
     
     res.json({ success: true });
   } catch (error) {
@@ -1118,4 +2258,387 @@ router.delete('/messages/:id', authenticate, async (req, res) => {
   }
 });
 
+// ===== ANEXOS DAS MENSAGENS AUTOMÁTICAS =====
+
+// Definir anexo da mensagem (arquivo em base64 ou localização); substitui o anexo anterior
+router.put('/messages/:id/attachment', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.id);
+    const { type, data, file_name, mime_type, as_caption, latitude, longitude, location_name, address } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const message = await AutoMessageModel.findById(messageId);
+    if (!message) {
+      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    }
+    
+    const project = await MessageProjectModel.findById(message.project_id);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+    }
+    
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar esta mensagem' });
+    }
+    
+    if (!ATTACHMENT_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Tipo de anexo inválido. Use: ${ATTACHMENT_TYPES.join(', ')}` });
+    }
+    
+    let attachment: AutoMessageAttachment;
+    
+    if (type === 'location') {
+      const lat = Number(latitude);
+      const lng = Number(longitude);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return res.status(400).json({ error: 'Latitude e longitude inválidas' });
+      }
+      attachment = {
+        type,
+        latitude: lat,
+        longitude: lng,
+        location_name: location_name ? String(location_name).trim() : undefined,
+        address: address ? String(address).trim() : undefined
+      };
+    } else {
+      if (!isAllowedMimeType(type as AttachmentType, mime_type)) {
+        return res.status(400).json({ error: `Formato de arquivo não permitido para ${type}: ${mime_type || 'desconhecido'}` });
+      }
+      
+      const content = decodeBase64File(data);
+      if (!content) {
+        return res.status(400).json({ error: 'Arquivo não informado (envie o conteúdo em base64 no campo "data")' });
+      }
+      if (content.length > MAX_ATTACHMENT_SIZE) {
+        return res.status(413).json({ error: `Arquivo maior que o limite de ${Math.round(MAX_ATTACHMENT_SIZE / 1024 / 1024)} MB` });
+      }
+      
+      const storedName = await saveAttachmentFile(project.manager_id, file_name || '', content);
+      attachment = {
+        type,
+        file_name: storedName,
+        original_name: file_name || storedName,
+        mime_type: String(mime_type).toLowerCase(),
+        size: content.length,
+        as_caption: as_caption !== false && type !== 'audio'
+      };
+    }
+    
+    const updatedMessage = await AutoMessageModel.update(messageId, { attachment });
+    await discardAttachmentFile(message.attachment?.file_name);
+    
+    res.json({
+      message: updatedMessage,
+      attachment_url: attachment.file_name ? getAttachmentUrl(attachment.file_name) : null
+    });
+  } catch (error) {
+    console.error('Erro ao salvar anexo da mensagem:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Remover anexo da mensagem
+router.delete('/messages/:id/attachment', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const message = await AutoMessageModel.findById(messageId);
+    if (!message) {
+      return res.status(404).json({ error: 'Mensagem não encontrada' });
+    }
+    
+    const project = await MessageProjectModel.findById(message.project_id);
+    if (!project) {
+      return res.status(404).json({ error: 'Projeto da mensagem não encontrado' });
+    }
+    
+    if (req.user.role !== 'admin' && project.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar esta mensagem' });
+    }
+    
+    // Sem anexo, a mensagem precisa ter texto (exceto quando apenas transfere)
+    if (!message.response_text && message.action_type !== 'handoff_only') {
+      return res.status(400).json({ error: 'Adicione um texto à resposta antes de remover o anexo' });
+    }
+    
+    const updatedMessage = await AutoMessageModel.update(messageId, { attachment: null });
+    await discardAttachmentFile(message.attachment?.file_name);
+    
+    res.json({ message: updatedMessage });
+  } catch (error) {
+    console.error('Erro ao remover anexo da mensagem:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Baixar arquivo de anexo (gestor dono do arquivo, seus operadores ou admin)
+router.get('/attachments/:fileName', authenticate, async (req, res) => {
+  try {
+    const fileName = req.params.fileName;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const ownerId = getAttachmentOwner(fileName);
+    const filePath = getAttachmentPath(fileName);
+    if (ownerId === null || !filePath) {
+      return res.status(404).json({ error: 'Anexo não encontrado' });
+    }
+    
+    const managerId = req.user.role === 'operator' ? req.user.manager_id : req.user.id;
+    if (req.user.role !== 'admin' && managerId !== ownerId) {
+      return res.status(403).json({ error: 'Sem permissão para acessar este anexo' });
+    }
+    
+    res.sendFile(filePath, error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Anexo não encontrado' });
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao baixar anexo:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Baixar a mídia recebida de um contato (gestor da conversa, operadores com acesso à conversa ou admin)
+router.get('/media/:id', authenticate, async (req, res) => {
+  try {
+    const messageId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const message = isNaN(messageId) ? null : await MessageModel.findById(messageId);
+    const filePath = message ? getInboundMediaPath(message.media_file) : null;
+    if (!message || !filePath) {
+      return res.status(404).json({ error: 'Mídia não encontrada' });
+    }
+    
+    // Operador só baixa a mídia de conversas que ele pode acessar; gestor e admin seguem o gestor da mensagem
+    const chat = req.user.role === 'operator' && message.chat_id ? await HumanChatModel.findById(message.chat_id) : null;
+    const hasAccess = req.user.role === 'operator'
+      ? !!chat && canAccessChat(req.user, chat)
+      : req.user.role === 'admin' || message.manager_id === req.user.id;
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta mídia' });
+    }
+    
+    if (message.media_mime_type) {
+      res.type(message.media_mime_type);
+    }
+    if (message.media_name) {
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(message.media_name)}`);
+    }
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    
+    res.sendFile(filePath, error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Mídia não encontrada' });
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao baixar mídia recebida:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== CATÁLOGO DE DESTINOS =====
+
+// Listar destinos do gestor
+router.get('/destinations', authenticate, async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const destinations = await DestinationModel.findByManagerId(req.user.id);
+    res.json({ destinations });
+  } catch (error) {
+    console.error('Erro ao listar destinos:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Criar destino
+router.post('/destinations', authenticate, async (req, res) => {
+  try {
+    const { name, state, aliases, is_origin = false, is_active = true } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ error: 'Nome do destino é obrigatório' });
+    }
+    
+    const existing = await DestinationModel.findByName(req.user.id, String(name).trim());
+    if (existing) {
+      return res.status(409).json({ error: 'Já existe um destino com este nome' });
+    }
+    
+    const destination = await DestinationModel.create({
+      manager_id: req.user.id,
+      name: String(name).trim(),
+      state: state ? String(state).trim().toUpperCase() : null,
+      aliases: parseStringList(aliases) || [],
+      is_origin,
+      is_active
+    });
+    
+    res.json({ destination });
+  } catch (error) {
+    console.error('Erro ao criar destino:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Atualizar destino
+router.put('/destinations/:id', authenticate, async (req, res) => {
+  try {
+    const destinationId = parseInt(req.params.id);
+    const { name, state, aliases, is_origin, is_active } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const destination = await DestinationModel.findById(destinationId);
+    if (!destination) {
+      return res.status(404).json({ error: 'Destino não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && destination.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para editar este destino' });
+    }
+    
+    if (name !== undefined && String(name).trim() !== destination.name) {
+      if (!String(name).trim()) {
+        return res.status(400).json({ error: 'Nome do destino é obrigatório' });
+      }
+      const existing = await DestinationModel.findByName(destination.manager_id, String(name).trim());
+      if (existing) {
+        return res.status(409).json({ error: 'Já existe um destino com este nome' });
+      }
+    }
+    
+    const updatedDestination = await DestinationModel.update(destinationId, {
+      name: name !== undefined ? String(name).trim() : undefined,
+      state: state !== undefined ? (state ? String(state).trim().toUpperCase() : null) : undefined,
+      aliases: parseStringList(aliases),
+      is_origin,
+      is_active
+    });
+    
+    res.json({ destination: updatedDestination });
+  } catch (error) {
+    console.error('Erro ao atualizar destino:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Deletar destino
+router.delete('/destinations/:id', authenticate, async (req, res) => {
+  try {
+    const destinationId = parseInt(req.params.id);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const destination = await DestinationModel.findById(destinationId);
+    if (!destination) {
+      return res.status(404).json({ error: 'Destino não encontrado' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && destination.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para deletar este destino' });
+    }
+    
+    await DestinationModel.delete(destinationId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao deletar destino:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// ===== HORÁRIO DE ATENDIMENTO =====
+
+// Buscar horário de atendimento do gestor (com situação atual calculada)
+router.get('/business-hours', authenticate, async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const config = await BusinessHoursModel.findByManagerId(req.user.id);
+    const businessHours = resolveBusinessHours(config);
+
+    res.json({
+      business_hours: businessHours,
+      configured: !!config,
+      status: {
+        is_open: isWithinBusinessHours(businessHours),
+        schedule_text: formatWeeklySchedule(businessHours.weekly_schedule),
+        next_opening: describeNextOpening(businessHours)
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao buscar horário de atendimento:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Salvar horário de atendimento do gestor
+router.put('/business-hours', authenticate, async (req, res) => {
+  try {
+    const { timezone, weekly_schedule, holidays, off_hours_mode, off_hours_message, is_enabled } = req.body;
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const errors = validateBusinessHours(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Horário de atendimento inválido', details: errors });
+    }
+    
+    const config = await BusinessHoursModel.save(req.user.id, {
+      timezone,
+      weekly_schedule,
+      holidays,
+      off_hours_mode,
+      off_hours_message,
+      is_enabled
+    });
+    const businessHours = resolveBusinessHours(config);
+    
+    res.json({
+      business_hours: businessHours,
+      configured: true,
+      status: {
+        is_open: isWithinBusinessHours(businessHours),
+        schedule_text: formatWeeklySchedule(businessHours.weekly_schedule),
+        next_opening: describeNextOpening(businessHours)
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao salvar horário de atendimento:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 export default router;
\ No newline at end of file
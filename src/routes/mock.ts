@@ -0,0 +1,207 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import { WhatsAppInstanceModel } from '../models/WhatsAppInstance';
+import { getMockTransport, mockPhoneNumber, validateMockInbound } from '../transports/mock';
+
+// WhatsApp simulado (MESSAGING_TRANSPORT=mock): simular contatos e conferir o que o sistema enviou.
+// Só é registrado quando o transporte simulado está ativo
+const router = express.Router();
+
+// Gestor da instância, seus operadores e administradores podem usar a simulação
+const canUseInstance = (user: NonNullable<express.Request['user']>, managerId: number): boolean =>
+  user.role === 'admin' || (user.role === 'operator' ? user.manager_id === managerId : user.id === managerId);
+
+// Situação da instância simulada
+router.get('/instances/:instanceId', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    const transport = getMockTransport(instanceId);
+    res.json({
+      instanceId,
+      connected: !!transport?.getOwnId(),
+      phone_number: mockPhoneNumber(instanceId),
+      sent_count: transport ? transport.getSentMessages().length : 0
+    });
+  } catch (error) {
+    console.error('Erro ao buscar instância simulada:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Simular uma mensagem de um contato (ou participante de grupo) para a instância
+router.post('/instances/:instanceId/messages', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    const errors = validateMockInbound(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Mensagem simulada inválida', details: errors });
+    }
+
+    const transport = getMockTransport(instanceId);
+    if (!transport?.getOwnId()) {
+      return res.status(409).json({ error: 'Instância simulada não está conectada - inicie a instância primeiro' });
+    }
+
+    const message = transport.receive(req.body);
+    res.status(201).json({
+      message: { id: message.id, from: message.from, author: message.author, body: message.body, type: message.type }
+    });
+  } catch (error) {
+    console.error('Erro ao simular mensagem recebida:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Mensagens enviadas pelo sistema aos contatos simulados (?to=5563999999999@c.us filtra uma conversa)
+router.get('/instances/:instanceId/sent', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    const transport = getMockTransport(instanceId);
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+    res.json({ messages: transport ? transport.getSentMessages(to) : [] });
+  } catch (error) {
+    console.error('Erro ao listar mensagens simuladas:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Limpar as mensagens enviadas guardadas (início de um teste)
+router.delete('/instances/:instanceId/sent', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    getMockTransport(instanceId)?.clearSentMessages();
+    res.json({ message: 'Mensagens simuladas removidas' });
+  } catch (error) {
+    console.error('Erro ao limpar mensagens simuladas:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Simular a confirmação de entrega ou leitura de uma mensagem enviada
+router.post('/instances/:instanceId/receipts', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+    const { messageId, status } = req.body;
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    if (typeof messageId !== 'string' || !['delivered', 'read'].includes(status)) {
+      return res.status(400).json({ error: 'Informe "messageId" e "status" ("delivered" ou "read")' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    const sent = getMockTransport(instanceId)?.confirm(messageId, status);
+    if (!sent) {
+      return res.status(404).json({ error: 'Mensagem enviada não encontrada' });
+    }
+
+    res.json({ message: sent });
+  } catch (error) {
+    console.error('Erro ao simular confirmação:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Fazer os próximos envios falharem (testar as novas tentativas da fila de envio)
+router.post('/instances/:instanceId/fail-sends', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+    const { count } = req.body;
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+
+    if (!Number.isInteger(count) || count < 0) {
+      return res.status(400).json({ error: '"count" deve ser um número inteiro maior ou igual a 0' });
+    }
+
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+
+    if (!canUseInstance(req.user, instance.manager_id)) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+
+    const transport = getMockTransport(instanceId);
+    if (!transport) {
+      return res.status(409).json({ error: 'Instância simulada não está conectada - inicie a instância primeiro' });
+    }
+
+    transport.failNextSends(count);
+    res.json({ message: `Próximos ${count} envio(s) vão falhar` });
+  } catch (error) {
+    console.error('Erro ao configurar falhas simuladas:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+export default router;
@@ -26,11 +26,40 @@ interface Operator {
     resolved_chats: number
     avg_response_time?: number
     efficiency: number
+    messages_sent?: number
+    messages_delivered?: number
+    messages_read?: number
+    read_rate?: number
   }
   formatted_created_at?: string
   formatted_last_login?: string
 }
 
+// Mensagens enviadas por operador com confirmação do WhatsApp (entregue/lida); mensagens anteriores
+// às confirmações não têm whatsapp_message_id e ficam de fora da conta
+const OPERATOR_MESSAGE_STATS_JOIN = `
+      LEFT JOIN (
+        SELECT 
+          sender_id,
+          COUNT(*) as messages_sent,
+          SUM(CASE WHEN delivered_at IS NOT NULL THEN 1 ELSE 0 END) as messages_delivered,
+          SUM(CASE WHEN read_at IS NOT NULL THEN 1 ELSE 0 END) as messages_read
+        FROM messages
+        WHERE sender_type = 'operator' AND whatsapp_message_id IS NOT NULL
+        GROUP BY sender_id
+      ) message_stats ON u.id = message_stats.sender_id`
+
+const messageReceiptStats = (row: any) => {
+  const sent = Number(row.messages_sent || 0)
+  const read = Number(row.messages_read || 0)
+  return {
+    messages_sent: sent,
+    messages_delivered: Number(row.messages_delivered || 0),
+    messages_read: read,
+    read_rate: sent > 0 ? Math.round((read / sent) * 100) : 0
+  }
+}
+
 // Middleware para verificar se é manager
 const requireManager = (req: any, res: any, next: any) => {
   if (req.user.role !== 'manager' && req.user.role !== 'admin') {
@@ -77,6 +106,9 @@ router.get('/', authenticate, requireManager, async (req: any, res) => {
         COALESCE(chat_stats.total_chats, 0) as total_chats,
         COALESCE(chat_stats.active_chats, 0) as active_chats,
         COALESCE(chat_stats.resolved_chats, 0) as resolved_chats,
+        message_stats.messages_sent,
+        message_stats.messages_delivered,
+        message_stats.messages_read,
         CASE 
           WHEN u.last_login IS NULL THEN 'Nunca logou'
           WHEN u.last_login > DATE_SUB(NOW(), INTERVAL 5 MINUTE) THEN 'Online'
@@ -95,7 +127,7 @@ router.get('/', authenticate, requireManager, async (req: any, res) => {
         FROM human_chats 
         WHERE operator_id IS NOT NULL 
         GROUP BY operator_id
-      ) chat_stats ON u.id = chat_stats.operator_id
+      ) chat_stats ON u.id = chat_stats.operator_id${OPERATOR_MESSAGE_STATS_JOIN}
       WHERE u.role = 'operator' AND u.manager_id = ? 
       ORDER BY u.is_active DESC, u.created_at DESC`,
       [managerId]
@@ -118,7 +150,8 @@ router.get('/', authenticate, requireManager, async (req: any, res) => {
         total_chats: row.total_chats,
         active_chats: row.active_chats,
         resolved_chats: row.resolved_chats,
-        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0
+        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0,
+        ...messageReceiptStats(row)
       },
       formatted_created_at: new Date(row.created_at).toLocaleDateString('pt-BR', {
         day: '2-digit',
@@ -180,6 +213,9 @@ router.get('/:id', authenticate, requireManager, async (req: any, res) => {
         COALESCE(chat_stats.total_chats, 0) as total_chats,
         COALESCE(chat_stats.active_chats, 0) as active_chats,
         COALESCE(chat_stats.resolved_chats, 0) as resolved_chats,
+        message_stats.messages_sent,
+        message_stats.messages_delivered,
+        message_stats.messages_read,
         COALESCE(chat_stats.avg_response_time, 0) as avg_response_time,
         CASE 
           WHEN u.last_login IS NULL THEN 'Nunca logou'
@@ -200,7 +236,7 @@ router.get('/:id', authenticate, requireManager, async (req: any, res) => {
         FROM human_chats 
         WHERE operator_id = ?
         GROUP BY operator_id
-      ) chat_stats ON u.id = chat_stats.operator_id
+      ) chat_stats ON u.id = chat_stats.operator_id${OPERATOR_MESSAGE_STATS_JOIN}
       WHERE u.id = ? AND u.role = 'operator' AND u.manager_id = ?`,
       [operatorId, operatorId, managerId]
     )
@@ -228,7 +264,8 @@ router.get('/:id', authenticate, requireManager, async (req: any, res) => {
         active_chats: row.active_chats,
         resolved_chats: row.resolved_chats,
         avg_response_time: Math.round(row.avg_response_time || 0),
-        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0
+        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0,
+        ...messageReceiptStats(row)
       },
       formatted_created_at: new Date(row.created_at).toLocaleDateString('pt-BR', {
         day: '2-digit',
@@ -448,6 +485,9 @@ router.put('/:id', authenticate, requireManager, async (req: any, res) => {
         COALESCE(chat_stats.total_chats, 0) as total_chats,
         COALESCE(chat_stats.active_chats, 0) as active_chats,
         COALESCE(chat_stats.resolved_chats, 0) as resolved_chats,
+        message_stats.messages_sent,
+        message_stats.messages_delivered,
+        message_stats.messages_read,
         COALESCE(chat_stats.avg_response_time, 0) as avg_response_time,
         CASE 
           WHEN u.last_login IS NULL THEN 'Nunca logou'
@@ -468,7 +508,7 @@ router.put('/:id', authenticate, requireManager, async (req: any, res) => {
         FROM human_chats 
         WHERE operator_id = ?
         GROUP BY operator_id
-      ) chat_stats ON u.id = chat_stats.operator_id
+      ) chat_stats ON u.id = chat_stats.operator_id${OPERATOR_MESSAGE_STATS_JOIN}
       WHERE u.id = ?`,
       [operatorId, operatorId]
     )
@@ -492,7 +532,8 @@ router.put('/:id', authenticate, requireManager, async (req: any, res) => {
         active_chats: row.active_chats,
         resolved_chats: row.resolved_chats,
         avg_response_time: Math.round(row.avg_response_time || 0),
-        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0
+        efficiency: row.total_chats > 0 ? Math.round((row.resolved_chats / row.total_chats) * 100) : 0,
+        ...messageReceiptStats(row)
       },
       formatted_created_at: new Date(row.created_at).toLocaleDateString('pt-BR', {
         day: '2-digit',
@@ -668,9 +709,12 @@ router.get('/stats/overview', authenticate, requireManager, async (req: any, res
         u.id, u.name,
         COUNT(hc.id) as total_chats,
         SUM(CASE WHEN hc.status IN ('pending', 'active') THEN 1 ELSE 0 END) as active_chats,
-        SUM(CASE WHEN hc.status = 'finished' THEN 1 ELSE 0 END) as finished_chats
+        SUM(CASE WHEN hc.status = 'finished' THEN 1 ELSE 0 END) as finished_chats,
+        MAX(message_stats.messages_sent) as messages_sent,
+        MAX(message_stats.messages_delivered) as messages_delivered,
+        MAX(message_stats.messages_read) as messages_read
       FROM users u
-      LEFT JOIN human_chats hc ON u.id = hc.operator_id
+      LEFT JOIN human_chats hc ON u.id = hc.operator_id${OPERATOR_MESSAGE_STATS_JOIN}
       WHERE u.role = 'operator' AND u.manager_id = ?
       GROUP BY u.id, u.name
       ORDER BY total_chats DESC`,
@@ -687,7 +731,14 @@ router.get('/stats/overview', authenticate, requireManager, async (req: any, res
         total_operators: stats.total,
         active_operators: stats.active,
         inactive_operators: stats.inactive,
-        operator_performance: chatStats
+        operator_performance: chatStats.map((row: any) => ({
+          id: row.id,
+          name: row.name,
+          total_chats: row.total_chats,
+          active_chats: Number(row.active_chats || 0),
+          finished_chats: Number(row.finished_chats || 0),
+          ...messageReceiptStats(row)
+        }))
       }
     })
 
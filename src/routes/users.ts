@@ -1,5 +1,6 @@
 import express from 'express';
 import { UserModel } from '../models/User';
+import { DestinationModel } from '../models/Destination';
 import { 
   authenticate, 
   requireAdmin, 
@@ -132,12 +133,18 @@ router.put('/:userId', authenticate, requireUserManagement, async (req, res) =>
       updateData.role = role;
     }
     
+    const previousUser = await UserModel.findById(userId);
     const updatedUser = await UserModel.update(userId, updateData);
     
     if (!updatedUser) {
       return res.status(404).json({ error: 'Usuário não encontrado' });
     }
     
+    // Usuário promovido a gestor começa com o catálogo inicial de destinos
+    if (updatedUser.role === 'manager' && previousUser?.role !== 'manager') {
+      await DestinationModel.seedDefaults(updatedUser.id);
+    }
+    
     res.json({
       message: 'Usuário atualizado com sucesso',
       user: updatedUser
@@ -1,11 +1,47 @@
 import express from 'express';
-import { WhatsAppInstanceModel } from '../models/WhatsAppInstance';
+import { WhatsAppInstanceModel, UpdateInstanceSettingsData } from '../models/WhatsAppInstance';
+import { MessageProjectModel } from '../models/MessageProject';
+import { MAX_GROUP_PREFIX_LENGTH } from '../services/whatsappChat';
 import { authenticate, requireManager, requireManagerAccess, logAction } from '../middleware/auth';
 import pool from '../config/database';
 import { RowDataPacket } from 'mysql2';
 
 const router = express.Router();
 
+// Números (instâncias) que um gestor pode ter; administradores não têm limite
+const MAX_INSTANCES_PER_MANAGER = parseInt(process.env.MAX_INSTANCES_PER_MANAGER || '3') || 3;
+
+// Validar nome, projeto, modo de atendimento e grupos enviados para a instância (retorna lista de erros)
+async function validateInstanceSettings(body: any, managerId: number): Promise<string[]> {
+  const errors: string[] = [];
+
+  if (body.instance_name !== undefined && (typeof body.instance_name !== 'string' || body.instance_name.trim().length < 3)) {
+    errors.push('Nome da instância deve ter pelo menos 3 caracteres');
+  }
+
+  if (body.routing_mode !== undefined && !['bot', 'human'].includes(body.routing_mode)) {
+    errors.push('"routing_mode" deve ser "bot" ou "human"');
+  }
+
+  if (body.groups_enabled !== undefined && typeof body.groups_enabled !== 'boolean') {
+    errors.push('"groups_enabled" deve ser true ou false');
+  }
+
+  if (body.group_prefix !== undefined && body.group_prefix !== null &&
+      (typeof body.group_prefix !== 'string' || body.group_prefix.trim().length > MAX_GROUP_PREFIX_LENGTH)) {
+    errors.push(`Prefixo de grupo deve ter no máximo ${MAX_GROUP_PREFIX_LENGTH} caracteres`);
+  }
+
+  if (body.project_id !== undefined && body.project_id !== null) {
+    const project = Number.isInteger(body.project_id) ? await MessageProjectModel.findById(body.project_id) : null;
+    if (!project || project.manager_id !== managerId) {
+      errors.push('Projeto não encontrado para este gestor');
+    }
+  }
+
+  return errors;
+}
+
 // Listar instâncias do gestor
 router.get('/instances', authenticate, requireManager, async (req, res) => {
   try {
@@ -23,20 +59,26 @@ router.get('/instances', authenticate, requireManager, async (req, res) => {
       instances = await WhatsAppInstanceModel.findByManagerId(req.user.id);
     }
     
+    // Movimento de cada número
+    const instancesWithStats = await Promise.all(instances.map(async (instance) => ({
+      ...instance,
+      message_stats: await WhatsAppInstanceModel.getMessageStats(instance.id)
+    })));
+    
     // Contar instâncias ativas e totais
     const activeCount = await WhatsAppInstanceModel.countActiveInstances(req.user.id);
     const totalCount = await WhatsAppInstanceModel.countByManager(req.user.id);
     
     // Determinar limite baseado no role
-    const instanceLimit = req.user.role === 'admin' ? null : 1; // null = ilimitado
+    const instanceLimit = req.user.role === 'admin' ? null : MAX_INSTANCES_PER_MANAGER; // null = ilimitado
     
     res.json({ 
-      instances,
+      instances: instancesWithStats,
       stats: {
         activeCount,
         totalCount,
         limit: instanceLimit,
-        canCreateMore: req.user.role === 'admin' || activeCount < 1
+        canCreateMore: req.user.role === 'admin' || totalCount < MAX_INSTANCES_PER_MANAGER
       }
     });
   } catch (error) {
@@ -48,7 +90,7 @@ router.get('/instances', authenticate, requireManager, async (req, res) => {
 // Criar nova instância
 router.post('/instances', authenticate, requireManager, logAction('create_whatsapp_instance'), async (req, res) => {
   try {
-    const { instance_name, webhook_url } = req.body;
+    const { instance_name, webhook_url, project_id, routing_mode } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ error: 'Usuário não autenticado' });
@@ -58,13 +100,18 @@ router.post('/instances', authenticate, requireManager, logAction('create_whatsa
       return res.status(400).json({ error: 'Nome da instância deve ter pelo menos 3 caracteres' });
     }
     
+    const errors = await validateInstanceSettings({ project_id, routing_mode }, req.user.id);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Configuração inválida', details: errors });
+    }
+    
     // Verificar limitação de instâncias baseada no role do usuário
     if (req.user.role !== 'admin') {
-      // Usuários não-admin (managers) podem ter apenas 1 instância ativa
-      const hasActive = await WhatsAppInstanceModel.hasActiveInstance(req.user.id);
-      if (hasActive) {
+      // Gestores podem ter até MAX_INSTANCES_PER_MANAGER números
+      const totalCount = await WhatsAppInstanceModel.countByManager(req.user.id);
+      if (totalCount >= MAX_INSTANCES_PER_MANAGER) {
         return res.status(400).json({ 
-          error: 'Você já possui uma instância ativa. Desconecte-a primeiro ou contate o administrador para ter mais instâncias.' 
+          error: `Você já possui ${totalCount} número(s) de WhatsApp (limite: ${MAX_INSTANCES_PER_MANAGER}). Remova um número ou contate o administrador para ter mais instâncias.` 
         });
       }
     }
@@ -73,7 +120,9 @@ router.post('/instances', authenticate, requireManager, logAction('create_whatsa
     const instance = await WhatsAppInstanceModel.create({
       manager_id: req.user.id,
       instance_name: instance_name.trim(),
-      webhook_url: webhook_url || null
+      webhook_url: webhook_url || null,
+      project_id: project_id ?? null,
+      routing_mode
     });
     
     res.status(201).json({
@@ -112,6 +161,77 @@ router.get('/instances/:instanceId', authenticate, async (req, res) => {
   }
 });
 
+// Atualizar nome, projeto vinculado e modo de atendimento da instância
+router.put('/instances/:instanceId/settings', authenticate, requireManager, logAction('update_whatsapp_instance'), async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance || !instance.is_active) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && instance.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para atualizar esta instância' });
+    }
+    
+    const errors = await validateInstanceSettings(req.body, instance.manager_id);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Configuração inválida', details: errors });
+    }
+    
+    const { instance_name, project_id, routing_mode, groups_enabled, group_prefix } = req.body;
+    const settings: UpdateInstanceSettingsData = { project_id, routing_mode, groups_enabled };
+    if (instance_name !== undefined) {
+      settings.instance_name = instance_name.trim();
+    }
+    if (group_prefix !== undefined) {
+      settings.group_prefix = group_prefix && group_prefix.trim() ? group_prefix.trim() : null;
+    }
+    
+    const updatedInstance = await WhatsAppInstanceModel.updateSettings(instanceId, settings);
+    res.json({ 
+      message: 'Instância atualizada com sucesso',
+      instance: updatedInstance 
+    });
+  } catch (error) {
+    console.error('Erro ao atualizar instância:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Movimento da instância (mensagens de hoje, contatos e conversas em aberto)
+router.get('/instances/:instanceId/stats', authenticate, async (req, res) => {
+  try {
+    const instanceId = parseInt(req.params.instanceId);
+    
+    if (!req.user) {
+      return res.status(401).json({ error: 'Usuário não autenticado' });
+    }
+    
+    const instance = await WhatsAppInstanceModel.findById(instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: 'Instância não encontrada' });
+    }
+    
+    // Verificar permissão
+    if (req.user.role !== 'admin' && instance.manager_id !== req.user.id) {
+      return res.status(403).json({ error: 'Sem permissão para acessar esta instância' });
+    }
+    
+    const stats = await WhatsAppInstanceModel.getMessageStats(instanceId);
+    res.json({ instance_id: instanceId, stats });
+  } catch (error) {
+    console.error('Erro ao buscar estatísticas da instância:', error);
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 // Atualizar status da instância (usado pelo sistema interno)
 router.patch('/instances/:instanceId/status', authenticate, async (req, res) => {
   try {
@@ -5,7 +5,6 @@ import cors from 'cors';
 import path from 'path';
 import dotenv from 'dotenv';
 import QRCode from 'qrcode';
-import { Client } from 'whatsapp-web.js';
 
 // Carregar variáveis de ambiente
 dotenv.config();
@@ -15,9 +14,32 @@ import { createDatabaseIfNotExists, connectDatabase, executeQuery } from './conf
 import { runMigrations } from './migrations/migrations';
 import { UserModel } from './models/User';
 import { WhatsAppInstanceModel } from './models/WhatsAppInstance';
-import { MessageProjectModel, AutoMessageModel } from './models/MessageProject';
-import { ContactModel, MessageModel, HumanChatModel } from './models/Message';
+import { MessageProjectModel, AutoMessageModel, MessageProject, AutoMessage, AutoMessageAttachment, ActionType } from './models/MessageProject';
+import { ProjectVersionModel } from './models/ProjectVersion';
+import { BotDecisionTraceModel, CreateDecisionTraceData, DECISION_TRACE_RETENTION_DAYS } from './models/BotDecisionTrace';
+import { UnmatchedMessageModel } from './models/UnmatchedMessage';
+import { IntentClassifierModel } from './models/IntentClassifier';
+import { ContactModel, MessageModel, HumanChatModel, ConversationStateModel, Contact, Message } from './models/Message';
+import { OutboundMessageModel, OutboundMessage } from './models/OutboundMessage';
 import { UserSessionModel } from './models/UserSession';
+import { DestinationModel } from './models/Destination';
+import { BusinessHoursModel } from './models/BusinessHours';
+import { resolveBusinessHours, isWithinBusinessHours } from './services/businessHours';
+import { renderTemplate, templateUses, TemplateContext } from './services/templateRenderer';
+import { findDestination, formatDestinationName } from './services/destinationMatcher';
+import { readAttachmentBase64, getAttachmentUrl } from './services/attachmentStorage';
+import { getResponseSteps, hasVariants, planResponse, PlannedMessage, DEFAULT_TYPING_MS } from './services/responseSequence';
+import { decideBotResponse, BotDecision, DEFAULT_HANDOFF_MESSAGE } from './services/botEngine';
+import { applySnapshot } from './services/projectVersions';
+import { selectProject } from './services/projectSchedule';
+import { normalizeForMatching } from './services/triggerMatcher';
+import { InboundMessageType, StoredInboundMedia, deleteInboundMedia, getInboundMediaUrl, saveInboundMedia, toInboundMessageType } from './services/inboundMedia';
+import { BURST_WINDOW_MS, FLOOD_MAX_MESSAGES, FLOOD_WINDOW_MS, dedupeBurstTexts, registerInbound } from './services/inboundThrottle';
+import { extractGroupCommand, formatChatId, parseChatId } from './services/whatsappChat';
+import { OUTBOUND_MAX_WAIT_HOURS, OUTBOUND_MIN_INTERVAL_MS, OUTBOUND_POLL_MS, isFinalAttempt, retryDelayMs } from './services/outboundQueue';
+import { createTransport, InboundMessage, MessagingTransport, SentMessage, MESSAGING_TRANSPORT } from './transports';
+import { MockSentMessage, MockTransport, getMockTransport, validateMockInbound } from './transports/mock';
+import { OPT_IN_CONFIRMATION, OPT_OUT_CONFIRMATION, getContactRestriction, isOptInMessage, isOptOutMessage } from './services/optOut';
 
 // Importar rotas
 import authRoutes from './routes/auth';
@@ -27,6 +49,7 @@ import messageRoutes from './routes/messages';
 import deviceRoutes from './routes/devices';
 import operatorRoutes from './routes/operators';
 import managerRoutes from './routes/managers';
+import mockRoutes from './routes/mock';
 
 const app = express();
 const server = http.createServer(app);
@@ -39,11 +62,13 @@ const io = new Server(server, {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Limite maior para anexos enviados em base64 (ver /api/messages/messages/:id/attachment)
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '25mb' }));
 
-// Middleware para disponibilizar Socket.IO nas rotas
+// Middleware para disponibilizar Socket.IO e a fila de envio nas rotas
 app.use((req: any, res, next) => {
     req.io = io;
+    req.processOutboundQueue = processOutboundQueue;
     next();
 });
 
@@ -54,6 +79,7 @@ app.use(express.static(path.join(__dirname, '../client/dist')));
 interface ConnectionStatus {
     connected: boolean;
     message: string;
+    instanceId?: number;
 }
 
 interface MessageEvent {
@@ -62,14 +88,45 @@ interface MessageEvent {
     timestamp: Date;
 }
 
-// Gerenciamento de instâncias WhatsApp por gestor
+// Gerenciamento de instâncias WhatsApp (chave = ID da instância; um gestor pode ter vários números)
 const whatsappInstances = new Map<number, {
-    client: Client;
+    transport: MessagingTransport;
+    managerId: number;
+    instanceId: number;
     isReady: boolean;
     messageCount: number;
     startTime: Date;
 }>();
 
+// Mensagens do WhatsApp em processamento (o mesmo evento entregue duas vezes é processado uma só vez)
+const inboundInProgress = new Set<string>();
+
+// Proteção contra flood por contato (chave = instância:contato): horários recentes e rajada aguardando resposta
+const inboundHistory = new Map<string, number[]>();
+const inboundBursts = new Map<string, { texts: string[]; latest: number }>();
+
+// Fila de envio: um processamento por vez (novos pedidos durante o processamento fazem outra rodada)
+// e horário do último envio de cada instância (ritmo por número)
+let outboundQueueRunning = false;
+let outboundQueueKicked = false;
+const outboundLastSent = new Map<number, number>();
+
+// Instância conectada para enviar mensagens ao contato: a da conversa (instanceId) ou,
+// para conversas anteriores aos vários números, qualquer instância conectada do gestor
+function getWhatsAppInstance(managerId: number, instanceId?: number | null) {
+    if (instanceId) {
+        const instance = whatsappInstances.get(instanceId);
+        return instance?.isReady && instance.managerId === managerId ? instance : undefined;
+    }
+
+    for (const instance of whatsappInstances.values()) {
+        if (instance.managerId === managerId && instance.isReady) {
+            return instance;
+        }
+    }
+    return undefined;
+}
+
 // ===== INICIALIZAÇÃO DO SISTEMA =====
 
 async function initializeSystem() {
@@ -88,9 +145,65 @@ async function initializeSystem() {
         // 4. Criar usuário admin padrão se não existir
         await UserModel.createDefaultAdmin();
         
-        // 5. Auto-inicializar instâncias WhatsApp conectadas
+        // 5. Envios interrompidos pelo reinício voltam para a fila
+        const interrupted = await OutboundMessageModel.resetInterrupted();
+        if (interrupted > 0) {
+            console.log(`📤 ${interrupted} mensagem(ns) com envio interrompido de volta à fila`);
+        }
+        
+        // 6. Auto-inicializar instâncias WhatsApp conectadas
         await autoInitializeWhatsAppInstances();
         
+        // 7. Verificar a fila de envio (novas tentativas e números que reconectaram)
+        setInterval(() => processOutboundQueue(), OUTBOUND_POLL_MS);
+        
+        // 8. Limpar periodicamente estados de conversa expirados
+        setInterval(async () => {
+            try {
+                const removed = await ConversationStateModel.deleteExpired();
+                if (removed > 0) {
+                    console.log(`🧹 ${removed} estado(s) de conversa expirado(s) removido(s)`);
+                }
+            } catch (error) {
+                console.error('❌ Erro ao limpar estados de conversa expirados:', error);
+            }
+
+            try {
+                const removed = await BotDecisionTraceModel.deleteOlderThan(DECISION_TRACE_RETENTION_DAYS);
+                if (removed > 0) {
+                    console.log(`🧹 ${removed} rastreamento(s) de decisão do bot removido(s)`);
+                }
+            } catch (error) {
+                console.error('❌ Erro ao limpar rastreamentos de decisão antigos:', error);
+            }
+
+            // Mensagens esperando há tempo demais na fila viram falha (avisando os atendentes)
+            try {
+                const expired = await OutboundMessageModel.failExpired(OUTBOUND_MAX_WAIT_HOURS);
+                for (const item of expired) {
+                    io.to(`manager_${item.manager_id}`).emit('message_status', {
+                        messageId: item.message_id,
+                        chatId: item.chat_id,
+                        status: 'failed',
+                        error: item.last_error || 'Número do WhatsApp desconectado por muito tempo'
+                    });
+                }
+                if (expired.length > 0) {
+                    console.log(`⌛ ${expired.length} mensagem(ns) da fila de envio expirada(s)`);
+                }
+            } catch (error) {
+                console.error('❌ Erro ao expirar mensagens da fila de envio:', error);
+            }
+
+            // Contatos sem mensagens na janela de flood
+            const now = Date.now();
+            for (const [key, history] of inboundHistory) {
+                if (history.every(timestamp => now - timestamp >= FLOOD_WINDOW_MS)) {
+                    inboundHistory.delete(key);
+                }
+            }
+        }, 10 * 60 * 1000);
+        
         console.log('✅ Sistema inicializado com sucesso!');
     } catch (error) {
         console.error('❌ Erro ao inicializar sistema:', error);
@@ -143,37 +256,35 @@ async function autoInitializeWhatsAppInstances() {
 // Função para inicializar cliente WhatsApp para um gestor específico
 async function initializeWhatsAppClient(managerId: number, instanceId: number): Promise<void> {
     try {
-        // Verificar se já existe instância ativa
-        if (whatsappInstances.has(managerId)) {
-            const existing = whatsappInstances.get(managerId);
-            if (existing?.client) {
-                existing.client.destroy();
+        // Reiniciar o cliente se esta instância já estiver rodando (outras instâncias do gestor continuam)
+        if (whatsappInstances.has(instanceId)) {
+            const existing = whatsappInstances.get(instanceId);
+            if (existing?.transport) {
+                existing.transport.disconnect().catch(error => console.error(`⚠️ Erro ao encerrar instância ${instanceId}:`, error));
             }
         }
 
-        const client = new Client({
-            puppeteer: {
-                headless: true,
-                args: ['--no-sandbox', '--disable-setuid-sandbox']
-            }
-        });
+        // WhatsApp Web (whatsapp-web.js) ou WhatsApp simulado (MESSAGING_TRANSPORT=mock)
+        const transport = createTransport(instanceId);
 
         // Criar registro da instância
         const instanceData = {
-            client,
+            transport,
+            managerId,
+            instanceId,
             isReady: false,
             messageCount: 0,
             startTime: new Date()
         };
 
-        whatsappInstances.set(managerId, instanceData);
+        whatsappInstances.set(instanceId, instanceData);
 
         // Atualizar status no banco
         await WhatsAppInstanceModel.updateStatus(instanceId, 'connecting');
 
         // Evento para gerar QR Code
-        client.on('qr', async (qr: string) => {
-            console.log(`🔄 QR Code gerado para gestor ${managerId}`);
+        transport.on('qr', async (qr: string) => {
+            console.log(`🔄 QR Code gerado para gestor ${managerId} (instância ${instanceId})`);
             try {
                 const qrCodeData = await QRCode.toDataURL(qr);
                 
@@ -183,10 +294,11 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                 });
                 
                 // Emitir para o gestor específico
-                io.to(`manager_${managerId}`).emit('qr', qrCodeData);
+                io.to(`manager_${managerId}`).emit('qr', qrCodeData, instanceId);
                 io.to(`manager_${managerId}`).emit('status', { 
                     connected: false, 
-                    message: 'QR Code gerado - Escaneie com seu WhatsApp' 
+                    message: 'QR Code gerado - Escaneie com seu WhatsApp',
+                    instanceId
                 } as ConnectionStatus);
             } catch (error) {
                 console.error('❌ Erro ao gerar QR Code:', error);
@@ -194,16 +306,12 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
         });
 
         // Evento quando o cliente está pronto
-        client.on('ready', async () => {
-            console.log(`✅ WhatsApp conectado para gestor ${managerId}!`);
+        transport.on('ready', async (phoneNumber: string) => {
+            console.log(`✅ WhatsApp conectado para gestor ${managerId} (instância ${instanceId})${transport.kind === 'mock' ? ' [simulado]' : ''}!`);
             
             instanceData.isReady = true;
             instanceData.startTime = new Date();
             
-            // Obter informações do telefone
-            const info = client.info;
-            const phoneNumber = info.wid.user;
-            
             // Atualizar no banco
             await WhatsAppInstanceModel.updateStatus(instanceId, 'connected', {
                 phone_number: phoneNumber,
@@ -215,14 +323,18 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
             console.log(`📤 Emitindo status 'conectado' para sala manager_${managerId}`);
             io.to(`manager_${managerId}`).emit('status', { 
                 connected: true, 
-                message: 'WhatsApp conectado com sucesso!' 
+                message: 'WhatsApp conectado com sucesso!',
+                instanceId
             } as ConnectionStatus);
-            io.to(`manager_${managerId}`).emit('qr', null);
+            io.to(`manager_${managerId}`).emit('qr', null, instanceId);
             console.log(`📤 Eventos emitidos para gestor ${managerId}`);
+
+            // Enviar o que ficou na fila enquanto o número estava desconectado
+            processOutboundQueue();
         });
 
         // Evento quando o cliente é desconectado
-        client.on('disconnected', async (reason: string) => {
+        transport.on('disconnected', async (reason: string) => {
             console.log(`❌ WhatsApp desconectado para gestor ${managerId}:`, reason);
             
             instanceData.isReady = false;
@@ -233,12 +345,13 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
             // Emitir para o gestor específico
             io.to(`manager_${managerId}`).emit('status', { 
                 connected: false, 
-                message: `WhatsApp desconectado: ${reason}` 
+                message: `WhatsApp desconectado: ${reason}`,
+                instanceId
             } as ConnectionStatus);
         });
 
         // Evento de erro de autenticação
-        client.on('auth_failure', async (msg: string) => {
+        transport.on('auth_failure', async (msg: string) => {
             console.error(`❌ Falha na autenticação para gestor ${managerId}:`, msg);
             
             // Atualizar no banco
@@ -247,50 +360,125 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
             // Emitir para o gestor específico
             io.to(`manager_${managerId}`).emit('status', { 
                 connected: false, 
-                message: 'Falha na autenticação - Tente novamente' 
+                message: 'Falha na autenticação - Tente novamente',
+                instanceId
             } as ConnectionStatus);
         });
 
+        // Confirmações do WhatsApp das mensagens enviadas (bot e atendentes): entregue e lida
+        transport.on('receipt', async (whatsappMessageId: string, receipt: 'delivered' | 'read') => {
+            try {
+                const updated = await MessageModel.markReceipt(whatsappMessageId, receipt);
+                if (!updated) return;
+
+                io.to(`manager_${managerId}`).emit('message_status', {
+                    messageId: updated.id,
+                    chatId: updated.chat_id,
+                    status: receipt,
+                    delivered_at: updated.delivered_at,
+                    read_at: updated.read_at
+                });
+            } catch (error) {
+                console.error('❌ Erro ao registrar confirmação de entrega/leitura:', error);
+            }
+        });
+
         // Sistema de mensagens automatizadas (chatbot)
-        client.on('message', async (msg: any) => {
-            if (!msg.from.endsWith('@c.us')) return;
+        transport.on('message', async (msg: InboundMessage) => {
+            // Contatos (@c.us) e grupos (@g.us); status, transmissões e canais são ignorados
+            const chatAddress = parseChatId(msg.from);
+            if (!chatAddress) return;
+
+            // Evento repetido enquanto o original ainda está sendo processado
+            const whatsappMessageId = msg.id;
+            if (whatsappMessageId) {
+                if (inboundInProgress.has(whatsappMessageId)) return;
+                inboundInProgress.add(whatsappMessageId);
+            }
 
             instanceData.messageCount++;
-            
-            // Atualizar atividade da instância
-            await WhatsAppInstanceModel.updateActivity(instanceId);
 
             const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
+            // Tudo que pode falhar fica dentro do try: o finally sempre libera o ID da mensagem
             try {
+                // Atualizar atividade da instância
+                await WhatsAppInstanceModel.updateActivity(instanceId);
+
+                // Evento repetido de uma mensagem já salva (ex: reentrega após reconectar)
+                if (whatsappMessageId && await MessageModel.existsByWhatsAppId(whatsappMessageId)) {
+                    console.log(`♻️ Mensagem ${whatsappMessageId} já registrada - evento repetido ignorado`);
+                    return;
+                }
+
+                // Grupos só são atendidos nas instâncias que os ativaram
+                const instanceSettings = await WhatsAppInstanceModel.findById(instanceId);
+                if (chatAddress.isGroup && !instanceSettings?.groups_enabled) return;
+
                 // 🗄️ SALVAR MENSAGEM RECEBIDA NO BANCO DE DADOS
                 console.log(`💾 Salvando mensagem recebida de ${msg.from}: "${msg.body}"`);
                 
-                // Criar ou encontrar contato
-                const contact = await msg.getContact();
-                const contactName = contact.pushname || contact.number;
-                const phoneNumber = msg.from.replace('@c.us', '');
+                // Criar ou encontrar contato (em grupos, o contato é o grupo e o autor é o participante)
+                const authorName = await msg.getContactName();
+                const contactName = chatAddress.isGroup ? (await msg.getChatName()) || chatAddress.id : authorName;
+                const phoneNumber = chatAddress.id;
                 
                 const dbContact = await ContactModel.findOrCreate({
                     manager_id: managerId,
+                    instance_id: instanceId,
                     phone_number: phoneNumber,
+                    contact_type: chatAddress.isGroup ? 'group' : 'individual',
                     name: contactName
                 });
 
+                // Contato bloqueado por um atendente: mensagem ignorada (sem bot e sem fila de atendimento)
+                if (dbContact.is_blocked) {
+                    console.log(`🚫 Mensagem de contato bloqueado ${phoneNumber} ignorada`);
+                    return;
+                }
+
+                // Grupo: o bot só é acionado quando mencionado ou com o prefixo; com atendimento humano
+                // em andamento, todas as mensagens do grupo seguem para o atendente
+                const ownId = transport.getOwnId();
+                const groupCommand = chatAddress.isGroup
+                    ? extractGroupCommand(msg.body, {
+                        mentioned: !!ownId && msg.mentionedIds.includes(ownId),
+                        botNumber: ownId ? parseChatId(ownId)?.id : null,
+                        prefix: instanceSettings?.group_prefix
+                    })
+                    : null;
+                if (chatAddress.isGroup && !groupCommand && !(await HumanChatModel.findActiveByContact(dbContact.id))) {
+                    return;
+                }
+
+                // Descadastro ("parar", "sair"), volta ("voltar") e contatos descadastrados (não vale para grupos)
+                if (!chatAddress.isGroup && await handleOptOut(msg, managerId, instanceId, dbContact, transport, instanceData, delay)) {
+                    return;
+                }
+
+                // Em grupos, o histórico mostra quem escreveu
+                const inboundContent = chatAddress.isGroup ? `*${authorName}:* ${msg.body}` : msg.body;
+
+                // Foto, áudio, vídeo ou documento: guardar o arquivo junto com a mensagem
+                const messageType = toInboundMessageType(msg.type);
+                const inboundMedia = msg.hasMedia ? await downloadInboundMedia(msg, managerId, messageType) : null;
+
                 // Verificar se existe chat humano para este contato (qualquer status)
                 let activeChat = await HumanChatModel.findAnyByContact(dbContact.id);
                 
                 // Se existe chat encerrado/resolvido, reabrir como pendente
                 if (activeChat && (activeChat.status === 'finished' || activeChat.status === 'resolved')) {
+                    // A conversa reaberta passa a ser atendida pelo número que recebeu a mensagem
                     const updateQuery = `
                         UPDATE human_chats 
-                        SET status = 'pending', updated_at = NOW(), operator_id = NULL, assigned_to = NULL
+                        SET status = 'pending', updated_at = NOW(), operator_id = NULL, assigned_to = NULL, instance_id = ?
                         WHERE id = ?
                     `;
-                    await executeQuery(updateQuery, [activeChat.id]);
+                    await executeQuery(updateQuery, [instanceId, activeChat.id]);
                     activeChat.status = 'pending';
                     activeChat.operator_id = null;
                     activeChat.assigned_to = null;
+                    activeChat.instance_id = instanceId;
                     console.log(`🔄 Chat ${activeChat.id} REABERTO automaticamente - Status: finished/resolved → pending`);
                     
                     // Emitir evento para dashboard sobre conversa reaberta
@@ -305,16 +493,33 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                 }
                 
                 // Salvar mensagem recebida no banco
-                const savedMessage = await MessageModel.create({
+                const savedMessage = await MessageModel.createInbound({
                     manager_id: managerId,
                     chat_id: activeChat?.id || null,
                     contact_id: dbContact.id,
-                    whatsapp_message_id: msg.id._serialized || null,
+                    instance_id: instanceId,
+                    whatsapp_message_id: msg.id || undefined,
                     sender_type: 'contact',
-                    content: msg.body,
-                    message_type: msg.type || 'text'
+                    content: inboundContent,
+                    message_type: messageType,
+                    media_file: inboundMedia?.file_name,
+                    media_mime_type: inboundMedia?.mime_type,
+                    media_size: inboundMedia?.size,
+                    media_name: inboundMedia?.original_name
                 });
 
+                // Outra entrega do mesmo evento salvou a mensagem primeiro
+                if (!savedMessage) {
+                    await deleteInboundMedia(inboundMedia?.file_name);
+                    console.log(`♻️ Mensagem ${whatsappMessageId} já registrada - evento repetido ignorado`);
+                    return;
+                }
+
+                const mediaUrl = inboundMedia ? getInboundMediaUrl(savedMessage.id) : null;
+                if (mediaUrl) {
+                    await MessageModel.setMediaUrl(savedMessage.id, mediaUrl);
+                }
+
                 console.log(`✅ Mensagem recebida salva no banco - ID: ${savedMessage.id}`);
 
                 // Emitir estatísticas das mensagens para o dashboard do gestor
@@ -333,11 +538,23 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                 if (isChatActive) {
                     console.log(`👤 Mensagem redirecionada para chat humano - ID: ${activeChat.id} (Status: ${activeChat.status})`);
                     console.log(`🤖 CHATBOT DESATIVADO - Operador/Gestor está no controle`);
+                    await recordDecisionTrace({
+                        manager_id: managerId,
+                        contact_id: dbContact.id,
+                        instance_id: instanceId,
+                        message_id: savedMessage.id,
+                        decision_kind: 'human_chat_active',
+                        input_text: msg.body,
+                        details: { trace: [`Conversa em atendimento humano (chat ${activeChat.id}, status ${activeChat.status}) - bot desativado`], candidates: [] }
+                    });
                     
                     // Emitir mensagem para o chat humano
                     const customerMessageData = {
-                        chatId: phoneNumber + '@c.us',
-                        message: msg.body,
+                        chatId: msg.from,
+                        message: inboundContent,
+                        messageId: savedMessage.id,
+                        messageType,
+                        mediaUrl,
                         timestamp: new Date(),
                         customerName: contactName,
                         managerId: managerId
@@ -362,9 +579,67 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                     return; // 🚨 NÃO PROCESSAR MENSAGENS AUTOMÁTICAS - BOT DESATIVADO
                 }
 
-                // Buscar projeto padrão do gestor no banco de dados
-                console.log(`🔍 Buscando projeto padrão para gestor ${managerId}`);
-                const defaultProject = await MessageProjectModel.findDefaultByManagerId(managerId, true);
+                // O bot responde ao grupo só com o texto depois da menção/prefixo
+                if (groupCommand) {
+                    msg.body = groupCommand;
+                }
+
+                // Número em modo atendimento humano: sem bot, a conversa vai direto para a fila
+                if (instanceSettings?.routing_mode === 'human') {
+                    console.log(`👤 Instância ${instanceId} em modo atendimento humano - enviando conversa para a fila`);
+                    await recordDecisionTrace({
+                        manager_id: managerId,
+                        contact_id: dbContact.id,
+                        instance_id: instanceId,
+                        message_id: savedMessage.id,
+                        decision_kind: 'human_routing',
+                        input_text: msg.body,
+                        handoff_reason: `Número "${instanceSettings.instance_name}" configurado para atendimento humano`,
+                        details: { trace: ['Número em modo atendimento humano - bot não consultado'], candidates: [] }
+                    });
+                    await transferToHuman(managerId, msg, null, {}, null, instanceId);
+                    return;
+                }
+
+                // Flood: acima do limite por contato, a mensagem fica salva mas o bot não responde
+                const throttleKey = `${instanceId}:${dbContact.id}`;
+                const flood = registerInbound(inboundHistory.get(throttleKey) || [], Date.now());
+                inboundHistory.set(throttleKey, flood.history);
+                if (flood.limited) {
+                    console.log(`🚦 Contato ${phoneNumber} passou de ${FLOOD_MAX_MESSAGES} mensagens em ${FLOOD_WINDOW_MS / 1000}s - bot não responde`);
+                    await recordDecisionTrace({
+                        manager_id: managerId,
+                        contact_id: dbContact.id,
+                        instance_id: instanceId,
+                        message_id: savedMessage.id,
+                        decision_kind: 'rate_limited',
+                        input_text: msg.body,
+                        details: { trace: [`Mais de ${FLOOD_MAX_MESSAGES} mensagens em ${FLOOD_WINDOW_MS / 1000}s - bot não consultado`], candidates: [] }
+                    });
+                    return;
+                }
+
+                // Rajada: mensagens seguidas do contato viram um só turno, respondido a partir da última
+                const burstTexts = await waitForBurst(throttleKey, msg.body);
+                if (!burstTexts) {
+                    await recordDecisionTrace({
+                        manager_id: managerId,
+                        contact_id: dbContact.id,
+                        instance_id: instanceId,
+                        message_id: savedMessage.id,
+                        decision_kind: 'coalesced',
+                        input_text: msg.body,
+                        details: { trace: ['Outra mensagem chegou logo em seguida - respondidas juntas'], candidates: [] }
+                    });
+                    return;
+                }
+                // Esta é a última mensagem da rajada: o bot responde ao texto dela (juntar os textos quebraria
+                // gatilhos exatos, escolhas de menu e respostas de formulário); a rajada fica no rastreamento
+                const burst = dedupeBurstTexts(burstTexts);
+
+                // Buscar projeto: o vinculado a este número ou, sem vínculo, o agendado para agora / padrão do gestor
+                console.log(`🔍 Buscando projeto ativo para gestor ${managerId} (instância ${instanceId})`);
+                const defaultProject = await resolveActiveProject(managerId, instanceSettings?.project_id);
             
             if (!defaultProject || !defaultProject.messages) {
                 console.log(`⚠️  Nenhum projeto padrão encontrado para gestor ${managerId} - criando projeto padrão`);
@@ -379,7 +654,7 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                     });
 
                     // Criar algumas mensagens padrão
-                    const defaultMessages = [
+                    const defaultMessages: { trigger_words: string[]; response_text: string; order_index: number; action_type?: ActionType }[] = [
                         {
                             trigger_words: ['oi', 'olá', 'menu', 'dia', 'tarde', 'noite'],
                             response_text: 'Olá! {name} Como posso ajudá-lo hoje? Digite uma das opções:\n\n1 - Informações\n2 - Suporte\n3 - Atendimento Humano',
@@ -397,8 +672,9 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                         },
                         {
                             trigger_words: ['3', 'humano', 'atendente', 'operador', 'pessoa'],
-                            response_text: 'Transferindo você para um atendente humano. Por favor, aguarde...',
-                            order_index: 4
+                            response_text: DEFAULT_HANDOFF_MESSAGE,
+                            order_index: 4,
+                            action_type: 'reply_and_handoff'
                         }
                     ];
 
@@ -407,6 +683,7 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                             project_id: newProject.id,
                             trigger_words: msgData.trigger_words,
                             response_text: msgData.response_text,
+                            action_type: msgData.action_type,
                             is_active: true,
                             order_index: msgData.order_index
                         });
@@ -422,26 +699,37 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
                     }
                     
                     // Usar as mensagens do projeto criado
-                    const activeMessages = createdProject.messages.filter(msg => msg.is_active);
-                    await processAutoMessages(msg, activeMessages, managerId, client, instanceData, delay);
+                    await processBotMessage(msg, createdProject, managerId, instanceId, dbContact, transport, instanceData, delay, savedMessage.id, burst);
                     
                 } catch (error) {
                     console.error(`❌ Erro ao criar projeto padrão para gestor ${managerId}:`, error);
                     return;
                 }
             } else {
-                console.log(`✅ Projeto padrão encontrado: "${defaultProject.name}" com ${defaultProject.messages.length} mensagens`);
-                const activeMessages = defaultProject.messages.filter(msg => msg.is_active);
-                await processAutoMessages(msg, activeMessages, managerId, client, instanceData, delay);
+                console.log(`✅ Projeto encontrado: "${defaultProject.name}" com ${defaultProject.messages.length} mensagens`);
+
+                // Palavra-chave de atendimento, formulário, fluxo visual e mensagens automáticas (motor do bot)
+                await processBotMessage(msg, await loadPublishedContent(defaultProject), managerId, instanceId, dbContact, transport, instanceData, delay, savedMessage.id, burst);
             }
             
             } catch (error) {
                 console.error('❌ Erro ao processar mensagem:', error);
+            } finally {
+                if (whatsappMessageId) {
+                    inboundInProgress.delete(whatsappMessageId);
+                }
             }
         });
 
+        // WhatsApp simulado: o painel de testes acompanha as mensagens enviadas aos contatos simulados
+        if (transport instanceof MockTransport) {
+            transport.onSent((message: MockSentMessage) => {
+                io.to(`manager_${managerId}`).emit('mock_outbound', { instanceId, message });
+            });
+        }
+
         // Inicializar o cliente
-        client.initialize();
+        await transport.connect();
 
     } catch (error) {
         console.error(`❌ Erro ao inicializar WhatsApp para gestor ${managerId}:`, error);
@@ -450,486 +738,702 @@ async function initializeWhatsAppClient(managerId: number, instanceId: number):
     }
 }
 
-// Função para processar mensagens automáticas
-async function processAutoMessages(
-    msg: any, 
-    activeMessages: any[], 
-    managerId: number, 
-    client: any, 
-    instanceData: any, 
-    delay: (ms: number) => Promise<unknown>
-) {
-    let messageProcessed = false;
-
-    // Separar templates com wildcard (*) dos demais
-    const specificTemplates = activeMessages.filter(msg =>
-        !msg.trigger_words.some((trigger: string) => trigger === "*")
-    );
-    const wildcardTemplates = activeMessages.filter(msg =>
-        msg.trigger_words.some((trigger: string) => trigger === "*")
-    );
-
-    // Processar primeiro os templates específicos
-    for (const autoMessage of specificTemplates) {
-        // Verificar se alguma palavra-chave corresponde (EXACT MATCH apenas)
-        const messageMatches = autoMessage.trigger_words.some((trigger: string) =>
-            msg.body.toLowerCase() === trigger.toLowerCase()
-        );
+// Projeto que responde agora: o vinculado à instância ou, sem vínculo, agendamento ativo
+// (período/janela semanal) ou o projeto padrão
+async function resolveActiveProject(managerId: number, instanceProjectId?: number | null): Promise<MessageProject | null> {
+    if (instanceProjectId) {
+        const project = await MessageProjectModel.findById(instanceProjectId, true);
+        if (project && project.manager_id === managerId && project.is_active) {
+            console.log(`📱 Projeto vinculado à instância: "${project.name}"`);
+            return project;
+        }
+        console.log(`⚠️ Projeto ${instanceProjectId} vinculado à instância indisponível - usando agendamento/padrão`);
+    }
 
-        if (messageMatches) {
-            console.log(`🎯 Mensagem correspondente encontrada: "${msg.body}" -> "${autoMessage.response_text.substring(0, 50)}..."`);
-            
-            // Verificar se é uma solicitação de atendimento humano
-            const isHumanRequest = autoMessage.trigger_words.some((trigger: string) => 
-                ['operador', 'atendente', 'humano', 'pessoa'].includes(trigger.toLowerCase())
-            );
-
-            if (isHumanRequest) {
-                // Transferir para atendimento humano
-                await transferToHuman(managerId, msg, autoMessage.response_text);
-                messageProcessed = true;
-                break;
-            }
+    const { timezone } = resolveBusinessHours(await BusinessHoursModel.findByManagerId(managerId));
+    const selection = selectProject(await MessageProjectModel.findByManagerId(managerId), new Date(), timezone);
 
-            const chat = await msg.getChat();
-            await delay(2000);
-            await chat.sendStateTyping();
-            await delay(2000);
+    if (selection.reason === 'scheduled' && selection.project) {
+        console.log(`🗓️ Projeto agendado ativo: "${selection.project.name}"`);
+    }
+    return selection.project ? MessageProjectModel.findById(selection.project.id, true) : null;
+}
 
-            // Processar a resposta (substituir variáveis se necessário)
-            let response = autoMessage.response_text;
+// Conteúdo publicado do projeto; projetos que nunca foram publicados usam o rascunho (tabelas do projeto)
+async function loadPublishedContent(project: MessageProject): Promise<MessageProject> {
+    if (!project.published_version_id) {
+        return project;
+    }
 
-            // Substituir {name} pelo nome do contato
-            if (response.includes('{name}')) {
-                const contact = await msg.getContact();
-                const name = contact.pushname ? contact.pushname.split(" ")[0] : 'amigo';
-                response = response.replace(/{name}/g, name);
-            }
+    const version = await ProjectVersionModel.findById(project.published_version_id);
+    if (!version) {
+        console.log(`⚠️ Versão publicada ${project.published_version_id} não encontrada - usando rascunho do projeto ${project.id}`);
+        return project;
+    }
 
-            // Substituir outras variáveis se necessário
-            if (response.includes('{cidade_digitada}')) {
-                response = response.replace(/{cidade_digitada}/g, msg.body);
-            }
-            if (response.includes('{cidade_escolhida}')) {
-                response = response.replace(/{cidade_escolhida}/g, msg.body);
-            }
-            if (response.includes('{CIDADE_NOME}')) {
-                response = response.replace(/{CIDADE_NOME}/g, msg.body);
-            }
+    console.log(`📦 Usando versão publicada v${version.version_number} do projeto "${project.name}"`);
+    return applySnapshot(project, version.snapshot, version.created_at);
+}
 
-            // Verificar se o cliente está disponível antes de enviar
-            if (client && instanceData.isReady) {
-                await client.sendMessage(msg.from, response);
-                await delay(1000);
-                console.log(`✅ Resposta enviada para ${msg.from}: "${response.substring(0, 50)}..."`);
-                
-                // 🗄️ SALVAR RESPOSTA DO BOT NO BANCO DE DADOS
-                try {
-                    const phoneNumber = msg.from.replace('@c.us', '');
-                    const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
-                    
-                    if (dbContact) {
-                        // Verificar se existe chat humano ativo
-                        const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
-                        
-                        const botMessage = await MessageModel.create({
-                            manager_id: managerId,
-                            chat_id: activeChat?.id || null,
-                            contact_id: dbContact.id,
-                            sender_type: 'bot',
-                            content: response,
-                            message_type: 'text'
-                        });
-                        
-                        console.log(`💾 Resposta do bot salva no banco - ID: ${botMessage.id}`);
-                    }
-                } catch (error) {
-                    console.error('❌ Erro ao salvar resposta do bot:', error);
-                }
-            }
-            messageProcessed = true;
-            break;
+// Função para processar uma mensagem recebida: o motor do bot decide a resposta e aqui ela é executada
+// (estado da conversa, dados do contato, envio das respostas e transferência para atendimento humano)
+async function processBotMessage(
+    msg: InboundMessage,
+    project: MessageProject,
+    managerId: number,
+    instanceId: number,
+    dbContact: Contact,
+    transport: MessagingTransport,
+    instanceData: any,
+    delay: (ms: number) => Promise<unknown>,
+    inboundMessageId: number | null = null,
+    burst: string[] = []
+): Promise<BotDecision> {
+    const state = await ConversationStateModel.find(dbContact.id, instanceId);
+    const businessHours = resolveBusinessHours(await BusinessHoursModel.findByManagerId(managerId));
+    const classifier = await IntentClassifierModel.findByProjectId(project.id);
+
+    const decision = decideBotResponse({
+        text: msg.body,
+        project,
+        messages: project.messages || [],
+        destinations: await DestinationModel.findActiveByManagerId(managerId),
+        state: state ? { current_node_id: state.current_node_id, active_form: state.active_form, variables: state.variables } : null,
+        timezone: businessHours.timezone,
+        intent: classifier.is_enabled && classifier.model
+            ? { model: classifier.model, threshold: classifier.confidence_threshold }
+            : null
+    });
+
+    decision.trace.forEach(line => console.log(`🧠 ${line}`));
+
+    await recordDecisionTrace({
+        manager_id: managerId,
+        contact_id: dbContact.id,
+        instance_id: instanceId,
+        message_id: inboundMessageId,
+        project_id: project.id,
+        project_version_id: project.published_version_id || null,
+        decision_kind: decision.kind,
+        input_text: msg.body,
+        normalized_text: decision.normalizedText,
+        matched_message_id: decision.autoMessage?.id ?? null,
+        destination: decision.destination,
+        handoff_reason: decision.handoffReason,
+        details: {
+            trace: burst.length > 1
+                ? [`Rajada de ${burst.length} mensagens (${burst.map(text => `"${text}"`).join(', ')}) - respondida a partir da última`, ...decision.trace]
+                : decision.trace,
+            candidates: decision.candidates,
+            intent: decision.intent,
+            state_before: state ? { current_node_id: state.current_node_id, active_form: state.active_form, variables: state.variables } : null,
+            state_after: decision.state,
+            replies: decision.replies.length,
+            burst: burst.length > 1 ? burst : undefined
+        }
+    });
+
+    // Texto sem resposta entra no relatório de mensagens não reconhecidas do projeto
+    if (decision.kind === 'fallback' && decision.normalizedText) {
+        try {
+            await UnmatchedMessageModel.record(project.id, managerId, decision.normalizedText, msg.body);
+        } catch (error) {
+            console.error('❌ Erro ao registrar mensagem não reconhecida:', error);
         }
     }
 
-    // Se não foi processado por templates específicos, tentar wildcards
-    if (!messageProcessed) {
-        for (const autoMessage of wildcardTemplates) {
-            console.log(`🎯 Processando template wildcard: "${autoMessage.response_text.substring(0, 50)}..."`);
+    if (decision.stateChanged) {
+        await ConversationStateModel.save({
+            manager_id: managerId,
+            contact_id: dbContact.id,
+            instance_id: instanceId,
+            ...decision.state
+        });
+    }
 
-            // Verificar se é uma solicitação de atendimento humano
-            const isHumanRequest = autoMessage.trigger_words.some((trigger: string) =>
-                ['operador', 'atendente', 'humano', 'pessoa'].includes(trigger.toLowerCase())
-            ) || autoMessage.response_text.toLowerCase().includes('transferir você para nosso operador');
-            
-            console.log(`🔍 Debug - isHumanRequest: ${isHumanRequest} para resposta: ${autoMessage.response_text.substring(0, 50)}...`);
+    // Respostas de formulário concluído ficam salvas no contato
+    if (decision.formAnswers) {
+        await ContactModel.saveCustomFields(dbContact.id, decision.formAnswers);
+        console.log(`📋 Formulário concluído - dados salvos no contato ${dbContact.id}`);
+    }
 
-            if (isHumanRequest) {
-                // Transferir para atendimento humano
-                await transferToHuman(managerId, msg, autoMessage.response_text);
-                messageProcessed = true;
-                break;
-            }
+    for (const reply of decision.replies) {
+        if (reply.autoMessage) {
+            await sendAutoMessageResponse(managerId, msg, reply.autoMessage, transport, instanceData, delay, reply.context);
+        } else {
+            const response = await renderBotResponse(managerId, msg, reply.text, reply.context);
+            await sendBotMessage(managerId, msg, transport, instanceData, delay, response);
+        }
+    }
 
-            const chat = await msg.getChat();
-            await delay(2000);
-            await chat.sendStateTyping();
-            await delay(2000);
+    if (decision.handoff) {
+        const { autoMessage } = decision.handoff;
+        await transferToHuman(
+            managerId,
+            msg,
+            autoMessage ? await planAutoMessageResponse(autoMessage) : decision.handoff.message,
+            decision.handoff.context,
+            autoMessage?.attachment || null,
+            instanceId
+        );
+    }
 
-            // Processar a resposta (substituir variáveis se necessário)
-            let response = autoMessage.response_text;
+    console.log(`🤖 Mensagem de ${msg.from} processada (${decision.kind}) pelo gestor ${managerId}`);
+    return decision;
+}
 
-            // Substituir {name} pelo nome do contato
-            if (response.includes('{name}')) {
-                const contact = await msg.getContact();
-                const name = contact.pushname ? contact.pushname.split(" ")[0] : 'amigo';
-                response = response.replace(/{name}/g, name);
-            }
+// Tratar pedidos de descadastro e mensagens de contatos descadastrados (true = mensagem já tratada).
+// A confirmação do descadastro é a última mensagem enviada ao contato até ele pedir para voltar
+async function handleOptOut(
+    msg: InboundMessage,
+    managerId: number,
+    instanceId: number,
+    dbContact: Contact,
+    transport: MessagingTransport,
+    instanceData: any,
+    delay: (ms: number) => Promise<unknown>
+): Promise<boolean> {
+    // Estado da conversa só é consultado quando a mensagem é uma palavra de descadastro
+    const formActive = !dbContact.opted_out && isOptOutMessage(msg.body)
+        ? !!(await ConversationStateModel.find(dbContact.id, instanceId))?.active_form
+        : false;
+    const optingOut = isOptOutMessage(msg.body, formActive);
+    const optingIn = dbContact.opted_out && isOptInMessage(msg.body);
+    if (!optingOut && !optingIn && !dbContact.opted_out) {
+        return false;
+    }
 
-            // Substituir outras variáveis se necessário
-            if (response.includes('{cidade_digitada}')) {
-                response = response.replace(/{cidade_digitada}/g, msg.body);
-            }
-            if (response.includes('{cidade_escolhida}')) {
-                response = response.replace(/{cidade_escolhida}/g, msg.body);
-            }
-            if (response.includes('{CIDADE_NOME}')) {
-                response = response.replace(/{CIDADE_NOME}/g, msg.body);
-            }
+    const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
+    const savedMessage = await MessageModel.createInbound({
+        manager_id: managerId,
+        chat_id: activeChat?.id || null,
+        contact_id: dbContact.id,
+        instance_id: instanceId,
+        whatsapp_message_id: msg.id || undefined,
+        sender_type: 'contact',
+        content: msg.body,
+        message_type: toInboundMessageType(msg.type)
+    });
 
-            // Verificar se o cliente está disponível antes de enviar
-            if (client && instanceData.isReady) {
-                await client.sendMessage(msg.from, response);
-                await delay(1000);
-                console.log(`✅ Resposta wildcard enviada para ${msg.from}: "${response.substring(0, 50)}..."`);
+    // Outra entrega do mesmo evento salvou a mensagem primeiro
+    if (!savedMessage) {
+        console.log(`♻️ Mensagem ${msg.id} já registrada - evento repetido ignorado`);
+        return true;
+    }
 
-                // 🗄️ SALVAR RESPOSTA DO BOT NO BANCO DE DADOS
-                try {
-                    const phoneNumber = msg.from.replace('@c.us', '');
-                    const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
-
-                    if (dbContact) {
-                        // Verificar se existe chat humano ativo
-                        const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
-
-                        const botMessage = await MessageModel.create({
-                            manager_id: managerId,
-                            chat_id: activeChat?.id || null,
-                            contact_id: dbContact.id,
-                            sender_type: 'bot',
-                            content: response,
-                            message_type: 'text'
-                        });
+    if (optingOut || optingIn) {
+        await ContactModel.setOptedOut(dbContact.id, optingOut);
+        await sendBotMessage(
+            managerId, msg, transport, instanceData, delay,
+            optingOut ? OPT_OUT_CONFIRMATION : OPT_IN_CONFIRMATION, null, DEFAULT_TYPING_MS, optingOut
+        );
+        console.log(optingOut ? `🔕 Contato ${dbContact.id} pediu descadastro` : `🔔 Contato ${dbContact.id} voltou a receber mensagens`);
+    } else {
+        console.log(`🔕 Mensagem de contato descadastrado ${dbContact.id} salva - bot não responde`);
+    }
 
-                        console.log(`💾 Resposta wildcard do bot salva no banco - ID: ${botMessage.id}`);
-                    }
-                } catch (error) {
-                    console.error('❌ Erro ao salvar resposta wildcard do bot:', error);
-                }
-            }
-            messageProcessed = true;
-            break;
+    await recordDecisionTrace({
+        manager_id: managerId,
+        contact_id: dbContact.id,
+        instance_id: instanceId,
+        message_id: savedMessage.id,
+        decision_kind: optingOut ? 'opt_out' : optingIn ? 'opt_in' : 'opted_out',
+        input_text: msg.body,
+        details: {
+            trace: [optingOut
+                ? 'Palavra de descadastro - contato não recebe mais mensagens'
+                : optingIn
+                    ? 'Contato descadastrado pediu para voltar a receber mensagens'
+                    : 'Contato descadastrado - bot não responde'],
+            candidates: []
         }
+    });
+    return true;
+}
+
+// Baixar a mídia de uma mensagem recebida e gravá-la em disco (null se falhar ou passar dos limites)
+async function downloadInboundMedia(msg: InboundMessage, managerId: number, messageType: InboundMessageType): Promise<StoredInboundMedia | null> {
+    try {
+        const media = await msg.downloadMedia();
+        if (!media?.data) {
+            console.log(`⚠️ Mídia da mensagem ${msg.id} indisponível para download`);
+            return null;
+        }
+
+        const result = await saveInboundMedia(managerId, messageType, media);
+        if ('error' in result) {
+            console.log(`⚠️ Mídia da mensagem ${msg.id} não guardada: ${result.error}`);
+            return null;
+        }
+
+        console.log(`📎 Mídia recebida guardada: ${result.media.file_name} (${result.media.mime_type}, ${result.media.size} bytes)`);
+        return result.media;
+    } catch (error) {
+        console.error('❌ Erro ao baixar mídia recebida:', error);
+        return null;
     }
+}
 
-    // Log da mensagem processada
-    if (messageProcessed) {
-        console.log(`🤖 Mensagem automática processada para ${msg.from} pelo gestor ${managerId}`);
-    } else {
-        console.log(`❓ Nenhuma mensagem automática correspondente para: "${msg.body}"`);
+// Esperar o fim da rajada do contato: devolve os textos acumulados para a última mensagem
+// ou null quando uma mensagem mais nova chegou durante a espera (ela responde por todas)
+async function waitForBurst(key: string, text: string): Promise<string[] | null> {
+    if (BURST_WINDOW_MS <= 0) {
+        return [text];
+    }
 
-        // 🏙️ LÓGICA ESPECIAL PARA CIDADES (VENDAS DE PASSAGEM)
-        const userMessage = msg.body.trim();
-        
-        // Lista de cidades disponíveis (expandida e normalizada)
-        const availableCities = [
-            'São Luís', 'São Luis', 'Sao Luis', 'Sao Luís', 'sao luis', 'são luis',
-            'Imperatriz', 'imperatriz',
-            'Brasília', 'Brasilia', 'brasilia', 'brasília', 'DF',
-            'Goiânia', 'Goiania', 'goiania', 'goiânia', 'GO',
-            'Araguaína', 'Araguaina', 'araguaina', 'araguaína',
-            'Gurupi', 'gurupi',
-            'Porto Nacional', 'porto nacional', 'Porto nacional',
-            'Paraíso do Tocantins', 'Paraiso do Tocantins', 'paraiso do tocantins', 'paraíso do tocantins', 'Paraíso', 'Paraiso',
-            'Colinas do Tocantins', 'colinas do tocantins', 'Colinas', 'colinas',
-            'Barreiras', 'barreiras', 'BA',
-            'Luís Eduardo Magalhães', 'Luis Eduardo Magalhaes', 'luis eduardo magalhaes', 'luís eduardo magalhães',
-            'L.E. Magalhães', 'LE Magalhães', 'LEM',
-            'Teresina', 'teresina', 'PI',
-            'Parnaíba', 'Parnaiba', 'parnaiba', 'parnaíba'
-        ];
-        
-        // Verificar se a mensagem pode ser um nome de cidade (mais de 2 caracteres, não é apenas número)
-        if (userMessage.length > 2 && !/^\d+$/.test(userMessage) && !/^[1-9]$/.test(userMessage)) {
-            console.log(`🏙️ Verificando se "${userMessage}" é uma cidade disponível...`);
-            
-            // 📝 DETECTAR DADOS PESSOAIS (Nome, Telefone, CPF, Data)
-            const hasPersonalData = detectPersonalData(userMessage);
-            
-            if (hasPersonalData) {
-                console.log(`📝 Dados pessoais detectados: "${userMessage}" - Transferindo para operador`);
-                
-                const transferMessage = `📋 *DADOS RECEBIDOS*
+    const burst = inboundBursts.get(key) || { texts: [], latest: 0 };
+    const sequence = ++burst.latest;
+    burst.texts.push(text);
+    inboundBursts.set(key, burst);
 
-Perfeito! Recebi suas informações:
+    await new Promise(res => setTimeout(res, BURST_WINDOW_MS));
+    if (burst.latest !== sequence) {
+        return null;
+    }
 
-${userMessage}
+    inboundBursts.delete(key);
+    return burst.texts;
+}
 
-🤝 Vou transferir você para um de nossos operadores especializados em vendas para finalizar sua compra e processar o pagamento.
+// Guardar por que o bot respondeu (ou não) a uma mensagem recebida; falhas não interrompem o atendimento
+async function recordDecisionTrace(
+    data: Omit<CreateDecisionTraceData, 'project_id' | 'project_version_id' | 'normalized_text' | 'matched_message_id' | 'destination' | 'handoff_reason'>
+        & Partial<CreateDecisionTraceData>
+): Promise<void> {
+    try {
+        await BotDecisionTraceModel.create({
+            project_id: null,
+            project_version_id: null,
+            normalized_text: data.input_text ? normalizeForMatching(data.input_text) : null,
+            matched_message_id: null,
+            destination: null,
+            handoff_reason: null,
+            ...data
+        });
+    } catch (error) {
+        console.error('❌ Erro ao salvar rastreamento da decisão do bot:', error);
+    }
+}
 
-⏰ *Em alguns instantes um operador entrará em contato!*
+// Conteúdo salvo no histórico para uma mensagem enviada pelo bot
+interface SentBotMessage {
+    content: string;
+    message_type: 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
+    media_url?: string;
+}
 
-Aguarde um momento... 🚌✨`;
+// Como um anexo aparece no histórico (o envio em si acontece na fila)
+function describeAttachment(attachment: AutoMessageAttachment, caption?: string): SentBotMessage {
+    if (attachment.type === 'location') {
+        return {
+            content: `📍 ${attachment.location_name || attachment.address || `${attachment.latitude}, ${attachment.longitude}`}`,
+            message_type: 'location',
+            media_url: `https://maps.google.com/?q=${attachment.latitude},${attachment.longitude}`
+        };
+    }
 
-                await transferToHuman(managerId, msg, transferMessage);
-                messageProcessed = true;
-                return; // Sair da função após transferir
-            }
-            
-            // Normalizar entrada do usuário para comparação
-            const normalizedInput = userMessage.toLowerCase().trim();
-            
-            // Verificar se é uma cidade disponível (comparação mais flexível)
-            const isCityAvailable = availableCities.some(city => {
-                const normalizedCity = city.toLowerCase();
-                return normalizedCity.includes(normalizedInput) ||
-                       normalizedInput.includes(normalizedCity) ||
-                       normalizedCity === normalizedInput ||
-                       // Comparação por palavras-chave
-                       (normalizedInput.includes('luis') && normalizedCity.includes('luís')) ||
-                       (normalizedInput.includes('luís') && normalizedCity.includes('luis')) ||
-                       (normalizedInput.includes('brasilia') && normalizedCity.includes('brasília')) ||
-                       (normalizedInput.includes('brasília') && normalizedCity.includes('brasilia')) ||
-                       (normalizedInput.includes('goiania') && normalizedCity.includes('goiânia')) ||
-                       (normalizedInput.includes('goiânia') && normalizedCity.includes('goiania'))
+    return {
+        content: caption || `📎 ${attachment.original_name || attachment.file_name}`,
+        message_type: attachment.type,
+        media_url: attachment.file_name ? getAttachmentUrl(attachment.file_name) : undefined
+    };
+}
+
+// Enviar o anexo pelo WhatsApp e retornar a mensagem enviada (null se o arquivo não existir mais)
+async function sendAttachment(
+    transport: MessagingTransport,
+    to: string,
+    attachment: AutoMessageAttachment,
+    caption?: string
+): Promise<SentMessage | null> {
+    if (attachment.type === 'location') {
+        const { latitude, longitude } = attachment;
+        if (latitude === undefined || longitude === undefined) {
+            return null;
+        }
+
+        return transport.sendLocation(to, {
+            latitude,
+            longitude,
+            name: attachment.location_name,
+            address: attachment.address
+        });
+    }
+
+    const data = attachment.file_name ? await readAttachmentBase64(attachment.file_name) : null;
+    if (!data || !attachment.file_name || !attachment.mime_type) {
+        return null;
+    }
+
+    return transport.sendMedia(to, {
+        mimetype: attachment.mime_type,
+        data,
+        filename: attachment.original_name || attachment.file_name
+    }, {
+        caption,
+        asDocument: attachment.type === 'document'
+    });
+}
+
+// Salvar a mensagem no histórico e colocá-la na fila de envio (nada se perde com o WhatsApp desconectado)
+async function queueOutboundMessage(data: {
+    managerId: number;
+    instanceId: number | null;
+    contactId: number;
+    chatId: number | null;
+    to: string;
+    senderType: 'bot' | 'operator';
+    senderId?: number;
+    text: string;
+    attachment?: AutoMessageAttachment | null;
+    historyContent?: string;   // Texto do histórico, quando diferente do enviado (ex: sem o nome do operador)
+    ignoreOptOut?: boolean;    // Confirmação do descadastro
+}): Promise<Message> {
+    const history: SentBotMessage = data.attachment
+        ? describeAttachment(data.attachment, data.text || undefined)
+        : { content: data.text, message_type: 'text' };
+
+    const message = await MessageModel.create({
+        manager_id: data.managerId,
+        chat_id: data.chatId,
+        contact_id: data.contactId,
+        instance_id: data.instanceId,
+        sender_type: data.senderType,
+        sender_id: data.senderId,
+        content: data.historyContent ?? history.content,
+        message_type: history.message_type,
+        media_url: history.media_url
+    });
+
+    await OutboundMessageModel.create({
+        manager_id: data.managerId,
+        instance_id: data.instanceId,
+        contact_id: data.contactId,
+        chat_id: data.chatId,
+        message_id: message.id,
+        to_chat_id: data.to,
+        sender_type: data.senderType,
+        content: data.text,
+        attachment: data.attachment || null,
+        ignore_opt_out: data.ignoreOptOut
+    });
+
+    processOutboundQueue();
+    return message;
+}
+
+// Colocar na fila uma resposta do bot (vinculada ao chat humano ativo, se houver)
+async function queueBotMessage(
+    managerId: number,
+    msg: InboundMessage,
+    instanceId: number | null,
+    text: string,
+    attachment: AutoMessageAttachment | null = null,
+    ignoreOptOut: boolean = false
+): Promise<void> {
+    try {
+        const phoneNumber = parseChatId(msg.from)?.id || msg.from;
+        const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
+
+        if (dbContact) {
+            const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
+
+            const botMessage = await queueOutboundMessage({
+                managerId,
+                instanceId,
+                contactId: dbContact.id,
+                chatId: activeChat?.id || null,
+                to: msg.from,
+                senderType: 'bot',
+                text,
+                attachment,
+                ignoreOptOut
             });
-            
-            // Tratar "Palmas" como origem (não destino)
-            if (normalizedInput.includes('palmas')) {
-                const chat = await msg.getChat();
-                await delay(2000);
-                await chat.sendStateTyping();
-                await delay(2000);
-                
-                const response = `🏙️ Palmas é nossa cidade de *origem*! 🚌\n\nPara onde você gostaria de viajar saindo de Palmas?\n\nDigite o nome da cidade de *destino* que você deseja! 😊\n\n*Exemplo:* São Luís, Brasília, Goiânia, etc.`;
-                
-                if (client && instanceData.isReady) {
-                    await client.sendMessage(msg.from, response);
-                    console.log(`🏙️ Resposta sobre Palmas (origem) enviada`);
-                }
-                messageProcessed = true;
+
+            console.log(`💾 Resposta do bot salva e na fila de envio - ID: ${botMessage.id}`);
+        }
+    } catch (error) {
+        console.error('❌ Erro ao salvar resposta do bot:', error);
+    }
+}
+
+// Enviar uma resposta do bot (com "digitando..." por typingMs) pela fila de envio.
+// Com anexo, o texto vira legenda (imagem, vídeo, documento) ou é enviado antes do anexo.
+async function sendBotMessage(
+    managerId: number,
+    msg: InboundMessage,
+    transport: MessagingTransport,
+    instanceData: any,
+    delay: (ms: number) => Promise<unknown>,
+    response: string,
+    attachment: AutoMessageAttachment | null = null,
+    typingMs: number = DEFAULT_TYPING_MS,
+    ignoreOptOut: boolean = false      // Confirmação do descadastro
+): Promise<void> {
+    await delay(2000);
+    // "digitando..." só com o WhatsApp conectado; a resposta entra na fila de qualquer forma
+    if (transport && instanceData.isReady) {
+        try {
+            await transport.sendTyping(msg.from);
+        } catch (error) {
+            console.error('⚠️ Não foi possível mostrar "digitando...":', error);
+        }
+    }
+    await delay(typingMs);
+
+    const text = response && response.trim() ? response : '';
+    const useCaption = !!text && !!attachment && attachment.as_caption !== false &&
+        ['image', 'video', 'document'].includes(attachment.type);
+
+    if (text && !useCaption) {
+        await queueBotMessage(managerId, msg, instanceData.instanceId, text, null, ignoreOptOut);
+        console.log(`✅ Resposta para ${msg.from} na fila de envio: "${text.substring(0, 50)}..."`);
+    }
+
+    if (attachment) {
+        await queueBotMessage(managerId, msg, instanceData.instanceId, useCaption ? text : '', attachment, ignoreOptOut);
+        console.log(`📎 Anexo (${attachment.type}) para ${msg.from} na fila de envio`);
+    }
+
+    await delay(1000);
+}
+
+// Enviar uma mensagem da fila pelo número conectado (sucesso, nova tentativa com espera crescente ou falha)
+async function deliverOutboundMessage(transport: MessagingTransport, item: OutboundMessage): Promise<void> {
+    const notify = (status: 'sent' | 'failed', error: string | null = null) => {
+        if (!item.message_id) return;
+        io.to(`manager_${item.manager_id}`).emit('message_status', {
+            messageId: item.message_id,
+            chatId: item.chat_id,
+            status,
+            error
+        });
+    };
+
+    // Contato bloqueado ou descadastrado não recebe nada, nem mensagens do bot que já estavam na fila
+    // (só a confirmação do descadastro ainda sai)
+    const contact = await ContactModel.findById(item.contact_id);
+    const restriction = contact ? getContactRestriction(contact, item.ignore_opt_out) : 'Contato não encontrado';
+    if (restriction) {
+        await OutboundMessageModel.markFailed(item.id, restriction);
+        notify('failed', restriction);
+        return;
+    }
+
+    try {
+        let sent: SentMessage | null = null;
+        if (item.attachment) {
+            sent = await sendAttachment(transport, item.to_chat_id, item.attachment, item.content || undefined);
+            // Anexo indisponível: não perder o texto que iria como legenda
+            if (!sent && item.content) {
+                sent = await transport.sendText(item.to_chat_id, item.content);
             }
-            else if (isCityAvailable) {
-                // Encontrar o nome correto da cidade (versão mais formal)
-                let correctCityName = userMessage;
-                
-                // Mapear para nome formal da cidade
-                const cityMapping: { [key: string]: string } = {
-                    'sao luis': 'São Luís - MA',
-                    'são luis': 'São Luís - MA',
-                    'sao luís': 'São Luís - MA',
-                    'imperatriz': 'Imperatriz - MA',
-                    'brasilia': 'Brasília - DF',
-                    'brasília': 'Brasília - DF',
-                    'goiania': 'Goiânia - GO',
-                    'goiânia': 'Goiânia - GO',
-                    'araguaina': 'Araguaína - TO',
-                    'araguaína': 'Araguaína - TO',
-                    'gurupi': 'Gurupi - TO',
-                    'porto nacional': 'Porto Nacional - TO',
-                    'paraiso': 'Paraíso do Tocantins - TO',
-                    'paraíso': 'Paraíso do Tocantins - TO',
-                    'colinas': 'Colinas do Tocantins - TO',
-                    'barreiras': 'Barreiras - BA',
-                    'teresina': 'Teresina - PI',
-                    'parnaiba': 'Parnaíba - PI',
-                    'parnaíba': 'Parnaíba - PI'
-                };
-                
-                // Tentar encontrar nome formal
-                const mappedCity = cityMapping[normalizedInput];
-                if (mappedCity) {
-                    correctCityName = mappedCity;
-                } else {
-                    // Buscar na lista de cidades disponíveis
-                    const foundCity = availableCities.find(city => {
-                        const normalizedCity = city.toLowerCase();
-                        return normalizedCity.includes(normalizedInput) ||
-                               normalizedInput.includes(normalizedCity) ||
-                               normalizedCity === normalizedInput;
-                    });
-                    if (foundCity) {
-                        correctCityName = foundCity;
-                        // Adicionar estado se não tiver
-                        if (!correctCityName.includes(' - ')) {
-                            if (correctCityName.toLowerCase().includes('são luís') || correctCityName.toLowerCase().includes('imperatriz')) {
-                                correctCityName += ' - MA';
-                            } else if (correctCityName.toLowerCase().includes('brasília')) {
-                                correctCityName += ' - DF';
-                            } else if (correctCityName.toLowerCase().includes('goiânia')) {
-                                correctCityName += ' - GO';
-                            } else if (correctCityName.toLowerCase().includes('barreiras')) {
-                                correctCityName += ' - BA';
-                            } else if (correctCityName.toLowerCase().includes('teresina') || correctCityName.toLowerCase().includes('parnaíba')) {
-                                correctCityName += ' - PI';
-                            } else {
-                                correctCityName += ' - TO';
-                            }
-                        }
-                    }
-                }
-                
-                // Buscar mensagem de cidade disponível
-                const availableMessage = activeMessages.find(msg => 
-                    msg.trigger_words.includes('CIDADE_DISPONIVEL')
-                );
-                
-                if (availableMessage) {
-                    const chat = await msg.getChat();
-                    await delay(2000);
-                    await chat.sendStateTyping();
-                    await delay(3000);
-                    
-                    let response = availableMessage.response_text;
-                    response = response.replace(/{CIDADE_NOME}/g, correctCityName);
-                    
-                    // Substituir {name} se necessário
-                    if (response.includes('{name}')) {
-                        const contact = await msg.getContact();
-                        const name = contact.pushname ? contact.pushname.split(" ")[0] : 'amigo';
-                        response = response.replace(/{name}/g, name);
-                    }
-                    
-                    if (client && instanceData.isReady) {
-                        await client.sendMessage(msg.from, response);
-                        await delay(1000);
-                        console.log(`✅ Resposta de cidade DISPONÍVEL enviada: ${correctCityName}`);
-                        
-                        // Salvar resposta no banco
-                        try {
-                            const phoneNumber = msg.from.replace('@c.us', '');
-                            const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
-                            
-                            if (dbContact) {
-                                const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
-                                
-                                await MessageModel.create({
-                                    manager_id: managerId,
-                                    chat_id: activeChat?.id || null,
-                                    contact_id: dbContact.id,
-                                    sender_type: 'bot',
-                                    content: response,
-                                    message_type: 'text'
-                                });
-                            }
-                        } catch (error) {
-                            console.error('❌ Erro ao salvar resposta de cidade disponível:', error);
-                        }
-                    }
-                    messageProcessed = true;
-                }
-            } else {
-                // Buscar mensagem de cidade não disponível
-                const notAvailableMessage = activeMessages.find(msg => 
-                    msg.trigger_words.includes('CIDADE_NAO_DISPONIVEL')
-                );
-                
-                if (notAvailableMessage) {
-                    const chat = await msg.getChat();
-                    await delay(2000);
-                    await chat.sendStateTyping();
-                    await delay(3000);
-                    
-                    let response = notAvailableMessage.response_text;
-                    response = response.replace(/{CIDADE_NOME}/g, userMessage);
-                    
-                    // Substituir {name} se necessário
-                    if (response.includes('{name}')) {
-                        const contact = await msg.getContact();
-                        const name = contact.pushname ? contact.pushname.split(" ")[0] : 'amigo';
-                        response = response.replace(/{name}/g, name);
-                    }
-                    
-                    if (client && instanceData.isReady) {
-                        await client.sendMessage(msg.from, response);
-                        await delay(1000);
-                        console.log(`❌ Resposta de cidade NÃO DISPONÍVEL enviada: ${userMessage}`);
-                        
-                        // Salvar resposta no banco
-                        try {
-                            const phoneNumber = msg.from.replace('@c.us', '');
-                            const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
-                            
-                            if (dbContact) {
-                                const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
-                                
-                                await MessageModel.create({
-                                    manager_id: managerId,
-                                    chat_id: activeChat?.id || null,
-                                    contact_id: dbContact.id,
-                                    sender_type: 'bot',
-                                    content: response,
-                                    message_type: 'text'
-                                });
-                            }
-                        } catch (error) {
-                            console.error('❌ Erro ao salvar resposta de cidade não disponível:', error);
-                        }
-                    }
-                    messageProcessed = true;
-                }
+            if (!sent) {
+                await OutboundMessageModel.markFailed(item.id, 'Arquivo do anexo não encontrado');
+                notify('failed', 'Arquivo do anexo não encontrado');
+                return;
             }
+        } else {
+            sent = await transport.sendText(item.to_chat_id, item.content || '');
         }
-        
-        if (messageProcessed) {
-            console.log(`🏙️ Mensagem de cidade processada para ${msg.from}`);
+
+        const whatsappMessageId = sent.id;
+        await OutboundMessageModel.markSent(item.id, whatsappMessageId);
+        if (item.message_id && whatsappMessageId) {
+            await MessageModel.setWhatsAppId(item.message_id, whatsappMessageId);
+        }
+        console.log(`📤 Mensagem ${item.id} da fila enviada para ${item.to_chat_id}`);
+        notify('sent');
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Erro ao enviar mensagem';
+        if (isFinalAttempt(item.attempts)) {
+            console.error(`❌ Mensagem ${item.id} da fila falhou após ${item.attempts} tentativa(s):`, reason);
+            await OutboundMessageModel.markFailed(item.id, reason);
+            notify('failed', reason);
         } else {
-            // 🚨 FALLBACK AUTOMÁTICO: Se não há correspondência, transferir para operador
-            console.log(`🔄 Nenhuma correspondência encontrada para "${msg.body}". Transferindo automaticamente para operador...`);
-            
-            const fallbackResponse = `👨‍💼 *Vou transferir você para nosso atendimento especializado!*
+            console.log(`🔁 Mensagem ${item.id} da fila falhou (tentativa ${item.attempts}) - nova tentativa em ${retryDelayMs(item.attempts) / 1000}s`);
+            await OutboundMessageModel.reschedule(item.id, reason, retryDelayMs(item.attempts));
+        }
+    }
+}
 
-🤔 Não consegui processar sua mensagem automaticamente, mas nossa equipe de atendimento poderá ajudá-lo melhor.
+// Enviar as mensagens da fila: uma por número a cada OUTBOUND_MIN_INTERVAL_MS, só pelos números conectados
+async function processOutboundQueue(): Promise<void> {
+    outboundQueueKicked = true;
+    if (outboundQueueRunning) {
+        return;
+    }
+    outboundQueueRunning = true;
 
-⏰ *Horário de Atendimento:*
-Segunda a Sexta: 6h às 22h
-Sábado: 6h às 18h  
-Domingo: 8h às 20h
+    try {
+        let sentAny = true;
+        while (sentAny || outboundQueueKicked) {
+            sentAny = false;
+            outboundQueueKicked = false;
+
+            for (const instance of whatsappInstances.values()) {
+                const lastSent = outboundLastSent.get(instance.instanceId) || 0;
+                if (!instance.isReady || Date.now() - lastSent < OUTBOUND_MIN_INTERVAL_MS) {
+                    continue;
+                }
 
-Em alguns instantes um operador entrará em contato! 
+                const item = await OutboundMessageModel.claimNext(instance.instanceId, instance.managerId);
+                if (!item) {
+                    continue;
+                }
 
-Obrigado pela preferência! 🚌✨`;
+                outboundLastSent.set(instance.instanceId, Date.now());
+                await deliverOutboundMessage(instance.transport, item);
+                sentAny = true;
+            }
 
-            // Enviar mensagem de fallback e transferir automaticamente
-            if (client && instanceData.isReady) {
-                await client.sendMessage(msg.from, fallbackResponse);
-                await delay(1000);
-                console.log(`🤖 Resposta de fallback enviada para ${msg.from}`);
-                
-                // Transferir automaticamente para atendimento humano
-                await transferToHuman(managerId, msg, fallbackResponse);
+            if (sentAny) {
+                await new Promise(res => setTimeout(res, OUTBOUND_MIN_INTERVAL_MS));
             }
         }
+    } catch (error) {
+        console.error('❌ Erro ao processar fila de envio:', error);
+    } finally {
+        outboundQueueRunning = false;
+    }
+}
+
+// Escolher as mensagens da resposta de uma mensagem automática (sequência e variações de texto)
+async function planAutoMessageResponse(autoMessage: AutoMessage): Promise<PlannedMessage[]> {
+    const steps = getResponseSteps(autoMessage);
+
+    // O contador do round_robin só avança quando há variações para alternar
+    const cursor = autoMessage.variant_mode === 'round_robin' && hasVariants(steps)
+        ? await AutoMessageModel.nextVariantCursor(autoMessage.id)
+        : 0;
+
+    return planResponse(steps, autoMessage.variant_mode, cursor);
+}
+
+// Enviar a resposta de uma mensagem automática: cada mensagem da sequência com o seu tempo
+// de "digitando..." e o anexo junto da última
+async function sendAutoMessageResponse(
+    managerId: number,
+    msg: InboundMessage,
+    autoMessage: AutoMessage,
+    transport: MessagingTransport,
+    instanceData: any,
+    delay: (ms: number) => Promise<unknown>,
+    overrides: Partial<TemplateContext> = {}
+): Promise<void> {
+    const planned = await planAutoMessageResponse(autoMessage);
+
+    // Sem texto: apenas o anexo
+    if (planned.length === 0) {
+        await sendBotMessage(managerId, msg, transport, instanceData, delay, '', autoMessage.attachment);
+        return;
+    }
+
+    for (const [index, step] of planned.entries()) {
+        const isLast = index === planned.length - 1;
+        const response = await renderBotResponse(managerId, msg, step.text, overrides);
+        await sendBotMessage(managerId, msg, transport, instanceData, delay, response, isLast ? autoMessage.attachment : null, step.typing_ms);
     }
 }
 
+// Renderizar uma resposta do bot com os dados do contato, da conversa, do destino e do horário de atendimento
+async function renderBotResponse(
+    managerId: number,
+    msg: InboundMessage,
+    template: string,
+    overrides: Partial<TemplateContext> = {}
+): Promise<string> {
+    if (!template || !template.includes('{')) {
+        return template;
+    }
+
+    const context: TemplateContext = { message: msg.body, ...overrides };
+
+    if (!context.contact && templateUses(template, ['name', 'contato.'])) {
+        const contactName = await msg.getContactName();
+        const phoneNumber = parseChatId(msg.from)?.id || msg.from;
+        const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
+        context.contact = {
+            name: contactName || dbContact?.name || null,
+            phone: phoneNumber,
+            tags: dbContact?.tags || null,
+            notes: dbContact?.notes || null,
+            fields: dbContact?.custom_fields || null
+        };
+    }
+
+    if (context.destination === undefined && templateUses(template, ['CIDADE_NOME'])) {
+        // Nome formal do destino do catálogo (ex: "sao luis" -> "São Luís - MA")
+        const destination = findDestination(await DestinationModel.findActiveByManagerId(managerId), msg.body);
+        context.destination = destination ? formatDestinationName(destination) : null;
+    }
+
+    // Horário de atendimento também define o fuso das variáveis de data
+    if (!context.businessHours) {
+        context.businessHours = resolveBusinessHours(await BusinessHoursModel.findByManagerId(managerId));
+    }
+
+    return renderTemplate(template, context);
+}
+
 // Função para transferir conversa para atendimento humano
-async function transferToHuman(managerId: number, msg: any, botResponse: string) {
+async function transferToHuman(
+    managerId: number,
+    msg: InboundMessage,
+    botResponse: string | PlannedMessage[] | null,
+    templateContext: Partial<TemplateContext> = {},
+    attachment: AutoMessageAttachment | null = null,
+    instanceId: number | null = null
+) {
     const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
     
     try {
-        const contact = await msg.getContact();
-        const contactName = contact.pushname || contact.number;
         const contactNumber = msg.from;
-        const phoneNumber = contactNumber.replace('@c.us', '');
+        const address = parseChatId(contactNumber);
+        const isGroup = !!address?.isGroup;
+        const phoneNumber = address ? address.id : contactNumber;
+        
+        // Em grupos, a conversa é do grupo (o contato da mensagem é o participante)
+        const contactName = isGroup ? (await msg.getChatName()) || phoneNumber : await msg.getContactName();
         
         // 🗄️ CRIAR/ENCONTRAR CONTATO NO BANCO
         const dbContact = await ContactModel.findOrCreate({
             manager_id: managerId,
+            instance_id: instanceId,
             phone_number: phoneNumber,
+            contact_type: isGroup ? 'group' : 'individual',
             name: contactName
         });
 
+        // ⏰ VERIFICAR HORÁRIO DE ATENDIMENTO DO GESTOR
+        const businessHours = resolveBusinessHours(await BusinessHoursModel.findByManagerId(managerId));
+        const isOpen = isWithinBusinessHours(businessHours);
+
+        if (!isOpen) {
+            console.log(`🌙 Fora do horário de atendimento do gestor ${managerId} (modo: ${businessHours.off_hours_mode})`);
+            botResponse = businessHours.off_hours_message;
+
+            // Modo "reply": apenas responder, sem abrir atendimento humano
+            if (businessHours.off_hours_mode === 'reply') {
+                const offHoursResponse = await renderBotResponse(managerId, msg, businessHours.off_hours_message, {
+                    ...templateContext,
+                    contact: { name: contactName, phone: phoneNumber, tags: dbContact.tags, notes: dbContact.notes, fields: dbContact.custom_fields },
+                    businessHours
+                });
+
+                await queueOutboundMessage({
+                    managerId,
+                    instanceId,
+                    contactId: dbContact.id,
+                    chatId: null,
+                    to: contactNumber,
+                    senderType: 'bot',
+                    text: offHoursResponse
+                });
+                return;
+            }
+        }
+
         // 🔍 VERIFICAR SE JÁ EXISTE CHAT HUMANO PARA ESTE CONTATO (QUALQUER STATUS)
         let humanChat;
         try {
@@ -965,8 +1469,9 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
                 humanChat = await HumanChatModel.create({
                     manager_id: managerId,
                     contact_id: dbContact.id,
+                    instance_id: instanceId,
                     status: 'pending',
-                    transfer_reason: 'Solicitação do cliente'
+                    transfer_reason: isOpen ? 'Solicitação do cliente' : 'Fora do horário de atendimento'
                 });
                 console.log(`💾 Novo chat humano criado no banco - ID: ${humanChat.id}`);
             }
@@ -976,6 +1481,7 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
             humanChat = await HumanChatModel.create({
                 manager_id: managerId,
                 contact_id: dbContact.id,
+                instance_id: instanceId,
                 status: 'pending',
                 transfer_reason: 'Solicitação do cliente'
             });
@@ -995,43 +1501,61 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
             console.error('❌ Erro ao vincular mensagens anteriores:', linkError);
         }
         
-        // Enviar mensagem do bot primeiro
-        const chat = await msg.getChat();
-        await delay(2000);
-        await chat.sendStateTyping();
-        await delay(2000);
-        
-        let response = botResponse;
-        if (response.includes('{name}')) {
-            const name = contactName ? contactName.split(" ")[0] : 'amigo';
-            response = response.replace(/{name}/g, name);
-        }
+        // Enviar mensagens do bot primeiro (handoff_only transfere sem mensagem própria)
+        const replies: PlannedMessage[] = typeof botResponse === 'string'
+            ? [{ text: botResponse, typing_ms: DEFAULT_TYPING_MS }]
+            : botResponse || [];
 
-        // Substituir outras variáveis se necessário
-        if (response.includes('{cidade_digitada}')) {
-            response = response.replace(/{cidade_digitada}/g, msg.body);
-        }
-        if (response.includes('{cidade_escolhida}')) {
-            response = response.replace(/{cidade_escolhida}/g, msg.body);
-        }
+        for (const reply of replies) {
+            await delay(2000);
+            const typingInstance = getWhatsAppInstance(managerId, instanceId);
+            if (typingInstance) {
+                try {
+                    await typingInstance.transport.sendTyping(msg.from);
+                } catch (error) {
+                    console.error('⚠️ Não foi possível mostrar "digitando...":', error);
+                }
+            }
+            await delay(reply.typing_ms);
         
-        const instance = whatsappInstances.get(managerId);
-        if (instance?.client && instance.isReady) {
-            await instance.client.sendMessage(contactNumber, response);
-            await delay(1000);
-            
-            // 🗄️ SALVAR MENSAGEM DE TRANSFERÊNCIA DO BOT
-            const transferMessage = await MessageModel.create({
-                manager_id: managerId,
-                chat_id: humanChat.id,
-                contact_id: dbContact.id,
-                sender_type: 'bot',
-                content: response,
-                message_type: 'text'
+            const response = await renderBotResponse(managerId, msg, reply.text, {
+                ...templateContext,
+                contact: { name: contactName, phone: phoneNumber, tags: dbContact.tags, notes: dbContact.notes, fields: dbContact.custom_fields },
+                businessHours
             });
-            
+        
+            // 🗄️ SALVAR MENSAGEM DE TRANSFERÊNCIA DO BOT (enviada pela fila)
+            const transferMessage = await queueOutboundMessage({
+                managerId,
+                instanceId,
+                contactId: dbContact.id,
+                chatId: humanChat.id,
+                to: contactNumber,
+                senderType: 'bot',
+                text: response
+            });
+            await delay(1000);
+
             console.log(`💾 Mensagem de transferência salva - ID: ${transferMessage.id}`);
         }
+
+        // Anexo da resposta automática (ex: tabela de preços) enviado antes de aguardar o operador
+        if (attachment && isOpen) {
+            try {
+                await queueOutboundMessage({
+                    managerId,
+                    instanceId,
+                    contactId: dbContact.id,
+                    chatId: humanChat.id,
+                    to: contactNumber,
+                    senderType: 'bot',
+                    text: '',
+                    attachment
+                });
+            } catch (error) {
+                console.error('❌ Erro ao enviar anexo na transferência:', error);
+            }
+        }
         
         // Notificar o dashboard sobre a nova solicitação (para o gestor específico)
         const eventData = {
@@ -1056,7 +1580,8 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
             type: 'new_conversation',
             title: '🔔 Nova Conversa Pendente',
             message: `${contactName} solicitou atendimento`,
-            priority: 'high',
+            // Fora do horário a conversa fica na fila sem alerta urgente
+            priority: isOpen ? 'high' : 'low',
             chatId: humanChat.id,
             customerName: contactName,
             customerPhone: phoneNumber,
@@ -1068,7 +1593,7 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
             type: 'new_pending_chat',
             title: '🔔 Nova Conversa Disponível',
             message: `${contactName} precisa de atendimento`,
-            priority: 'high',
+            priority: isOpen ? 'high' : 'low',
             chatId: humanChat.id,
             customerName: contactName,
             customerPhone: phoneNumber,
@@ -1094,56 +1619,6 @@ async function transferToHuman(managerId: number, msg: any, botResponse: string)
     }
 }
 
-// Função para detectar dados pessoais (Nome, Telefone, CPF, Data)
-function detectPersonalData(message: string): boolean {
-    const text = message.trim();
-    
-    // Padrões para detectar dados pessoais
-    const patterns = {
-        // Nome completo (duas ou mais palavras com primeira letra maiúscula)
-        name: /^[A-ZÀ-Ÿ][a-zà-ÿ]+\s+[A-ZÀ-Ÿ][a-zà-ÿ]+/,
-        
-        // CPF (vários formatos)
-        cpf: /(\d{3}\.?\d{3}\.?\d{3}-?\d{2})|(\d{11})/,
-        
-        // Data (vários formatos)
-        date: /((\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4}))|((\d{2,4})[\/\-](\d{1,2})[\/\-](\d{1,2}))/,
-        
-        // Telefone (vários formatos)
-        phone: /(\(?\d{2}\)?\s?)?\d{4,5}[\s\-]?\d{4}/,
-        
-        // E-mail
-        email: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/
-    };
-    
-    // Verificar se contém múltiplas linhas (dados organizados)
-    const hasMultipleLines = text.includes('\n') || text.split(/\s+/).length > 5;
-    
-    // Contar quantos padrões foram encontrados
-    let patternMatches = 0;
-    
-    for (const [key, pattern] of Object.entries(patterns)) {
-        if (pattern.test(text)) {
-            console.log(`📝 Padrão ${key} detectado: ${pattern.exec(text)?.[0]}`);
-            patternMatches++;
-        }
-    }
-    
-    // Detectar se parece ser dados pessoais:
-    // 1. Pelo menos 2 padrões diferentes OU
-    // 2. Múltiplas linhas com pelo menos 1 padrão OU
-    // 3. Mensagem longa com pelo menos 1 padrão
-    const isPersonalData = patternMatches >= 2 || 
-                          (hasMultipleLines && patternMatches >= 1) ||
-                          (text.length > 20 && patternMatches >= 1);
-    
-    if (isPersonalData) {
-        console.log(`✅ Dados pessoais detectados - Padrões: ${patternMatches}, Múltiplas linhas: ${hasMultipleLines}, Tamanho: ${text.length}`);
-    }
-    
-    return isPersonalData;
-}
-
 // ===== ROTAS DA API =====
 
 // Rotas de autenticação
@@ -1167,6 +1642,11 @@ app.use('/api/operators', operatorRoutes);
 // Rotas de gestores
 app.use('/api/managers', managerRoutes);
 
+// WhatsApp simulado: contatos de teste (apenas com MESSAGING_TRANSPORT=mock)
+if (MESSAGING_TRANSPORT === 'mock') {
+    app.use('/api/mock', mockRoutes);
+}
+
 // Rota de status do sistema
 app.get('/api/status', async (req, res) => {
     try {
@@ -1306,18 +1786,19 @@ io.on('connection', async (socket) => {
     // Evento para parar instância
     socket.on('stop_instance', async (data: { managerId: number; instanceId: number }) => {
         try {
-            const instance = whatsappInstances.get(data.managerId);
-            if (instance?.client) {
-                console.log(`⏹️  Parando instância para gestor ${data.managerId}...`);
-                instance.client.destroy();
-                whatsappInstances.delete(data.managerId);
+            const instance = whatsappInstances.get(data.instanceId);
+            if (instance?.transport && instance.managerId === data.managerId) {
+                console.log(`⏹️  Parando instância ${data.instanceId} do gestor ${data.managerId}...`);
+                await instance.transport.disconnect();
+                whatsappInstances.delete(data.instanceId);
                 
                 // Atualizar no banco
                 await WhatsAppInstanceModel.updateStatus(data.instanceId, 'disconnected');
                 
                 socket.emit('status', { 
                     connected: false, 
-                    message: 'WhatsApp desconectado' 
+                    message: 'WhatsApp desconectado',
+                    instanceId: data.instanceId
                 } as ConnectionStatus);
             }
         } catch (error) {
@@ -1364,81 +1845,56 @@ io.on('connection', async (socket) => {
                 managerId = authenticatedUser.manager_id;
             }
             
-            const instance = whatsappInstances.get(managerId);
-            
-            console.log(`🔍 Debug - Usuário autenticado ${authenticatedUser.id} (${authenticatedUser.name}):`);
-            console.log(`   - Papel: ${authenticatedUser.role}`);
-            console.log(`   - Manager ID: ${authenticatedUser.manager_id}`);
-            console.log(`   - Instância a usar: Manager ${managerId}`);
-            console.log(`   - Instância existe: ${!!instance}`);
-            console.log(`   - Cliente existe: ${!!instance?.client}`);
-            console.log(`   - isReady: ${instance?.isReady}`);
-            console.log(`   - Instâncias ativas:`, Array.from(whatsappInstances.keys()));
+            // Responder pelo mesmo número (instância) em que o cliente está conversando
+            const phoneNumber = parseChatId(data.chatId)?.id || data.chatId;
+            const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
+            const activeChat = dbContact ? await HumanChatModel.findActiveByContact(dbContact.id) : null;
+            const instanceId = activeChat?.instance_id || dbContact?.instance_id || null;
             
-            if (!instance?.client || !instance.isReady) {
-                socket.emit('operator_message_error', {
-                    error: `WhatsApp client não está disponível para o manager ${managerId}`
-                });
-                throw new Error(`WhatsApp client não está disponível para o manager ${managerId}`);
+            if (!dbContact) {
+                console.error(`❌ Contato não encontrado para telefone: ${phoneNumber}`);
+                socket.emit('operator_message_error', { error: 'Contato não encontrado' });
+                return;
             }
             
-            console.log(`📤 Enviando mensagem do operador para ${data.chatId} (Gestor: ${managerId}): ${data.message}`);
-            
-            // Garantir que o chatId está no formato correto
-            let targetChatId = data.chatId;
-            if (!targetChatId.includes('@')) {
-                targetChatId = targetChatId + '@c.us';
+            // Contato bloqueado ou descadastrado não recebe mensagens
+            const restriction = getContactRestriction(dbContact);
+            if (restriction) {
+                console.log(`🚫 Mensagem do operador para ${data.chatId} não enviada: ${restriction}`);
+                socket.emit('operator_message_error', { error: restriction });
+                return;
             }
             
-            const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-            await delay(1000);
+            console.log(`📤 Mensagem do operador para ${data.chatId} na fila de envio (Gestor: ${managerId}, instância ${instanceId ?? 'qualquer conectada'}): ${data.message}`);
             
             // Formatar mensagem com nome do operador
             const operatorName = data.operatorName || 'Operador';
-            const formattedMessage = `*${operatorName}:* ${data.message}`;
             
-            // Enviar mensagem
-            await instance.client.sendMessage(targetChatId, formattedMessage);
+            // 💾 SALVAR MENSAGEM DO OPERADOR E COLOCAR NA FILA (enviada mesmo se o WhatsApp estiver reconectando)
+            const savedMessage = await queueOutboundMessage({
+                managerId,
+                instanceId,
+                contactId: dbContact.id,
+                chatId: activeChat?.id || null,
+                // Garantir que o chatId está no formato correto (grupo ou contato)
+                to: formatChatId(phoneNumber, dbContact.contact_type === 'group'),
+                senderType: 'operator',
+                senderId: authenticatedUser.id,
+                text: `*${operatorName}:* ${data.message}`,
+                historyContent: data.message // Mensagem sem o prefixo "Operador:"
+            });
             
-            console.log(`✅ Mensagem do operador enviada com sucesso`);
+            console.log(`💾 Mensagem do operador salva no banco - ID: ${savedMessage.id}`);
             
-            // 💾 SALVAR MENSAGEM DO OPERADOR NO BANCO DE DADOS
-            try {
-                // Buscar contato pelo número de telefone
-                const phoneNumber = data.chatId.replace('@c.us', '');
-                const dbContact = await ContactModel.findByPhoneAndManager(phoneNumber, managerId);
-                
-                if (dbContact) {
-                    // Buscar chat humano ativo
-                    const activeChat = await HumanChatModel.findActiveByContact(dbContact.id);
-                    
-                    // Salvar mensagem do operador no banco
-                    const savedMessage = await MessageModel.create({
-                        manager_id: managerId,
-                        chat_id: activeChat?.id || null,
-                        contact_id: dbContact.id,
-                        sender_type: 'operator',
-                        sender_id: authenticatedUser.id,
-                        content: data.message, // Mensagem sem o prefixo "Operador:"
-                        message_type: 'text'
-                    });
-                    
-                    console.log(`💾 Mensagem do operador salva no banco - ID: ${savedMessage.id}`);
-                    
-                    // Emitir mensagem para o painel do operador
-                    io.to(`manager_${managerId}`).emit('operator_message_saved', {
-                        chatId: data.chatId,
-                        message: data.message,
-                        messageId: savedMessage.id,
-                        timestamp: new Date(),
-                        operatorName: data.operatorName || 'Operador'
-                    });
-                } else {
-                    console.error(`❌ Contato não encontrado para telefone: ${phoneNumber}`);
-                }
-            } catch (dbError) {
-                console.error('❌ Erro ao salvar mensagem do operador no banco:', dbError);
-            }
+            // Emitir mensagem para o painel do operador (status acompanhado por message_status)
+            io.to(`manager_${managerId}`).emit('operator_message_saved', {
+                chatId: data.chatId,
+                message: data.message,
+                messageId: savedMessage.id,
+                status: 'pending',
+                timestamp: new Date(),
+                operatorName
+            });
             
             // Confirmar envio
             socket.emit('message_sent_confirmation', {
@@ -1454,6 +1910,45 @@ io.on('connection', async (socket) => {
         }
     });
 
+    // WhatsApp simulado: mensagem de um contato de teste (mesmos dados de POST /api/mock/instances/:id/messages)
+    socket.on('mock_inbound', async (data: any) => {
+        try {
+            if (MESSAGING_TRANSPORT !== 'mock') {
+                socket.emit('mock_inbound_error', { error: 'WhatsApp simulado desativado (MESSAGING_TRANSPORT=mock)' });
+                return;
+            }
+
+            if (!authenticatedUser) {
+                socket.emit('mock_inbound_error', { error: 'Socket não autenticado - faça login novamente' });
+                return;
+            }
+
+            const instanceId = parseInt(data?.instanceId);
+            const instance = whatsappInstances.get(instanceId);
+            const managerId = authenticatedUser.role === 'operator' ? authenticatedUser.manager_id : authenticatedUser.id;
+            if (!instance || (authenticatedUser.role !== 'admin' && instance.managerId !== managerId)) {
+                socket.emit('mock_inbound_error', { error: 'Instância não encontrada' });
+                return;
+            }
+
+            const errors = validateMockInbound(data);
+            const transport = getMockTransport(instanceId);
+            if (errors.length > 0 || !transport?.getOwnId()) {
+                socket.emit('mock_inbound_error', {
+                    error: errors.length > 0 ? 'Mensagem simulada inválida' : 'Instância simulada não está conectada',
+                    details: errors
+                });
+                return;
+            }
+
+            const message = transport.receive(data);
+            socket.emit('mock_inbound_accepted', { instanceId, messageId: message.id });
+        } catch (error) {
+            console.error('Erro ao simular mensagem recebida:', error);
+            socket.emit('mock_inbound_error', { error: 'Erro ao simular mensagem' });
+        }
+    });
+
     socket.on('disconnect', () => {
         console.log('❌ Cliente desconectado do socket:', socket.id);
     });
@@ -1481,13 +1976,13 @@ process.on('SIGTERM', async () => {
     console.log('🔄 Encerrando servidor...');
     
     // Fechar todas as instâncias do WhatsApp
-    for (const [managerId, instance] of whatsappInstances) {
+    for (const [instanceId, instance] of whatsappInstances) {
         try {
-            if (instance.client) {
-                await instance.client.destroy();
+            if (instance.transport) {
+                await instance.transport.disconnect();
             }
         } catch (error) {
-            console.error(`Erro ao fechar instância do gestor ${managerId}:`, error);
+            console.error(`Erro ao fechar instância ${instanceId} do gestor ${instance.managerId}:`, error);
         }
     }
     
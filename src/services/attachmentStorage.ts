@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { AttachmentType } from '../models/MessageProject';
+
+// Pasta dos anexos enviados pelo bot (fora de client/dist, servidos apenas pela rota autenticada)
+export const ATTACHMENTS_DIR = path.resolve(process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads'), 'attachments');
+
+// Limite do WhatsApp para mídia (documentos aceitam mais, mas mantemos um teto único)
+export const MAX_ATTACHMENT_SIZE = parseInt(process.env.MAX_ATTACHMENT_SIZE_MB || '16') * 1024 * 1024;
+
+export const ATTACHMENT_TYPES: AttachmentType[] = ['image', 'document', 'audio', 'video', 'location'];
+
+// Tipos de arquivo aceitos por tipo de anexo
+const ALLOWED_MIME_TYPES: Record<Exclude<AttachmentType, 'location'>, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  document: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'text/csv'
+  ],
+  audio: ['audio/mpeg', 'audio/ogg', 'audio/mp4', 'audio/aac', 'audio/wav'],
+  video: ['video/mp4', 'video/3gpp']
+};
+
+// Nome gerado: "<gestor>_<timestamp>_<aleatório>.<ext>" (o prefixo identifica o dono na rota de download)
+const FILE_NAME_PATTERN = /^(\d+)_\d+_[a-f0-9]{16}(\.[a-z0-9]{1,8})?$/;
+
+export const isAllowedMimeType = (type: AttachmentType, mimeType: string): boolean =>
+  type !== 'location' && ALLOWED_MIME_TYPES[type].includes((mimeType || '').toLowerCase());
+
+// Dono do arquivo (gestor) a partir do nome gerado; null se o nome não for de um anexo
+export function getAttachmentOwner(fileName: string): number | null {
+  const match = FILE_NAME_PATTERN.exec(fileName || '');
+  return match ? parseInt(match[1]) : null;
+}
+
+// Caminho absoluto do anexo (null para nomes inválidos, evitando acesso fora da pasta)
+export function getAttachmentPath(fileName: string): string | null {
+  if (getAttachmentOwner(fileName) === null) {
+    return null;
+  }
+  return path.join(ATTACHMENTS_DIR, fileName);
+}
+
+export const getAttachmentUrl = (fileName: string): string => `/api/messages/attachments/${fileName}`;
+
+// Decodificar conteúdo em base64 (aceita data URL "data:image/png;base64,...")
+export function decodeBase64File(data: string): Buffer | null {
+  if (typeof data !== 'string' || data.trim() === '') {
+    return null;
+  }
+  const base64 = data.includes(',') && data.startsWith('data:') ? data.slice(data.indexOf(',') + 1) : data;
+  const buffer = Buffer.from(base64, 'base64');
+  return buffer.length > 0 ? buffer : null;
+}
+
+// Extensão do nome original só com letras e números (ex: ".pdf"); vazia quando não sobra nada
+// depois do ponto ("foto." ou "doc.é"), para o nome gerado continuar válido
+export function cleanFileExtension(fileName: string | null | undefined): string {
+  const extension = path.extname(fileName || '').toLowerCase().replace(/[^.a-z0-9]/g, '').slice(0, 9);
+  return extension.length > 1 ? extension : '';
+}
+
+// Gravar o arquivo na pasta de anexos e retornar o nome gerado
+export async function saveAttachmentFile(managerId: number, originalName: string, content: Buffer): Promise<string> {
+  await fs.promises.mkdir(ATTACHMENTS_DIR, { recursive: true });
+
+  const extension = cleanFileExtension(originalName);
+  const fileName = `${managerId}_${Date.now()}_${crypto.randomBytes(8).toString('hex')}${extension}`;
+  await fs.promises.writeFile(path.join(ATTACHMENTS_DIR, fileName), content);
+
+  return fileName;
+}
+
+// Ler o anexo em base64 (para enviar pelo WhatsApp)
+export async function readAttachmentBase64(fileName: string): Promise<string | null> {
+  const filePath = getAttachmentPath(fileName);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    return (await fs.promises.readFile(filePath)).toString('base64');
+  } catch (error) {
+    console.error(`❌ Anexo não encontrado: ${fileName}`);
+    return null;
+  }
+}
+
+// Remover o arquivo de um anexo substituído ou excluído
+export async function deleteAttachmentFile(fileName: string | undefined): Promise<void> {
+  const filePath = fileName ? getAttachmentPath(fileName) : null;
+  if (!filePath) {
+    return;
+  }
+  await fs.promises.unlink(filePath).catch(() => undefined);
+}
@@ -0,0 +1,333 @@
+import { AutoMessage, MessageProject } from '../models/MessageProject';
+import { Destination } from '../models/Destination';
+import { DEFAULT_TIMEZONE } from './businessHours';
+import { runFlowStep } from './flowEngine';
+import { BUILTIN_FORMS, runFormStep, clearFormAnswers, getFieldQuestion, formatFormAnswers } from './formCollector';
+import { findMatchingMessage, findHandoffKeyword, messageMatches, normalizeForMatching } from './triggerMatcher';
+import { findDestination, formatDestinationName } from './destinationMatcher';
+import { TemplateContext } from './templateRenderer';
+import { IntentClassifierData, IntentPrediction, classifyIntent } from './intentClassifier';
+
+// Mensagem enviada ao transferir para atendimento humano quando nenhuma outra foi configurada
+export const DEFAULT_HANDOFF_MESSAGE = 'Transferindo você para um atendente humano. Por favor, aguarde...';
+
+// Resposta quando nada corresponde à mensagem (a conversa é transferida para um operador)
+export const FALLBACK_HANDOFF_MESSAGE = `👨‍💼 *Vou transferir você para nosso atendimento especializado!*
+
+🤔 Não consegui processar sua mensagem automaticamente, mas nossa equipe de atendimento poderá ajudá-lo melhor.
+
+⏰ *Horário de Atendimento:*
+{HORARIO_ATENDIMENTO}
+
+Em alguns instantes um operador entrará em contato!
+
+Obrigado pela preferência! 🚌✨`;
+
+// O que decidiu a resposta do bot
+export type BotDecisionKind =
+  | 'handoff_keyword'   // Palavra-chave de atendimento humano do projeto
+  | 'form'              // Resposta a um formulário pronto em andamento
+  | 'flow'              // Fluxo visual do projeto
+  | 'auto_message'      // Mensagem automática com gatilho específico
+  | 'wildcard'          // Mensagem automática com gatilho "*"
+  | 'city_origin'       // Cliente digitou a cidade de origem
+  | 'city_available'    // Destino do catálogo (CIDADE_DISPONIVEL)
+  | 'city_unavailable'  // Cidade fora do catálogo (CIDADE_NAO_DISPONIVEL)
+  | 'intent'            // Classificador de intenção escolheu a mensagem automática (nenhum gatilho correspondeu)
+  | 'fallback';         // Nada correspondeu: transferir para operador
+
+// Posição da conversa usada pelo motor (fluxo, formulário ativo e variáveis)
+export interface BotConversationState {
+  current_node_id: string | null;
+  active_form: string | null;
+  variables: Record<string, string>;
+}
+
+// Resposta a enviar: texto (template) ou a resposta completa de uma mensagem automática
+export interface BotReply {
+  text: string;
+  autoMessage?: AutoMessage;          // Sequência, variações e anexo da mensagem automática
+  context?: Partial<TemplateContext>; // Dados extras para as variáveis (destino, variáveis da conversa)
+}
+
+// Transferência para atendimento humano
+export interface BotHandoff {
+  message: string | null;             // Resposta enviada na transferência (null = sem mensagem própria)
+  autoMessage?: AutoMessage;          // reply_and_handoff: a resposta da mensagem acompanha a transferência
+  context?: Partial<TemplateContext>;
+}
+
+// Mensagem automática avaliada contra o texto recebido (rastreamento da decisão)
+export interface BotCandidate {
+  message_id: number;
+  trigger_words: string[];
+  match_mode: string;
+  matched: boolean;
+}
+
+export interface BotDecision {
+  kind: BotDecisionKind;
+  trace: string[];                    // Decisões tomadas, na ordem (logs e simulação)
+  normalizedText: string;             // Texto como é comparado com os gatilhos
+  candidates: BotCandidate[];         // Mensagens automáticas avaliadas (vazio se a decisão veio antes delas)
+  destination: string | null;         // Cidade do catálogo reconhecida na mensagem
+  handoffReason: string | null;       // Por que a conversa foi transferida para um operador
+  replies: BotReply[];
+  handoff: BotHandoff | null;
+  autoMessage: AutoMessage | null;    // Mensagem automática escolhida, se houver
+  intent: IntentPrediction | null;    // Palpite do classificador de intenção (quando foi consultado)
+  state: BotConversationState;        // Estado da conversa após esta mensagem
+  stateChanged: boolean;              // O estado precisa ser salvo
+  formAnswers: Record<string, string> | null; // Dados coletados a salvar no contato
+}
+
+export interface BotEngineInput {
+  text: string;
+  project: Pick<MessageProject, 'handoff_keywords' | 'flow_data'>;
+  messages: AutoMessage[];
+  destinations: Destination[];
+  state: BotConversationState | null;
+  now?: Date;
+  timezone?: string;
+  intent?: { model: IntentClassifierData; threshold: number } | null; // Classificador do projeto, se ativado
+}
+
+export const emptyConversationState = (): BotConversationState =>
+  ({ current_node_id: null, active_form: null, variables: {} });
+
+const isWildcard = (message: AutoMessage): boolean => message.trigger_words.includes('*');
+
+const isHandoffAction = (message: AutoMessage): boolean =>
+  message.action_type === 'reply_and_handoff' || message.action_type === 'handoff_only';
+
+// Resposta da mensagem automática escolhida (transferindo quando a ação pede)
+const answerWithMessage = (decision: BotDecision, message: AutoMessage, kind: BotDecisionKind): BotDecision => {
+  decision.kind = kind;
+  decision.autoMessage = message;
+
+  if (isHandoffAction(message)) {
+    const sendsReply = message.action_type === 'reply_and_handoff';
+    decision.handoff = { message: sendsReply ? message.response_text : null, autoMessage: sendsReply ? message : undefined };
+    decision.handoffReason = `Mensagem automática ${message.id} tem a ação ${message.action_type}`;
+    decision.trace.push(`Mensagem ${message.id} (${message.action_type}) - transferindo para operador`);
+  } else {
+    decision.replies.push({ text: message.response_text, autoMessage: message });
+  }
+
+  return decision;
+};
+
+// Decidir a resposta do bot para uma mensagem recebida, sem enviar nada nem acessar o banco.
+// Ordem: palavra-chave de atendimento → formulário ativo → fluxo visual → mensagens automáticas → cidades
+// → classificador de intenção → fallback
+export function decideBotResponse(input: BotEngineInput): BotDecision {
+  const { text, project, destinations } = input;
+  const messages = input.messages.filter(message => message.is_active);
+  const timezone = input.timezone || DEFAULT_TIMEZONE;
+
+  const decision: BotDecision = {
+    kind: 'fallback',
+    trace: [],
+    normalizedText: normalizeForMatching(text),
+    candidates: [],
+    destination: null,
+    handoffReason: null,
+    replies: [],
+    handoff: null,
+    autoMessage: null,
+    intent: null,
+    state: { ...emptyConversationState(), ...input.state },
+    stateChanged: false,
+    formAnswers: null
+  };
+
+  // Palavras-chave de atendimento humano do projeto valem em qualquer ponto da conversa
+  const handoffKeyword = findHandoffKeyword(project.handoff_keywords, text);
+  if (handoffKeyword) {
+    decision.kind = 'handoff_keyword';
+    decision.handoff = { message: DEFAULT_HANDOFF_MESSAGE };
+    decision.handoffReason = `Palavra-chave de atendimento "${handoffKeyword}"`;
+    decision.trace.push(`Palavra-chave de atendimento "${handoffKeyword}" detectada`);
+    return decision;
+  }
+
+  const specificMessages = messages.filter(message => !isWildcard(message));
+
+  // Formulário pronto em preenchimento (ex: dados do passageiro) recebe a resposta antes do fluxo
+  const formId = decision.state.active_form;
+  const fields = formId ? BUILTIN_FORMS[formId] : undefined;
+  if (formId && fields) {
+    const variables = decision.state.variables;
+    const step = runFormStep(fields, variables, text, input.now || new Date(), timezone);
+
+    // Resposta inválida que é uma opção do menu (ex: "3" para falar com operador) interrompe o formulário
+    const leavesForm = step.cancelled || step.completed || (step.invalid && !!findMatchingMessage(specificMessages, text));
+
+    decision.state = {
+      ...decision.state,
+      active_form: leavesForm ? null : formId,
+      variables: leavesForm && !step.completed ? clearFormAnswers(fields, variables) : step.answers
+    };
+    decision.stateChanged = true;
+
+    if (step.invalid && leavesForm) {
+      decision.trace.push(`Formulário "${formId}" interrompido - a mensagem corresponde a uma mensagem automática`);
+    } else {
+      decision.kind = 'form';
+      decision.replies = step.replies.map(reply => ({ text: reply }));
+      decision.trace.push(
+        step.cancelled ? `Formulário "${formId}" cancelado`
+          : step.invalid ? `Formulário "${formId}": resposta inválida, pergunta repetida`
+            : step.completed ? `Formulário "${formId}" concluído`
+              : `Formulário "${formId}": resposta aceita`
+      );
+
+      if (step.completed) {
+        decision.formAnswers = Object.fromEntries(fields.map(field => [field.key, step.answers[field.key]]));
+        decision.handoff = {
+          message: buildFormSummary(formatFormAnswers(fields, step.answers), step.answers.destino),
+          context: { variables: step.answers }
+        };
+        decision.handoffReason = `Formulário "${formId}" concluído`;
+      }
+      return decision;
+    }
+  }
+
+  // Projetos com fluxo visual salvo são executados pelo motor de fluxo
+  if (project.flow_data?.nodes?.length) {
+    const currentNodeId = decision.state.current_node_id;
+    const result = runFlowStep(project.flow_data, currentNodeId, text, decision.state.variables);
+
+    if (result.handled) {
+      decision.kind = 'flow';
+      decision.state = { ...decision.state, current_node_id: result.nextNodeId, variables: result.variables };
+      decision.stateChanged = true;
+      decision.replies = result.replies.map(reply => ({ text: reply, context: { variables: result.variables } }));
+      decision.formAnswers = result.formAnswers;
+      if (result.handoff) {
+        decision.handoff = { message: result.handoffMessage || DEFAULT_HANDOFF_MESSAGE, context: { variables: result.variables } };
+        decision.handoffReason = `Fluxo chegou ao nó de atendimento humano "${result.visitedNodeIds[result.visitedNodeIds.length - 1]}"`;
+      }
+      decision.trace.push(`Fluxo: ${currentNodeId || 'início'} → ${result.visitedNodeIds.join(' → ')}`);
+      return decision;
+    }
+
+    decision.trace.push(`Fluxo não tratou a mensagem (nó atual: ${currentNodeId || 'início'})`);
+  }
+
+  decision.candidates = specificMessages.map(message => ({
+    message_id: message.id,
+    trigger_words: message.trigger_words,
+    match_mode: message.match_mode || 'exact',
+    matched: messageMatches(message, text)
+  }));
+
+  // Template específico correspondente (conforme o match_mode de cada um; exatos têm prioridade)
+  const matchedMessage = findMatchingMessage(specificMessages, text);
+  if (matchedMessage) {
+    decision.trace.push(`Mensagem automática ${matchedMessage.id} corresponde (${matchedMessage.match_mode || 'exact'})`);
+    return answerWithMessage(decision, matchedMessage, 'auto_message');
+  }
+
+  // 🧠 Classificador de intenção (opcional): frase livre parecida com os gatilhos e o histórico de uma mensagem.
+  // Vem antes do "*" e das cidades, que aceitam quase qualquer texto; abaixo do limite de confiança, seguem valendo
+  if (input.intent) {
+    const prediction = classifyIntent(input.intent.model, text, specificMessages.map(message => message.id));
+    decision.intent = prediction;
+
+    const intentMessage = prediction && prediction.confidence >= input.intent.threshold
+      ? specificMessages.find(message => message.id === prediction.message_id)
+      : undefined;
+    if (intentMessage) {
+      decision.trace.push(`Classificador de intenção: mensagem ${intentMessage.id} (confiança ${prediction!.confidence})`);
+      return answerWithMessage(decision, intentMessage, 'intent');
+    }
+
+    decision.trace.push(prediction
+      ? `Classificador de intenção: mensagem ${prediction.message_id} com confiança ${prediction.confidence}, abaixo do limite ${input.intent.threshold}`
+      : 'Classificador de intenção: nenhuma palavra conhecida');
+  }
+
+  const wildcardMessage = messages.find(isWildcard);
+  if (wildcardMessage) {
+    decision.trace.push(`Mensagem automática ${wildcardMessage.id} com gatilho "*"`);
+    return answerWithMessage(decision, wildcardMessage, 'wildcard');
+  }
+
+  // 🏙️ Cidades (vendas de passagem): mensagens com mais de 2 caracteres que não são apenas números
+  const userMessage = text.trim();
+  if (userMessage.length > 2 && !/^\d+$/.test(userMessage)) {
+    const destination = findDestination(destinations, userMessage);
+
+    decision.destination = destination ? formatDestinationName(destination) : null;
+
+    // Cidade de origem (ex: Palmas) não é destino
+    if (destination?.is_origin) {
+      const examples = destinations.filter(item => !item.is_origin).slice(0, 3).map(item => item.name).join(', ');
+      decision.kind = 'city_origin';
+      decision.replies.push({
+        text: `🏙️ ${destination.name} é nossa cidade de *origem*! 🚌\n\nPara onde você gostaria de viajar saindo de ${destination.name}?\n\nDigite o nome da cidade de *destino* que você deseja! 😊${examples ? `\n\n*Exemplo:* ${examples}, etc.` : ''}`
+      });
+      decision.trace.push(`"${userMessage}" é a cidade de origem (${destination.name})`);
+      return decision;
+    }
+
+    if (destination) {
+      const availableMessage = messages.find(message => message.trigger_words.includes('CIDADE_DISPONIVEL'));
+      if (availableMessage) {
+        // Nome formal da cidade (ex: "São Luís - MA")
+        const cityName = formatDestinationName(destination);
+        decision.kind = 'city_available';
+        decision.autoMessage = availableMessage;
+        decision.replies.push({ text: availableMessage.response_text, autoMessage: availableMessage, context: { destination: cityName } });
+        decision.trace.push(`Destino disponível: ${cityName}`);
+
+        // Coletar os dados do passageiro campo a campo (com validação) antes de transferir
+        const passengerFields = BUILTIN_FORMS.passageiro;
+        decision.state = {
+          ...decision.state,
+          active_form: 'passageiro',
+          variables: { ...clearFormAnswers(passengerFields, decision.state.variables), destino: cityName }
+        };
+        decision.stateChanged = true;
+        decision.replies.push({ text: getFieldQuestion(passengerFields[0]) });
+        decision.trace.push('Formulário "passageiro" iniciado');
+        return decision;
+      }
+      decision.trace.push(`Destino ${destination.name} encontrado, mas não há mensagem CIDADE_DISPONIVEL`);
+    } else if (destinations.length > 0) {
+      // Cidade fora do catálogo (só quando o gestor tem catálogo cadastrado): {CIDADE_NOME} mostra o que o cliente digitou
+      const notAvailableMessage = messages.find(message => message.trigger_words.includes('CIDADE_NAO_DISPONIVEL'));
+      if (notAvailableMessage) {
+        decision.kind = 'city_unavailable';
+        decision.autoMessage = notAvailableMessage;
+        decision.replies.push({ text: notAvailableMessage.response_text, autoMessage: notAvailableMessage, context: { destination: null } });
+        decision.trace.push(`"${userMessage}" não está no catálogo de destinos`);
+        return decision;
+      }
+    }
+  }
+
+  // 🚨 Nenhuma correspondência: transferir automaticamente para operador
+  decision.kind = 'fallback';
+  decision.handoff = { message: FALLBACK_HANDOFF_MESSAGE };
+  decision.handoffReason = 'Nenhuma regra correspondeu à mensagem';
+  decision.trace.push('Nenhuma correspondência - transferindo para operador');
+  return decision;
+}
+
+// Mensagem de transferência ao concluir o formulário do passageiro
+function buildFormSummary(answers: string, destination?: string): string {
+  return `📋 *DADOS RECEBIDOS*
+
+Perfeito! Confira suas informações:
+
+${destination ? `*Destino:* ${destination}\n` : ''}${answers}
+
+🤝 Vou transferir você para um de nossos operadores especializados em vendas para finalizar sua compra e processar o pagamento.
+
+⏰ *Em alguns instantes um operador entrará em contato!*
+
+Aguarde um momento... 🚌✨`;
+}
@@ -0,0 +1,185 @@
+import { AutoMessage, AutoMessageAttachment, MessageProject } from '../models/MessageProject';
+import { Destination } from '../models/Destination';
+import { ResolvedBusinessHours, isWithinBusinessHours } from './businessHours';
+import { BotConversationState, BotDecisionKind, BotEngineInput, BotReply, decideBotResponse, emptyConversationState } from './botEngine';
+import { findDestination, formatDestinationName } from './destinationMatcher';
+import { DEFAULT_TYPING_MS, getResponseSteps, hasVariants, planResponse } from './responseSequence';
+import { TemplateContext, renderTemplate } from './templateRenderer';
+
+// Estado de uma conversa simulada (devolvido ao cliente para continuar a simulação)
+export interface SimulationState extends BotConversationState {
+  human_chat: boolean;                    // Conversa já transferida: o bot não responde mais
+  contact_fields: Record<string, string>; // Dados salvos no contato pelos formulários
+  variant_cursors: Record<string, number>; // Contadores do round_robin (sem alterar o banco)
+}
+
+// Mensagem que o bot enviaria
+export interface SimulatedReply {
+  text: string;
+  typing_ms: number;
+  attachment: AutoMessageAttachment | null;
+  auto_message_id: number | null;
+}
+
+// Resultado de uma mensagem recebida na simulação
+export interface SimulatedTurn {
+  input: string;
+  kind: BotDecisionKind | 'human_chat';
+  trace: string[];
+  auto_message_id: number | null;
+  replies: SimulatedReply[];
+  handoff: {
+    off_hours: boolean;
+    mode: 'transfer' | 'queue' | 'reply'; // transfer = horário normal; queue/reply = off_hours_mode do gestor
+  } | null;
+  form_answers: Record<string, string> | null;
+}
+
+export interface SimulationInput {
+  project: Pick<MessageProject, 'handoff_keywords' | 'flow_data'>;
+  messages: AutoMessage[];
+  destinations: Destination[];
+  businessHours: ResolvedBusinessHours;
+  contact: { name: string | null; phone: string | null };
+  inputs: string[];
+  state?: Partial<SimulationState> | null;
+  now?: Date;
+  intent?: BotEngineInput['intent'];
+}
+
+export const emptySimulationState = (): SimulationState => ({
+  ...emptyConversationState(),
+  human_chat: false,
+  contact_fields: {},
+  variant_cursors: {}
+});
+
+// Simular uma sequência de mensagens recebidas com o mesmo motor usado no WhatsApp (sem enviar nada)
+export function simulateConversation(input: SimulationInput): { turns: SimulatedTurn[]; state: SimulationState } {
+  const state: SimulationState = { ...emptySimulationState(), ...input.state };
+  const now = input.now || new Date();
+  const turns: SimulatedTurn[] = [];
+
+  // Renderizar como o renderBotResponse do servidor (destino do catálogo quando não informado)
+  const render = (text: string, message: string, overrides: Partial<TemplateContext> = {}): string => {
+    const context: TemplateContext = {
+      message,
+      contact: { ...input.contact, fields: state.contact_fields },
+      businessHours: input.businessHours,
+      now,
+      ...overrides
+    };
+    if (context.destination === undefined) {
+      const destination = findDestination(input.destinations, message);
+      context.destination = destination ? formatDestinationName(destination) : null;
+    }
+    return renderTemplate(text, context);
+  };
+
+  // Mensagens de uma mensagem automática (sequência e variações); o round_robin avança só na simulação
+  const planMessage = (message: AutoMessage, text: string, overrides?: Partial<TemplateContext>): SimulatedReply[] => {
+    const steps = getResponseSteps(message);
+    const key = String(message.id);
+    let cursor = 0;
+    if (message.variant_mode === 'round_robin' && hasVariants(steps)) {
+      cursor = state.variant_cursors[key] ?? message.variant_cursor ?? 0;
+      state.variant_cursors[key] = cursor + 1;
+    }
+
+    const planned = planResponse(steps, message.variant_mode, cursor);
+    if (planned.length === 0) {
+      return message.attachment ? [{ text: '', typing_ms: DEFAULT_TYPING_MS, attachment: message.attachment, auto_message_id: message.id }] : [];
+    }
+    return planned.map((step, index) => ({
+      text: render(step.text, text, overrides),
+      typing_ms: step.typing_ms,
+      attachment: index === planned.length - 1 ? message.attachment : null,
+      auto_message_id: message.id
+    }));
+  };
+
+  const toReplies = (reply: BotReply, text: string): SimulatedReply[] =>
+    reply.autoMessage
+      ? planMessage(reply.autoMessage, text, reply.context)
+      : [{ text: render(reply.text, text, reply.context), typing_ms: DEFAULT_TYPING_MS, attachment: null, auto_message_id: null }];
+
+  for (const text of input.inputs) {
+    // Com atendimento humano aberto o bot fica desativado (como no servidor)
+    if (state.human_chat) {
+      turns.push({
+        input: text,
+        kind: 'human_chat',
+        trace: ['Atendimento humano ativo - mensagem encaminhada ao operador, o bot não responde'],
+        auto_message_id: null,
+        replies: [],
+        handoff: null,
+        form_answers: null
+      });
+      continue;
+    }
+
+    const decision = decideBotResponse({
+      text,
+      project: input.project,
+      messages: input.messages,
+      destinations: input.destinations,
+      state,
+      now,
+      timezone: input.businessHours.timezone,
+      intent: input.intent
+    });
+
+    state.current_node_id = decision.state.current_node_id;
+    state.active_form = decision.state.active_form;
+    state.variables = decision.state.variables;
+    if (decision.formAnswers) {
+      state.contact_fields = { ...state.contact_fields, ...decision.formAnswers };
+    }
+
+    const turn: SimulatedTurn = {
+      input: text,
+      kind: decision.kind,
+      trace: [...decision.trace],
+      auto_message_id: decision.autoMessage?.id ?? null,
+      replies: decision.replies.flatMap(reply => toReplies(reply, text)),
+      handoff: null,
+      form_answers: decision.formAnswers
+    };
+
+    // Transferência: mesmas regras de horário de atendimento do transferToHuman
+    if (decision.handoff) {
+      const isOpen = isWithinBusinessHours(input.businessHours, now);
+      const mode = isOpen ? 'transfer' : input.businessHours.off_hours_mode;
+      turn.handoff = { off_hours: !isOpen, mode };
+
+      const { autoMessage, context } = decision.handoff;
+      if (!isOpen) {
+        turn.trace.push(`Fora do horário de atendimento (modo: ${mode})`);
+        turn.replies.push({
+          text: render(input.businessHours.off_hours_message, text, context),
+          typing_ms: DEFAULT_TYPING_MS,
+          attachment: null,
+          auto_message_id: null
+        });
+      } else if (autoMessage) {
+        // Na transferência o anexo vai depois dos textos, em mensagem separada
+        turn.replies.push(...planMessage(autoMessage, text, context).filter(reply => reply.text).map(reply => ({ ...reply, attachment: null })));
+        if (autoMessage.attachment) {
+          turn.replies.push({ text: '', typing_ms: 0, attachment: autoMessage.attachment, auto_message_id: autoMessage.id });
+        }
+      } else if (decision.handoff.message) {
+        turn.replies.push({ text: render(decision.handoff.message, text, context), typing_ms: DEFAULT_TYPING_MS, attachment: null, auto_message_id: null });
+      }
+
+      // Modo "reply" apenas responde, sem abrir atendimento humano
+      if (mode !== 'reply') {
+        state.human_chat = true;
+        turn.trace.push('Atendimento humano aberto');
+      }
+    }
+
+    turns.push(turn);
+  }
+
+  return { turns, state };
+}
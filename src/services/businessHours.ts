@@ -0,0 +1,227 @@
+import moment from 'moment-timezone';
+import { BusinessHours, Holiday, OffHoursMode, TimeRange, WeekDay, WeeklySchedule } from '../models/BusinessHours';
+
+export const WEEK_DAYS: WeekDay[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const WEEK_DAY_LABELS: Record<WeekDay, string> = {
+  sunday: 'Domingo',
+  monday: 'Segunda',
+  tuesday: 'Terça',
+  wednesday: 'Quarta',
+  thursday: 'Quinta',
+  friday: 'Sexta',
+  saturday: 'Sábado'
+};
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+// Horário usado enquanto o gestor não configura o seu (o mesmo que era exibido na mensagem de fallback)
+export const DEFAULT_WEEKLY_SCHEDULE: WeeklySchedule = {
+  monday: [{ start: '06:00', end: '22:00' }],
+  tuesday: [{ start: '06:00', end: '22:00' }],
+  wednesday: [{ start: '06:00', end: '22:00' }],
+  thursday: [{ start: '06:00', end: '22:00' }],
+  friday: [{ start: '06:00', end: '22:00' }],
+  saturday: [{ start: '06:00', end: '18:00' }],
+  sunday: [{ start: '08:00', end: '20:00' }]
+};
+
+export const DEFAULT_OFF_HOURS_MESSAGE = `🌙 *Estamos fora do horário de atendimento.*
+
+⏰ *Horário de Atendimento:*
+{HORARIO_ATENDIMENTO}
+
+Sua mensagem foi registrada e um operador entrará em contato {PROXIMA_ABERTURA}. Obrigado pela paciência! 🙏`;
+
+// Configuração efetiva do gestor (sem cadastro = horário padrão, sempre disponível para transferência)
+export interface ResolvedBusinessHours {
+  timezone: string;
+  weekly_schedule: WeeklySchedule;
+  holidays: Holiday[];
+  off_hours_mode: OffHoursMode;
+  off_hours_message: string;
+  is_enabled: boolean;
+}
+
+export const resolveBusinessHours = (config: BusinessHours | null): ResolvedBusinessHours => ({
+  timezone: config?.timezone || DEFAULT_TIMEZONE,
+  weekly_schedule: config ? config.weekly_schedule : DEFAULT_WEEKLY_SCHEDULE,
+  holidays: config?.holidays || [],
+  off_hours_mode: config?.off_hours_mode || 'queue',
+  off_hours_message: config?.off_hours_message || DEFAULT_OFF_HOURS_MESSAGE,
+  is_enabled: config?.is_enabled === true
+});
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const getRanges = (config: ResolvedBusinessHours, day: WeekDay): TimeRange[] =>
+  (config.weekly_schedule[day] || []).filter(range => TIME_PATTERN.test(range.start) && TIME_PATTERN.test(range.end));
+
+// Feriado na data informada (no fuso do gestor), se houver
+export const getHoliday = (config: ResolvedBusinessHours, now: Date = new Date()): Holiday | undefined => {
+  const local = moment(now).tz(config.timezone);
+  return config.holidays.find(holiday =>
+    holiday.recurring
+      ? holiday.date.slice(5) === local.format('MM-DD')
+      : holiday.date === local.format('YYYY-MM-DD')
+  );
+};
+
+const isOpenOnMoment = (config: ResolvedBusinessHours, local: moment.Moment): boolean => {
+  if (getHoliday(config, local.toDate())) {
+    return false;
+  }
+  const minutes = local.hours() * 60 + local.minutes();
+  return getRanges(config, WEEK_DAYS[local.day()]).some(range =>
+    minutes >= toMinutes(range.start) && minutes < toMinutes(range.end)
+  );
+};
+
+// Verificar se a equipe está em horário de atendimento
+export function isWithinBusinessHours(config: ResolvedBusinessHours, now: Date = new Date()): boolean {
+  if (!config.is_enabled) {
+    return true;
+  }
+  return isOpenOnMoment(config, moment(now).tz(config.timezone));
+}
+
+// Próximo início de expediente a partir de agora (procura até 14 dias à frente)
+export function getNextOpening(config: ResolvedBusinessHours, now: Date = new Date()): moment.Moment | null {
+  const start = moment(now).tz(config.timezone);
+
+  for (let offset = 0; offset < 14; offset++) {
+    const day = start.clone().add(offset, 'days').startOf('day');
+    if (getHoliday(config, day.toDate())) {
+      continue;
+    }
+
+    const ranges = getRanges(config, WEEK_DAYS[day.day()])
+      .slice()
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+    for (const range of ranges) {
+      const opening = day.clone().add(toMinutes(range.start), 'minutes');
+      if (opening.isAfter(start)) {
+        return opening;
+      }
+    }
+  }
+
+  return null;
+}
+
+const formatTime = (time: string): string => {
+  const [hours, minutes] = time.split(':');
+  return minutes === '00' ? `${parseInt(hours)}h` : `${parseInt(hours)}h${minutes}`;
+};
+
+// Texto do horário semanal, agrupando dias seguidos iguais (ex: "Segunda a Sexta: 6h às 22h")
+export function formatWeeklySchedule(schedule: WeeklySchedule): string {
+  const order: WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  const describe = (day: WeekDay): string =>
+    (schedule[day] || []).map(range => `${formatTime(range.start)} às ${formatTime(range.end)}`).join(' e ');
+
+  const lines: string[] = [];
+  let index = 0;
+  while (index < order.length) {
+    const text = describe(order[index]);
+    let last = index;
+    while (last + 1 < order.length && describe(order[last + 1]) === text) {
+      last++;
+    }
+
+    if (text) {
+      const separator = last === index + 1 ? ' e ' : ' a ';
+      const days = last === index
+        ? WEEK_DAY_LABELS[order[index]]
+        : `${WEEK_DAY_LABELS[order[index]]}${separator}${WEEK_DAY_LABELS[order[last]]}`;
+      lines.push(`${days}: ${text}`);
+    }
+    index = last + 1;
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'Sem horário definido';
+}
+
+// Descrição amigável da próxima abertura (ex: "amanhã às 6h", "segunda às 8h")
+export function describeNextOpening(config: ResolvedBusinessHours, now: Date = new Date()): string {
+  const opening = getNextOpening(config, now);
+  if (!opening) {
+    return 'assim que possível';
+  }
+
+  const today = moment(now).tz(config.timezone).startOf('day');
+  const diff = opening.clone().startOf('day').diff(today, 'days');
+  const time = formatTime(opening.format('HH:mm'));
+
+  if (diff === 0) return `hoje às ${time}`;
+  if (diff === 1) return `amanhã às ${time}`;
+  return `${WEEK_DAY_LABELS[WEEK_DAYS[opening.day()]].toLowerCase()} às ${time}`;
+}
+
+// Substituir as variáveis de horário de atendimento em um texto
+export function applyBusinessHoursVariables(text: string, config: ResolvedBusinessHours, now: Date = new Date()): string {
+  if (!text || !/{(HORARIO_ATENDIMENTO|STATUS_ATENDIMENTO|PROXIMA_ABERTURA)}/.test(text)) {
+    return text;
+  }
+
+  return text
+    .replace(/{HORARIO_ATENDIMENTO}/g, formatWeeklySchedule(config.weekly_schedule))
+    .replace(/{STATUS_ATENDIMENTO}/g, isWithinBusinessHours(config, now) ? 'aberto' : 'fechado')
+    .replace(/{PROXIMA_ABERTURA}/g, describeNextOpening(config, now));
+}
+
+// Validar configuração recebida pela API (retorna lista de erros)
+export function validateBusinessHours(data: any): string[] {
+  const errors: string[] = [];
+
+  if (data.timezone !== undefined && !moment.tz.zone(data.timezone)) {
+    errors.push(`Fuso horário inválido: ${data.timezone}`);
+  }
+
+  if (data.weekly_schedule !== undefined) {
+    if (!data.weekly_schedule || typeof data.weekly_schedule !== 'object' || Array.isArray(data.weekly_schedule)) {
+      errors.push('"weekly_schedule" deve ser um objeto com os dias da semana');
+    } else {
+      for (const [day, ranges] of Object.entries<any>(data.weekly_schedule)) {
+        if (!WEEK_DAYS.includes(day as WeekDay)) {
+          errors.push(`Dia da semana inválido: ${day}`);
+          continue;
+        }
+        if (!Array.isArray(ranges)) {
+          errors.push(`${day}: informe uma lista de intervalos`);
+          continue;
+        }
+        for (const range of ranges) {
+          if (!TIME_PATTERN.test(range?.start) || !TIME_PATTERN.test(range?.end)) {
+            errors.push(`${day}: horários devem estar no formato HH:mm`);
+          } else if (toMinutes(range.start) >= toMinutes(range.end)) {
+            errors.push(`${day}: início (${range.start}) deve ser antes do fim (${range.end})`);
+          }
+        }
+      }
+    }
+  }
+
+  if (data.holidays !== undefined) {
+    if (!Array.isArray(data.holidays)) {
+      errors.push('"holidays" deve ser uma lista');
+    } else {
+      for (const holiday of data.holidays) {
+        if (!holiday || !moment(holiday.date, 'YYYY-MM-DD', true).isValid()) {
+          errors.push(`Feriado com data inválida: ${holiday?.date} (use YYYY-MM-DD)`);
+        }
+      }
+    }
+  }
+
+  if (data.off_hours_mode !== undefined && !['queue', 'reply'].includes(data.off_hours_mode)) {
+    errors.push('"off_hours_mode" deve ser "queue" ou "reply"');
+  }
+
+  return errors;
+}
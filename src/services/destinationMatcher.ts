@@ -0,0 +1,55 @@
+import { Destination } from '../models/Destination';
+import { normalizeForMatching } from './triggerMatcher';
+
+// Termos curtos (siglas como "DF", "LEM") só correspondem quando a mensagem é exatamente o termo
+const SHORT_TERM_LENGTH = 3;
+
+// Nome formal exibido ao cliente: "São Luís - MA"
+export const formatDestinationName = (destination: Destination): string =>
+  destination.state ? `${destination.name} - ${destination.state}` : destination.name;
+
+const getTerms = (destination: Destination): string[] =>
+  [destination.name, ...(destination.aliases || [])]
+    .map(term => normalizeForMatching(term))
+    .filter(term => term !== '');
+
+// Pontuação da correspondência entre a mensagem e um destino (0 = não corresponde)
+const scoreDestination = (destination: Destination, text: string): number => {
+  let best = 0;
+
+  for (const term of getTerms(destination)) {
+    if (text === term) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    if (term.length <= SHORT_TERM_LENGTH) {
+      continue;
+    }
+    // "quero ir para sao luis" contém o nome; "sao" é o começo de "sao luis"
+    if (` ${text} `.includes(` ${term} `) || (text.length > SHORT_TERM_LENGTH && term.startsWith(`${text} `))) {
+      best = Math.max(best, term.length);
+    }
+  }
+
+  return best;
+};
+
+// Encontrar no catálogo o destino mencionado na mensagem (o termo mais longo vence)
+export function findDestination(destinations: Destination[], input: string): Destination | undefined {
+  const text = normalizeForMatching(input);
+  if (!text) {
+    return undefined;
+  }
+
+  let found: Destination | undefined;
+  let bestScore = 0;
+
+  for (const destination of destinations) {
+    const score = scoreDestination(destination, text);
+    if (score > bestScore) {
+      bestScore = score;
+      found = destination;
+    }
+  }
+
+  return found;
+}
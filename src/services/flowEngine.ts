@@ -0,0 +1,384 @@
+import { FlowData, FlowNode, FlowCondition, FlowNodeType } from '../models/MessageProject';
+import { clearFormAnswers, getFieldQuestion, getPendingField, runFormStep, validateFormFields } from './formCollector';
+
+// Resultado de um passo de execução do fluxo para uma mensagem recebida
+export interface FlowStepResult {
+  handled: boolean;              // O fluxo decidiu o que fazer com a mensagem
+  replies: string[];             // Respostas a enviar, na ordem
+  handoff: boolean;              // Um nó "human" foi alcançado
+  handoffMessage: string | null; // Resposta do nó "human" (enviada na transferência)
+  ended: boolean;                // Um nó "end" foi alcançado
+  nextNodeId: string | null;     // Nó onde a conversa fica aguardando (null = recomeçar do início)
+  visitedNodeIds: string[];      // Nós percorridos neste passo
+  variables: Record<string, string>; // Variáveis da conversa após este passo
+  formAnswers: Record<string, string> | null; // Respostas de um nó "form" concluído neste passo
+}
+
+export const FLOW_NODE_TYPES: FlowNodeType[] = ['start', 'message', 'condition', 'options', 'form', 'human', 'end'];
+
+// Limite de nós automáticos percorridos em um passo (proteção contra loops)
+const MAX_STEPS_PER_MESSAGE = 25;
+
+const normalizeText = (text: string): string => (text || '').trim().toLowerCase();
+
+const isNodeActive = (node: FlowNode): boolean => node.data?.active !== false;
+
+const getTriggers = (node: FlowNode): string[] =>
+  (node.data?.triggers || []).filter(trigger => typeof trigger === 'string' && trigger.trim() !== '');
+
+const isWildcardNode = (node: FlowNode): boolean => getTriggers(node).includes('*');
+
+// Verificar se o texto corresponde a algum gatilho específico do nó (ignora "*")
+const matchesTriggers = (node: FlowNode, input: string): boolean => {
+  const text = normalizeText(input);
+  return getTriggers(node).some(trigger => trigger !== '*' && normalizeText(trigger) === text);
+};
+
+// Nós que avançam sozinhos (sem esperar mensagem do cliente) quando alcançados
+const isAutomaticNode = (node: FlowNode): boolean => {
+  if (node.type === 'options' || node.type === 'form' || node.type === 'end') {
+    return getTriggers(node).length === 0;
+  }
+  if (node.type === 'condition') {
+    return (node.data?.conditions || []).some(condition => condition.field || condition.value);
+  }
+  return false;
+};
+
+export const findNode = (flow: FlowData, nodeId: string | null | undefined): FlowNode | undefined =>
+  nodeId ? flow.nodes.find(node => node.id === nodeId) : undefined;
+
+export const findStartNode = (flow: FlowData): FlowNode | undefined =>
+  flow.nodes.find(node => node.type === 'start');
+
+// Conexões de saída de um nó (une "connections" do nó com a lista global, sem duplicar)
+export const getOutgoing = (flow: FlowData, nodeId: string): { target: string; sourceHandle?: string }[] => {
+  const outgoing: { target: string; sourceHandle?: string }[] = [];
+  const seen = new Set<string>();
+
+  for (const connection of flow.connections || []) {
+    if (connection.source === nodeId && !seen.has(`${connection.target}|${connection.sourceHandle || ''}`)) {
+      seen.add(`${connection.target}|${connection.sourceHandle || ''}`);
+      outgoing.push({ target: connection.target, sourceHandle: connection.sourceHandle });
+    }
+  }
+
+  const node = findNode(flow, nodeId);
+  for (const target of node?.connections || []) {
+    if (!outgoing.some(edge => edge.target === target)) {
+      outgoing.push({ target });
+    }
+  }
+
+  return outgoing;
+};
+
+const getChildren = (flow: FlowData, nodeId: string): FlowNode[] =>
+  getOutgoing(flow, nodeId)
+    .map(edge => findNode(flow, edge.target))
+    .filter((node): node is FlowNode => !!node && isNodeActive(node));
+
+// Avaliar uma condição contra a mensagem recebida ou uma variável coletada
+export const evaluateCondition = (
+  condition: FlowCondition,
+  input: string,
+  variables: Record<string, string> = {}
+): boolean => {
+  const field = normalizeText(condition.field);
+  const rawValue = ['', 'message', 'mensagem', 'texto'].includes(field) ? input : variables[condition.field];
+  const actual = normalizeText(rawValue ?? '');
+  const expected = normalizeText(condition.value ?? '');
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'not_contains':
+      return !actual.includes(expected);
+    case 'starts_with':
+      return actual.startsWith(expected);
+    case 'ends_with':
+      return actual.endsWith(expected);
+    case 'regex':
+      try {
+        return new RegExp(condition.value, 'i').test(rawValue ?? '');
+      } catch (e) {
+        return false;
+      }
+    case 'greater_than':
+      return parseFloat(actual) > parseFloat(expected);
+    case 'less_than':
+      return parseFloat(actual) < parseFloat(expected);
+    case 'is_empty':
+      return actual === '';
+    case 'is_not_empty':
+      return actual !== '';
+    default:
+      return false;
+  }
+};
+
+// Montar o texto de um nó de opções (pergunta + lista numerada)
+const buildOptionsPrompt = (node: FlowNode): string => {
+  const header = node.data.response || node.data.title || '';
+  const lines = (node.data.options || []).map(option => `*${option.value}* - ${option.label}`);
+  return [header, lines.join('\n')].filter(Boolean).join('\n\n');
+};
+
+// Escolher o próximo nó a partir do nó atual e da mensagem do cliente
+const selectNext = (flow: FlowData, current: FlowNode, input: string): FlowNode | undefined => {
+  if (current.type === 'options') {
+    const options = current.data.options || [];
+    const text = normalizeText(input);
+    const index = options.findIndex(option =>
+      normalizeText(option.value) === text || normalizeText(option.label) === text
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const outgoing = getOutgoing(flow, current.id);
+    const edge = outgoing.find(item => item.sourceHandle === options[index].id) || outgoing[index];
+    const target = findNode(flow, edge?.target);
+    return target && isNodeActive(target) ? target : undefined;
+  }
+
+  const children = getChildren(flow, current.id);
+
+  // 1º gatilhos específicos, 2º nós automáticos, 3º curingas ("*" ou sem gatilhos)
+  return children.find(child => matchesTriggers(child, input))
+    || children.find(child => isAutomaticNode(child))
+    || children.find(child =>
+      (child.type === 'message' || child.type === 'human' || child.type === 'condition') &&
+      (isWildcardNode(child) || getTriggers(child).length === 0) &&
+      !isAutomaticNode(child)
+    );
+};
+
+// Procurar em todo o fluxo um nó cujo gatilho corresponda exatamente (ex: "menu" em qualquer ponto)
+const findGlobalMatch = (flow: FlowData, input: string): FlowNode | undefined =>
+  flow.nodes.find(node =>
+    isNodeActive(node) &&
+    (node.type === 'message' || node.type === 'human' || node.type === 'condition') &&
+    matchesTriggers(node, input)
+  );
+
+// Executar um passo do fluxo: a partir da posição atual, processar a mensagem recebida
+export function runFlowStep(
+  flow: FlowData,
+  currentNodeId: string | null,
+  input: string,
+  variables: Record<string, string> = {}
+): FlowStepResult {
+  const result: FlowStepResult = {
+    handled: false,
+    replies: [],
+    handoff: false,
+    handoffMessage: null,
+    ended: false,
+    nextNodeId: currentNodeId,
+    visitedNodeIds: [],
+    variables: { ...variables },
+    formAnswers: null
+  };
+
+  const startNode = findStartNode(flow);
+  if (!startNode) {
+    return result;
+  }
+
+  // Conversa nova, encerrada ou em nó inexistente recomeça do início
+  let current = findNode(flow, currentNodeId);
+  if (!current || current.type === 'end' || current.type === 'human') {
+    current = startNode;
+  }
+
+  let next: FlowNode | undefined;
+  const formFields = current.type === 'form' ? current.data.fields || [] : [];
+
+  if (formFields.length > 0 && getPendingField(formFields, result.variables)) {
+    // Formulário em andamento: a mensagem é a resposta do campo pendente
+    const step = runFormStep(formFields, result.variables, input);
+    result.handled = true;
+    result.variables = step.answers;
+    result.replies.push(...step.replies);
+    result.visitedNodeIds.push(current.id);
+
+    if (step.cancelled) {
+      result.variables = clearFormAnswers(formFields, result.variables);
+      result.nextNodeId = null;
+      return result;
+    }
+    if (!step.completed) {
+      return result;
+    }
+
+    result.formAnswers = Object.fromEntries(formFields.map(field => [field.key, step.answers[field.key]]));
+    next = getChildren(flow, current.id)[0];
+    if (!next) {
+      result.nextNodeId = null;
+      return result;
+    }
+  } else {
+    next = selectNext(flow, current, input);
+    if (!next && current.id !== startNode.id) {
+      next = selectNext(flow, startNode, input);
+    }
+    if (!next) {
+      next = findGlobalMatch(flow, input);
+    }
+    if (!next) {
+      return result;
+    }
+
+    result.handled = true;
+
+    // Nó alcançado pela mensagem do cliente pode guardá-la em uma variável
+    if (next.data?.variable) {
+      result.variables[next.data.variable] = input.trim();
+    }
+  }
+
+  let node: FlowNode | undefined = next;
+  let steps = 0;
+
+  while (node && steps < MAX_STEPS_PER_MESSAGE) {
+    steps++;
+    result.visitedNodeIds.push(node.id);
+
+    switch (node.type) {
+      case 'start': {
+        result.nextNodeId = node.id;
+        node = getChildren(flow, node.id).find(child => isAutomaticNode(child));
+        break;
+      }
+
+      case 'message': {
+        if (node.data.response) {
+          result.replies.push(node.data.response);
+        }
+        result.nextNodeId = node.id;
+        node = getChildren(flow, node.id).find(child => isAutomaticNode(child));
+        break;
+      }
+
+      case 'options': {
+        result.replies.push(buildOptionsPrompt(node));
+        result.nextNodeId = node.id;
+        node = undefined;
+        break;
+      }
+
+      case 'form': {
+        // Começar o formulário: descartar respostas anteriores e fazer a primeira pergunta
+        const fields = node.data.fields || [];
+        result.variables = clearFormAnswers(fields, result.variables);
+        if (node.data.response) {
+          result.replies.push(node.data.response);
+        }
+        if (fields.length > 0) {
+          result.replies.push(getFieldQuestion(fields[0]));
+          result.nextNodeId = node.id;
+          node = undefined;
+        } else {
+          result.nextNodeId = node.id;
+          node = getChildren(flow, node.id)[0];
+        }
+        break;
+      }
+
+      case 'condition': {
+        const conditions = (node.data.conditions || []).filter(condition => condition.field || condition.value);
+
+        if (conditions.length === 0) {
+          // Condição baseada em gatilho (formato antigo): comporta-se como mensagem
+          if (node.data.response) {
+            result.replies.push(node.data.response);
+          }
+          result.nextNodeId = node.id;
+          node = getChildren(flow, node.id).find(child => isAutomaticNode(child));
+          break;
+        }
+
+        const passed = conditions.every(condition => evaluateCondition(condition, input, result.variables));
+        const outgoing = getOutgoing(flow, node.id);
+        const edge = passed
+          ? outgoing.find(item => item.sourceHandle === 'true') || outgoing.find(item => item.sourceHandle !== 'false')
+          : outgoing.find(item => item.sourceHandle === 'false') || outgoing.filter(item => !item.sourceHandle)[1];
+
+        result.nextNodeId = node.id;
+        const target = findNode(flow, edge?.target);
+        node = target && isNodeActive(target) ? target : undefined;
+        break;
+      }
+
+      case 'human': {
+        result.handoff = true;
+        result.handoffMessage = node.data.response || null;
+        result.nextNodeId = null;
+        node = undefined;
+        break;
+      }
+
+      case 'end': {
+        if (node.data.response) {
+          result.replies.push(node.data.response);
+        }
+        result.ended = true;
+        result.nextNodeId = null;
+        node = undefined;
+        break;
+      }
+
+      default:
+        node = undefined;
+    }
+  }
+
+  if (steps >= MAX_STEPS_PER_MESSAGE) {
+    console.warn(`⚠️ Fluxo interrompido após ${MAX_STEPS_PER_MESSAGE} nós automáticos - verifique se há loops`);
+  }
+
+  return result;
+}
+
+// Validar estrutura básica de um fluxo antes de salvar
+export function validateFlow(flow: any): string[] {
+  const errors: string[] = [];
+
+  if (!flow || !Array.isArray(flow.nodes)) {
+    return ['Propriedade "nodes" não encontrada ou não é um array'];
+  }
+  if (!Array.isArray(flow.connections)) {
+    errors.push('Propriedade "connections" não encontrada ou não é um array');
+  }
+
+  const ids = new Set<string>();
+  for (const node of flow.nodes) {
+    if (!node || typeof node.id !== 'string' || node.id.trim() === '') {
+      errors.push('Nó sem "id" válido');
+      continue;
+    }
+    if (ids.has(node.id)) {
+      errors.push(`Nó "${node.id}": id duplicado`);
+    }
+    ids.add(node.id);
+    if (!FLOW_NODE_TYPES.includes(node.type)) {
+      errors.push(`Nó "${node.id}": tipo "${node.type}" não suportado`);
+    }
+    if (node.type === 'form') {
+      for (const error of validateFormFields(node.data?.fields)) {
+        errors.push(`Nó "${node.id}": ${error}`);
+      }
+    }
+  }
+
+  if (!flow.nodes.some((node: any) => node?.type === 'start')) {
+    errors.push('O fluxo precisa de um nó do tipo "start"');
+  }
+
+  return errors;
+}
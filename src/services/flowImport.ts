@@ -0,0 +1,252 @@
+import { AutoMessage, CreateMessageData, FlowConnection, FlowData, FlowNode, MessageProject } from '../models/MessageProject';
+import { FLOW_NODE_TYPES } from './flowEngine';
+import { validateFormFields } from './formCollector';
+
+// Versão gravada em metadata.version nos arquivos exportados
+export const FLOW_FILE_VERSION = '1.2';
+
+// Problema encontrado no arquivo (node_id null = problema geral do arquivo)
+export interface FlowIssue {
+  node_id: string | null;
+  message: string;
+}
+
+export interface FlowImportReport {
+  valid: boolean;
+  errors: FlowIssue[];    // Impedem a importação
+  warnings: FlowIssue[];  // Importação possível, mas algo pode não funcionar como esperado
+  summary: {
+    nodes: number;
+    connections: number;
+    auto_messages: number;
+  };
+}
+
+// Mensagem automática gerada a partir de um nó do fluxo
+export type ImportedMessage = Omit<CreateMessageData, 'project_id'>;
+
+const isObject = (value: any): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Conexões do arquivo: a lista global ou, sem ela, as "connections" de cada nó
+const collectConnections = (file: any): FlowConnection[] => {
+  if (Array.isArray(file.connections)) {
+    return file.connections;
+  }
+  return (file.nodes || []).flatMap((node: any) =>
+    (Array.isArray(node?.connections) ? node.connections : []).map((target: string) => ({
+      id: `${node.id}-${target}`,
+      source: node.id,
+      target
+    }))
+  );
+};
+
+// Nós alcançáveis a partir dos nós "start" (seguindo as duas formas de conexão)
+const findReachable = (nodes: FlowNode[], connections: FlowConnection[]): Set<string> => {
+  const children = new Map<string, string[]>();
+  const link = (source: string, target: string) => children.set(source, [...(children.get(source) || []), target]);
+  nodes.forEach(node => (node.connections || []).forEach(target => link(node.id, target)));
+  connections.forEach(connection => link(connection.source, connection.target));
+
+  const reachable = new Set<string>();
+  const pending = nodes.filter(node => node.type === 'start').map(node => node.id);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    pending.push(...(children.get(id) || []));
+  }
+  return reachable;
+};
+
+// Nós "message" e "human" com gatilhos viram mensagens automáticas do projeto
+const toAutoMessage = (node: FlowNode, orderIndex: number): ImportedMessage | null => {
+  const triggers = (node.data?.triggers || []).filter(trigger => typeof trigger === 'string' && trigger.trim() !== '');
+  const response = node.data?.response || '';
+  if ((node.type !== 'message' && node.type !== 'human') || triggers.length === 0) {
+    return null;
+  }
+  if (node.type === 'message' && !response.trim()) {
+    return null;
+  }
+
+  return {
+    trigger_words: triggers,
+    response_text: response,
+    action_type: node.type === 'human' ? (response.trim() ? 'reply_and_handoff' : 'handoff_only') : 'reply',
+    is_active: node.data?.active !== false,
+    order_index: orderIndex
+  };
+};
+
+// Converter o arquivo (formato nodes/connections dos exemplos em templates/) para o FlowData salvo no projeto
+export function normalizeFlowFile(file: any): FlowData {
+  const nodes: FlowNode[] = file.nodes.map((node: any) => ({
+    id: node.id,
+    type: node.type,
+    position: node.position || { x: 0, y: 0 },
+    data: isObject(node.data) ? node.data : { title: node.id },
+    connections: Array.isArray(node.connections) ? node.connections : []
+  }));
+
+  return {
+    metadata: isObject(file.metadata) ? file.metadata : undefined,
+    nodes,
+    connections: collectConnections(file)
+  };
+}
+
+// Mensagens automáticas criadas junto com o projeto importado
+export const extractAutoMessages = (flow: FlowData): ImportedMessage[] =>
+  flow.nodes
+    .map((node, index) => toAutoMessage(node, index))
+    .filter((message): message is ImportedMessage => message !== null);
+
+// Validar um arquivo de fluxo antes de importar, apontando o nó de cada problema
+export function validateFlowFile(file: any): FlowImportReport {
+  const report: FlowImportReport = {
+    valid: false,
+    errors: [],
+    warnings: [],
+    summary: { nodes: 0, connections: 0, auto_messages: 0 }
+  };
+  const error = (node_id: string | null, message: string) => report.errors.push({ node_id, message });
+  const warning = (node_id: string | null, message: string) => report.warnings.push({ node_id, message });
+
+  if (!isObject(file) || !Array.isArray(file.nodes)) {
+    error(null, 'Propriedade "nodes" não encontrada ou não é um array');
+    return report;
+  }
+  if (file.connections !== undefined && !Array.isArray(file.connections)) {
+    error(null, 'Propriedade "connections" deve ser um array');
+  }
+
+  // IDs e tipos
+  const ids = new Set<string>();
+  file.nodes.forEach((node: any, index: number) => {
+    if (!isObject(node) || typeof node.id !== 'string' || node.id.trim() === '') {
+      error(null, `Nó na posição ${index + 1} sem "id" válido`);
+      return;
+    }
+    if (ids.has(node.id)) {
+      error(node.id, 'id duplicado');
+    }
+    ids.add(node.id);
+    if (!FLOW_NODE_TYPES.includes(node.type)) {
+      error(node.id, `tipo "${node.type}" não suportado (use: ${FLOW_NODE_TYPES.join(', ')})`);
+    }
+    if (node.data !== undefined && !isObject(node.data)) {
+      error(node.id, '"data" deve ser um objeto');
+    }
+    if (node.data?.triggers !== undefined &&
+      (!Array.isArray(node.data.triggers) || node.data.triggers.some((trigger: any) => typeof trigger !== 'string'))) {
+      error(node.id, '"triggers" deve ser um array de textos');
+    }
+    if (node.data?.response !== undefined && typeof node.data.response !== 'string') {
+      error(node.id, '"response" deve ser um texto');
+    }
+    if (node.type === 'form') {
+      validateFormFields(node.data?.fields).forEach(message => error(node.id, message));
+    }
+  });
+
+  // Conexões apontando para nós inexistentes
+  file.nodes.forEach((node: any) => {
+    if (!isObject(node) || node.connections === undefined) return;
+    if (!Array.isArray(node.connections)) {
+      error(node.id ?? null, '"connections" do nó deve ser um array de ids');
+      return;
+    }
+    node.connections
+      .filter((target: any) => !ids.has(target))
+      .forEach((target: any) => error(node.id ?? null, `conexão para o nó inexistente "${target}"`));
+  });
+  if (Array.isArray(file.connections)) {
+    file.connections.forEach((connection: any, index: number) => {
+      const label = connection?.id || `conexão ${index + 1}`;
+      if (!ids.has(connection?.source)) {
+        error(connection?.source ?? null, `${label}: nó de origem "${connection?.source}" não existe`);
+      }
+      if (!ids.has(connection?.target)) {
+        error(connection?.source ?? null, `${label}: nó de destino "${connection?.target}" não existe`);
+      }
+    });
+  }
+
+  const starts = file.nodes.filter((node: any) => node?.type === 'start');
+  if (starts.length === 0) {
+    error(null, 'O fluxo precisa de um nó do tipo "start"');
+  } else if (starts.length > 1) {
+    warning(starts[1].id, 'mais de um nó "start": o bot usa o primeiro');
+  }
+
+  if (report.errors.length > 0) {
+    return report;
+  }
+
+  // Avisos sobre nós que não viram mensagens automáticas ou não são alcançados
+  const flow = normalizeFlowFile(file);
+  const reachable = findReachable(flow.nodes, flow.connections);
+  flow.nodes.forEach((node, index) => {
+    if (!reachable.has(node.id)) {
+      warning(node.id, 'nó não é alcançado a partir do "start"');
+    }
+    if ((node.type === 'message' || node.type === 'human') && !toAutoMessage(node, index)) {
+      warning(node.id, node.data?.triggers?.length
+        ? 'nó de mensagem sem "response": não vira mensagem automática'
+        : 'nó sem "triggers": funciona só dentro do fluxo, não vira mensagem automática');
+    }
+  });
+
+  report.valid = true;
+  report.summary = {
+    nodes: flow.nodes.length,
+    connections: flow.connections.length,
+    auto_messages: extractAutoMessages(flow).length
+  };
+  return report;
+}
+
+// Montar o arquivo de exportação; sem fluxo visual salvo, as mensagens automáticas viram nós ligados ao início
+export function buildFlowExport(project: MessageProject, messages: AutoMessage[]): FlowData {
+  const metadata = {
+    version: FLOW_FILE_VERSION,
+    created: new Date().toISOString(),
+    description: project.description || project.name
+  };
+
+  if (project.flow_data?.nodes?.length) {
+    return {
+      metadata,
+      nodes: project.flow_data.nodes,
+      connections: project.flow_data.connections || []
+    };
+  }
+
+  const messageNodes: FlowNode[] = messages.map((message, index) => ({
+    id: `template-${message.id}`,
+    type: message.action_type === 'reply' ? 'message' : 'human',
+    position: { x: 50 + (index % 4) * 250, y: 200 + Math.floor(index / 4) * 150 },
+    data: {
+      title: message.trigger_words[0] || `Mensagem ${message.id}`,
+      triggers: message.trigger_words,
+      response: message.response_text,
+      active: message.is_active
+    },
+    connections: []
+  }));
+
+  const startNode: FlowNode = {
+    id: 'start-1',
+    type: 'start',
+    position: { x: 50, y: 50 },
+    data: { title: 'Início', description: 'Usuário inicia conversa' },
+    connections: messageNodes.map(node => node.id)
+  };
+
+  return {
+    metadata,
+    nodes: [startNode, ...messageNodes],
+    connections: messageNodes.map(node => ({ id: `start-1-${node.id}`, source: 'start-1', target: node.id }))
+  };
+}
@@ -0,0 +1,263 @@
+import moment from 'moment-timezone';
+import { FormField, FormFieldType } from '../models/MessageProject';
+import { DEFAULT_TIMEZONE } from './businessHours';
+import { normalizeForMatching } from './triggerMatcher';
+
+export const FORM_FIELD_TYPES: FormFieldType[] = ['text', 'name', 'cpf', 'date', 'phone', 'email', 'number'];
+
+// Resultado de uma resposta do cliente a um formulário em andamento
+export interface FormStepResult {
+  replies: string[];                 // Mensagens a enviar (erro + nova pergunta, ou próxima pergunta)
+  answers: Record<string, string>;   // Respostas válidas coletadas até agora
+  invalid: boolean;                  // A resposta não passou na validação (a pergunta é repetida)
+  completed: boolean;                // Todos os campos foram respondidos
+  cancelled: boolean;                // O cliente desistiu do preenchimento
+}
+
+// Dados do passageiro pedidos depois que o cliente escolhe um destino disponível
+export const PASSENGER_FORM: FormField[] = [
+  { key: 'passageiro_nome', label: 'Nome completo do passageiro', type: 'name', question: '👤 Qual o *nome completo* do passageiro?' },
+  { key: 'passageiro_cpf', label: 'CPF', type: 'cpf', question: '🆔 Qual o *CPF* do passageiro?' },
+  { key: 'data_viagem', label: 'Data da viagem', type: 'date', question: '📅 Qual a *data da viagem*? (ex: 25/12 ou amanhã)' },
+  { key: 'telefone_contato', label: 'Telefone para contato', type: 'phone', question: '📱 Qual o *telefone para contato* (com DDD)?' }
+];
+
+// Formulários prontos que o bot pode iniciar fora do fluxo visual
+export const BUILTIN_FORMS: Record<string, FormField[]> = {
+  passageiro: PASSENGER_FORM
+};
+
+export const FORM_CANCEL_WORDS = ['cancelar', 'sair', 'parar'];
+const FORM_SKIP_WORDS = ['pular', 'nao sei', 'nao tenho'];
+
+const DEFAULT_ERRORS: Record<FormFieldType, string> = {
+  text: '⚠️ Não entendi sua resposta.',
+  name: '⚠️ Informe o nome completo (nome e sobrenome, apenas letras).',
+  cpf: '⚠️ CPF inválido. Confira os números e envie novamente (ex: 123.456.789-09).',
+  date: '⚠️ Data inválida. Envie no formato DD/MM/AAAA (ex: 25/12/2025) ou "amanhã".',
+  phone: '⚠️ Telefone inválido. Envie com DDD (ex: 63 99999-9999).',
+  email: '⚠️ E-mail inválido. Confira e envie novamente (ex: nome@email.com).',
+  number: '⚠️ Envie apenas números.'
+};
+
+// Verificar os dígitos verificadores do CPF
+export function isValidCPF(value: string): boolean {
+  const digits = (value || '').replace(/\D/g, '');
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) {
+    return false;
+  }
+
+  const checkDigit = (length: number): number => {
+    let sum = 0;
+    for (let index = 0; index < length; index++) {
+      sum += Number(digits[index]) * (length + 1 - index);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+export const formatCPF = (value: string): string =>
+  value.replace(/\D/g, '').replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+
+// Telefone brasileiro com DDD (aceita +55); retorna "(63) 99999-9999" ou null
+export function normalizePhone(value: string): string | null {
+  let digits = (value || '').replace(/\D/g, '');
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    digits = digits.slice(2);
+  }
+  if (digits.length === 11 && digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+  if (digits.length !== 10 && digits.length !== 11) {
+    return null;
+  }
+
+  const ddd = Number(digits.slice(0, 2));
+  if (ddd < 11 || digits[2] === '0' || (digits.length === 11 && digits[2] !== '9')) {
+    return null;
+  }
+
+  const number = digits.slice(2);
+  const split = number.length - 4;
+  return `(${digits.slice(0, 2)}) ${number.slice(0, split)}-${number.slice(split)}`;
+}
+
+// Interpretar uma data digitada pelo cliente ("25/12", "25/12/2025", "2025-12-25", "hoje", "amanhã")
+export function parseDateInput(value: string, now: Date = new Date(), timezone: string = DEFAULT_TIMEZONE): moment.Moment | null {
+  const today = moment(now).tz(timezone).startOf('day');
+  const text = normalizeForMatching(value);
+
+  if (text === 'hoje') return today;
+  if (text === 'amanha') return today.clone().add(1, 'day');
+  if (text === 'depois de amanha') return today.clone().add(2, 'days');
+
+  const trimmed = (value || '').trim();
+  const iso = moment.tz(trimmed, 'YYYY-MM-DD', true, timezone);
+  if (iso.isValid()) {
+    return iso;
+  }
+
+  const match = trimmed.match(/^(\d{1,2})[\/\-.](\d{1,2})(?:[\/\-.](\d{2}|\d{4}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, day, month, year] = match;
+  const fullYear = year ? (year.length === 2 ? 2000 + Number(year) : Number(year)) : today.year();
+  const date = moment.tz({ year: fullYear, month: Number(month) - 1, date: Number(day) }, timezone);
+  if (!date.isValid()) {
+    return null;
+  }
+
+  // Sem ano: uma data que já passou neste ano é do ano seguinte
+  if (!year && date.isBefore(today)) {
+    date.add(1, 'year');
+  }
+
+  return date;
+}
+
+// Validar e normalizar a resposta de um campo (retorna o valor limpo ou a mensagem de erro)
+export function validateFieldValue(
+  field: FormField,
+  input: string,
+  now: Date = new Date(),
+  timezone: string = DEFAULT_TIMEZONE
+): { value: string } | { error: string } {
+  const text = (input || '').trim().replace(/\s+/g, ' ');
+  const error = field.error_message || DEFAULT_ERRORS[field.type] || DEFAULT_ERRORS.text;
+
+  if (field.required === false && (text === '' || FORM_SKIP_WORDS.includes(normalizeForMatching(text)))) {
+    return { value: '' };
+  }
+  if (text === '') {
+    return { error };
+  }
+
+  switch (field.type) {
+    case 'name': {
+      const words = text.split(' ');
+      const valid = words.length >= 2 && words.every(word => /^[\p{L}'.-]+$/u.test(word)) && words[0].length >= 2;
+      return valid ? { value: text } : { error };
+    }
+    case 'cpf':
+      return isValidCPF(text) ? { value: formatCPF(text) } : { error };
+    case 'date': {
+      const date = parseDateInput(text, now, timezone);
+      if (!date) {
+        return { error };
+      }
+      if (!field.allow_past && date.isBefore(moment(now).tz(timezone).startOf('day'))) {
+        return { error: '⚠️ Essa data já passou. Envie uma data a partir de hoje.' };
+      }
+      return { value: date.format('DD/MM/YYYY') };
+    }
+    case 'phone': {
+      const phone = normalizePhone(text);
+      return phone ? { value: phone } : { error };
+    }
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(text) ? { value: text.toLowerCase() } : { error };
+    case 'number': {
+      const number = text.replace(',', '.');
+      return /^-?\d+(\.\d+)?$/.test(number) ? { value: number } : { error };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+// Pergunta enviada ao cliente para um campo
+export const getFieldQuestion = (field: FormField): string =>
+  field.question || `Por favor, informe: *${field.label}*`;
+
+// Próximo campo ainda sem resposta
+export const getPendingField = (fields: FormField[], answers: Record<string, string>): FormField | undefined =>
+  fields.find(field => answers[field.key] === undefined);
+
+// Remover respostas anteriores dos campos (ao iniciar o formulário de novo)
+export function clearFormAnswers(fields: FormField[], variables: Record<string, string>): Record<string, string> {
+  const cleared = { ...variables };
+  for (const field of fields) {
+    delete cleared[field.key];
+  }
+  return cleared;
+}
+
+// Processar a resposta do cliente para o campo pendente do formulário
+export function runFormStep(
+  fields: FormField[],
+  answers: Record<string, string>,
+  input: string,
+  now: Date = new Date(),
+  timezone: string = DEFAULT_TIMEZONE
+): FormStepResult {
+  const result: FormStepResult = { replies: [], answers: { ...answers }, invalid: false, completed: false, cancelled: false };
+
+  const field = getPendingField(fields, result.answers);
+  if (!field) {
+    result.completed = true;
+    return result;
+  }
+
+  if (FORM_CANCEL_WORDS.includes(normalizeForMatching(input))) {
+    result.cancelled = true;
+    result.replies.push('❌ Preenchimento cancelado. Quando quiser, é só chamar! 😊');
+    return result;
+  }
+
+  const check = validateFieldValue(field, input, now, timezone);
+  if ('error' in check) {
+    result.invalid = true;
+    result.replies.push(check.error, getFieldQuestion(field));
+    return result;
+  }
+
+  result.answers[field.key] = check.value;
+
+  const next = getPendingField(fields, result.answers);
+  if (next) {
+    result.replies.push(getFieldQuestion(next));
+  } else {
+    result.completed = true;
+  }
+
+  return result;
+}
+
+// Resumo das respostas para o cliente e para o operador ("*Rótulo:* valor" por linha)
+export const formatFormAnswers = (fields: FormField[], answers: Record<string, string>): string =>
+  fields
+    .filter(field => answers[field.key])
+    .map(field => `*${field.label}:* ${answers[field.key]}`)
+    .join('\n');
+
+// Validar os campos de um formulário (nó "form" do fluxo)
+export function validateFormFields(fields: any): string[] {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return ['informe ao menos um campo'];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  for (const field of fields) {
+    if (!field || typeof field.key !== 'string' || !/^[A-Za-z_][\w]*$/.test(field.key)) {
+      errors.push(`campo com chave inválida: ${field?.key}`);
+      continue;
+    }
+    if (keys.has(field.key)) {
+      errors.push(`campo "${field.key}" duplicado`);
+    }
+    keys.add(field.key);
+    if (!FORM_FIELD_TYPES.includes(field.type)) {
+      errors.push(`campo "${field.key}": tipo "${field.type}" não suportado`);
+    }
+    if (!field.label || typeof field.label !== 'string') {
+      errors.push(`campo "${field.key}": informe o rótulo`);
+    }
+  }
+  return errors;
+}
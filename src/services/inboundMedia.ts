@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { cleanFileExtension, isAllowedMimeType } from './attachmentStorage';
+
+export type InboundMessageType = 'text' | 'image' | 'audio' | 'video' | 'document' | 'location';
+
+// Mídia recebida de contatos (comprovantes, áudios, documentos), servida apenas pela rota autenticada
+export const INBOUND_MEDIA_DIR = path.resolve(process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads'), 'inbound');
+
+// Arquivos maiores que o limite não são guardados (a mensagem fica registrada sem a mídia)
+export const MAX_INBOUND_MEDIA_SIZE = (parseInt(process.env.MAX_INBOUND_MEDIA_SIZE_MB || '16') || 16) * 1024 * 1024;
+
+// Tipo do WhatsApp (msg.type) -> tipo salvo em messages.message_type
+const MESSAGE_TYPES: Record<string, InboundMessageType> = {
+  chat: 'text',
+  image: 'image',
+  sticker: 'image',
+  audio: 'audio',
+  ptt: 'audio',
+  video: 'video',
+  document: 'document',
+  location: 'location'
+};
+
+// Extensão do arquivo quando o WhatsApp não informa o nome (áudios e fotos)
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/wav': '.wav',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf'
+};
+
+// Nome gerado: "<gestor>_<timestamp>_<aleatório>.<ext>"
+const FILE_NAME_PATTERN = /^\d+_\d+_[a-f0-9]{16}(\.[a-z0-9]{1,8})?$/;
+
+// Mídia baixada pelo whatsapp-web.js (msg.downloadMedia())
+export interface DownloadedMedia {
+  mimetype: string;
+  data: string;             // Conteúdo em base64
+  filename?: string | null;
+}
+
+export interface StoredInboundMedia {
+  file_name: string;
+  mime_type: string;
+  size: number;
+  original_name: string | null;
+}
+
+export const toInboundMessageType = (whatsappType: string | undefined): InboundMessageType =>
+  MESSAGE_TYPES[whatsappType || 'chat'] || 'text';
+
+// Tipo sem parâmetros: "audio/ogg; codecs=opus" -> "audio/ogg"
+export const baseMimeType = (mimeType: string): string => (mimeType || '').split(';')[0].trim().toLowerCase();
+
+// Motivo para não guardar a mídia (null = pode guardar)
+export function validateInboundMedia(type: InboundMessageType, mimeType: string, size: number): string | null {
+  if (type === 'text' || type === 'location') {
+    return 'Mensagem sem arquivo';
+  }
+  // Fotos enviadas "como documento" mantêm a qualidade original (comum em comprovantes)
+  const allowed = isAllowedMimeType(type, baseMimeType(mimeType)) ||
+    (type === 'document' && isAllowedMimeType('image', baseMimeType(mimeType)));
+  if (!allowed) {
+    return `Tipo de arquivo não permitido (${baseMimeType(mimeType) || 'desconhecido'})`;
+  }
+  if (size > MAX_INBOUND_MEDIA_SIZE) {
+    return `Arquivo maior que ${MAX_INBOUND_MEDIA_SIZE / 1024 / 1024}MB`;
+  }
+  return null;
+}
+
+// Caminho absoluto da mídia (null para nomes inválidos, evitando acesso fora da pasta)
+export function getInboundMediaPath(fileName: string | null): string | null {
+  if (!fileName || !FILE_NAME_PATTERN.test(fileName)) {
+    return null;
+  }
+  return path.join(INBOUND_MEDIA_DIR, fileName);
+}
+
+export const getInboundMediaUrl = (messageId: number): string => `/api/messages/media/${messageId}`;
+
+// Apagar a mídia gravada (ex: a mensagem não chegou a ser salva); arquivo inexistente é ignorado
+export async function deleteInboundMedia(fileName: string | null | undefined): Promise<void> {
+  const filePath = getInboundMediaPath(fileName || null);
+  if (!filePath) {
+    return;
+  }
+  await fs.promises.unlink(filePath).catch(() => undefined);
+}
+
+// Validar e gravar a mídia recebida; retorna o arquivo salvo ou o motivo de não salvar
+export async function saveInboundMedia(
+  managerId: number,
+  type: InboundMessageType,
+  media: DownloadedMedia
+): Promise<{ media: StoredInboundMedia } | { error: string }> {
+  const content = Buffer.from(media.data || '', 'base64');
+  const mimeType = baseMimeType(media.mimetype);
+
+  const error = validateInboundMedia(type, mimeType, content.length);
+  if (error) {
+    return { error };
+  }
+
+  await fs.promises.mkdir(INBOUND_MEDIA_DIR, { recursive: true });
+
+  // Nome sem extensão válida ("foto." ou "doc.é") usa a extensão do tipo do arquivo
+  const extension = cleanFileExtension(media.filename) || EXTENSIONS[mimeType] || '';
+  const fileName = `${managerId}_${Date.now()}_${crypto.randomBytes(8).toString('hex')}${extension}`;
+  await fs.promises.writeFile(path.join(INBOUND_MEDIA_DIR, fileName), content);
+
+  return {
+    media: {
+      file_name: fileName,
+      mime_type: mimeType,
+      size: content.length,
+      original_name: media.filename ? media.filename.slice(0, 255) : null
+    }
+  };
+}
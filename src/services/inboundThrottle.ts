@@ -0,0 +1,36 @@
+import { normalizeForMatching } from './triggerMatcher';
+
+// Tempo de espera por novas mensagens do mesmo contato antes de o bot responder (rajada = um só turno)
+export const BURST_WINDOW_MS = parseInt(process.env.INBOUND_BURST_WINDOW_MS || '1500') || 0;
+
+// Limite de mensagens por contato na janela; acima disso o bot deixa de responder até a janela passar
+export const FLOOD_MAX_MESSAGES = parseInt(process.env.FLOOD_MAX_MESSAGES || '8') || 8;
+export const FLOOD_WINDOW_MS = (parseInt(process.env.FLOOD_WINDOW_SECONDS || '60') || 60) * 1000;
+
+// Registrar uma mensagem no histórico recente do contato (apenas o que está dentro da janela)
+export function registerInbound(
+  history: number[],
+  now: number,
+  maxMessages: number = FLOOD_MAX_MESSAGES,
+  windowMs: number = FLOOD_WINDOW_MS
+): { history: number[]; limited: boolean } {
+  const recent = history.filter(timestamp => now - timestamp < windowMs);
+  recent.push(now);
+  return { history: recent, limited: recent.length > maxMessages };
+}
+
+// Textos de uma rajada sem repetições ("oi", "oi", "Oi!" contam uma vez), na ordem em que chegaram.
+// Servem só para o rastreamento: o bot responde a partir da última mensagem, sem juntar os textos
+export function dedupeBurstTexts(texts: string[]): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  for (const text of texts) {
+    const normalized = normalizeForMatching(text);
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    merged.push(text.trim());
+  }
+
+  return merged;
+}
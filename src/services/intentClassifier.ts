@@ -0,0 +1,185 @@
+import { AutoMessage } from '../models/MessageProject';
+import { allowedTypos, levenshtein, normalizeForMatching } from './triggerMatcher';
+
+// Texto de exemplo e a mensagem automática que deveria responder a ele
+export interface IntentExample {
+  text: string;
+  message_id: number;
+}
+
+// Contagens por mensagem automática (Naive Bayes multinomial)
+export interface IntentLabelStats {
+  examples: number;
+  tokens: number;
+  counts: Record<string, number>;
+}
+
+// Classificador treinado de um projeto (salvo como JSON)
+export interface IntentClassifierData {
+  labels: Record<string, IntentLabelStats>;
+  vocabulary: string[];
+  examples: number;
+}
+
+export interface IntentPrediction {
+  message_id: number;
+  confidence: number;   // Probabilidade da mensagem, reduzida quando há palavras desconhecidas (0 a 1)
+  tokens: string[];     // Palavras usadas na classificação (após correção de digitação)
+}
+
+export interface IntentSettingsInput {
+  is_enabled?: any;
+  confidence_threshold?: any;
+}
+
+export const DEFAULT_INTENT_THRESHOLD = 0.6;
+export const MIN_INTENT_THRESHOLD = 0.3;
+
+// Palavras frequentes que não indicam intenção
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos',
+  'para', 'pra', 'pro', 'por', 'com', 'e', 'ou', 'que', 'eu', 'me', 'mim', 'meu', 'minha', 'se', 'ao', 'aos',
+  'voce', 'vc', 'oi', 'ola', 'favor', 'pf', 'pfv', 'obrigado', 'obrigada', 'ai', 'la', 'ja', 'ta'
+]);
+
+// Plural simples: "passagens" e "passagem" ficam próximos; "onibus" perde o "s" dos dois lados igualmente
+const stem = (word: string): string => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word);
+
+// Palavras (sem acentos, stopwords, números e plural) e pares de palavras vizinhas
+export function tokenizeIntent(text: string): string[] {
+  const words = normalizeForMatching(text)
+    .split(' ')
+    .filter(word => word !== '' && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+
+  const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+// Exemplos de treino: gatilhos das mensagens automáticas e mensagens já respondidas por elas.
+// Ficam de fora "*", gatilhos de cidade e expressões regulares (não são frases de cliente)
+export function buildTrainingExamples(messages: AutoMessage[], history: IntentExample[] = []): IntentExample[] {
+  const examples: IntentExample[] = [];
+  const labels = new Set<number>();
+
+  for (const message of messages) {
+    if (!message.is_active || message.match_mode === 'regex' || message.trigger_words.includes('*')) continue;
+
+    for (const trigger of message.trigger_words) {
+      if (trigger.startsWith('CIDADE_')) continue;
+      examples.push({ text: trigger, message_id: message.id });
+      labels.add(message.id);
+    }
+  }
+
+  // Histórico só de mensagens que continuam treinadas pelos gatilhos (as removidas ficam de fora)
+  return examples.concat(history.filter(example => labels.has(example.message_id)));
+}
+
+// Treinar o classificador (contagem de palavras por mensagem automática)
+export function trainIntentClassifier(examples: IntentExample[]): IntentClassifierData {
+  const labels: Record<string, IntentLabelStats> = {};
+  const vocabulary = new Set<string>();
+  let total = 0;
+
+  for (const example of examples) {
+    const tokens = tokenizeIntent(example.text);
+    if (tokens.length === 0) continue;
+
+    const stats = labels[example.message_id] || (labels[example.message_id] = { examples: 0, tokens: 0, counts: {} });
+    stats.examples++;
+    total++;
+    for (const token of tokens) {
+      stats.counts[token] = (stats.counts[token] || 0) + 1;
+      stats.tokens++;
+      vocabulary.add(token);
+    }
+  }
+
+  return { labels, vocabulary: [...vocabulary], examples: total };
+}
+
+// Palavra desconhecida com erro de digitação vira a palavra conhecida mais próxima
+const correctToken = (token: string, vocabulary: Set<string>): string | null => {
+  if (vocabulary.has(token)) return token;
+  if (token.includes(' ')) return null;
+
+  const maxDistance = allowedTypos(token);
+  let best: { word: string; distance: number } | null = null;
+  for (const word of vocabulary) {
+    if (word.includes(' ')) continue;
+    const distance = levenshtein(token, word);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { word, distance };
+    }
+  }
+  return best ? best.word : null;
+};
+
+// Mensagem automática mais provável para o texto (null sem palavras conhecidas).
+// allowedIds limita às mensagens que podem responder agora (ex: ativas no conteúdo publicado)
+export function classifyIntent(
+  model: IntentClassifierData,
+  text: string,
+  allowedIds?: number[]
+): IntentPrediction | null {
+  const vocabulary = new Set(model.vocabulary);
+  const words = tokenizeIntent(text).filter(token => !token.includes(' '));
+  if (words.length === 0) return null;
+
+  // Corrigir palavras e remontar os pares com as palavras corrigidas
+  const corrected = words.map(word => correctToken(word, vocabulary));
+  const known = corrected.filter((word): word is string => word !== null);
+  if (known.length === 0) return null;
+
+  const pairs = corrected.slice(1)
+    .map((word, index) => (word && corrected[index] ? `${corrected[index]} ${word}` : null))
+    .filter((pair): pair is string => pair !== null && vocabulary.has(pair));
+  const tokens = [...known, ...pairs];
+
+  const labelIds = Object.keys(model.labels).filter(id => !allowedIds || allowedIds.includes(parseInt(id)));
+  if (labelIds.length === 0) return null;
+
+  const totalExamples = labelIds.reduce((sum, id) => sum + model.labels[id].examples, 0);
+  const scores = labelIds.map(id => {
+    const stats = model.labels[id];
+    let score = Math.log((stats.examples + 1) / (totalExamples + labelIds.length));
+    for (const token of tokens) {
+      score += Math.log(((stats.counts[token] || 0) + 1) / (stats.tokens + vocabulary.size));
+    }
+    return { id, score };
+  });
+
+  // Probabilidades normalizadas (softmax das pontuações em log)
+  const maxScore = Math.max(...scores.map(item => item.score));
+  const weights = scores.map(item => ({ id: item.id, weight: Math.exp(item.score - maxScore) }));
+  const sum = weights.reduce((total, item) => total + item.weight, 0);
+  const best = weights.reduce((top, item) => (item.weight > top.weight ? item : top));
+
+  // Palavras desconhecidas (ex: nome da cidade) reduzem a confiança até a metade
+  const coverage = known.length / words.length;
+
+  return {
+    message_id: parseInt(best.id),
+    confidence: Math.round((best.weight / sum) * (0.5 + coverage / 2) * 1000) / 1000,
+    tokens
+  };
+}
+
+// Validar ativação e limite de confiança do classificador
+export function validateIntentSettings(data: IntentSettingsInput): string[] {
+  const errors: string[] = [];
+
+  if (data.is_enabled !== undefined && typeof data.is_enabled !== 'boolean') {
+    errors.push('is_enabled deve ser true ou false');
+  }
+
+  if (data.confidence_threshold !== undefined) {
+    const threshold = Number(data.confidence_threshold);
+    if (!Number.isFinite(threshold) || threshold < MIN_INTENT_THRESHOLD || threshold > 1) {
+      errors.push(`confidence_threshold deve estar entre ${MIN_INTENT_THRESHOLD} e 1`);
+    }
+  }
+
+  return errors;
+}
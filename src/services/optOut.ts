@@ -0,0 +1,45 @@
+import { Contact } from '../models/Message';
+import { normalizeForMatching } from './triggerMatcher';
+import { FORM_CANCEL_WORDS } from './formCollector';
+
+// Lista de palavras do .env (separadas por vírgula) ou a padrão
+const parseKeywords = (value: string | undefined, defaults: string[]): string[] => {
+  const keywords = (value ? value.split(',') : defaults).map(normalizeForMatching).filter(keyword => keyword !== '');
+  return keywords.length > 0 ? keywords : defaults;
+};
+
+// Mensagem inteira que descadastra o contato (não vale no meio de frases como "que horas sai")
+export const OPT_OUT_KEYWORDS = parseKeywords(process.env.OPT_OUT_KEYWORDS, ['parar', 'sair', 'descadastrar', 'stop']);
+
+// Mensagem inteira que volta a receber mensagens depois do descadastro
+export const OPT_IN_KEYWORDS = parseKeywords(process.env.OPT_IN_KEYWORDS, ['voltar']);
+
+export const OPT_OUT_CONFIRMATION = `✅ Pronto! Você não vai mais receber mensagens nossas por aqui.
+
+Se mudar de ideia, é só enviar *${OPT_IN_KEYWORDS[0].toUpperCase()}*.`;
+
+export const OPT_IN_CONFIRMATION = '👋 Que bom ter você de volta! Você voltou a receber nossas mensagens.';
+
+// Com um formulário em andamento, as palavras de cancelamento ("sair", "parar") cancelam o formulário
+// em vez de descadastrar; as demais ("descadastrar", "stop") continuam descadastrando
+export function isOptOutMessage(text: string, formActive: boolean = false): boolean {
+  const normalized = normalizeForMatching(text);
+  return OPT_OUT_KEYWORDS.includes(normalized) && !(formActive && FORM_CANCEL_WORDS.includes(normalized));
+}
+
+export const isOptInMessage = (text: string): boolean => OPT_IN_KEYWORDS.includes(normalizeForMatching(text));
+
+// Motivo de não enviar mensagens ao contato (null = pode receber do bot e dos atendentes).
+// ignoreOptOut vale só para a confirmação do descadastro, que sai mesmo com o contato já descadastrado
+export function getContactRestriction(
+  contact: Pick<Contact, 'is_blocked' | 'opted_out'>,
+  ignoreOptOut: boolean = false
+): string | null {
+  if (contact.is_blocked) {
+    return 'Contato bloqueado';
+  }
+  if (contact.opted_out && !ignoreOptOut) {
+    return 'O contato pediu para não receber mensagens';
+  }
+  return null;
+}
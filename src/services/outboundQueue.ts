@@ -0,0 +1,25 @@
+// Fila de envio: ritmo por número (instância), novas tentativas e tempo máximo de espera
+
+// Mensagens por minuto que cada número envia (evita bloqueio do WhatsApp por excesso de envios)
+export const OUTBOUND_MESSAGES_PER_MINUTE = parseInt(process.env.OUTBOUND_MESSAGES_PER_MINUTE || '40') || 40;
+export const OUTBOUND_MIN_INTERVAL_MS = Math.ceil(60000 / OUTBOUND_MESSAGES_PER_MINUTE);
+
+// Tentativas de envio antes de marcar a mensagem como falha
+export const OUTBOUND_MAX_ATTEMPTS = parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '5') || 5;
+
+// Mensagens esperando o número reconectar por mais tempo que isso são marcadas como falha
+export const OUTBOUND_MAX_WAIT_HOURS = parseInt(process.env.OUTBOUND_MAX_WAIT_HOURS || '24') || 24;
+
+// Verificação periódica da fila (novas tentativas, números que reconectaram e mensagens enfileiradas pela API);
+// mensagens do bot e do socket são enviadas na hora
+export const OUTBOUND_POLL_MS = 5000;
+
+const FIRST_RETRY_MS = 5000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+// Espera antes da próxima tentativa (5s, 10s, 20s... até 5 minutos)
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(FIRST_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+// A tentativa que falhou foi a última?
+export const isFinalAttempt = (attempts: number): boolean => attempts >= OUTBOUND_MAX_ATTEMPTS;
@@ -0,0 +1,117 @@
+import moment from 'moment-timezone';
+import { MessageProject, ProjectActivation } from '../models/MessageProject';
+import { TimeRange, WeekDay } from '../models/BusinessHours';
+import { TIME_PATTERN, WEEK_DAYS, toMinutes } from './businessHours';
+
+// Projeto que deve responder agora e por quê
+export interface ProjectSelection {
+  project: MessageProject | null;
+  reason: 'scheduled' | 'default' | 'none';
+}
+
+const getRanges = (activation: ProjectActivation, day: WeekDay): TimeRange[] =>
+  (activation.weekly_schedule?.[day] || []).filter(range => TIME_PATTERN.test(range.start) && TIME_PATTERN.test(range.end));
+
+const hasWeeklyWindows = (activation: ProjectActivation): boolean =>
+  WEEK_DAYS.some(day => getRanges(activation, day).length > 0);
+
+// Verificar se o agendamento vale no momento informado (no fuso do gestor)
+export function isActivationActive(activation: ProjectActivation | null, now: Date, timezone: string): boolean {
+  if (!activation) {
+    return false;
+  }
+
+  const local = moment(now).tz(timezone);
+  const date = local.format('YYYY-MM-DD');
+  if (activation.start_date && date < activation.start_date) {
+    return false;
+  }
+  if (activation.end_date && date > activation.end_date) {
+    return false;
+  }
+
+  // Sem janelas semanais: o dia inteiro dentro do período
+  if (!hasWeeklyWindows(activation)) {
+    return true;
+  }
+
+  const minutes = local.hours() * 60 + local.minutes();
+  const today = WEEK_DAYS[local.day()];
+  const yesterday = WEEK_DAYS[(local.day() + 6) % 7];
+
+  const inToday = getRanges(activation, today).some(range => {
+    const start = toMinutes(range.start);
+    const end = toMinutes(range.end);
+    return start < end ? minutes >= start && minutes < end : minutes >= start;
+  });
+  // Janelas que começaram ontem e atravessam a meia-noite
+  const fromYesterday = getRanges(activation, yesterday).some(range =>
+    toMinutes(range.start) > toMinutes(range.end) && minutes < toMinutes(range.end)
+  );
+
+  return inToday || fromYesterday;
+}
+
+// Escolher o projeto da mensagem: agendamento ativo de maior prioridade ou, sem nenhum, o projeto padrão
+export function selectProject(projects: MessageProject[], now: Date, timezone: string): ProjectSelection {
+  const scheduled = projects
+    .filter(project => project.is_active && isActivationActive(project.activation, now, timezone))
+    .sort((a, b) => (b.activation?.priority || 0) - (a.activation?.priority || 0) || b.id - a.id);
+
+  if (scheduled.length > 0) {
+    return { project: scheduled[0], reason: 'scheduled' };
+  }
+
+  const defaultProject = projects.find(project => project.is_active && project.is_default);
+  return defaultProject ? { project: defaultProject, reason: 'default' } : { project: null, reason: 'none' };
+}
+
+// Validar agendamento recebido pela API (retorna lista de erros)
+export function validateActivation(activation: any): string[] {
+  if (activation === null) {
+    return [];
+  }
+  if (!activation || typeof activation !== 'object' || Array.isArray(activation)) {
+    return ['"activation" deve ser um objeto ou null'];
+  }
+
+  const errors: string[] = [];
+  for (const key of ['start_date', 'end_date']) {
+    const value = activation[key];
+    if (value !== undefined && value !== null && !moment(value, 'YYYY-MM-DD', true).isValid()) {
+      errors.push(`"${key}" inválida: ${value} (use YYYY-MM-DD)`);
+    }
+  }
+  if (activation.start_date && activation.end_date && activation.start_date > activation.end_date) {
+    errors.push('"start_date" deve ser antes de "end_date"');
+  }
+
+  const schedule = activation.weekly_schedule;
+  if (schedule !== undefined && schedule !== null) {
+    if (typeof schedule !== 'object' || Array.isArray(schedule)) {
+      errors.push('"weekly_schedule" deve ser um objeto com os dias da semana');
+    } else {
+      for (const [day, ranges] of Object.entries<any>(schedule)) {
+        if (!WEEK_DAYS.includes(day as WeekDay)) {
+          errors.push(`Dia da semana inválido: ${day}`);
+        } else if (!Array.isArray(ranges)) {
+          errors.push(`${day}: informe uma lista de intervalos`);
+        } else if (ranges.some((range: any) => !TIME_PATTERN.test(range?.start) || !TIME_PATTERN.test(range?.end))) {
+          errors.push(`${day}: horários devem estar no formato HH:mm`);
+        } else if (ranges.some((range: any) => range.start === range.end)) {
+          errors.push(`${day}: início e fim não podem ser iguais`);
+        }
+      }
+    }
+  }
+
+  if (activation.priority !== undefined && !Number.isInteger(activation.priority)) {
+    errors.push('"priority" deve ser um número inteiro');
+  }
+
+  if (errors.length === 0 && !activation.start_date && !activation.end_date && !hasWeeklyWindows(activation)) {
+    errors.push('Informe um período (start_date/end_date) ou ao menos uma janela semanal');
+  }
+
+  return errors;
+}
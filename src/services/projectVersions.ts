@@ -0,0 +1,156 @@
+import { AutoMessage, FlowData, FlowNode, MessageProject } from '../models/MessageProject';
+
+// Mensagem automática como fica guardada na versão publicada
+export type SnapshotMessage = Omit<AutoMessage, 'project_id' | 'variant_cursor' | 'created_at' | 'updated_at'>;
+
+// Conteúdo do projeto usado pelo bot (o que é publicado)
+export interface ProjectSnapshot {
+  handoff_keywords: string[];
+  flow_data: FlowData | null;
+  messages: SnapshotMessage[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface SnapshotDiff {
+  has_changes: boolean;
+  handoff_keywords: { added: string[]; removed: string[] };
+  messages: {
+    added: SnapshotMessage[];
+    removed: SnapshotMessage[];
+    changed: { id: number; trigger_words: string[]; changes: FieldChange[] }[];
+  };
+  flow: {
+    nodes_added: string[];
+    nodes_removed: string[];
+    nodes_changed: string[];
+    connections_added: string[];   // "origem -> destino"
+    connections_removed: string[];
+  };
+}
+
+// Campos da mensagem comparados entre versões
+const MESSAGE_FIELDS: (keyof SnapshotMessage)[] = [
+  'trigger_words', 'match_mode', 'response_text', 'response_steps', 'variant_mode',
+  'action_type', 'attachment', 'is_active', 'order_index'
+];
+
+export const emptySnapshot = (): ProjectSnapshot => ({ handoff_keywords: [], flow_data: null, messages: [] });
+
+// JSON com chaves ordenadas (o MySQL reordena as chaves das colunas JSON)
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const isEqual = (a: any, b: any): boolean => stableStringify(a) === stableStringify(b);
+
+// Copiar o rascunho (tabelas do projeto) para uma versão
+export function buildSnapshot(project: MessageProject, messages: AutoMessage[]): ProjectSnapshot {
+  return {
+    handoff_keywords: project.handoff_keywords || [],
+    flow_data: project.flow_data || null,
+    messages: messages.map(message => ({
+      id: message.id,
+      trigger_words: message.trigger_words,
+      match_mode: message.match_mode,
+      response_text: message.response_text,
+      response_steps: message.response_steps,
+      variant_mode: message.variant_mode,
+      action_type: message.action_type,
+      attachment: message.attachment,
+      is_active: !!message.is_active,
+      order_index: message.order_index
+    }))
+  };
+}
+
+// Projeto com o conteúdo de uma versão no lugar do rascunho (o que o bot executa)
+export function applySnapshot(project: MessageProject, snapshot: ProjectSnapshot, publishedAt: Date): MessageProject {
+  return {
+    ...project,
+    handoff_keywords: snapshot.handoff_keywords || [],
+    flow_data: snapshot.flow_data || null,
+    messages: (snapshot.messages || []).map(message => ({
+      ...message,
+      project_id: project.id,
+      variant_cursor: 0,
+      created_at: publishedAt,
+      updated_at: publishedAt
+    }))
+  };
+}
+
+// Nó sem a posição na tela (mover nós não muda o comportamento do bot)
+const nodeContent = (node: FlowNode) => ({ type: node.type, data: node.data, connections: node.connections || [] });
+
+const connectionKeys = (flow: FlowData | null): string[] =>
+  (flow?.connections || []).map(connection => `${connection.source} -> ${connection.target}`);
+
+// Comparar duas versões (from = anterior, to = nova)
+export function diffSnapshots(from: ProjectSnapshot, to: ProjectSnapshot): SnapshotDiff {
+  const fromKeywords = from.handoff_keywords || [];
+  const toKeywords = to.handoff_keywords || [];
+
+  const fromMessages = new Map((from.messages || []).map(message => [message.id, message]));
+  const toMessages = new Map((to.messages || []).map(message => [message.id, message]));
+  const changed: SnapshotDiff['messages']['changed'] = [];
+  toMessages.forEach((message, id) => {
+    const previous = fromMessages.get(id);
+    if (!previous) return;
+    const changes = MESSAGE_FIELDS
+      .filter(field => !isEqual(previous[field], message[field]))
+      .map(field => ({ field, from: previous[field] ?? null, to: message[field] ?? null }));
+    if (changes.length > 0) {
+      changed.push({ id, trigger_words: message.trigger_words, changes });
+    }
+  });
+
+  const fromNodes = new Map((from.flow_data?.nodes || []).map(node => [node.id, node]));
+  const toNodes = new Map((to.flow_data?.nodes || []).map(node => [node.id, node]));
+  const fromConnections = connectionKeys(from.flow_data);
+  const toConnections = connectionKeys(to.flow_data);
+
+  const diff: SnapshotDiff = {
+    has_changes: false,
+    handoff_keywords: {
+      added: toKeywords.filter(keyword => !fromKeywords.includes(keyword)),
+      removed: fromKeywords.filter(keyword => !toKeywords.includes(keyword))
+    },
+    messages: {
+      added: [...toMessages.values()].filter(message => !fromMessages.has(message.id)),
+      removed: [...fromMessages.values()].filter(message => !toMessages.has(message.id)),
+      changed
+    },
+    flow: {
+      nodes_added: [...toNodes.keys()].filter(id => !fromNodes.has(id)),
+      nodes_removed: [...fromNodes.keys()].filter(id => !toNodes.has(id)),
+      nodes_changed: [...toNodes.keys()].filter(id => fromNodes.has(id) && !isEqual(nodeContent(fromNodes.get(id)!), nodeContent(toNodes.get(id)!))),
+      connections_added: toConnections.filter(key => !fromConnections.includes(key)),
+      connections_removed: fromConnections.filter(key => !toConnections.includes(key))
+    }
+  };
+
+  diff.has_changes = diff.handoff_keywords.added.length > 0 || diff.handoff_keywords.removed.length > 0 ||
+    diff.messages.added.length > 0 || diff.messages.removed.length > 0 || diff.messages.changed.length > 0 ||
+    Object.values(diff.flow).some(list => list.length > 0);
+  return diff;
+}
+
+// Arquivos de anexo usados por uma versão
+export const snapshotAttachmentFiles = (snapshot: ProjectSnapshot): string[] =>
+  (snapshot.messages || [])
+    .map(message => message.attachment?.file_name)
+    .filter((fileName): fileName is string => !!fileName);
@@ -0,0 +1,107 @@
+import { AutoMessage, ResponseStep, VariantMode } from '../models/MessageProject';
+
+export const VARIANT_MODES: VariantMode[] = ['random', 'round_robin'];
+
+// Tempo "digitando..." das respostas simples do bot (formulários, fluxo, transferência)
+export const DEFAULT_TYPING_MS = 2000;
+
+// Tempo "digitando..." quando o passo da sequência não define typing_ms (proporcional ao tamanho do texto)
+const MIN_AUTO_TYPING_MS = 1500;
+const MAX_AUTO_TYPING_MS = 5000;
+const TYPING_MS_PER_CHAR = 25;
+
+export const MAX_TYPING_MS = 20000;
+export const MAX_RESPONSE_STEPS = 10;
+
+// Mensagem já escolhida (variação definida) pronta para ser enviada
+export interface PlannedMessage {
+  text: string;
+  typing_ms: number;
+}
+
+export const estimateTypingMs = (text: string): number =>
+  Math.min(MAX_AUTO_TYPING_MS, Math.max(MIN_AUTO_TYPING_MS, (text || '').length * TYPING_MS_PER_CHAR));
+
+// Passos da resposta: a sequência configurada ou, sem ela, o response_text como passo único
+export function getResponseSteps(message: Pick<AutoMessage, 'response_text' | 'response_steps'>): ResponseStep[] {
+  if (Array.isArray(message.response_steps) && message.response_steps.length > 0) {
+    return message.response_steps;
+  }
+  return message.response_text ? [{ text: message.response_text }] : [];
+}
+
+// Verificar se algum passo tem frases alternativas (só então o modo de variação importa)
+export const hasVariants = (steps: ResponseStep[]): boolean =>
+  steps.some(step => (step.alternatives || []).some(text => text && text.trim() !== ''));
+
+// Escolher a frase de cada passo: "random" sorteia; "round_robin" usa o contador da mensagem
+export function planResponse(
+  steps: ResponseStep[],
+  mode: VariantMode = 'random',
+  cursor: number = 0,
+  random: () => number = Math.random
+): PlannedMessage[] {
+  return steps
+    .map(step => {
+      const options = [step.text, ...(step.alternatives || [])].filter(text => text && text.trim() !== '');
+      if (options.length === 0) {
+        return null;
+      }
+      const index = mode === 'round_robin'
+        ? cursor % options.length
+        : Math.floor(random() * options.length);
+      const text = options[index];
+      return {
+        text,
+        typing_ms: step.typing_ms !== undefined && step.typing_ms !== null ? step.typing_ms : estimateTypingMs(text)
+      };
+    })
+    .filter((planned): planned is PlannedMessage => planned !== null);
+}
+
+// Validar a sequência recebida pela API (retorna lista de erros)
+export function validateResponseSteps(steps: any): string[] {
+  if (steps === null || steps === undefined) {
+    return [];
+  }
+  if (!Array.isArray(steps)) {
+    return ['"response_steps" deve ser uma lista'];
+  }
+  if (steps.length > MAX_RESPONSE_STEPS) {
+    return [`A sequência pode ter no máximo ${MAX_RESPONSE_STEPS} mensagens`];
+  }
+
+  const errors: string[] = [];
+  steps.forEach((step: any, index: number) => {
+    const position = index + 1;
+    if (!step || typeof step.text !== 'string' || step.text.trim() === '') {
+      errors.push(`Mensagem ${position}: informe o texto`);
+    }
+    if (step?.alternatives !== undefined && (!Array.isArray(step.alternatives) || step.alternatives.some((text: any) => typeof text !== 'string'))) {
+      errors.push(`Mensagem ${position}: "alternatives" deve ser uma lista de textos`);
+    }
+    if (step?.typing_ms !== undefined && step?.typing_ms !== null &&
+        (!Number.isInteger(step.typing_ms) || step.typing_ms < 0 || step.typing_ms > MAX_TYPING_MS)) {
+      errors.push(`Mensagem ${position}: "typing_ms" deve ser um número entre 0 e ${MAX_TYPING_MS}`);
+    }
+  });
+  return errors;
+}
+
+// Limpar a sequência antes de salvar (remove alternativas vazias; lista vazia = sem sequência)
+export function normalizeResponseSteps(steps: any): ResponseStep[] | null {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return null;
+  }
+  return steps.map((step: any) => {
+    const normalized: ResponseStep = { text: step.text };
+    const alternatives = (step.alternatives || []).filter((text: string) => text.trim() !== '');
+    if (alternatives.length > 0) {
+      normalized.alternatives = alternatives;
+    }
+    if (step.typing_ms !== undefined && step.typing_ms !== null) {
+      normalized.typing_ms = step.typing_ms;
+    }
+    return normalized;
+  });
+}
@@ -0,0 +1,168 @@
+import moment from 'moment-timezone';
+import {
+  ResolvedBusinessHours,
+  DEFAULT_TIMEZONE,
+  formatWeeklySchedule,
+  isWithinBusinessHours,
+  describeNextOpening
+} from './businessHours';
+
+// Dados disponíveis para as respostas do bot
+export interface TemplateContext {
+  contact?: {
+    name?: string | null;
+    phone?: string | null;
+    tags?: string[] | null;
+    notes?: string | null;
+    fields?: Record<string, string> | null; // Dados coletados por formulários (custom_fields)
+  };
+  message?: string;                    // Mensagem recebida do cliente
+  variables?: Record<string, string>;  // Variáveis coletadas na conversa (fluxo/formulários)
+  destination?: string | null;         // Nome formal do destino mencionado (catálogo de destinos)
+  businessHours?: ResolvedBusinessHours;
+  now?: Date;
+  timezone?: string;
+}
+
+export interface RenderResult {
+  text: string;
+  missing: string[]; // Variáveis sem valor (mantidas no texto como estavam)
+}
+
+const WEEK_DAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+// Variáveis prontas, na ordem em que aparecem na documentação do editor
+export const BUILTIN_VARIABLES: { name: string; description: string }[] = [
+  { name: 'name', description: 'Primeiro nome do contato (ou "amigo")' },
+  { name: 'contato.nome', description: 'Nome completo do contato' },
+  { name: 'contato.primeiro_nome', description: 'Primeiro nome do contato' },
+  { name: 'contato.telefone', description: 'Telefone do contato' },
+  { name: 'contato.tags', description: 'Etiquetas do contato, separadas por vírgula' },
+  { name: 'contato.notas', description: 'Anotações do contato' },
+  { name: 'contato.<campo>', description: 'Dado coletado por formulário (ex: {contato.passageiro_cpf})' },
+  { name: 'mensagem', description: 'Mensagem enviada pelo cliente' },
+  { name: 'cidade_digitada', description: 'Mensagem enviada pelo cliente (cidade)' },
+  { name: 'cidade_escolhida', description: 'Mensagem enviada pelo cliente (cidade)' },
+  { name: 'CIDADE_NOME', description: 'Nome formal do destino do catálogo (ou a mensagem do cliente)' },
+  { name: 'data', description: 'Data atual (DD/MM/YYYY) - aceita formato: {data:DD/MM}' },
+  { name: 'hora', description: 'Hora atual (HH:mm)' },
+  { name: 'data_hora', description: 'Data e hora atuais' },
+  { name: 'dia_semana', description: 'Dia da semana atual' },
+  { name: 'saudacao', description: 'Bom dia / Boa tarde / Boa noite' },
+  { name: 'HORARIO_ATENDIMENTO', description: 'Horário de atendimento semanal' },
+  { name: 'STATUS_ATENDIMENTO', description: '"aberto" ou "fechado"' },
+  { name: 'PROXIMA_ABERTURA', description: 'Próximo início de atendimento (ex: "amanhã às 8h")' }
+];
+
+const getFirstName = (name?: string | null): string | undefined =>
+  name && name.trim() ? name.trim().split(' ')[0] : undefined;
+
+// Variáveis de data aceitam formato do moment: {data:DD/MM/YYYY}, {hora:HH[h]mm}
+const DATE_VARIABLES: Record<string, string> = {
+  data: 'DD/MM/YYYY',
+  hora: 'HH:mm',
+  data_hora: 'DD/MM/YYYY HH:mm'
+};
+
+// Resolver o valor de uma variável (undefined = sem valor)
+const resolveVariable = (key: string, format: string | undefined, context: TemplateContext): string | undefined => {
+  const variables = context.variables || {};
+  if (variables[key] !== undefined && variables[key] !== null) {
+    return String(variables[key]);
+  }
+
+  const timezone = context.timezone || context.businessHours?.timezone || DEFAULT_TIMEZONE;
+  const now = moment(context.now || new Date()).tz(timezone);
+
+  if (DATE_VARIABLES[key]) {
+    return now.format(format || DATE_VARIABLES[key]);
+  }
+
+  switch (key) {
+    case 'name':
+      return getFirstName(context.contact?.name) || 'amigo';
+    case 'contato.nome':
+      return context.contact?.name?.trim() || undefined;
+    case 'contato.primeiro_nome':
+      return getFirstName(context.contact?.name);
+    case 'contato.telefone':
+      return context.contact?.phone || undefined;
+    case 'contato.tags':
+      return context.contact?.tags?.length ? context.contact.tags.join(', ') : undefined;
+    case 'contato.notas':
+      return context.contact?.notes || undefined;
+    case 'mensagem':
+    case 'cidade_digitada':
+    case 'cidade_escolhida':
+      return context.message;
+    case 'CIDADE_NOME':
+      return context.destination || context.message;
+    case 'dia_semana':
+      return WEEK_DAY_NAMES[now.day()];
+    case 'saudacao':
+      return now.hours() < 12 ? 'Bom dia' : now.hours() < 18 ? 'Boa tarde' : 'Boa noite';
+    case 'HORARIO_ATENDIMENTO':
+      return context.businessHours ? formatWeeklySchedule(context.businessHours.weekly_schedule) : undefined;
+    case 'STATUS_ATENDIMENTO':
+      return context.businessHours
+        ? (isWithinBusinessHours(context.businessHours, context.now) ? 'aberto' : 'fechado')
+        : undefined;
+    case 'PROXIMA_ABERTURA':
+      return context.businessHours ? describeNextOpening(context.businessHours, context.now) : undefined;
+    default:
+      return key.startsWith('contato.') ? context.contact?.fields?.[key.slice('contato.'.length)] || undefined : undefined;
+  }
+};
+
+// Avaliar a condição de um bloco: "variavel" (tem valor) ou "variavel=valor" (comparação sem maiúsculas)
+const evaluateCondition = (expression: string, context: TemplateContext): boolean => {
+  const [key, expected] = expression.split('=').map(part => part.trim());
+  const value = (resolveVariable(key, undefined, context) || '').trim();
+  if (expected !== undefined) {
+    return value.toLowerCase() === expected.toLowerCase();
+  }
+  return value !== '';
+};
+
+// Blocos mais internos primeiro: {#if x}...{else}...{/if} e {#unless x}...{/unless}
+const CONDITIONAL_BLOCK = /\{#(if|unless) ([^}]+)\}((?:(?!\{#(?:if|unless) )[\s\S])*?)\{\/\1\}/;
+
+const VARIABLE_TOKEN = /\{([A-Za-z_][\w.]*)(?::([^}|]+))?(?:\|([^}]*))?\}/g;
+
+// Renderizar um texto de resposta informando as variáveis que ficaram sem valor
+export function renderTemplateDetailed(template: string, context: TemplateContext = {}): RenderResult {
+  let text = template || '';
+  const missing = new Set<string>();
+
+  let match = CONDITIONAL_BLOCK.exec(text);
+  while (match) {
+    const [block, kind, expression, body] = match;
+    const [whenTrue, whenFalse = ''] = body.split('{else}');
+    const passed = evaluateCondition(expression, context);
+    const output = (kind === 'if' ? passed : !passed) ? whenTrue : whenFalse;
+    text = text.slice(0, match.index) + output + text.slice(match.index + block.length);
+    match = CONDITIONAL_BLOCK.exec(text);
+  }
+
+  text = text.replace(VARIABLE_TOKEN, (token, key: string, format: string | undefined, fallback: string | undefined) => {
+    const value = resolveVariable(key, format, context);
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    missing.add(key);
+    return token;
+  });
+
+  return { text, missing: Array.from(missing) };
+}
+
+// Renderizar um texto de resposta (variáveis desconhecidas permanecem no texto)
+export const renderTemplate = (template: string, context: TemplateContext = {}): string =>
+  renderTemplateDetailed(template, context).text;
+
+// Verificar se o texto menciona alguma das variáveis informadas (evita consultas desnecessárias)
+export const templateUses = (template: string, names: string[]): boolean =>
+  names.some(name => (template || '').includes(name));
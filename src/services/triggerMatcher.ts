@@ -0,0 +1,148 @@
+import { AutoMessage, MatchMode } from '../models/MessageProject';
+
+export const MATCH_MODES: MatchMode[] = ['exact', 'normalized', 'contains', 'starts_with', 'regex', 'fuzzy'];
+
+export const isValidMatchMode = (mode: any): mode is MatchMode => MATCH_MODES.includes(mode);
+
+// Validar modo e gatilhos antes de salvar (retorna a mensagem de erro ou null)
+export function validateMatchConfig(mode: any, triggers: string[] = []): string | null {
+  if (!isValidMatchMode(mode)) {
+    return `Modo de correspondência inválido. Use: ${MATCH_MODES.join(', ')}`;
+  }
+
+  if (mode === 'regex') {
+    for (const trigger of triggers) {
+      if (trigger === '*') continue;
+      try {
+        new RegExp(trigger, 'i');
+      } catch (e) {
+        return `Expressão regular inválida: ${trigger}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Normalizar texto para comparação: minúsculas, sem acentos, emojis ou pontuação e com espaços simples
+// Ex: "Olá!! Bom dia 😀" -> "ola bom dia"
+export const normalizeForMatching = (text: string): string =>
+  (text || '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Distância de edição (Levenshtein) entre duas palavras/frases
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Erros de digitação tolerados conforme o tamanho do gatilho (palavras curtas como "oi" exigem exatidão)
+export const allowedTypos = (trigger: string): number => {
+  if (trigger.length <= 3) return 0;
+  if (trigger.length <= 6) return 1;
+  return 2;
+};
+
+// Correspondência aproximada: a mensagem inteira ou um trecho com o mesmo número de palavras do gatilho
+const fuzzyMatches = (text: string, trigger: string): boolean => {
+  const maxDistance = allowedTypos(trigger);
+  if (levenshtein(text, trigger) <= maxDistance) {
+    return true;
+  }
+
+  const words = text.split(' ');
+  const size = trigger.split(' ').length;
+  for (let i = 0; i + size <= words.length; i++) {
+    if (levenshtein(words.slice(i, i + size).join(' '), trigger) <= maxDistance) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Verificar se a mensagem recebida corresponde a um gatilho no modo informado
+export function matchesTrigger(input: string, trigger: string, mode: MatchMode = 'exact'): boolean {
+  if (!trigger || trigger === '*') {
+    return false;
+  }
+
+  switch (mode) {
+    case 'exact':
+      // Comportamento original: mensagem igual ao gatilho, ignorando maiúsculas/minúsculas
+      return (input || '').trim().toLowerCase() === trigger.trim().toLowerCase();
+
+    case 'regex':
+      try {
+        return new RegExp(trigger, 'i').test(input || '');
+      } catch (e) {
+        console.warn(`⚠️ Expressão regular inválida no gatilho "${trigger}"`);
+        return false;
+      }
+
+    default: {
+      const text = normalizeForMatching(input);
+      const normalizedTrigger = normalizeForMatching(trigger);
+      if (!text || !normalizedTrigger) {
+        return false;
+      }
+
+      switch (mode) {
+        case 'normalized':
+          return text === normalizedTrigger;
+        case 'contains':
+          // Palavras inteiras: "oi" corresponde a "oi pessoal", mas não a "noite"
+          return ` ${text} `.includes(` ${normalizedTrigger} `);
+        case 'starts_with':
+          return text === normalizedTrigger || text.startsWith(`${normalizedTrigger} `);
+        case 'fuzzy':
+          return fuzzyMatches(text, normalizedTrigger);
+        default:
+          return false;
+      }
+    }
+  }
+}
+
+// Verificar se algum gatilho da mensagem automática corresponde ao texto recebido
+export const messageMatches = (autoMessage: AutoMessage, input: string): boolean =>
+  (autoMessage.trigger_words || []).some(trigger =>
+    matchesTrigger(input, trigger, autoMessage.match_mode || 'exact')
+  );
+
+// Encontrar a mensagem automática para o texto recebido (ignora templates curinga "*").
+// Correspondências exatas (após normalização) têm prioridade sobre as parciais/aproximadas,
+// para que "menu" não seja capturado por um template "contains" cadastrado antes.
+export function findMatchingMessage(messages: AutoMessage[], input: string): AutoMessage | undefined {
+  const text = normalizeForMatching(input);
+
+  const exactMatch = messages.find(autoMessage =>
+    autoMessage.match_mode !== 'regex' &&
+    (autoMessage.trigger_words || []).some(trigger =>
+      trigger !== '*' && (matchesTrigger(input, trigger, 'exact') ||
+        (autoMessage.match_mode !== 'exact' && text !== '' && normalizeForMatching(trigger) === text))
+    )
+  );
+
+  return exactMatch || messages.find(autoMessage => messageMatches(autoMessage, input));
+}
+
+// Palavra-chave de atendimento humano do projeto presente na mensagem (palavra inteira, sem acentos)
+export const findHandoffKeyword = (keywords: string[] | undefined, input: string): string | undefined =>
+  (keywords || []).find(keyword => matchesTrigger(input, keyword, 'contains'));
@@ -0,0 +1,136 @@
+import { AutoMessage } from '../models/MessageProject';
+import { UnmatchedMessage } from '../models/UnmatchedMessage';
+import { allowedTypos, levenshtein, normalizeForMatching } from './triggerMatcher';
+
+// Variação de texto dentro de um grupo do relatório
+export interface UnmatchedVariant {
+  normalized_text: string;
+  sample_text: string;
+  occurrences: number;
+  last_seen_at: Date;
+}
+
+// Textos parecidos que caíram no fallback, somados
+export interface UnmatchedGroup {
+  text: string;                        // Variação mais frequente (representa o grupo)
+  total: number;
+  variants: UnmatchedVariant[];
+  last_seen_at: Date;
+  suggested_message_id: number | null; // Mensagem automática cujos gatilhos mais se parecem com o grupo
+}
+
+// Semelhança mínima entre conjuntos de palavras para juntar dois textos no mesmo grupo
+const MIN_WORD_SIMILARITY = 0.6;
+
+const wordSet = (text: string): Set<string> => new Set(text.split(' ').filter(word => word !== ''));
+
+// Proporção de palavras em comum (Jaccard)
+const wordSimilarity = (a: Set<string>, b: Set<string>, minimum = 0): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  // Nem com todas as palavras do menor conjunto em comum a semelhança chegaria ao mínimo
+  if (Math.min(a.size, b.size) / Math.max(a.size, b.size) < minimum) return 0;
+  let common = 0;
+  a.forEach(word => {
+    if (b.has(word)) common++;
+  });
+  return common / (a.size + b.size - common);
+};
+
+// Tamanho máximo dos textos comparados letra a letra (textos maiores só são agrupados pelas palavras)
+const MAX_TYPO_COMPARE_LENGTH = 60;
+
+// Dois textos normalizados são a mesma pergunta: quase as mesmas palavras ou poucos erros de digitação.
+// A comparação por palavras é barata e vem primeiro; a distância de edição só roda em textos curtos de tamanho parecido
+const areSimilar = (a: string, b: string, wordsA: Set<string>, wordsB: Set<string>): boolean => {
+  if (wordSimilarity(wordsA, wordsB, MIN_WORD_SIMILARITY) >= MIN_WORD_SIMILARITY) {
+    return true;
+  }
+
+  const maxDistance = allowedTypos(a.length < b.length ? a : b);
+  if (Math.abs(a.length - b.length) > maxDistance || Math.max(a.length, b.length) > MAX_TYPO_COMPARE_LENGTH) {
+    return false;
+  }
+  return levenshtein(a, b) <= maxDistance;
+};
+
+// Mensagem automática com mais palavras em comum com o grupo (ignora "*" e gatilhos de cidade)
+const suggestMessage = (group: UnmatchedGroup, messages: AutoMessage[]): number | null => {
+  const groupWords = wordSet(group.variants.map(variant => variant.normalized_text).join(' '));
+  let best: { id: number; score: number } | null = null;
+
+  for (const message of messages) {
+    if (message.match_mode === 'regex') continue;
+
+    const triggers = message.trigger_words
+      .filter(trigger => trigger !== '*' && !trigger.startsWith('CIDADE_'))
+      .map(normalizeForMatching);
+    const score = wordSimilarity(groupWords, wordSet(triggers.join(' ')));
+    if (score > 0 && (!best || score > best.score)) {
+      best = { id: message.id, score };
+    }
+  }
+
+  return best ? best.id : null;
+};
+
+// Agrupar os textos sem resposta por semelhança, do grupo mais frequente para o menos frequente
+export function buildUnmatchedReport(entries: UnmatchedMessage[], messages: AutoMessage[] = []): UnmatchedGroup[] {
+  const groups: UnmatchedGroup[] = [];
+  const groupWords = new Map<UnmatchedGroup, Set<string>>();
+  const sorted = [...entries].sort((a, b) => b.occurrences - a.occurrences);
+
+  for (const entry of sorted) {
+    const variant: UnmatchedVariant = {
+      normalized_text: entry.normalized_text,
+      sample_text: entry.sample_text,
+      occurrences: entry.occurrences,
+      last_seen_at: entry.last_seen_at
+    };
+
+    const words = wordSet(entry.normalized_text);
+    const group = groups.find(candidate =>
+      areSimilar(candidate.text, entry.normalized_text, groupWords.get(candidate)!, words)
+    );
+    if (group) {
+      group.variants.push(variant);
+      group.total += entry.occurrences;
+      if (new Date(entry.last_seen_at) > new Date(group.last_seen_at)) {
+        group.last_seen_at = entry.last_seen_at;
+      }
+    } else {
+      const created: UnmatchedGroup = {
+        text: entry.normalized_text,
+        total: entry.occurrences,
+        variants: [variant],
+        last_seen_at: entry.last_seen_at,
+        suggested_message_id: null
+      };
+      groups.push(created);
+      groupWords.set(created, words);
+    }
+  }
+
+  groups.forEach(group => {
+    group.suggested_message_id = suggestMessage(group, messages);
+  });
+
+  return groups.sort((a, b) => b.total - a.total);
+}
+
+// Novos gatilhos para a mensagem a partir dos textos escolhidos, sem repetir os que ela já tem.
+// No modo "exact" o gatilho precisa ser o texto digitado (minúsculo); nos demais vale a forma normalizada
+export function buildTriggersToAdd(message: AutoMessage, entries: UnmatchedMessage[]): string[] {
+  const existing = new Set(message.trigger_words.map(trigger =>
+    message.match_mode === 'exact' ? trigger.trim().toLowerCase() : normalizeForMatching(trigger)
+  ));
+
+  const triggers: string[] = [];
+  for (const entry of entries) {
+    const trigger = message.match_mode === 'exact' ? entry.sample_text.trim().toLowerCase() : entry.normalized_text;
+    if (trigger !== '' && !existing.has(trigger)) {
+      existing.add(trigger);
+      triggers.push(trigger);
+    }
+  }
+  return triggers;
+}
@@ -0,0 +1,49 @@
+// Endereço de uma conversa do WhatsApp: contato (@c.us) ou grupo (@g.us)
+export interface ChatAddress {
+  id: string;        // Telefone do contato ou ID do grupo (guardado em contacts.phone_number)
+  isGroup: boolean;
+}
+
+// Tamanho máximo do prefixo de comando em grupos
+export const MAX_GROUP_PREFIX_LENGTH = 20;
+
+// Separar o ID da conversa (null para status, listas de transmissão e canais)
+export function parseChatId(chatId: string): ChatAddress | null {
+  const match = /^(.+)@(c|g)\.us$/.exec(chatId || '');
+  if (!match) {
+    return null;
+  }
+  return { id: match[1], isGroup: match[2] === 'g' };
+}
+
+export const formatChatId = (id: string, isGroup = false): string => `${id}@${isGroup ? 'g' : 'c'}.us`;
+
+// Texto de uma mensagem de grupo dirigida ao bot, sem a menção ou o prefixo (null = não é para o bot).
+// Ex: "@5563999999999 horários" (mencionado) ou "!bot horários" (prefixo "!bot") -> "horários"
+export function extractGroupCommand(
+  body: string,
+  options: { mentioned: boolean; botNumber?: string | null; prefix?: string | null }
+): string | null {
+  const text = (body || '').trim();
+
+  if (options.mentioned) {
+    return options.botNumber ? text.split(`@${options.botNumber}`).join(' ').replace(/\s+/g, ' ').trim() : text;
+  }
+
+  if (options.prefix && text.toLowerCase().startsWith(options.prefix.toLowerCase())) {
+    return text.slice(options.prefix.length).trim();
+  }
+
+  return null;
+}
+
+// Situação de uma mensagem enviada, a partir da confirmação do WhatsApp (evento message_ack):
+// -1 erro, 0 pendente, 1 enviada ao servidor, 2 entregue no aparelho, 3 lida, 4 áudio/vídeo reproduzido
+export type MessageReceipt = 'sent' | 'delivered' | 'read';
+
+export function ackToReceipt(ack: number): MessageReceipt | null {
+  if (ack >= 3) return 'read';
+  if (ack === 2) return 'delivered';
+  if (ack === 1) return 'sent';
+  return null;
+}
@@ -0,0 +1,12 @@
+import { MockTransport } from './mock';
+import { WhatsAppWebTransport } from './whatsappWeb';
+import { MessagingTransport, TransportKind } from './types';
+
+export * from './types';
+
+// Transporte usado pelas instâncias: "whatsapp" (padrão) ou "mock" (WhatsApp simulado, sem Chrome nem celular)
+export const MESSAGING_TRANSPORT: TransportKind = process.env.MESSAGING_TRANSPORT === 'mock' ? 'mock' : 'whatsapp';
+
+export function createTransport(instanceId: number): MessagingTransport {
+  return MESSAGING_TRANSPORT === 'mock' ? new MockTransport(instanceId) : new WhatsAppWebTransport();
+}
@@ -0,0 +1,216 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { formatChatId, parseChatId } from '../services/whatsappChat';
+import { InboundMessage, MessagingTransport, OutboundLocation, OutboundMedia, SentMessage } from './types';
+
+// Mensagens enviadas guardadas por instância simulada (as mais antigas são descartadas)
+const MAX_SENT_MESSAGES = 500;
+
+// Mensagem enviada pelo sistema para um contato simulado
+export interface MockSentMessage {
+  id: string;
+  to: string;
+  type: 'text' | 'media' | 'location';
+  body: string | null;                 // Texto ou legenda
+  media: { mimetype: string; filename: string; size: number } | null;
+  location: OutboundLocation | null;
+  status: 'sent' | 'delivered' | 'read';
+  timestamp: Date;
+}
+
+// Mensagem de um contato simulado (API /api/mock ou evento mock_inbound do socket)
+export interface MockInboundData {
+  from: string;                        // Telefone ou conversa (5563999999999, ...@c.us ou ...@g.us)
+  body?: string;
+  name?: string;                       // Nome do contato (padrão: o telefone)
+  id?: string;                         // ID da mensagem (repetir um ID simula evento duplicado)
+  type?: string;                       // Tipo do WhatsApp (padrão: chat, ou pelo tipo da mídia)
+  media?: { mimetype: string; data: string; filename?: string };
+  author?: string;                     // Grupos: telefone do participante
+  chat_name?: string;                  // Grupos: nome do grupo
+  mention_bot?: boolean;               // Grupos: mencionar o número do bot
+}
+
+// Transportes simulados em execução (chave = ID da instância)
+const mockTransports = new Map<number, MockTransport>();
+
+export const getMockTransport = (instanceId: number): MockTransport | undefined => mockTransports.get(instanceId);
+
+// Telefone fictício do número simulado (ex: instância 7 -> 550000000007)
+export const mockPhoneNumber = (instanceId: number): string => `55${instanceId.toString().padStart(10, '0')}`;
+
+export function validateMockInbound(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Dados da mensagem são obrigatórios'];
+  }
+  if (typeof data.from !== 'string' || !/^\d+(@[cg]\.us)?$/.test(data.from)) {
+    errors.push('"from" deve ser um telefone (apenas números) ou uma conversa terminada em @c.us ou @g.us');
+  }
+  if (data.body !== undefined && typeof data.body !== 'string') {
+    errors.push('"body" deve ser um texto');
+  }
+  if (!data.body && !data.media) {
+    errors.push('Informe o texto ("body") ou a mídia ("media")');
+  }
+  if (data.media !== undefined && (!data.media || typeof data.media.mimetype !== 'string' || typeof data.media.data !== 'string')) {
+    errors.push('"media" deve ter "mimetype" e "data" (base64)');
+  }
+  if (typeof data.from === 'string' && data.from.endsWith('@g.us') && (typeof data.author !== 'string' || !/^\d+$/.test(data.author))) {
+    errors.push('Mensagens de grupo exigem "author" (telefone do participante)');
+  }
+
+  return errors;
+}
+
+// Tipo do WhatsApp pela mídia (image/png -> image, application/pdf -> document)
+const mediaType = (mimetype: string): string => {
+  const kind = mimetype.split('/')[0];
+  return ['image', 'audio', 'video'].includes(kind) ? kind : 'document';
+};
+
+// Transporte simulado: nada sai do servidor. Contatos são simulados pela API /api/mock e pelo socket,
+// e as mensagens enviadas ficam guardadas para conferência (desenvolvimento local e testes automatizados)
+export class MockTransport extends EventEmitter implements MessagingTransport {
+  readonly kind = 'mock' as const;
+  private ready = false;
+  private failuresLeft = 0;
+  private readonly sentMessages: MockSentMessage[] = [];
+
+  constructor(readonly instanceId: number) {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    mockTransports.set(this.instanceId, this);
+
+    // Conecta na hora, sem QR Code (depois de quem chamou registrar os eventos)
+    setImmediate(() => {
+      this.ready = true;
+      this.emit('ready', mockPhoneNumber(this.instanceId));
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.ready = false;
+    if (mockTransports.get(this.instanceId) === this) {
+      mockTransports.delete(this.instanceId);
+    }
+  }
+
+  getOwnId(): string | null {
+    return this.ready ? formatChatId(mockPhoneNumber(this.instanceId)) : null;
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    return this.record({ to, type: 'text', body: text, media: null, location: null });
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, options: { caption?: string; asDocument?: boolean } = {}): Promise<SentMessage> {
+    return this.record({
+      to,
+      type: 'media',
+      body: options.caption || null,
+      media: { mimetype: media.mimetype, filename: media.filename, size: Buffer.from(media.data, 'base64').length },
+      location: null
+    });
+  }
+
+  async sendLocation(to: string, location: OutboundLocation): Promise<SentMessage> {
+    return this.record({ to, type: 'location', body: null, media: null, location });
+  }
+
+  async sendTyping(): Promise<void> {
+    // Sem "digitando..." na simulação
+  }
+
+  // Simular uma mensagem de um contato; retorna a mensagem entregue ao sistema
+  receive(data: MockInboundData): InboundMessage {
+    if (!this.ready) {
+      throw new Error('Instância simulada não está conectada');
+    }
+
+    const from = data.from.includes('@') ? data.from : formatChatId(data.from);
+    const isGroup = !!parseChatId(from)?.isGroup;
+    const ownId = this.getOwnId();
+    const body = data.body || '';
+
+    const message: InboundMessage = {
+      id: data.id || `mock_${crypto.randomBytes(10).toString('hex')}`,
+      from,
+      author: isGroup && data.author ? formatChatId(data.author) : null,
+      body: data.mention_bot && ownId ? `@${mockPhoneNumber(this.instanceId)} ${body}` : body,
+      type: data.type || (data.media ? mediaType(data.media.mimetype) : 'chat'),
+      hasMedia: !!data.media,
+      mentionedIds: data.mention_bot && ownId ? [ownId] : [],
+      timestamp: new Date(),
+      getContactName: async () => data.name || (isGroup ? data.author : parseChatId(from)?.id) || from,
+      getChatName: async () => (isGroup ? data.chat_name || null : null),
+      downloadMedia: async () => data.media
+        ? { mimetype: data.media.mimetype, data: data.media.data, filename: data.media.filename || null }
+        : null
+    };
+
+    this.emit('message', message);
+    return message;
+  }
+
+  // Simular a confirmação de entrega ou leitura de uma mensagem enviada
+  confirm(messageId: string, status: 'delivered' | 'read'): MockSentMessage | null {
+    const sent = this.sentMessages.find(message => message.id === messageId);
+    if (!sent) {
+      return null;
+    }
+
+    if (sent.status !== 'read') {
+      sent.status = status;
+    }
+    this.emit('receipt', messageId, status);
+    return sent;
+  }
+
+  // Acompanhar as mensagens enviadas aos contatos simulados
+  onSent(listener: (message: MockSentMessage) => void): void {
+    super.on('sent', listener);
+  }
+
+  // Fazer os próximos envios falharem (testar novas tentativas da fila de envio)
+  failNextSends(count: number): void {
+    this.failuresLeft = Math.max(0, count);
+  }
+
+  // Mensagens enviadas, da mais antiga para a mais recente (opcionalmente só as de uma conversa)
+  getSentMessages(to?: string): MockSentMessage[] {
+    return to ? this.sentMessages.filter(message => message.to === to) : [...this.sentMessages];
+  }
+
+  clearSentMessages(): void {
+    this.sentMessages.length = 0;
+  }
+
+  private record(data: Omit<MockSentMessage, 'id' | 'status' | 'timestamp'>): SentMessage {
+    if (!this.ready) {
+      throw new Error('Instância simulada não está conectada');
+    }
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error('Falha de envio simulada');
+    }
+
+    const sent: MockSentMessage = {
+      ...data,
+      id: `true_${data.to}_mock_${crypto.randomBytes(10).toString('hex')}`,
+      status: 'sent',
+      timestamp: new Date()
+    };
+
+    this.sentMessages.push(sent);
+    if (this.sentMessages.length > MAX_SENT_MESSAGES) {
+      this.sentMessages.shift();
+    }
+
+    this.emit('sent', sent);
+    return { id: sent.id };
+  }
+}
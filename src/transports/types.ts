@@ -0,0 +1,66 @@
+// Transporte de mensagens: como o sistema conversa com o WhatsApp (whatsapp-web.js) ou com um
+// WhatsApp simulado (desenvolvimento e testes). O bot, a fila de envio e os atendentes só usam esta interface
+import { DownloadedMedia } from '../services/inboundMedia';
+
+export type TransportKind = 'whatsapp' | 'mock';
+
+// Mensagem recebida de um contato ou grupo
+export interface InboundMessage {
+  id: string | null;           // ID da mensagem no WhatsApp (evita processar a mesma mensagem duas vezes)
+  from: string;                // Conversa: contato (@c.us) ou grupo (@g.us)
+  author: string | null;       // Participante que escreveu (grupos)
+  body: string;                // Texto (ou legenda da mídia)
+  type: string;                // Tipo do WhatsApp: chat, image, ptt, document...
+  hasMedia: boolean;
+  mentionedIds: string[];      // Menções (@c.us) no texto
+  timestamp: Date;
+  getContactName(): Promise<string>;        // Nome do contato que escreveu (ou o número)
+  getChatName(): Promise<string | null>;    // Nome do grupo (null para contatos)
+  downloadMedia(): Promise<DownloadedMedia | null>;
+}
+
+// Arquivo enviado (imagem, áudio, vídeo ou documento)
+export interface OutboundMedia {
+  mimetype: string;
+  data: string;                // Conteúdo em base64
+  filename: string;
+}
+
+export interface OutboundLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+// Mensagem enviada (id = ID do WhatsApp, usado nas confirmações de entrega/leitura)
+export interface SentMessage {
+  id: string | null;
+}
+
+// Eventos do transporte
+export interface TransportEvents {
+  qr: (qr: string) => void;                                          // QR Code para conectar o número
+  ready: (phoneNumber: string) => void;                              // Número conectado
+  disconnected: (reason: string) => void;
+  auth_failure: (message: string) => void;
+  message: (message: InboundMessage) => void;                        // Mensagem recebida
+  receipt: (messageId: string, status: 'delivered' | 'read') => void; // Confirmação de uma mensagem enviada
+}
+
+export interface MessagingTransport {
+  readonly kind: TransportKind;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  // ID do número conectado (ex: 5563999999999@c.us); null antes de conectar
+  getOwnId(): string | null;
+
+  sendText(to: string, text: string): Promise<SentMessage>;
+  sendMedia(to: string, media: OutboundMedia, options?: { caption?: string; asDocument?: boolean }): Promise<SentMessage>;
+  sendLocation(to: string, location: OutboundLocation): Promise<SentMessage>;
+  sendTyping(to: string): Promise<void>;  // "digitando..."
+
+  on<E extends keyof TransportEvents>(event: E, listener: TransportEvents[E]): this;
+}
@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { Client, Location, MessageMedia } from 'whatsapp-web.js';
+import { ackToReceipt } from '../services/whatsappChat';
+import { InboundMessage, MessagingTransport, OutboundLocation, OutboundMedia, SentMessage } from './types';
+
+// Transporte real: WhatsApp Web controlado pelo whatsapp-web.js (Chrome headless + celular pareado pelo QR Code)
+export class WhatsAppWebTransport extends EventEmitter implements MessagingTransport {
+  readonly kind = 'whatsapp' as const;
+  private readonly client: Client;
+
+  constructor() {
+    super();
+
+    this.client = new Client({
+      puppeteer: {
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      }
+    });
+
+    this.client.on('qr', (qr: string) => this.emit('qr', qr));
+    this.client.on('ready', () => this.emit('ready', this.client.info.wid.user));
+    this.client.on('disconnected', (reason: string) => this.emit('disconnected', reason));
+    this.client.on('auth_failure', (message: string) => this.emit('auth_failure', message));
+
+    // Só interessam as confirmações das mensagens enviadas por este número (entregue e lida)
+    this.client.on('message_ack', (message: any, ack: number) => {
+      const receipt = ackToReceipt(ack);
+      if (message?.id?.fromMe && (receipt === 'delivered' || receipt === 'read')) {
+        this.emit('receipt', message.id._serialized, receipt);
+      }
+    });
+
+    this.client.on('message', (msg: any) => this.emit('message', WhatsAppWebTransport.toInboundMessage(msg)));
+  }
+
+  // Mensagem do whatsapp-web.js -> mensagem recebida (contato e grupo só são consultados quando necessário)
+  private static toInboundMessage(msg: any): InboundMessage {
+    return {
+      id: msg.id?._serialized || null,
+      from: msg.from,
+      author: msg.author || null,
+      body: msg.body || '',
+      type: msg.type,
+      hasMedia: !!msg.hasMedia,
+      mentionedIds: msg.mentionedIds || [],
+      timestamp: msg.timestamp ? new Date(msg.timestamp * 1000) : new Date(),
+      getContactName: async () => {
+        const contact = await msg.getContact();
+        return contact.pushname || contact.number;
+      },
+      getChatName: async () => (msg.from.endsWith('@g.us') ? (await msg.getChat()).name || null : null),
+      downloadMedia: async () => (await msg.downloadMedia()) || null
+    };
+  }
+
+  async connect(): Promise<void> {
+    // Sem await: a conexão termina com os eventos "qr" e "ready"
+    this.client.initialize();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.client.destroy();
+  }
+
+  getOwnId(): string | null {
+    return this.client.info?.wid?._serialized || null;
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    const sent = await this.client.sendMessage(to, text);
+    return { id: sent?.id?._serialized || null };
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, options: { caption?: string; asDocument?: boolean } = {}): Promise<SentMessage> {
+    const sent = await this.client.sendMessage(to, new MessageMedia(media.mimetype, media.data, media.filename), {
+      caption: options.caption,
+      sendMediaAsDocument: !!options.asDocument
+    });
+    return { id: sent?.id?._serialized || null };
+  }
+
+  async sendLocation(to: string, location: OutboundLocation): Promise<SentMessage> {
+    const sent = await this.client.sendMessage(to, new Location(location.latitude, location.longitude, {
+      name: location.name,
+      address: location.address
+    }));
+    return { id: sent?.id?._serialized || null };
+  }
+
+  async sendTyping(to: string): Promise<void> {
+    const chat = await this.client.getChatById(to);
+    await chat.sendStateTyping();
+  }
+}